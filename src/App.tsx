@@ -3,16 +3,27 @@ import { Sidebar } from './components/ui/Sidebar'
 import { Dashboard } from './components/Dashboard'
 import { Calendar } from './components/Calendar'
 import { Journal } from './components/Journal'
+import { Plans } from './components/Plans'
 import { Rules } from './components/Rules'
+import { Playbooks } from './components/Playbooks'
+import { Tags } from './components/Tags'
 import { Analytics } from './components/Analytics'
+import { Capital } from './components/Capital'
+import { Trash } from './components/Trash'
 import { Settings } from './components/Settings'
 import { Toaster } from './components/ui/toaster'
+import { UndoRedoShortcuts } from './components/UndoRedo'
+import type { SizedTrade } from './components/PositionSizeCalculator'
 import { ThemeProvider } from './contexts/ThemeContext'
 import './App.css'
 
 function App() {
   const [activePage, setActivePage] = useState('dashboard')
   const [autoOpenCalendar, setAutoOpenCalendar] = useState(false)
+  // Plan handed to the calendar to be converted into a trade
+  const [planToConvert, setPlanToConvert] = useState<string>()
+  // Position sized on the dashboard, handed to the calendar as a new trade
+  const [sizedTrade, setSizedTrade] = useState<SizedTrade>()
 
   const handlePageChange = (page: string, fromComponent?: string) => {
     // Only set autoOpenCalendar to true when navigating from Dashboard or Journal to Calendar
@@ -21,12 +32,30 @@ function App() {
     } else {
       setAutoOpenCalendar(false)
     }
+    setPlanToConvert(undefined)
+    setSizedTrade(undefined)
     setActivePage(page)
   }
 
+  const handleConvertPlan = (planId: string) => {
+    setAutoOpenCalendar(false)
+    setPlanToConvert(planId)
+    setSizedTrade(undefined)
+    setActivePage('calendar')
+  }
+
+  const handleStartSizedTrade = (trade: SizedTrade) => {
+    setAutoOpenCalendar(false)
+    setPlanToConvert(undefined)
+    setSizedTrade(trade)
+    setActivePage('calendar')
+  }
+
   const handleSidebarNavigation = (page: string) => {
     // Sidebar navigation should never auto-open calendar
     setAutoOpenCalendar(false)
+    setPlanToConvert(undefined)
+    setSizedTrade(undefined)
     setActivePage(page)
   }
 
@@ -35,14 +64,20 @@ function App() {
       <div className="w-screen h-screen min-h-0 min-w-0 flex bg-gray-50 dark:bg-gray-900 overflow-hidden">
         <Sidebar active={activePage} onChange={handleSidebarNavigation} />
         <main className="flex-1 h-full min-h-0 min-w-0 overflow-y-auto flex flex-col p-6">
-          {activePage === 'dashboard' && <Dashboard onNavigate={handlePageChange} />}
-          {activePage === 'calendar' && <Calendar autoOpen={autoOpenCalendar} />}
+          {activePage === 'dashboard' && <Dashboard onNavigate={handlePageChange} onStartTrade={handleStartSizedTrade} />}
+          {activePage === 'calendar' && <Calendar autoOpen={autoOpenCalendar} planId={planToConvert} sizedTrade={sizedTrade} />}
           {activePage === 'journal' && <Journal onNavigate={handlePageChange} />}
+          {activePage === 'plans' && <Plans onConvert={handleConvertPlan} />}
           {activePage === 'rules' && <Rules />}
+          {activePage === 'playbooks' && <Playbooks />}
+          {activePage === 'tags' && <Tags />}
           {activePage === 'analytics' && <Analytics />}
+          {activePage === 'capital' && <Capital />}
+          {activePage === 'trash' && <Trash />}
           {activePage === 'settings' && <Settings />}
         </main>
         <Toaster />
+        <UndoRedoShortcuts />
       </div>
     </ThemeProvider>
   )
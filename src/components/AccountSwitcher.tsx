@@ -0,0 +1,63 @@
+import { Wallet } from 'lucide-react'
+import { useTradeStore, ALL_ACCOUNTS } from '@/store/tradeStore'
+
+interface AccountSelectProps {
+  value: string
+  onChange: (accountId: string) => void
+  includeAll?: boolean
+  disabled?: boolean
+  className?: string
+}
+
+// Plain account picker for forms; the switcher below adds the "all accounts" option
+export function AccountSelect({ value, onChange, includeAll, disabled, className = '' }: AccountSelectProps) {
+  const { accounts } = useTradeStore()
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+      className={`w-full px-3 py-2 text-base border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white ${className}`}
+    >
+      {includeAll && <option value={ALL_ACCOUNTS}>All accounts</option>}
+      {accounts.map(account => (
+        <option key={account.id} value={account.id}>
+          {account.name} ({account.currency})
+        </option>
+      ))}
+    </select>
+  )
+}
+
+// Global switcher; every page reads its data through useAccountScope
+export function AccountSwitcher({ collapsed }: { collapsed?: boolean }) {
+  const { accounts, selectedAccountId, setSelectedAccount } = useTradeStore()
+  const selected = accounts.find(a => a.id === selectedAccountId)
+
+  if (collapsed) {
+    return (
+      <div
+        className="flex justify-center py-2 text-gray-500 dark:text-gray-400"
+        title={selected ? selected.name : 'All accounts'}
+      >
+        <Wallet size={20} />
+      </div>
+    )
+  }
+
+  return (
+    <div className="px-4 pt-4">
+      <label className="flex items-center gap-1 text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+        <Wallet size={14} />
+        Account
+      </label>
+      <AccountSelect
+        value={selectedAccountId}
+        onChange={setSelectedAccount}
+        includeAll
+        className="text-sm py-1.5"
+      />
+    </div>
+  )
+}
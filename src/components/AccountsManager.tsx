@@ -0,0 +1,167 @@
+import { useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { AlertDialog, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogCancel, AlertDialogAction } from './ui/alert-dialog'
+import { toast } from './ui/use-toast'
+import { undoToastAction } from './UndoRedo'
+import { useTradeStore, type Account } from '../store/tradeStore'
+import { CURRENCIES } from '../lib/currencies'
+
+const inputClassName = 'w-full p-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 text-sm'
+
+const EMPTY_ACCOUNT = { name: '', initialCapital: '', currency: 'USD' }
+
+export function AccountsManager() {
+  const { accounts, entries, capitalEvents, settings, addAccount, updateAccount, deleteAccount } = useTradeStore()
+  const [newAccount, setNewAccount] = useState({ ...EMPTY_ACCOUNT, currency: settings.currency })
+  const [accountToDelete, setAccountToDelete] = useState<Account | null>(null)
+
+  const handleAdd = () => {
+    const name = newAccount.name.trim()
+    if (!name) return
+    if (accounts.some(a => a.name.toLowerCase() === name.toLowerCase())) {
+      toast({ title: 'Account already exists', description: `An account named "${name}" already exists.`, variant: 'destructive' })
+      return
+    }
+    addAccount({
+      name,
+      initialCapital: parseFloat(newAccount.initialCapital) || 0,
+      currency: newAccount.currency,
+    })
+    setNewAccount({ ...EMPTY_ACCOUNT, currency: settings.currency })
+  }
+
+  const handleDelete = () => {
+    if (!accountToDelete) return
+    deleteAccount(accountToDelete.id)
+    toast({ title: 'Account deleted', description: `"${accountToDelete.name}" was removed and its trades moved to trash.`, action: undoToastAction() })
+    setAccountToDelete(null)
+  }
+
+  const tradeCount = (accountId: string) => entries.filter(e => e.accountId === accountId).length
+  const capitalEventCount = (accountId: string) => capitalEvents.filter(e => e.accountId === accountId).length
+
+  return (
+    <Card className="bg-white dark:bg-gray-800 shadow-sm hover:shadow-md transition-shadow">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold text-gray-900 dark:text-white">Accounts</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {accounts.map(account => (
+          <div key={account.id} className="space-y-2 pb-4 border-b border-gray-200 dark:border-gray-700">
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={account.name}
+                onChange={(e) => updateAccount(account.id, { name: e.target.value })}
+                onBlur={(e) => !e.target.value.trim() && updateAccount(account.id, { name: 'Untitled Account' })}
+                className={inputClassName}
+                aria-label="Account name"
+              />
+              <button
+                onClick={() => setAccountToDelete(account)}
+                disabled={accounts.length <= 1}
+                title={accounts.length <= 1 ? 'At least one account is required' : 'Delete account'}
+                className="p-2 rounded-lg text-gray-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Initial Capital</label>
+                <input
+                  type="number"
+                  value={account.initialCapital}
+                  onChange={(e) => updateAccount(account.id, { initialCapital: parseFloat(e.target.value) || 0 })}
+                  className={inputClassName}
+                  min="0"
+                  step="any"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Currency</label>
+                <select
+                  value={account.currency}
+                  onChange={(e) => updateAccount(account.id, { currency: e.target.value })}
+                  className={inputClassName}
+                >
+                  {CURRENCIES.map(currency => (
+                    <option key={currency.code} value={currency.code}>
+                      {currency.code} ({currency.symbol})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {tradeCount(account.id)} trades · {capitalEventCount(account.id)} deposits/withdrawals
+            </p>
+          </div>
+        ))}
+
+        {/* New account */}
+        <div className="space-y-2">
+          <div className="font-medium text-gray-800 dark:text-gray-200 text-sm">Add Account</div>
+          <input
+            type="text"
+            value={newAccount.name}
+            onChange={(e) => setNewAccount(prev => ({ ...prev, name: e.target.value }))}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            placeholder="e.g. Binance Futures"
+            className={inputClassName}
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="number"
+              value={newAccount.initialCapital}
+              onChange={(e) => setNewAccount(prev => ({ ...prev, initialCapital: e.target.value }))}
+              placeholder="Initial capital"
+              className={inputClassName}
+              min="0"
+              step="any"
+            />
+            <select
+              value={newAccount.currency}
+              onChange={(e) => setNewAccount(prev => ({ ...prev, currency: e.target.value }))}
+              className={inputClassName}
+            >
+              {CURRENCIES.map(currency => (
+                <option key={currency.code} value={currency.code}>
+                  {currency.code} ({currency.symbol})
+                </option>
+              ))}
+            </select>
+          </div>
+          <Button size="sm" onClick={handleAdd} disabled={!newAccount.name.trim()} className="h-9 px-3">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Account
+          </Button>
+        </div>
+      </CardContent>
+
+      <AlertDialog open={accountToDelete !== null} onOpenChange={(open) => !open && setAccountToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Account</AlertDialogTitle>
+            <AlertDialogDescription>
+              {accountToDelete && (
+                <>
+                  Delete "{accountToDelete.name}"? Its {tradeCount(accountToDelete.id)} trades
+                  and {capitalEventCount(accountToDelete.id)} deposits/withdrawals are moved to the trash.
+                </>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700 focus:ring-red-600">
+              Delete Account
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
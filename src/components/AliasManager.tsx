@@ -0,0 +1,244 @@
+import { useMemo, useState } from 'react'
+import { Plus, Trash2, GitMerge } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { toast } from './ui/use-toast'
+import { undoToastAction } from './UndoRedo'
+import { useTradeStore } from '../store/tradeStore'
+import { aliasKey, getTradeNames, type TradeNameKind } from '../lib/aliases'
+
+const inputClassName = 'w-full p-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 text-sm'
+
+// How close a name has to be to an alias to be grouped with it
+const FUZZY_THRESHOLD_OPTIONS = [
+  { value: 1, label: 'Exact aliases only' },
+  { value: 0.9, label: 'Strict (90% similar)' },
+  { value: 0.85, label: 'Balanced (85% similar)' },
+  { value: 0.75, label: 'Loose (75% similar)' }
+]
+
+// Affected trades listed in the merge preview before the rest are summarized
+const PREVIEW_LIMIT = 8
+
+export function AliasManager() {
+  const { settings, entries, updateSettings, mergeTradeNames } = useTradeStore()
+  const [newAlias, setNewAlias] = useState({ alias: '', canonical: '' })
+  const [kind, setKind] = useState<TradeNameKind>('setup')
+  const [selectedNames, setSelectedNames] = useState<string[]>([])
+  const [target, setTarget] = useState('')
+  const [addAliases, setAddAliases] = useState(true)
+
+  const aliases = Object.entries(settings.aliases).sort(([a], [b]) => a.localeCompare(b))
+
+  const handleAddAlias = () => {
+    const alias = aliasKey(newAlias.alias)
+    const canonical = newAlias.canonical.trim()
+    if (!alias || !canonical) return
+    updateSettings({ aliases: { ...settings.aliases, [alias]: canonical } })
+    setNewAlias({ alias: '', canonical: '' })
+  }
+
+  const handleRemoveAlias = (alias: string) => {
+    const { [alias]: _removed, ...rest } = settings.aliases
+    updateSettings({ aliases: rest })
+  }
+
+  // Every spelling in use for the chosen kind, with how many trades use it
+  const namesInUse = useMemo(() => {
+    const counts = new Map<string, number>()
+    entries.forEach(entry => {
+      new Set(getTradeNames(entry, kind).map(name => name.trim()).filter(Boolean)).forEach(name => {
+        counts.set(name, (counts.get(name) ?? 0) + 1)
+      })
+    })
+    return [...counts.entries()].sort(([a], [b]) => a.localeCompare(b))
+  }, [entries, kind])
+
+  const selectedKeys = new Set(selectedNames.map(aliasKey))
+  const affectedTrades = entries
+    .filter(entry => getTradeNames(entry, kind).some(name => selectedKeys.has(aliasKey(name))))
+    .sort((a, b) => b.date.localeCompare(a.date))
+
+  const handleKindChange = (value: TradeNameKind) => {
+    setKind(value)
+    setSelectedNames([])
+    setTarget('')
+  }
+
+  const toggleName = (name: string) => {
+    setSelectedNames(prev => prev.includes(name) ? prev.filter(n => n !== name) : [...prev, name])
+    if (!target) setTarget(name)
+  }
+
+  const handleMerge = () => {
+    if (!target.trim() || selectedNames.length === 0) return
+    mergeTradeNames(kind, selectedNames, target, { addAliases })
+    toast({
+      title: 'Success',
+      description: `Updated ${affectedTrades.length} trade${affectedTrades.length === 1 ? '' : 's'}`,
+      action: undoToastAction()
+    })
+    setSelectedNames([])
+    setTarget('')
+  }
+
+  return (
+    <>
+      <Card className="bg-white dark:bg-gray-800 shadow-sm hover:shadow-md transition-shadow">
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold text-gray-900 dark:text-white">Setup & Coin Aliases</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Alternative spellings are grouped under one name in the dashboard and analytics. Trades themselves are not changed.
+          </p>
+          <div>
+            <div className="mb-2 font-medium text-gray-800 dark:text-gray-200 text-sm">Matching</div>
+            <select
+              value={settings.aliasFuzzyThreshold}
+              onChange={(e) => updateSettings({ aliasFuzzyThreshold: Number(e.target.value) })}
+              className={inputClassName}
+            >
+              {FUZZY_THRESHOLD_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {aliases.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400 italic">No aliases yet</p>
+            ) : aliases.map(([alias, canonical]) => (
+              <div key={alias} className="flex items-center gap-2 text-sm">
+                <span className="flex-1 min-w-0 truncate text-gray-700 dark:text-gray-300">{alias}</span>
+                <span className="text-gray-400">→</span>
+                <span className="flex-1 min-w-0 truncate font-medium text-gray-900 dark:text-white">{canonical}</span>
+                <button
+                  onClick={() => handleRemoveAlias(alias)}
+                  title="Remove alias"
+                  className="p-1.5 rounded-lg text-gray-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {/* New alias */}
+          <div className="space-y-2">
+            <div className="font-medium text-gray-800 dark:text-gray-200 text-sm">Add Alias</div>
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                type="text"
+                value={newAlias.alias}
+                onChange={(e) => setNewAlias(prev => ({ ...prev, alias: e.target.value }))}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddAlias()}
+                placeholder="Spelling, e.g. break & retest"
+                className={inputClassName}
+              />
+              <input
+                type="text"
+                value={newAlias.canonical}
+                onChange={(e) => setNewAlias(prev => ({ ...prev, canonical: e.target.value }))}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddAlias()}
+                placeholder="Group as, e.g. Breakout"
+                className={inputClassName}
+              />
+            </div>
+            <Button size="sm" onClick={handleAddAlias} disabled={!newAlias.alias.trim() || !newAlias.canonical.trim()} className="h-9 px-3">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Alias
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-white dark:bg-gray-800 shadow-sm hover:shadow-md transition-shadow">
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold text-gray-900 dark:text-white">Rename & Merge</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Rename a setup or coin on every trade, or merge several into one.
+          </p>
+          <div className="inline-flex rounded-md bg-gray-100 dark:bg-gray-700 p-0.5 text-sm">
+            {(['setup', 'coin'] as TradeNameKind[]).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => handleKindChange(option)}
+                className={`px-3 py-1 rounded font-medium transition-colors ${
+                  kind === option
+                    ? 'bg-white dark:bg-gray-900 text-gray-900 dark:text-white shadow-sm'
+                    : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+                }`}
+              >
+                {option === 'setup' ? 'Setups' : 'Coins'}
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-1 max-h-48 overflow-y-auto">
+            {namesInUse.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400 italic">No {kind}s used in trades yet</p>
+            ) : namesInUse.map(([name, count]) => (
+              <label key={name} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selectedNames.includes(name)}
+                  onChange={() => toggleName(name)}
+                  className="rounded border-gray-300"
+                />
+                <span className="flex-1 truncate">{name}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">{count} trade{count === 1 ? '' : 's'}</span>
+              </label>
+            ))}
+          </div>
+
+          <div>
+            <div className="mb-2 font-medium text-gray-800 dark:text-gray-200 text-sm">New Name</div>
+            <input
+              type="text"
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              placeholder={kind === 'setup' ? 'e.g. Breakout' : 'e.g. BTC'}
+              className={inputClassName}
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={addAliases}
+              onChange={(e) => setAddAliases(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            Keep the old names as aliases
+          </label>
+
+          {selectedNames.length > 0 && (
+            <div className="rounded-lg border border-gray-200 dark:border-gray-700 p-3 space-y-1">
+              <div className="text-sm font-medium text-gray-800 dark:text-gray-200">
+                {affectedTrades.length} trade{affectedTrades.length === 1 ? '' : 's'} will be updated
+              </div>
+              {affectedTrades.slice(0, PREVIEW_LIMIT).map(entry => (
+                <div key={entry.id} className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                  {entry.date} · {entry.coin || 'No coin'} · {entry.setup.join(', ') || 'No setup'}
+                </div>
+              ))}
+              {affectedTrades.length > PREVIEW_LIMIT && (
+                <div className="text-xs text-gray-400">and {affectedTrades.length - PREVIEW_LIMIT} more</div>
+              )}
+            </div>
+          )}
+
+          <Button size="sm" onClick={handleMerge} disabled={!target.trim() || selectedNames.length === 0} className="h-9 px-3">
+            <GitMerge className="h-4 w-4 mr-2" />
+            {selectedNames.length > 1 ? 'Merge' : 'Rename'}
+          </Button>
+        </CardContent>
+      </Card>
+    </>
+  )
+}
@@ -9,15 +9,17 @@ import {
   CartesianGrid,
   Tooltip,
   ResponsiveContainer,
-  BarChart,
-  Bar,
   PieChart,
   Pie,
   Cell,
   Area,
   ReferenceLine
 } from 'recharts'
-import { useTradeStore } from '../store/tradeStore'
+import { useAccountScope, useTradeStore, type TradePlan } from '../store/tradeStore'
+import { ASSET_CLASS_LABELS, getAssetClass } from '../lib/instruments'
+import { EMOTION_PHASES, EMOTION_PHASE_LABELS, EMOTION_VALENCE_CLASSES, getEmotionLabel, getEmotionValence, type EmotionPhase } from '../lib/emotions'
+import { getRuleAdherence, getRuleImpact } from '../lib/rules'
+import { PLAN_EXIT_LABELS, comparePlansWithTrades, type PlanExit } from '../lib/plans'
 import { 
   parseISO, 
   format, 
@@ -44,7 +46,11 @@ import {
 } from './Dashboard'
 import { DateRangePicker } from './ui/date-range-picker'
 import type { DateRange } from 'react-day-picker'
-import type { TradeEntry } from '../store/tradeStore'
+import type { TradeEntry, CapitalEvent } from '../store/tradeStore'
+import { applyPnLMode, formatDuration, getTradeCosts, type PnLMode } from '../lib/pnl'
+import { PnLModeToggle } from './PnLModeToggle'
+import { calculateRStats, formatR } from '../lib/risk'
+import { buildEquityCurve, calculateTimeWeightedReturn, getMaxDrawdown, getNetDeposits } from '../lib/equity'
 
 // Update COLORS object to use theme-aware colors
 const COLORS = {
@@ -82,7 +88,9 @@ const COLORS = {
 }
 
 // Summary Cards Component
-function SummaryCards({ entries }: { entries: TradeEntry[] }) {
+function SummaryCards({ entries: allEntries }: { entries: TradeEntry[] }) {
+  const [pnlMode, setPnLMode] = useState<PnLMode>('net')
+  const entries = useMemo(() => applyPnLMode(allEntries, pnlMode), [allEntries, pnlMode])
   const summaryMetrics = useMemo(() => {
     const totalPnL = entries.reduce((sum, entry) => sum + entry.pnl, 0)
     const winCount = entries.filter(entry => entry.outcome === 'win').length
@@ -120,86 +128,91 @@ function SummaryCards({ entries }: { entries: TradeEntry[] }) {
   }, [entries])
 
   return (
-    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
-      <Card className="bg-white dark:bg-gray-800 shadow-sm hover:shadow-md transition-shadow">
-        <CardContent className="p-6">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Total P&L</p>
-              <p className={`text-2xl font-bold ${summaryMetrics.totalPnL >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
-                {summaryMetrics.totalPnL >= 0 ? '+' : ''}{summaryMetrics.totalPnL.toFixed(2)}%
-              </p>
-            </div>
-            <div className={`p-2 rounded-full ${summaryMetrics.pnlChange >= 0 ? 'bg-green-100 dark:bg-green-900/20' : 'bg-red-100 dark:bg-red-900/20'}`}>
-              {summaryMetrics.pnlChange >= 0 ? (
-                <ArrowUpRight className="w-4 h-4 text-green-600 dark:text-green-400" />
-              ) : (
-                <ArrowDownRight className="w-4 h-4 text-red-600 dark:text-red-400" />
-              )}
+    <div className="space-y-2">
+      <div className="flex justify-end">
+        <PnLModeToggle value={pnlMode} onChange={setPnLMode} />
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <Card className="bg-white dark:bg-gray-800 shadow-sm hover:shadow-md transition-shadow">
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Total P&L</p>
+                <p className={`text-2xl font-bold ${summaryMetrics.totalPnL >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                  {summaryMetrics.totalPnL >= 0 ? '+' : ''}{summaryMetrics.totalPnL.toFixed(2)}%
+                </p>
+              </div>
+              <div className={`p-2 rounded-full ${summaryMetrics.pnlChange >= 0 ? 'bg-green-100 dark:bg-green-900/20' : 'bg-red-100 dark:bg-red-900/20'}`}>
+                {summaryMetrics.pnlChange >= 0 ? (
+                  <ArrowUpRight className="w-4 h-4 text-green-600 dark:text-green-400" />
+                ) : (
+                  <ArrowDownRight className="w-4 h-4 text-red-600 dark:text-red-400" />
+                )}
+              </div>
             </div>
-          </div>
-          <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
-            {summaryMetrics.pnlChange >= 0 ? '+' : ''}{summaryMetrics.pnlChange.toFixed(1)}% from last month
-          </p>
-        </CardContent>
-      </Card>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+              {summaryMetrics.pnlChange >= 0 ? '+' : ''}{summaryMetrics.pnlChange.toFixed(1)}% from last month
+            </p>
+          </CardContent>
+        </Card>
 
-      <Card className="bg-white dark:bg-gray-800 shadow-sm hover:shadow-md transition-shadow">
-        <CardContent className="p-6">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Win Rate</p>
-              <p className="text-2xl font-bold text-blue-600 dark:text-blue-400">
-                {summaryMetrics.winRate.toFixed(1)}%
-              </p>
-            </div>
-            <div className="p-2 rounded-full bg-blue-100 dark:bg-blue-900/20">
-              <Target className="w-4 h-4 text-blue-600 dark:text-blue-400" />
+        <Card className="bg-white dark:bg-gray-800 shadow-sm hover:shadow-md transition-shadow">
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Win Rate</p>
+                <p className="text-2xl font-bold text-blue-600 dark:text-blue-400">
+                  {summaryMetrics.winRate.toFixed(1)}%
+                </p>
+              </div>
+              <div className="p-2 rounded-full bg-blue-100 dark:bg-blue-900/20">
+                <Target className="w-4 h-4 text-blue-600 dark:text-blue-400" />
+              </div>
             </div>
-          </div>
-          <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
-            {summaryMetrics.totalTrades} total trades
-          </p>
-        </CardContent>
-      </Card>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+              {summaryMetrics.totalTrades} total trades
+            </p>
+          </CardContent>
+        </Card>
 
-      <Card className="bg-white dark:bg-gray-800 shadow-sm hover:shadow-md transition-shadow">
-        <CardContent className="p-6">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Avg Trade</p>
-              <p className={`text-2xl font-bold ${summaryMetrics.avgTrade >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
-                {summaryMetrics.avgTrade >= 0 ? '+' : ''}{summaryMetrics.avgTrade.toFixed(2)}%
-              </p>
-            </div>
-            <div className="p-2 rounded-full bg-purple-100 dark:bg-purple-900/20">
-              <BarChart2 className="w-4 h-4 text-purple-600 dark:text-purple-400" />
+        <Card className="bg-white dark:bg-gray-800 shadow-sm hover:shadow-md transition-shadow">
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Avg Trade</p>
+                <p className={`text-2xl font-bold ${summaryMetrics.avgTrade >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                  {summaryMetrics.avgTrade >= 0 ? '+' : ''}{summaryMetrics.avgTrade.toFixed(2)}%
+                </p>
+              </div>
+              <div className="p-2 rounded-full bg-purple-100 dark:bg-purple-900/20">
+                <BarChart2 className="w-4 h-4 text-purple-600 dark:text-purple-400" />
+              </div>
             </div>
-          </div>
-          <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
-            Average return per trade
-          </p>
-        </CardContent>
-      </Card>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+              Average return per trade
+            </p>
+          </CardContent>
+        </Card>
 
-      <Card className="bg-white dark:bg-gray-800 shadow-sm hover:shadow-md transition-shadow">
-        <CardContent className="p-6">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Total Trades</p>
-              <p className="text-2xl font-bold text-gray-900 dark:text-white">
-                {summaryMetrics.totalTrades}
-              </p>
-            </div>
-            <div className="p-2 rounded-full bg-gray-100 dark:bg-gray-700">
-              <Calendar className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+        <Card className="bg-white dark:bg-gray-800 shadow-sm hover:shadow-md transition-shadow">
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Total Trades</p>
+                <p className="text-2xl font-bold text-gray-900 dark:text-white">
+                  {summaryMetrics.totalTrades}
+                </p>
+              </div>
+              <div className="p-2 rounded-full bg-gray-100 dark:bg-gray-700">
+                <Calendar className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+              </div>
             </div>
-          </div>
-          <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
-            All time trades
-          </p>
-        </CardContent>
-      </Card>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+              All time trades
+            </p>
+          </CardContent>
+        </Card>
+      </div>
     </div>
   )
 }
@@ -214,14 +227,15 @@ function SetupPerformanceTable({ entries }: { entries: TradeEntry[] }) {
     setups.forEach(setup => {
       if (!setup) return;
       if (!acc[setup]) {
-        acc[setup] = { wins: 0, total: 0, pnl: 0 };
+        acc[setup] = { wins: 0, total: 0, pnl: 0, entries: [] };
       }
       acc[setup].total++;
       if (entry.outcome === 'win') acc[setup].wins++;
       acc[setup].pnl += entry.pnl;
+      acc[setup].entries.push(entry);
     });
     return acc;
-  }, {} as Record<string, { wins: number; total: number; pnl: number }>);
+  }, {} as Record<string, { wins: number; total: number; pnl: number; entries: TradeEntry[] }>);
 
   let setups = Object.entries(setupStats)
     .map(([setup, stats]) => ({
@@ -229,7 +243,8 @@ function SetupPerformanceTable({ entries }: { entries: TradeEntry[] }) {
       trades: stats.total,
       winRate: (stats.wins / stats.total) * 100,
       avgPnL: stats.pnl / stats.total,
-      totalPnL: stats.pnl
+      totalPnL: stats.pnl,
+      rStats: calculateRStats(stats.entries)
     }))
     .sort((a, b) => b.trades - a.trades);
 
@@ -267,6 +282,8 @@ function SetupPerformanceTable({ entries }: { entries: TradeEntry[] }) {
                 <th className="text-center py-2 px-4 font-semibold text-gray-700 dark:text-gray-300">Win Rate</th>
                 <th className="text-center py-2 px-4 font-semibold text-gray-700 dark:text-gray-300">Avg P&L</th>
                 <th className="text-center py-2 px-4 font-semibold text-gray-700 dark:text-gray-300">Total P&L</th>
+                <th className="text-center py-2 px-4 font-semibold text-gray-700 dark:text-gray-300" title="Expectancy in R over trades with a known initial risk">Exp. (R)</th>
+                <th className="text-center py-2 px-4 font-semibold text-gray-700 dark:text-gray-300">Total R</th>
               </tr>
             </thead>
             <tbody>
@@ -279,6 +296,8 @@ function SetupPerformanceTable({ entries }: { entries: TradeEntry[] }) {
                   </td>
                   <td className="py-3 px-4 text-center text-gray-900 dark:text-white">${Math.round(s.avgPnL).toLocaleString()}</td>
                   <td className={`py-3 px-4 text-center font-semibold ${s.totalPnL >= 0 ? 'text-green-600' : 'text-red-600'}`}>${Math.round(s.totalPnL).toLocaleString()}</td>
+                  <td className="py-3 px-4 text-center text-gray-900 dark:text-white">{s.rStats ? formatR(s.rStats.expectancyR) : '-'}</td>
+                  <td className={`py-3 px-4 text-center font-semibold ${!s.rStats ? 'text-gray-400' : s.rStats.totalR >= 0 ? 'text-green-600' : 'text-red-600'}`}>{s.rStats ? formatR(s.rStats.totalR) : '-'}</td>
                 </tr>
               ))}
             </tbody>
@@ -337,10 +356,10 @@ function AdvancedMetricsCards({ entries }: { entries: TradeEntry[] }) {
         </CardHeader>
         <CardContent>
           <div className="text-2xl font-bold text-gray-900 dark:text-white">
-            {expectancy.toFixed(2)}%
+            {expectancy < 0 ? '-' : ''}${Math.abs(expectancy).toFixed(2)}
           </div>
           <p className="text-xs text-muted-foreground">
-            Expected return per trade
+            Expected P&L per trade
           </p>
           <CardDescription>
             Average expected profit/loss per trade.
@@ -397,9 +416,9 @@ function AdvancedMetricsCards({ entries }: { entries: TradeEntry[] }) {
             <div className="flex justify-between">
               <span className="text-sm text-muted-foreground">Avg Win:</span>
               <span className="text-sm font-medium text-green-600 dark:text-green-400">
-                {entries.filter(e => e.outcome === 'win').length > 0 
+                ${entries.filter(e => e.outcome === 'win').length > 0 
                   ? (entries.filter(e => e.outcome === 'win').reduce((sum, e) => sum + e.pnl, 0) / entries.filter(e => e.outcome === 'win').length).toFixed(2)
-                  : '0.00'}%
+                  : '0.00'}
               </span>
             </div>
             <div className="flex justify-between">
@@ -523,7 +542,9 @@ function getMetricChange(current: number, previous: number) {
   return ((current - previous) / Math.abs(previous)) * 100
 }
 
-function AnalyticsSummaryCards({ entries }: { entries: TradeEntry[] }) {
+function AnalyticsSummaryCards({ entries: allEntries }: { entries: TradeEntry[] }) {
+  const [pnlMode, setPnLMode] = useState<PnLMode>('net')
+  const entries = useMemo(() => applyPnLMode(allEntries, pnlMode), [allEntries, pnlMode])
   // Calculate current and previous month entries
   const now = new Date()
   const currentMonthEntries = entries.filter(entry => {
@@ -607,67 +628,59 @@ function AnalyticsSummaryCards({ entries }: { entries: TradeEntry[] }) {
   ]
 
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4 mb-4">
-      {metrics.map((metric) => {
-        const change = getMetricChange(metric.value, metric.prev)
-        const isUp = change >= 0
-        return (
-          <div key={metric.key} className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-4 flex flex-col justify-between h-full border border-gray-100 dark:border-gray-700">
-            <div className="flex items-center justify-between mb-1">
-              <div className={`rounded-full p-2 ${metric.bg}`}>{
-                // Shrink icon size
-                React.cloneElement(metric.icon, { className: (metric.icon.props.className || '') + ' w-5 h-5' })
-              }</div>
-              <div className="flex items-center gap-1">
-                {isUp ? (
-                  <TrendingUp className="w-4 h-4 text-green-500" />
-                ) : (
-                  <TrendingDown className="w-4 h-4 text-red-500" />
-                )}
-                <span className={`text-xs font-semibold ${isUp ? 'text-green-600' : 'text-red-600'}`}>{isNaN(change) ? '0.0' : change.toFixed(1)}%</span>
+    <div className="mb-4">
+      <div className="flex justify-end mb-2">
+        <PnLModeToggle value={pnlMode} onChange={setPnLMode} />
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+        {metrics.map((metric) => {
+          const change = getMetricChange(metric.value, metric.prev)
+          const isUp = change >= 0
+          return (
+            <div key={metric.key} className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-4 flex flex-col justify-between h-full border border-gray-100 dark:border-gray-700">
+              <div className="flex items-center justify-between mb-1">
+                <div className={`rounded-full p-2 ${metric.bg}`}>{
+                  // Shrink icon size
+                  React.cloneElement(metric.icon, { className: (metric.icon.props.className || '') + ' w-5 h-5' })
+                }</div>
+                <div className="flex items-center gap-1">
+                  {isUp ? (
+                    <TrendingUp className="w-4 h-4 text-green-500" />
+                  ) : (
+                    <TrendingDown className="w-4 h-4 text-red-500" />
+                  )}
+                  <span className={`text-xs font-semibold ${isUp ? 'text-green-600' : 'text-red-600'}`}>{isNaN(change) ? '0.0' : change.toFixed(1)}%</span>
+                </div>
               </div>
-            </div>
-            <div className="mt-1">
-              <div className={`text-2xl font-bold ${metric.color} mb-0.5`}>
-                {metric.isCurrency
-                  ? `$${Math.abs(metric.value).toLocaleString(undefined, { maximumFractionDigits: 2 })}`
-                  : metric.isPercent
-                  ? `${metric.value.toFixed(1)}%`
-                  : metric.value.toFixed(2)}
+              <div className="mt-1">
+                <div className={`text-2xl font-bold ${metric.color} mb-0.5`}>
+                  {metric.isCurrency
+                    ? `$${Math.abs(metric.value).toLocaleString(undefined, { maximumFractionDigits: 2 })}`
+                    : metric.isPercent
+                    ? `${metric.value.toFixed(1)}%`
+                    : metric.value.toFixed(2)}
+                </div>
+                <div className="text-xs text-gray-500 dark:text-gray-400 font-medium">{metric.label}</div>
               </div>
-              <div className="text-xs text-gray-500 dark:text-gray-400 font-medium">{metric.label}</div>
             </div>
-          </div>
-        )
-      })}
+          )
+        })}
+      </div>
     </div>
   )
 }
 // --- END NEW ---
 
 // --- NEW: Bottom Metrics Cards ---
-function getEquityCurve(entries: TradeEntry[], initial: number = 0): number[] {
-  let curve = [initial];
-  entries.forEach((e: TradeEntry) => {
-    curve.push(curve[curve.length - 1] + e.pnl);
-  });
-  return curve;
-}
-
-function getMaxDrawdown(curve: number[]): number {
-  let max = curve[0], maxDrawdown = 0;
-  for (let v of curve) {
-    if (v > max) max = v;
-    let drawdown = v - max;
-    if (drawdown < maxDrawdown) maxDrawdown = drawdown;
-  }
-  return maxDrawdown;
-}
-
-function BottomMetricsCards({ entries }: { entries: TradeEntry[] }) {
-  // Risk Metrics
-  const equityCurve = getEquityCurve(entries, 0);
-  const maxDrawdown = getMaxDrawdown(equityCurve);
+function BottomMetricsCards({ entries: allEntries, capitalEvents, initialCapital }: { entries: TradeEntry[]; capitalEvents: CapitalEvent[]; initialCapital: number }) {
+  const [pnlMode, setPnLMode] = useState<PnLMode>('net');
+  const entries = useMemo(() => applyPnLMode(allEntries, pnlMode), [allEntries, pnlMode]);
+  // Risk Metrics, measured on the selected account's equity including deposits and withdrawals
+  const equityCurve = buildEquityCurve(entries, capitalEvents, initialCapital);
+  const { maxDrawdown, maxDrawdownPercent } = getMaxDrawdown(equityCurve);
+  const endingEquity = equityCurve.length > 0 ? equityCurve[equityCurve.length - 1].equity : initialCapital;
+  const netDeposits = getNetDeposits(capitalEvents);
+  const timeWeightedReturn = calculateTimeWeightedReturn(entries, capitalEvents, initialCapital);
   const wins = entries.filter(e => e.outcome === 'win');
   const losses = entries.filter(e => e.outcome === 'loss');
   const avgWin = wins.length > 0 ? wins.reduce((sum, e) => sum + e.pnl, 0) / wins.length : 0;
@@ -685,6 +698,10 @@ function BottomMetricsCards({ entries }: { entries: TradeEntry[] }) {
   });
   // Trade Quality
   const profitFactor = calculateProfitFactor(entries);
+  const avgHoldingTime = calculateAvgHoldingTime(entries);
+  const scaledTrades = entries.filter(e => (e.executions?.length ?? 0) > 2).length;
+  // R-based metrics, comparable across position sizes
+  const rStats = calculateRStats(entries);
   // Performance Score
   const sharpeRatio = calculateSharpeRatio(entries) || 0;
   const expectancy = calculateExpectancy(entries) || 0;
@@ -697,12 +714,31 @@ function BottomMetricsCards({ entries }: { entries: TradeEntry[] }) {
       <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-sm p-6 flex flex-col mb-2 border border-gray-100 dark:border-gray-700">
         <div className="flex items-center justify-between mb-3">
           <span className="font-bold text-lg text-gray-900 dark:text-white">Risk Metrics</span>
-         
+          <PnLModeToggle value={pnlMode} onChange={setPnLMode} />
         </div>
         <div className="space-y-2">
           <div className="flex justify-between items-center">
             <span className="text-gray-700 dark:text-gray-300">Max Drawdown</span>
-            <span className="font-semibold text-red-500">{maxDrawdown < 0 ? '-' : ''}${Math.abs(maxDrawdown).toLocaleString(undefined, { maximumFractionDigits: 2 })}</span>
+            <span className="font-semibold text-red-500">
+              {maxDrawdown < 0 ? '-' : ''}${Math.abs(maxDrawdown).toLocaleString(undefined, { maximumFractionDigits: 2 })}
+              {initialCapital > 0 && ` (${maxDrawdownPercent.toFixed(1)}%)`}
+            </span>
+          </div>
+          <div className="flex justify-between items-center">
+            <span className="text-gray-700 dark:text-gray-300">Ending Equity</span>
+            <span className="font-semibold text-gray-900 dark:text-white">${endingEquity.toLocaleString(undefined, { maximumFractionDigits: 2 })}</span>
+          </div>
+          {netDeposits !== 0 && (
+            <div className="flex justify-between items-center">
+              <span className="text-gray-700 dark:text-gray-300">Net Deposits</span>
+              <span className="font-semibold text-gray-900 dark:text-white">{netDeposits < 0 ? '-' : ''}${Math.abs(netDeposits).toLocaleString(undefined, { maximumFractionDigits: 2 })}</span>
+            </div>
+          )}
+          <div className="flex justify-between items-center">
+            <span className="text-gray-700 dark:text-gray-300">Time-Weighted Return</span>
+            <span className={`font-semibold ${!timeWeightedReturn ? 'text-gray-900 dark:text-white' : timeWeightedReturn.twr >= 0 ? 'text-green-600' : 'text-red-500'}`}>
+              {timeWeightedReturn ? `${timeWeightedReturn.twr >= 0 ? '+' : ''}${timeWeightedReturn.twr.toFixed(2)}%` : '—'}
+            </span>
           </div>
           <div className="flex justify-between items-center">
             <span className="text-gray-700 dark:text-gray-300">Risk/Reward</span>
@@ -733,8 +769,47 @@ function BottomMetricsCards({ entries }: { entries: TradeEntry[] }) {
             <span className="text-gray-700 dark:text-gray-300">Profit Factor</span>
             <span className="font-semibold text-gray-900 dark:text-white"><Award className="w-4 h-4 inline mr-1 text-yellow-500" />{profitFactor.toFixed(2)}</span>
           </div>
+          <div className="flex justify-between items-center">
+            <span className="text-gray-700 dark:text-gray-300">Avg Hold Time</span>
+            <span className="font-semibold text-gray-900 dark:text-white"><Clock className="w-4 h-4 inline mr-1 text-blue-500" />{avgHoldingTime !== null ? formatDuration(avgHoldingTime) : 'N/A'}</span>
+          </div>
+          <div className="flex justify-between items-center">
+            <span className="text-gray-700 dark:text-gray-300">Scaled Trades</span>
+            <span className="font-semibold text-gray-900 dark:text-white">{scaledTrades} / {entries.length}</span>
+          </div>
         </div>
       </div>
+      {/* R-Multiple Metrics */}
+      <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-sm p-6 flex flex-col mb-2 border border-gray-100 dark:border-gray-700">
+        <div className="flex items-center justify-between mb-3">
+          <span className="font-bold text-lg text-gray-900 dark:text-white">R-Multiples</span>
+          <span className="text-xs text-gray-500 dark:text-gray-400">{rStats ? rStats.trades : 0} of {entries.length} trades with defined risk</span>
+        </div>
+        {rStats ? (
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <span className="text-gray-700 dark:text-gray-300">Expectancy</span>
+              <span className={`font-semibold ${rStats.expectancyR >= 0 ? 'text-green-600' : 'text-red-500'}`}><Target className="w-4 h-4 inline mr-1 text-yellow-500" />{formatR(rStats.expectancyR)}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-gray-700 dark:text-gray-300">Avg Win</span>
+              <span className="font-semibold text-green-600"><ArrowUpRight className="w-4 h-4 inline mr-1 text-green-500" />{formatR(rStats.avgWinR)}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-gray-700 dark:text-gray-300">Avg Loss</span>
+              <span className="font-semibold text-red-500"><ArrowDownRight className="w-4 h-4 inline mr-1 text-red-500" />{formatR(rStats.avgLossR)}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-gray-700 dark:text-gray-300">Total</span>
+              <span className={`font-semibold ${rStats.totalR >= 0 ? 'text-green-600' : 'text-red-500'}`}>{formatR(rStats.totalR)}</span>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Add a planned stop or initial risk to trades to see R-based expectancy.
+          </p>
+        )}
+      </div>
       {/* Performance Score */}
       <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-sm p-6 flex flex-col border border-gray-100 dark:border-gray-700">
         <div className="flex items-center justify-between mb-3">
@@ -754,15 +829,128 @@ function BottomMetricsCards({ entries }: { entries: TradeEntry[] }) {
 }
 // --- END NEW ---
 
+// --- Costs Breakdown ---
+type CostGrouping = 'coin' | 'month';
+
+function CostsBreakdownTable({ entries }: { entries: TradeEntry[] }) {
+  const [groupBy, setGroupBy] = useState<CostGrouping>('coin');
+
+  const rows = useMemo(() => {
+    const groups = entries.reduce((acc, entry) => {
+      const key = groupBy === 'coin'
+        ? (entry.coin ? String(entry.coin) : 'Unknown')
+        : format(parseISO(entry.date), 'yyyy-MM');
+      if (!acc[key]) {
+        acc[key] = { trades: 0, commission: 0, funding: 0, other: 0, total: 0, gross: 0, net: 0 };
+      }
+      const costs = getTradeCosts(entry);
+      acc[key].trades++;
+      acc[key].commission += costs.commission;
+      acc[key].funding += costs.funding;
+      acc[key].other += costs.other;
+      acc[key].total += costs.total;
+      acc[key].gross += entry.grossPnl ?? entry.pnl;
+      acc[key].net += entry.pnl;
+      return acc;
+    }, {} as Record<string, { trades: number; commission: number; funding: number; other: number; total: number; gross: number; net: number }>);
+
+    return Object.entries(groups)
+      .map(([key, stats]) => ({
+        key,
+        label: groupBy === 'coin' ? key : format(parseISO(`${key}-01`), 'MMM yyyy'),
+        ...stats,
+        // Share of gross profit consumed by costs; meaningless when gross is not positive
+        edgeShare: stats.gross > 0 ? (stats.total / stats.gross) * 100 : null
+      }))
+      .sort((a, b) => groupBy === 'coin' ? b.total - a.total : b.key.localeCompare(a.key));
+  }, [entries, groupBy]);
+
+  const totals = rows.reduce(
+    (acc, row) => ({ total: acc.total + row.total, gross: acc.gross + row.gross }),
+    { total: 0, gross: 0 }
+  );
+  const money = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-sm p-6 border border-gray-100 dark:border-gray-700 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <div className="font-bold text-xl text-gray-900 dark:text-white">Total Costs Paid</div>
+          <div className="text-sm text-gray-500 dark:text-gray-400">
+            {money(totals.total)} in costs
+            {totals.gross > 0 && ` · ${((totals.total / totals.gross) * 100).toFixed(1)}% of gross P&L`}
+          </div>
+        </div>
+        <div className="inline-flex rounded-md bg-gray-100 dark:bg-gray-700 p-0.5 text-sm">
+          {(['coin', 'month'] as CostGrouping[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setGroupBy(option)}
+              className={`px-3 py-1 rounded font-medium ${groupBy === option ? 'bg-white dark:bg-gray-900 text-gray-900 dark:text-white shadow-sm' : 'text-gray-500 dark:text-gray-400'}`}
+            >
+              By {option === 'coin' ? 'Coin' : 'Month'}
+            </button>
+          ))}
+        </div>
+      </div>
+      {rows.length === 0 ? (
+        <div className="flex items-center justify-center h-32 text-gray-400 dark:text-gray-500 text-lg font-medium">
+          No data available yet
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-gray-700">
+                <th className="text-left py-2 px-4 font-semibold text-gray-700 dark:text-gray-300">{groupBy === 'coin' ? 'Coin' : 'Month'}</th>
+                <th className="text-center py-2 px-4 font-semibold text-gray-700 dark:text-gray-300">Trades</th>
+                <th className="text-center py-2 px-4 font-semibold text-gray-700 dark:text-gray-300">Commission</th>
+                <th className="text-center py-2 px-4 font-semibold text-gray-700 dark:text-gray-300">Funding</th>
+                <th className="text-center py-2 px-4 font-semibold text-gray-700 dark:text-gray-300">Other</th>
+                <th className="text-center py-2 px-4 font-semibold text-gray-700 dark:text-gray-300">Total Costs</th>
+                <th className="text-center py-2 px-4 font-semibold text-gray-700 dark:text-gray-300">Gross P&L</th>
+                <th className="text-center py-2 px-4 font-semibold text-gray-700 dark:text-gray-300">Net P&L</th>
+                <th className="text-center py-2 px-4 font-semibold text-gray-700 dark:text-gray-300">Edge Eaten</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, i) => (
+                <tr key={row.key} className={i !== rows.length - 1 ? 'border-b border-gray-100 dark:border-gray-800' : ''}>
+                  <td className="py-3 px-4 text-left font-medium text-gray-900 dark:text-white">{row.label}</td>
+                  <td className="py-3 px-4 text-center text-gray-900 dark:text-white">{row.trades}</td>
+                  <td className="py-3 px-4 text-center text-gray-900 dark:text-white">{money(row.commission)}</td>
+                  <td className="py-3 px-4 text-center text-gray-900 dark:text-white">{money(row.funding)}</td>
+                  <td className="py-3 px-4 text-center text-gray-900 dark:text-white">{money(row.other)}</td>
+                  <td className="py-3 px-4 text-center font-semibold text-orange-600">{money(row.total)}</td>
+                  <td className={`py-3 px-4 text-center ${row.gross >= 0 ? 'text-green-600' : 'text-red-600'}`}>{money(row.gross)}</td>
+                  <td className={`py-3 px-4 text-center font-semibold ${row.net >= 0 ? 'text-green-600' : 'text-red-600'}`}>{money(row.net)}</td>
+                  <td className="py-3 px-4 text-center text-gray-900 dark:text-white">{row.edgeShare !== null ? `${row.edgeShare.toFixed(1)}%` : '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+// --- END Costs Breakdown ---
+
+type InstrumentGrouping = 'coin' | 'assetClass';
+
 // --- NEW: Coin Performance Table ---
 function CoinPerformanceTable({ entries }: { entries: TradeEntry[] }) {
+  const { settings } = useTradeStore();
   const [searchTerm, setSearchTerm] = useState('');
   const [showAll, setShowAll] = useState(false);
+  const [groupBy, setGroupBy] = useState<InstrumentGrouping>('coin');
   // Only include entries with a valid coin (not empty, null, or undefined)
   const validEntries = entries.filter(entry => entry.coin && String(entry.coin).trim() !== '');
-  // Calculate coin stats
+  // Calculate coin (or asset class) stats
   const coinStats = validEntries.reduce((acc, entry) => {
-    const coin = String(entry.coin);
+    const coin = groupBy === 'coin'
+      ? String(entry.coin)
+      : ASSET_CLASS_LABELS[getAssetClass(String(entry.coin), settings.instruments)];
     if (!acc[coin]) {
       acc[coin] = { wins: 0, total: 0, pnl: 0 };
     }
@@ -795,6 +983,17 @@ function CoinPerformanceTable({ entries }: { entries: TradeEntry[] }) {
       <div className="flex items-center justify-between mb-4">
         <div className="font-bold text-xl text-gray-900 dark:text-white">Coin Performance</div>
         <div className="flex items-center gap-2">
+          <div className="inline-flex rounded-md bg-gray-100 dark:bg-gray-700 p-0.5 text-sm">
+            {(['coin', 'assetClass'] as InstrumentGrouping[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setGroupBy(option)}
+                className={`px-3 py-1 rounded font-medium ${groupBy === option ? 'bg-white dark:bg-gray-900 text-gray-900 dark:text-white shadow-sm' : 'text-gray-500 dark:text-gray-400'}`}
+              >
+                By {option === 'coin' ? 'Coin' : 'Asset Class'}
+              </button>
+            ))}
+          </div>
           <input
             type="text"
             placeholder="Search coins..."
@@ -814,7 +1013,7 @@ function CoinPerformanceTable({ entries }: { entries: TradeEntry[] }) {
           <table className="w-full text-sm">
             <thead>
               <tr className="border-b border-gray-200 dark:border-gray-700">
-                <th className="text-left py-2 px-4 font-semibold text-gray-700 dark:text-gray-300">Coin</th>
+                <th className="text-left py-2 px-4 font-semibold text-gray-700 dark:text-gray-300">{groupBy === 'coin' ? 'Coin' : 'Asset Class'}</th>
                 <th className="text-center py-2 px-4 font-semibold text-gray-700 dark:text-gray-300">Trades</th>
                 <th className="text-center py-2 px-4 font-semibold text-gray-700 dark:text-gray-300">Win Rate</th>
                 <th className="text-center py-2 px-4 font-semibold text-gray-700 dark:text-gray-300">Avg P&L</th>
@@ -852,8 +1051,429 @@ function CoinPerformanceTable({ entries }: { entries: TradeEntry[] }) {
 }
 // --- END NEW ---
 
+// Win rate, average P&L and rule adherence of the trades recorded with each emotion in one phase
+function EmotionImpactTable({ entries }: { entries: TradeEntry[] }) {
+  const { settings, rules } = useTradeStore();
+  const [phase, setPhase] = useState<EmotionPhase>('pre');
+
+  const rows = useMemo(() => {
+    const groups = entries.reduce((acc, entry) => {
+      const state = entry.emotions?.[phase];
+      if (!state) return acc;
+      if (!acc[state.emotion]) {
+        acc[state.emotion] = { wins: 0, total: 0, pnl: 0, intensity: 0, adherence: 0, rated: 0 };
+      }
+      const adherence = getRuleAdherence(entry, rules);
+      acc[state.emotion].total++;
+      if (entry.outcome === 'win') acc[state.emotion].wins++;
+      acc[state.emotion].pnl += entry.pnl;
+      acc[state.emotion].intensity += state.intensity;
+      if (adherence !== null) {
+        acc[state.emotion].adherence += adherence;
+        acc[state.emotion].rated++;
+      }
+      return acc;
+    }, {} as Record<string, { wins: number; total: number; pnl: number; intensity: number; adherence: number; rated: number }>);
+
+    return Object.entries(groups)
+      .map(([emotion, stats]) => ({
+        emotion,
+        trades: stats.total,
+        winRate: (stats.wins / stats.total) * 100,
+        avgPnL: stats.pnl / stats.total,
+        avgIntensity: stats.intensity / stats.total,
+        adherence: stats.rated > 0 ? (stats.adherence / stats.rated) * 100 : null
+      }))
+      .sort((a, b) => b.trades - a.trades);
+  }, [entries, phase, rules]);
+
+  const recorded = rows.reduce((sum, row) => sum + row.trades, 0);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-sm p-6 border border-gray-100 dark:border-gray-700 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <div className="font-bold text-xl text-gray-900 dark:text-white">Emotion Impact</div>
+          <div className="text-sm text-gray-500 dark:text-gray-400">
+            {recorded} of {entries.length} trades have a {EMOTION_PHASE_LABELS[phase].toLowerCase()} emotion
+          </div>
+        </div>
+        <div className="inline-flex rounded-md bg-gray-100 dark:bg-gray-700 p-0.5 text-sm">
+          {EMOTION_PHASES.map(option => (
+            <button
+              key={option}
+              onClick={() => setPhase(option)}
+              className={`px-3 py-1 rounded font-medium ${phase === option ? 'bg-white dark:bg-gray-900 text-gray-900 dark:text-white shadow-sm' : 'text-gray-500 dark:text-gray-400'}`}
+            >
+              {EMOTION_PHASE_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+      {rows.length === 0 ? (
+        <div className="flex items-center justify-center h-32 text-gray-400 dark:text-gray-500 text-lg font-medium">
+          No data available yet
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-gray-700">
+                <th className="text-left py-2 px-4 font-semibold text-gray-700 dark:text-gray-300">Emotion</th>
+                <th className="text-center py-2 px-4 font-semibold text-gray-700 dark:text-gray-300">Trades</th>
+                <th className="text-center py-2 px-4 font-semibold text-gray-700 dark:text-gray-300">Avg Intensity</th>
+                <th className="text-center py-2 px-4 font-semibold text-gray-700 dark:text-gray-300">Win Rate</th>
+                <th className="text-center py-2 px-4 font-semibold text-gray-700 dark:text-gray-300">Avg P&L</th>
+                <th className="text-center py-2 px-4 font-semibold text-gray-700 dark:text-gray-300">Rule Adherence</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, i) => (
+                <tr key={row.emotion} className={i !== rows.length - 1 ? 'border-b border-gray-100 dark:border-gray-800' : ''}>
+                  <td className="py-3 px-4 text-left">
+                    <span className={`inline-block px-2 py-0.5 rounded text-xs font-medium ${EMOTION_VALENCE_CLASSES[getEmotionValence(row.emotion, settings.emotions)]}`}>
+                      {getEmotionLabel(row.emotion, settings.emotions)}
+                    </span>
+                  </td>
+                  <td className="py-3 px-4 text-center text-gray-900 dark:text-white">{row.trades}</td>
+                  <td className="py-3 px-4 text-center text-gray-900 dark:text-white">{row.avgIntensity.toFixed(1)} / 5</td>
+                  <td className="py-3 px-4 text-center">
+                    <span className={`inline-block px-3 py-1 rounded-full text-xs font-semibold ${row.winRate >= 50 ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>{Math.round(row.winRate)}%</span>
+                  </td>
+                  <td className={`py-3 px-4 text-center font-semibold ${row.avgPnL >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {row.avgPnL < 0 ? '-' : ''}${Math.abs(row.avgPnL).toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                  </td>
+                  <td className="py-3 px-4 text-center text-gray-900 dark:text-white">{row.adherence !== null ? `${Math.round(row.adherence)}%` : '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+type AdherencePeriod = 'month' | 'quarter' | 'all';
+
+const ADHERENCE_PERIOD_LABELS: Record<AdherencePeriod, string> = {
+  month: 'This Month',
+  quarter: 'Last 3 Months',
+  all: 'All Time'
+};
+
+// How often each rule is followed, what following it is worth and what breaking it costs
+function RuleAdherenceSection({ entries: allEntries }: { entries: TradeEntry[] }) {
+  const { rules } = useTradeStore();
+  const [period, setPeriod] = useState<AdherencePeriod>('month');
+
+  const entries = useMemo(() => {
+    if (period === 'all') return allEntries;
+    const start = period === 'month' ? startOfMonth(new Date()) : startOfMonth(subMonths(new Date(), 2));
+    return allEntries.filter(entry => parseISO(entry.date) >= start);
+  }, [allEntries, period]);
+
+  const impact = useMemo(
+    () => getRuleImpact(entries, rules).sort((a, b) => b.breakCost - a.breakCost),
+    [entries, rules]
+  );
+  const costliest = impact.filter(row => row.breakCost > 0).slice(0, 5);
+
+  // Average adherence of the trades with rule data, by week within a month and by month otherwise
+  const scores = useMemo(() => {
+    const byWeek = period === 'month';
+    const groups = entries.reduce((acc, entry) => {
+      const adherence = getRuleAdherence(entry, rules);
+      if (adherence === null) return acc;
+      const key = byWeek
+        ? format(startOfWeek(parseISO(entry.date)), 'yyyy-MM-dd')
+        : format(parseISO(entry.date), 'yyyy-MM');
+      if (!acc[key]) acc[key] = { total: 0, trades: 0 };
+      acc[key].total += adherence;
+      acc[key].trades++;
+      return acc;
+    }, {} as Record<string, { total: number; trades: number }>);
+
+    return Object.entries(groups)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, stats]) => ({
+        label: byWeek ? `Week of ${format(parseISO(key), 'MMM d')}` : format(parseISO(`${key}-01`), 'MMM yyyy'),
+        score: (stats.total / stats.trades) * 100,
+        trades: stats.trades
+      }));
+  }, [entries, rules, period]);
+
+  const trackedTrades = scores.reduce((sum, s) => sum + s.trades, 0);
+  const overallScore = trackedTrades > 0 ? scores.reduce((sum, s) => sum + s.score * s.trades, 0) / trackedTrades : null;
+  const money = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+  const percent = (value: number | null) => value !== null ? `${Math.round(value)}%` : '-';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-sm p-6 border border-gray-100 dark:border-gray-700 mb-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <div className="font-bold text-xl text-gray-900 dark:text-white">Rule Adherence</div>
+          <div className="text-sm text-gray-500 dark:text-gray-400">
+            {overallScore !== null
+              ? `Discipline score ${Math.round(overallScore)}% over ${trackedTrades} trade${trackedTrades === 1 ? '' : 's'} with rules ticked`
+              : 'Tick the rules you followed on your trades to track adherence'}
+          </div>
+        </div>
+        <div className="inline-flex rounded-md bg-gray-100 dark:bg-gray-700 p-0.5 text-sm">
+          {(Object.keys(ADHERENCE_PERIOD_LABELS) as AdherencePeriod[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setPeriod(option)}
+              className={`px-3 py-1 rounded font-medium ${period === option ? 'bg-white dark:bg-gray-900 text-gray-900 dark:text-white shadow-sm' : 'text-gray-500 dark:text-gray-400'}`}
+            >
+              {ADHERENCE_PERIOD_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {rules.length === 0 || trackedTrades === 0 ? (
+        <div className="flex items-center justify-center h-32 text-gray-400 dark:text-gray-500 text-lg font-medium">
+          No data available yet
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Discipline score over time */}
+            <div className="lg:col-span-2 h-[240px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={scores} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke={COLORS.chart.grid} />
+                  <XAxis dataKey="label" tick={{ fill: COLORS.text.secondary, fontSize: 12 }} />
+                  <YAxis domain={[0, 100]} tick={{ fill: COLORS.text.secondary, fontSize: 12 }} tickFormatter={(value) => `${value}%`} />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: COLORS.chart.tooltip,
+                      border: 'none',
+                      borderRadius: '8px',
+                      color: 'white',
+                      fontSize: '12px'
+                    }}
+                    formatter={(value: number) => [`${value.toFixed(1)}%`, 'Discipline']}
+                  />
+                  <Line type="monotone" dataKey="score" stroke={COLORS.chart.accent} strokeWidth={2} dot={{ r: 3, fill: COLORS.chart.accent }} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            {/* Costliest rule breaks */}
+            <div>
+              <div className="font-semibold text-gray-900 dark:text-white mb-3">Costliest Rule Breaks</div>
+              {costliest.length === 0 ? (
+                <div className="text-sm text-gray-500 dark:text-gray-400">No rule breaks cost money in this period</div>
+              ) : (
+                <ol className="space-y-2">
+                  {costliest.map((row, i) => (
+                    <li key={row.rule.id} className="flex items-start gap-3 text-sm">
+                      <span className="w-5 text-gray-400 font-semibold">{i + 1}.</span>
+                      <div className="flex-1 min-w-0">
+                        <div className="font-medium text-gray-900 dark:text-white truncate" title={row.rule.title}>{row.rule.title}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          Broken on {row.broken.trades} trade{row.broken.trades === 1 ? '' : 's'} · {money(row.broken.totalPnL)} P&L
+                        </div>
+                      </div>
+                      <span className="font-semibold text-red-600 whitespace-nowrap">{money(row.breakCost)}</span>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          </div>
+
+          {/* Followed vs broken, per rule */}
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500 dark:text-gray-400">
+                  <th />
+                  <th colSpan={4} className="text-center pb-1 font-medium text-green-700 dark:text-green-400">Followed</th>
+                  <th colSpan={4} className="text-center pb-1 font-medium text-red-700 dark:text-red-400">Broken</th>
+                  <th />
+                </tr>
+                <tr className="border-b border-gray-200 dark:border-gray-700">
+                  <th className="text-left py-2 px-3 font-semibold text-gray-700 dark:text-gray-300">Rule</th>
+                  {['followed', 'broken'].map(side => (
+                    <React.Fragment key={side}>
+                      <th className="text-center py-2 px-3 font-semibold text-gray-700 dark:text-gray-300">Trades</th>
+                      <th className="text-center py-2 px-3 font-semibold text-gray-700 dark:text-gray-300">Win Rate</th>
+                      <th className="text-center py-2 px-3 font-semibold text-gray-700 dark:text-gray-300">Expectancy</th>
+                      <th className="text-center py-2 px-3 font-semibold text-gray-700 dark:text-gray-300">Total P&L</th>
+                    </React.Fragment>
+                  ))}
+                  <th className="text-center py-2 px-3 font-semibold text-gray-700 dark:text-gray-300">Cost of Breaks</th>
+                </tr>
+              </thead>
+              <tbody>
+                {impact.map((row, i) => (
+                  <tr key={row.rule.id} className={i !== impact.length - 1 ? 'border-b border-gray-100 dark:border-gray-800' : ''}>
+                    <td className="py-3 px-3 text-left font-medium text-gray-900 dark:text-white">{row.rule.title}</td>
+                    {[row.followed, row.broken].map((stats, side) => (
+                      <React.Fragment key={side}>
+                        <td className="py-3 px-3 text-center text-gray-900 dark:text-white">{stats.trades}</td>
+                        <td className="py-3 px-3 text-center text-gray-900 dark:text-white">{percent(stats.winRate)}</td>
+                        <td className={`py-3 px-3 text-center ${(stats.expectancy ?? 0) >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {stats.expectancy !== null ? money(stats.expectancy) : '-'}
+                        </td>
+                        <td className={`py-3 px-3 text-center ${stats.totalPnL >= 0 ? 'text-green-600' : 'text-red-600'}`}>{money(stats.totalPnL)}</td>
+                      </React.Fragment>
+                    ))}
+                    <td className={`py-3 px-3 text-center font-semibold ${row.breakCost > 0 ? 'text-red-600' : 'text-gray-500 dark:text-gray-400'}`}>
+                      {row.broken.trades > 0 ? money(row.breakCost) : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+// Planned versus actual: follow-through, entry slippage, size, where trades exited and planned vs unplanned results
+function PlanComparisonSection({ entries, plans }: { entries: TradeEntry[]; plans: TradePlan[] }) {
+  const comparison = useMemo(() => comparePlansWithTrades(plans, entries), [plans, entries]);
+  const money = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+  const percent = (value: number | null) => value !== null ? `${Math.round(value)}%` : '-';
+  const signedPercent = (value: number | null) => value !== null ? `${value > 0 ? '+' : ''}${value.toFixed(2)}%` : '-';
+  const exitedTrades = (Object.keys(comparison.exits) as PlanExit[]).reduce((sum, exit) => sum + comparison.exits[exit], 0);
+  const recent = [...comparison.deviations].sort((a, b) => b.entry.date.localeCompare(a.entry.date)).slice(0, 10);
+
+  const tiles = [
+    { label: 'Plans Taken', value: `${comparison.converted}`, detail: `${comparison.planned} still open` },
+    { label: 'Plans Skipped', value: `${comparison.skipped}`, detail: `Follow-through ${percent(comparison.followThrough)}` },
+    { label: 'Avg Entry Slippage', value: signedPercent(comparison.avgEntrySlippage), detail: 'Positive means filled worse than planned' },
+    { label: 'Avg Size vs Plan', value: signedPercent(comparison.avgSizeDeviation), detail: 'Actual notional against planned size' },
+  ];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-sm p-6 border border-gray-100 dark:border-gray-700 mb-6 space-y-6">
+      <div>
+        <div className="font-bold text-xl text-gray-900 dark:text-white">Planned vs Actual</div>
+        <div className="text-sm text-gray-500 dark:text-gray-400">How closely trades converted from a plan stuck to it</div>
+      </div>
+
+      {plans.length === 0 ? (
+        <div className="flex items-center justify-center h-32 text-gray-400 dark:text-gray-500 text-lg font-medium">
+          No data available yet
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {tiles.map(tile => (
+              <div key={tile.label} className="rounded-xl bg-gray-50 dark:bg-gray-900/40 p-4">
+                <div className="text-xs text-gray-500 dark:text-gray-400">{tile.label}</div>
+                <div className="text-2xl font-bold text-gray-900 dark:text-white">{tile.value}</div>
+                <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">{tile.detail}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Exits against the planned stop and target */}
+            <div>
+              <div className="font-semibold text-gray-900 dark:text-white mb-3">Exits</div>
+              {exitedTrades === 0 ? (
+                <div className="text-sm text-gray-500 dark:text-gray-400">Add exit prices and plan targets to see where trades closed</div>
+              ) : (
+                <div className="space-y-2">
+                  {(Object.keys(PLAN_EXIT_LABELS) as PlanExit[]).map(exit => (
+                    <div key={exit} className="text-sm">
+                      <div className="flex justify-between text-gray-700 dark:text-gray-300">
+                        <span>{PLAN_EXIT_LABELS[exit]}</span>
+                        <span>{comparison.exits[exit]} ({percent((comparison.exits[exit] / exitedTrades) * 100)})</span>
+                      </div>
+                      <div className="h-2 rounded-full bg-gray-100 dark:bg-gray-700 overflow-hidden">
+                        <div
+                          className={`h-full ${exit === 'target' ? 'bg-green-500' : exit === 'stop' ? 'bg-red-500' : 'bg-amber-500'}`}
+                          style={{ width: `${(comparison.exits[exit] / exitedTrades) * 100}%` }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Planned vs unplanned trades */}
+            <div className="overflow-x-auto">
+              <div className="font-semibold text-gray-900 dark:text-white mb-3">Planned vs Unplanned Trades</div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 dark:border-gray-700">
+                    <th className="text-left py-2 px-3 font-semibold text-gray-700 dark:text-gray-300" />
+                    <th className="text-center py-2 px-3 font-semibold text-gray-700 dark:text-gray-300">Trades</th>
+                    <th className="text-center py-2 px-3 font-semibold text-gray-700 dark:text-gray-300">Win Rate</th>
+                    <th className="text-center py-2 px-3 font-semibold text-gray-700 dark:text-gray-300">Expectancy</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[
+                    { label: 'From a plan', stats: comparison.plannedStats },
+                    { label: 'Unplanned', stats: comparison.unplannedStats },
+                  ].map(({ label, stats }, i) => (
+                    <tr key={label} className={i === 0 ? 'border-b border-gray-100 dark:border-gray-800' : ''}>
+                      <td className="py-3 px-3 text-left font-medium text-gray-900 dark:text-white">{label}</td>
+                      <td className="py-3 px-3 text-center text-gray-900 dark:text-white">{stats.trades}</td>
+                      <td className="py-3 px-3 text-center text-gray-900 dark:text-white">{percent(stats.winRate)}</td>
+                      <td className={`py-3 px-3 text-center ${(stats.expectancy ?? 0) >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {stats.expectancy !== null ? money(stats.expectancy) : '-'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Recent converted trades against their plan */}
+          {recent.length > 0 && (
+            <div className="overflow-x-auto">
+              <div className="font-semibold text-gray-900 dark:text-white mb-3">Recent Planned Trades</div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 dark:border-gray-700">
+                    <th className="text-left py-2 px-3 font-semibold text-gray-700 dark:text-gray-300">Date</th>
+                    <th className="text-left py-2 px-3 font-semibold text-gray-700 dark:text-gray-300">Coin</th>
+                    <th className="text-center py-2 px-3 font-semibold text-gray-700 dark:text-gray-300">Planned Entry</th>
+                    <th className="text-center py-2 px-3 font-semibold text-gray-700 dark:text-gray-300">Actual Entry</th>
+                    <th className="text-center py-2 px-3 font-semibold text-gray-700 dark:text-gray-300">Slippage</th>
+                    <th className="text-center py-2 px-3 font-semibold text-gray-700 dark:text-gray-300">Size vs Plan</th>
+                    <th className="text-center py-2 px-3 font-semibold text-gray-700 dark:text-gray-300">Exit</th>
+                    <th className="text-center py-2 px-3 font-semibold text-gray-700 dark:text-gray-300">P&L</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {recent.map((row, i) => (
+                    <tr key={row.plan.id} className={i !== recent.length - 1 ? 'border-b border-gray-100 dark:border-gray-800' : ''}>
+                      <td className="py-3 px-3 text-left text-gray-900 dark:text-white whitespace-nowrap">{format(parseISO(row.entry.date), 'MMM d, yyyy')}</td>
+                      <td className="py-3 px-3 text-left font-medium text-gray-900 dark:text-white">{row.entry.coin}</td>
+                      <td className="py-3 px-3 text-center text-gray-900 dark:text-white">{row.plan.entryPrice ?? '-'}</td>
+                      <td className="py-3 px-3 text-center text-gray-900 dark:text-white">{row.entry.entryPrice ?? '-'}</td>
+                      <td className={`py-3 px-3 text-center ${(row.entrySlippage ?? 0) > 0 ? 'text-red-600' : 'text-gray-900 dark:text-white'}`}>{signedPercent(row.entrySlippage)}</td>
+                      <td className="py-3 px-3 text-center text-gray-900 dark:text-white">{signedPercent(row.sizeDeviation)}</td>
+                      <td className="py-3 px-3 text-center text-gray-900 dark:text-white">{row.exit ? PLAN_EXIT_LABELS[row.exit] : '-'}</td>
+                      <td className={`py-3 px-3 text-center ${row.entry.pnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>{money(row.entry.pnl)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
 export function Analytics() {
-  const { entries } = useTradeStore()
+  const { entries, capitalEvents, initialCapital, plans } = useAccountScope()
 
   // Add granularity state
   const [granularity, setGranularity] = useState<'daily' | 'weekly' | 'monthly'>('daily')
@@ -999,36 +1619,11 @@ export function Analytics() {
       .sort((a, b) => b.totalTrades - a.totalTrades)
   }, [entries])
 
-  // Calculate mood impact
-  const moodImpact = useMemo(() => {
-    const moodStats = entries.reduce((acc, entry) => {
-    if (!acc[entry.mood]) {
-        acc[entry.mood] = {
-          wins: 0,
-          total: 0,
-          pnl: 0
-        }
-      }
-      acc[entry.mood].total++
-      if (entry.outcome === 'win') acc[entry.mood].wins++
-      acc[entry.mood].pnl += entry.pnl
-      return acc
-    }, {} as Record<string, { wins: number; total: number; pnl: number }>)
-
-    return Object.entries(moodStats)
-      .map(([mood, stats]) => ({
-        mood,
-        winRate: (stats.wins / stats.total) * 100,
-        avgPnL: stats.pnl / stats.total,
-        totalTrades: stats.total
-      }))
-      .sort((a, b) => b.totalTrades - a.totalTrades)
-  }, [entries])
-
   // Calculate trade frequency patterns
   const tradeFrequency = useMemo(() => {
     const frequency = entries.reduce((acc, entry) => {
-      const hour = format(parseISO(entry.date), 'HH:00')
+      // Prefer the actual open time (first fill) over the day-only trade date
+      const hour = format(parseISO(entry.entryTime || entry.date), 'HH:00')
       if (!acc[hour]) {
         acc[hour] = {
           count: 0,
@@ -1251,47 +1846,20 @@ export function Analytics() {
           <CoinPerformanceTable entries={entries} />
         </div>
 
-        {/* Mood Impact */}
-        <Card>
-          <CardHeader className="pb-2">
-            <CardTitle className="text-base sm:text-lg font-semibold text-gray-900 dark:text-white">Mood Impact</CardTitle>
-          </CardHeader>
-          <CardContent className="h-[300px] sm:h-[400px]">
-            {moodImpact.length === 0 ? (
-              <div className="flex items-center justify-center h-full text-gray-400 dark:text-gray-500 text-lg font-medium">
-                No data available yet
-              </div>
-            ) : (
-              <ResponsiveContainer width="100%" height="100%">
-                <BarChart data={moodImpact} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
-                  <CartesianGrid strokeDasharray="3 3" stroke={COLORS.chart.grid} />
-                  <XAxis 
-                    dataKey="mood" 
-                    tick={{ fill: COLORS.text.secondary, fontSize: 12 }}
-                  />
-                  <YAxis 
-                    tick={{ fill: COLORS.text.secondary, fontSize: 12 }}
-                    tickFormatter={(value) => `${value}%`}
-                  />
-                  <Tooltip 
-                    contentStyle={{ 
-                      backgroundColor: COLORS.chart.tooltip,
-                      border: 'none',
-                      borderRadius: '8px',
-                      color: 'white',
-                      fontSize: '12px'
-                    }}
-                    formatter={(value: number) => [`${value.toFixed(1)}%`, 'Win Rate']}
-                  />
-                  <Bar dataKey="winRate" fill={COLORS.chart.accent} />
-                </BarChart>
-              </ResponsiveContainer>
-            )}
-          </CardContent>
-        </Card>
+        {/* Trading costs by coin and month */}
+        <CostsBreakdownTable entries={entries} />
+
+        {/* Emotion Impact */}
+        <EmotionImpactTable entries={entries} />
+
+        {/* Rule adherence */}
+        <RuleAdherenceSection entries={entries} />
+
+        {/* Trade plans */}
+        <PlanComparisonSection entries={entries} plans={plans} />
 
         {/* --- NEW: Bottom Metrics Cards --- */}
-        <BottomMetricsCards entries={entries} />
+        <BottomMetricsCards entries={entries} capitalEvents={capitalEvents} initialCapital={initialCapital} />
       </div>
     </div>
   )
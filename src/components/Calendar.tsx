@@ -1,17 +1,38 @@
 import { useState, useRef, useEffect, useMemo } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog'
-import { useTradeStore, type TradeEntry } from '@/store/tradeStore'
+import { useTradeStore, useAccountScope, type TradeEntry, type TradeExecution, type TradingRule } from '@/store/tradeStore'
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isToday, getDay, parseISO, addMonths, subMonths } from 'date-fns'
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
 import { useToast } from '@/components/ui/use-toast'
-import { Loader2 } from 'lucide-react'
+import { undoToastAction } from '@/components/UndoRedo'
+import { StoredImage } from '@/components/StoredImage'
+import { describeSavedUploads, saveUploadedImages } from '@/lib/imageStore'
+import { getContractSpecs, type QuoteConversion } from '@/lib/instruments'
+import { Loader2, NotebookPen, CalendarCheck, Calculator } from 'lucide-react'
 import { CoinInput } from '@/components/ui/coin-input'
 import { SetupInput } from '@/components/ui/setup-input'
+import { TagInput } from '@/components/ui/tag-input'
+import { TagBadge } from '@/components/TagBadge'
 import type { JSX } from 'react'
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog'
 import { ChevronLeft, ChevronRight, Plus, Trash2, Download, Upload, X } from 'lucide-react'
 import { RulesSelector } from '@/components/RulesSelector'
+import { PlaybookChecklist } from '@/components/PlaybookChecklist'
+import { DailyJournalEditor } from '@/components/DailyJournalEditor'
+import { PeriodReviewsDialog } from '@/components/PeriodReviews'
+import { PositionSizeCalculator, type SizedTrade } from '@/components/PositionSizeCalculator'
+import { AccountSelect } from '@/components/AccountSwitcher'
+import { TradePriceFields, type TradePriceValues } from '@/components/TradePriceFields'
+import { ExecutionsEditor } from '@/components/ExecutionsEditor'
+import { TradeCostFields, type TradeCostValues } from '@/components/TradeCostFields'
+import { TradeRiskFields, type TradeRiskValues } from '@/components/TradeRiskFields'
+import { TradeEmotionFields } from '@/components/TradeEmotionFields'
+import { getRecordedEmotions, type TradeEmotions } from '@/lib/emotions'
+import { getUncheckedMandatoryRules } from '@/lib/rules'
+import { getLimitBreaches, RISK_LIMIT_LABELS, type LimitBreach, type RiskOverride } from '@/lib/guardrails'
+import { aggregateExecutions, calculateTradePnL, getTradeCosts, toAccountCurrency } from '@/lib/pnl'
+import { DAY_GRADE_CLASSES } from '@/lib/dailyJournal'
 
 const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
 
@@ -55,28 +76,41 @@ interface FormErrors {
   tags?: string
 }
 
-interface TradeEntryForm {
+interface TradeEntryForm extends TradePriceValues, TradeCostValues, TradeRiskValues {
   lessons: string
   setup: string[]
   coin: string
+  multiplier?: number // Contract multiplier of the selected instrument, for the P&L preview
+  quoteConversion?: QuoteConversion
   pnl: number | null
   outcome: 'win' | 'loss'
   tags: string[]
-  mood: string
+  emotions: TradeEmotions
   notes: string
-  images: { name: string; preview: string; data: string }[]
+  images: { id: string; name: string }[] // Ids in the image store
   lastSaved?: string
   positionSize: string
   leverage: string
   link: string
   selectedRules: string[]
+  brokenRules: string[]
+  executions: TradeExecution[]
+  accountId: string
+  planId?: string // Set while converting a trade plan
 }
 
-export function Calendar({ autoOpen = false }: { autoOpen?: boolean }): JSX.Element {
+export function Calendar({ autoOpen = false, planId, sizedTrade }: { autoOpen?: boolean; planId?: string; sizedTrade?: SizedTrade }): JSX.Element {
   const [selectedDate, setSelectedDate] = useState<string | null>(null)
   const [isDialogOpen, setIsDialogOpen] = useState(false)
   const [isEditing, setIsEditing] = useState(false)
   const [isViewMode, setIsViewMode] = useState(false)
+  const [dayView, setDayView] = useState<'trades' | 'journal'>('trades')
+  const [isReviewsOpen, setIsReviewsOpen] = useState(false)
+  const [isCalculatorOpen, setIsCalculatorOpen] = useState(false)
+  const { entries, isAllAccounts, account } = useAccountScope()
+  const { entries: allEntries, addEntry, deleteEntry, updateEntry, settings, accounts, rules, plans, dailyJournals } = useTradeStore()
+  // New trades go to the selected account, or the first one in the "all accounts" view
+  const defaultAccountId = account?.id ?? accounts[0]?.id
   const [formData, setFormData] = useState<TradeEntryForm>({
     lessons: '',
     setup: [],
@@ -84,24 +118,41 @@ export function Calendar({ autoOpen = false }: { autoOpen?: boolean }): JSX.Elem
     pnl: null,
     outcome: 'win',
     tags: [],
-    mood: 'neutral',
+    emotions: {},
     notes: '',
     images: [],
     positionSize: '',
     leverage: '',
     link: '',
     selectedRules: [],
+    brokenRules: [],
+    executions: [],
+    accountId: defaultAccountId,
   })
+
+  // Bumped whenever the form is loaded with another trade or closed, so uploads still compressing
+  // for the previous one are dropped instead of landing on it
+  const formSession = useRef(0)
+  const loadForm = (data: TradeEntryForm) => {
+    formSession.current += 1
+    setFormData(data)
+  }
+  useEffect(() => {
+    if (!isDialogOpen) formSession.current += 1
+  }, [isDialogOpen])
+
   const today = new Date()
   const [currentDate, setCurrentDate] = useState(today)
   const [selectedTradeIndex, setSelectedTradeIndex] = useState<number>(0)
-  const [previewImage, setPreviewImage] = useState<null | { preview: string; name: string }>(null)
-  const [selectedImage, setSelectedImage] = useState<{ preview: string; name: string } | null>(null)
+  const [selectedImage, setSelectedImage] = useState<{ id: string; name: string } | null>(null)
 
-  const { entries, addEntry, deleteEntry, updateEntry, settings } = useTradeStore()
   const { toast } = useToast()
   const [isSaving, setIsSaving] = useState(false)
   const [errors, setErrors] = useState<FormErrors>({})
+  // Unchecked mandatory rules waiting for the user to confirm they were broken
+  const [rulesToConfirm, setRulesToConfirm] = useState<TradingRule[]>([])
+  // Risk limits already hit on the day of a new trade, waiting for an override and its reason
+  const [limitOverride, setLimitOverride] = useState<{ brokenRules: string[]; breaches: LimitBreach[]; reason: string } | null>(null)
   const [charCount, setCharCount] = useState({ lessons: 0, notes: 0 })
 
   const imageContainerRef = useRef<HTMLDivElement>(null)
@@ -119,6 +170,77 @@ export function Calendar({ autoOpen = false }: { autoOpen?: boolean }): JSX.Elem
     }
   }, [autoOpen]) // Only depend on autoOpen, not on handleDateClick
 
+  // Converting a plan opens a new trade for today, pre-filled from the plan
+  useEffect(() => {
+    const plan = plans.find(p => p.id === planId && p.status === 'planned')
+    if (!plan) return
+    const specs = getContractSpecs(plan.coin, settings.instruments)
+    const unitValue = plan.entryPrice ? toAccountCurrency(plan.entryPrice * specs.multiplier, plan.entryPrice, specs) : null
+    setSelectedDate(format(new Date(), 'yyyy-MM-dd'))
+    loadForm({
+      lessons: '',
+      setup: plan.setup,
+      coin: plan.coin,
+      ...specs,
+      pnl: null,
+      outcome: 'win',
+      tags: [],
+      emotions: {},
+      notes: plan.thesis,
+      images: [],
+      positionSize: plan.positionSize?.toString() ?? '',
+      leverage: plan.leverage?.toString() ?? '',
+      link: '',
+      selectedRules: plan.selectedRules,
+      brokenRules: [],
+      executions: [],
+      accountId: plan.accountId,
+      direction: plan.direction,
+      entryPrice: plan.entryPrice,
+      quantity: unitValue && plan.positionSize ? plan.positionSize / unitValue : undefined,
+      plannedStop: plan.plannedStop,
+      plannedTarget: plan.plannedTarget,
+      planId: plan.id,
+    })
+    setIsEditing(false)
+    setIsViewMode(false)
+    setDayView('trades')
+    setIsDialogOpen(true)
+  }, [planId]) // Only when a new plan is handed over
+
+  // A position sized in the calculator opens a new trade for today with its prices, size and leverage
+  useEffect(() => {
+    if (!sizedTrade) return
+    setSelectedDate(format(new Date(), 'yyyy-MM-dd'))
+    loadForm({
+      lessons: '',
+      setup: [],
+      coin: sizedTrade.coin ?? '',
+      ...(sizedTrade.coin ? getContractSpecs(sizedTrade.coin, settings.instruments) : {}),
+      pnl: null,
+      outcome: 'win',
+      tags: [],
+      emotions: {},
+      notes: '',
+      images: [],
+      direction: sizedTrade.direction,
+      entryPrice: sizedTrade.entryPrice,
+      plannedStop: sizedTrade.stopPrice,
+      quantity: sizedTrade.quantity,
+      positionSize: sizedTrade.positionSize.toString(),
+      leverage: sizedTrade.leverage.toString(),
+      link: '',
+      selectedRules: [],
+      brokenRules: [],
+      executions: [],
+      accountId: sizedTrade.accountId,
+    })
+    setIsEditing(false)
+    setIsViewMode(false)
+    setDayView('trades')
+    setIsDialogOpen(true)
+  }, [sizedTrade]) // Only when a new sizing is handed over
+
   const monthStart = startOfMonth(currentDate)
   const monthEnd = endOfMonth(currentDate)
   const startDate = new Date(monthStart)
@@ -143,47 +265,64 @@ export function Calendar({ autoOpen = false }: { autoOpen?: boolean }): JSX.Elem
     if (dayEntries.length > 0) {
       setSelectedTradeIndex(0) // Start with the first trade
       const entry = dayEntries[0]
-      setFormData({
+      loadForm({
         lessons: entry.lessons || '',
         setup: Array.isArray(entry.setup) ? entry.setup : (entry.setup ? [entry.setup] : []),
         coin: entry.coin || '',
-        pnl: entry.pnl || null,
+        multiplier: entry.multiplier,
+        quoteConversion: entry.quoteConversion,
+        pnl: (entry.grossPnl ?? entry.pnl) || null,
         outcome: entry.outcome || 'win',
         tags: entry.tags || [],
-        mood: entry.mood || 'neutral',
+        emotions: entry.emotions || {},
         notes: entry.notes || '',
-        images: entry.images?.map(img => ({
-          name: 'Trade Image',
-          preview: img,
-          data: img
-        })) || [],
+        images: entry.images?.map(id => ({ id, name: 'Trade Image' })) || [],
         lastSaved: entry.lastSaved || new Date().toISOString(),
         positionSize: entry.positionSize?.toString() || '',
         leverage: entry.leverage?.toString() || '',
         link: entry.link || '',
         selectedRules: entry.selectedRules || [],
+        brokenRules: entry.brokenRules || [],
+        accountId: entry.accountId,
+        direction: entry.direction,
+        entryPrice: entry.entryPrice,
+        exitPrice: entry.exitPrice,
+        quantity: entry.quantity,
+        entryTime: entry.entryTime,
+        exitTime: entry.exitTime,
+        executions: entry.executions || [],
+        commission: entry.commission,
+        funding: entry.funding,
+        otherCosts: entry.otherCosts,
+        plannedStop: entry.plannedStop,
+        plannedTarget: entry.plannedTarget,
+        initialRisk: entry.initialRisk,
       })
       setIsEditing(false)
       setIsViewMode(true)
     } else {
-      setFormData({
+      loadForm({
         lessons: '',
         setup: [],
         coin: '',
         pnl: null,
         outcome: 'win',
         tags: [],
-        mood: 'neutral',
+        emotions: {},
         notes: '',
         images: [],
         positionSize: '',
         leverage: '',
         link: '',
         selectedRules: [],
+        brokenRules: [],
+        executions: [],
+        accountId: defaultAccountId,
       })
       setIsEditing(false)
       setIsViewMode(false)
     }
+    setDayView('trades')
     setIsDialogOpen(true)
   }
 
@@ -193,25 +332,38 @@ export function Calendar({ autoOpen = false }: { autoOpen?: boolean }): JSX.Elem
     if (dayEntries[index]) {
       const entry = dayEntries[index]
       setSelectedTradeIndex(index)
-      setFormData({
+      loadForm({
         lessons: entry.lessons || '',
         setup: Array.isArray(entry.setup) ? entry.setup : (entry.setup ? [entry.setup] : []),
         coin: entry.coin || '',
-        pnl: entry.pnl || null,
+        multiplier: entry.multiplier,
+        quoteConversion: entry.quoteConversion,
+        pnl: (entry.grossPnl ?? entry.pnl) || null,
         outcome: entry.outcome || 'win',
         tags: entry.tags || [],
-        mood: entry.mood || 'neutral',
+        emotions: entry.emotions || {},
         notes: entry.notes || '',
-        images: entry.images?.map(img => ({
-          name: 'Trade Image',
-          preview: img,
-          data: img
-        })) || [],
+        images: entry.images?.map(id => ({ id, name: 'Trade Image' })) || [],
         lastSaved: entry.lastSaved || new Date().toISOString(),
         positionSize: entry.positionSize?.toString() || '',
         leverage: entry.leverage?.toString() || '',
         link: entry.link || '',
         selectedRules: entry.selectedRules || [],
+        brokenRules: entry.brokenRules || [],
+        accountId: entry.accountId,
+        direction: entry.direction,
+        entryPrice: entry.entryPrice,
+        exitPrice: entry.exitPrice,
+        quantity: entry.quantity,
+        entryTime: entry.entryTime,
+        exitTime: entry.exitTime,
+        executions: entry.executions || [],
+        commission: entry.commission,
+        funding: entry.funding,
+        otherCosts: entry.otherCosts,
+        plannedStop: entry.plannedStop,
+        plannedTarget: entry.plannedTarget,
+        initialRisk: entry.initialRisk,
       })
       setIsViewMode(true)
       setIsEditing(false)
@@ -227,20 +379,23 @@ export function Calendar({ autoOpen = false }: { autoOpen?: boolean }): JSX.Elem
     if (!selectedDate) return
     
     // Reset form for new trade while keeping the same date
-    setFormData({
+    loadForm({
       lessons: '',
       setup: [],
       coin: '',
       pnl: null,
       outcome: 'win',
       tags: [],
-      mood: 'neutral',
+      emotions: {},
       notes: '',
       images: [],
       positionSize: '',
       leverage: '',
       link: '',
       selectedRules: [],
+      brokenRules: [],
+      executions: [],
+      accountId: defaultAccountId,
     })
     setIsEditing(false)
     setIsViewMode(false)
@@ -286,34 +441,37 @@ export function Calendar({ autoOpen = false }: { autoOpen?: boolean }): JSX.Elem
       return
     }
 
-    // Validate file size (5MB limit)
-    const validFiles = files.filter(file => file.size <= 5 * 1024 * 1024)
-    
-    if (validFiles.length !== files.length) {
+    await addUploads(files)
+  }
+
+  // Compress and store the files in the image store; the form keeps their ids
+  const storeUploads = async (files: File[]) => {
+    if (files.length === 0) return []
+    try {
+      const saved = await saveUploadedImages(files, {
+        maxDimension: settings.imageMaxDimension,
+        format: settings.imageFormat,
+        quality: settings.imageQuality
+      })
+      toast(describeSavedUploads(saved))
+      return saved.ids.map((id, index) => ({ id, name: saved.names[index] }))
+    } catch (error) {
+      console.error('Error storing images:', error)
       toast({
-        title: 'File too large',
-        description: 'Some files were skipped because they exceed 5MB limit',
+        title: 'Upload failed',
+        description: error instanceof Error ? error.message : 'The images could not be stored',
         variant: 'destructive'
       })
+      return []
     }
+  }
 
-    // Process valid files
-    const processedFiles = await Promise.all(
-      validFiles.map(async (file) => {
-        return new Promise<{ name: string; preview: string; data: string }>((resolve) => {
-          const reader = new FileReader()
-          reader.onloadend = () => {
-            resolve({
-              name: file.name,
-              preview: URL.createObjectURL(file),
-              data: reader.result as string
-            })
-          }
-          reader.readAsDataURL(file)
-        })
-      })
-    )
-
+  // Adds the stored files to the form they were uploaded on; compression takes a while and
+  // another trade may have been opened meanwhile
+  const addUploads = async (files: File[]) => {
+    const session = formSession.current
+    const processedFiles = await storeUploads(files)
+    if (formSession.current !== session) return
     setFormData(prev => ({
       ...prev,
       images: [...(prev.images || []), ...processedFiles]
@@ -322,40 +480,7 @@ export function Calendar({ autoOpen = false }: { autoOpen?: boolean }): JSX.Elem
 
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
-      const files = Array.from(e.target.files)
-      
-      // Validate file size (5MB limit)
-      const validFiles = files.filter(file => file.size <= 5 * 1024 * 1024)
-      
-      if (validFiles.length !== files.length) {
-        toast({
-          title: 'File too large',
-          description: 'Some files were skipped because they exceed 5MB limit',
-          variant: 'destructive'
-        })
-      }
-
-      // Process valid files
-      const processedFiles = await Promise.all(
-        validFiles.map(async (file) => {
-          return new Promise<{ name: string; preview: string; data: string }>((resolve) => {
-            const reader = new FileReader()
-            reader.onloadend = () => {
-              resolve({
-                name: file.name,
-                preview: URL.createObjectURL(file),
-                data: reader.result as string
-              })
-            }
-            reader.readAsDataURL(file)
-          })
-        })
-      )
-
-      setFormData(prev => ({
-        ...prev,
-        images: [...(prev.images || []), ...processedFiles]
-      }))
+      await addUploads(Array.from(e.target.files))
     }
   }
 
@@ -366,7 +491,7 @@ export function Calendar({ autoOpen = false }: { autoOpen?: boolean }): JSX.Elem
     }))
   }
 
-  const handleImageClick = (image: { preview: string; name: string }, index: number) => {
+  const handleImageClick = (image: { id: string; name: string }, index: number) => {
     setSelectedImage(image)
     setCurrentImageIndex(index)
     setScale(1)
@@ -465,6 +590,12 @@ export function Calendar({ autoOpen = false }: { autoOpen?: boolean }): JSX.Elem
     }
   }, [handleWheel])
 
+  // P&L derived from executions or direction, prices and quantity (null when incomplete)
+  const executionAggregate = aggregateExecutions(formData)
+  const computedPnL = calculateTradePnL(formData)
+  const grossPnLPreview = computedPnL ?? formData.pnl
+  const netPnLPreview = grossPnLPreview !== null ? grossPnLPreview - getTradeCosts(formData).total : null
+
   // Add validation function
   const validateForm = (): boolean => {
     const newErrors: FormErrors = {}
@@ -477,8 +608,8 @@ export function Calendar({ autoOpen = false }: { autoOpen?: boolean }): JSX.Elem
       newErrors.coin = 'Coin is required'
     }
 
-    if (formData.pnl === null) {
-      newErrors.pnl = 'P&L is required'
+    if (formData.pnl === null && computedPnL === null) {
+      newErrors.pnl = 'P&L is required unless direction, prices and quantity are filled in'
     }
     
     if (formData.lessons.length > 500) {
@@ -504,33 +635,76 @@ export function Calendar({ autoOpen = false }: { autoOpen?: boolean }): JSX.Elem
       return // Stop if validation fails
     }
 
+    // Breaking a mandatory rule has to be confirmed, unless it already was on an earlier save
+    const unchecked = getUncheckedMandatoryRules(formData.selectedRules, rules)
+    if (unchecked.some(rule => !formData.brokenRules.includes(rule.id))) {
+      setRulesToConfirm(unchecked)
+      return
+    }
+    checkRiskLimits(unchecked.map(rule => rule.id))
+  }
+
+  // A new trade on a day that already hit a risk limit is only saved with an override and a reason
+  const checkRiskLimits = (brokenRules: string[]) => {
+    if (!selectedDate) return
+    const accountEntries = allEntries.filter(entry => entry.accountId === formData.accountId)
+    const breaches = isEditing ? [] : getLimitBreaches(accountEntries, settings.riskLimits, selectedDate)
+    if (breaches.length > 0) {
+      setLimitOverride({ brokenRules, breaches, reason: '' })
+      return
+    }
+    saveEntry(brokenRules)
+  }
+
+  const saveEntry = (brokenRules: string[], riskOverride?: RiskOverride) => {
+    if (!selectedDate) return
     setIsSaving(true)
     try {
+      const grossPnl = computedPnL ?? (formData.pnl !== null ? formData.pnl : 0)
       const entry = {
         date: selectedDate,
         lessons: formData.lessons,
         setup: formData.setup,
         coin: formData.coin,
-        pnl: formData.pnl !== null ? formData.pnl : 0,
+        multiplier: formData.multiplier,
+        quoteConversion: formData.quoteConversion,
+        // Entered or derived P&L is gross; the store nets costs out of pnl
+        pnl: grossPnl,
+        grossPnl,
         outcome: formData.outcome,
         tags: formData.tags,
-        mood: formData.mood,
+        emotions: getRecordedEmotions(formData.emotions).length > 0 ? formData.emotions : undefined,
         notes: formData.notes,
-        images: formData.images.map(img => img.data),
+        images: formData.images.map(img => img.id),
         lastSaved: new Date().toISOString(),
         positionSize: formData.positionSize ? parseFloat(formData.positionSize) : undefined,
         leverage: formData.leverage ? parseFloat(formData.leverage) : undefined,
         link: formData.link,
         selectedRules: formData.selectedRules,
+        brokenRules: brokenRules.length > 0 ? brokenRules : undefined,
+        direction: formData.direction,
+        entryPrice: formData.entryPrice,
+        exitPrice: formData.exitPrice,
+        quantity: formData.quantity,
+        entryTime: formData.entryTime,
+        exitTime: formData.exitTime,
+        executions: formData.executions.length > 0 ? formData.executions : undefined,
+        accountId: formData.accountId,
+        commission: formData.commission,
+        funding: formData.funding,
+        otherCosts: formData.otherCosts,
+        plannedStop: formData.plannedStop,
+        plannedTarget: formData.plannedTarget,
+        initialRisk: formData.initialRisk,
       }
 
       if (isEditing) {
         const dayEntries = entries.filter(e => e.date === selectedDate)
         if (dayEntries[selectedTradeIndex]) {
-          updateEntry(dayEntries[selectedTradeIndex].id, entry)
+          updateEntry(dayEntries[selectedTradeIndex].id, entry, 'Calendar')
         }
       } else {
-        addEntry(entry)
+        addEntry({ ...entry, planId: formData.planId, riskOverride }, 'Calendar')
       }
 
       setIsDialogOpen(false)
@@ -575,26 +749,34 @@ export function Calendar({ autoOpen = false }: { autoOpen?: boolean }): JSX.Elem
       const dayEntries = entries.filter(entry => entry.date === selectedDate)
       if (dayEntries[selectedTradeIndex]) {
         deleteEntry(dayEntries[selectedTradeIndex].id)
+        toast({
+          title: 'Success',
+          description: 'Trade entry moved to trash',
+          action: undoToastAction()
+        })
         // If there are more trades, show the next one
         if (dayEntries.length > 1) {
           const nextIndex = Math.min(selectedTradeIndex, dayEntries.length - 2)
           handleTradeSelect(nextIndex)
         } else {
           setIsDialogOpen(false)
-          setFormData({
+          loadForm({
             lessons: '',
             setup: [],
             coin: '',
             pnl: null,
             outcome: 'win',
             tags: [],
-            mood: 'neutral',
+            emotions: {},
             notes: '',
             images: [],
             positionSize: '',
             leverage: '',
             link: '',
             selectedRules: [],
+            brokenRules: [],
+            executions: [],
+            accountId: defaultAccountId,
           })
           setIsEditing(false)
           setSelectedTradeIndex(0)
@@ -636,6 +818,14 @@ export function Calendar({ autoOpen = false }: { autoOpen?: boolean }): JSX.Elem
         <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
           <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Trading Calendar</h1>
           <div className="flex items-center gap-2">
+            <button
+              onClick={() => setIsReviewsOpen(true)}
+              className="flex items-center gap-1.5 px-3 py-2 mr-2 rounded-lg text-sm font-medium hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-700 dark:text-gray-300"
+              title="Weekly and monthly reviews"
+            >
+              <CalendarCheck size={16} />
+              Reviews
+            </button>
             <button
               onClick={handlePrevMonth}
               className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-700 dark:text-gray-300"
@@ -666,6 +856,7 @@ export function Calendar({ autoOpen = false }: { autoOpen?: boolean }): JSX.Elem
           {calendarDays.map((day, i) => {
             const dateStr = format(day, 'yyyy-MM-dd')
             const dayEntries = entries.filter(entry => entry.date === dateStr)
+            const dayJournal = dailyJournals.find(journal => journal.date === dateStr)
             const isCurrentMonth = isSameMonth(day, currentDate)
             const isCurrentDay = isToday(day)
 
@@ -690,6 +881,14 @@ export function Calendar({ autoOpen = false }: { autoOpen?: boolean }): JSX.Elem
                 >
                   {format(day, 'd')}
                 </span>
+                {dayJournal && (
+                  <span className="absolute top-2 right-2 flex items-center gap-1" title="Day journal written">
+                    {dayJournal.grade && (
+                      <span className={`px-1 rounded text-[10px] font-semibold ${DAY_GRADE_CLASSES[dayJournal.grade]}`}>{dayJournal.grade}</span>
+                    )}
+                    <NotebookPen size={14} className="text-indigo-500" />
+                  </span>
+                )}
                 {dayEntries.length > 0 && (
                   <div className="mt-1 space-y-1">
                     {dayEntries.map((entry, index) => (
@@ -718,8 +917,37 @@ export function Calendar({ autoOpen = false }: { autoOpen?: boolean }): JSX.Elem
             <DialogTitle className="text-xl font-semibold text-gray-900 dark:text-white">
               {selectedDate ? format(new Date(selectedDate), 'MMMM d, yyyy') : ''}
             </DialogTitle>
+            <div className="flex gap-1 p-1 mt-2 bg-gray-100 dark:bg-gray-700 rounded-lg w-fit">
+              {([['trades', 'Trades'], ['journal', 'Day Journal']] as const).map(([view, label]) => (
+                <button
+                  key={view}
+                  onClick={() => setDayView(view)}
+                  className={`px-3 py-1 text-sm font-medium rounded-md transition-colors ${
+                    dayView === view
+                      ? 'bg-white dark:bg-gray-800 text-gray-900 dark:text-white shadow-sm'
+                      : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {dayView === 'trades' && formData.planId && !isViewMode && (
+              <DialogDescription>
+                From your trade plan: {plans.find(p => p.id === formData.planId)?.thesis}
+              </DialogDescription>
+            )}
+            {dayView === 'trades' && isViewMode && (() => {
+              const override = entries.filter(entry => entry.date === selectedDate)[selectedTradeIndex]?.riskOverride
+              if (!override) return null
+              return (
+                <div className="mt-2 px-3 py-2 rounded-lg border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 text-sm text-amber-800 dark:text-amber-300">
+                  <span className="font-medium">Taken past {override.limits.map(limit => RISK_LIMIT_LABELS[limit].toLowerCase()).join(', ')}:</span> {override.reason}
+                </div>
+              )
+            })()}
             {/* Trade Navigation - Show when multiple trades exist */}
-            {isViewMode && selectedDate && (() => {
+            {dayView === 'trades' && isViewMode && selectedDate && (() => {
               const dayEntries = entries.filter(entry => entry.date === selectedDate)
               if (dayEntries.length > 1) {
                 return (
@@ -754,299 +982,508 @@ export function Calendar({ autoOpen = false }: { autoOpen?: boolean }): JSX.Elem
             })()}
           </DialogHeader>
 
-          <div className="space-y-2 sm:space-y-4">
-            {/* Trade Info Section */}
-            <section>
-              <h3 className="text-base font-semibold text-gray-900 dark:text-white border-b pb-0.5 mb-1">Trade Information</h3>
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Coin</label>
-                  {isViewMode ? (
-                    <div className="w-full px-3 py-2 text-base text-gray-900 dark:text-white bg-gray-100 dark:bg-gray-700 rounded-lg">
-                      {formData.coin || <span className="text-gray-400">No coin</span>}
+          {dayView === 'journal' && selectedDate ? (
+            <DailyJournalEditor date={selectedDate} onClose={() => setIsDialogOpen(false)} />
+          ) : (
+            <>
+            <div className="space-y-2 sm:space-y-4">
+              {/* Trade Info Section */}
+              <section>
+                <h3 className="text-base font-semibold text-gray-900 dark:text-white border-b pb-0.5 mb-1">Trade Information</h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  {(accounts.length > 1 || isAllAccounts) && (
+                    <div className="sm:col-span-2">
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Account</label>
+                      {isViewMode ? (
+                        <div className="w-full px-3 py-2 text-base text-gray-900 dark:text-white bg-gray-100 dark:bg-gray-700 rounded-lg">
+                          {accounts.find(a => a.id === formData.accountId)?.name || <span className="text-gray-400">Unknown account</span>}
+                        </div>
+                      ) : (
+                        <AccountSelect
+                          value={formData.accountId}
+                          onChange={accountId => setFormData(prev => ({ ...prev, accountId }))}
+                        />
+                      )}
                     </div>
-                  ) : (
-                    <CoinInput
-                      value={formData.coin}
-                      onChange={coin => setFormData({ ...formData, coin })}
+                  )}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Coin</label>
+                    {isViewMode ? (
+                      <div className="w-full px-3 py-2 text-base text-gray-900 dark:text-white bg-gray-100 dark:bg-gray-700 rounded-lg">
+                        {formData.coin || <span className="text-gray-400">No coin</span>}
+                      </div>
+                    ) : (
+                      <CoinInput
+                        value={formData.coin}
+                        onChange={coin => setFormData({ ...formData, coin, ...getContractSpecs(coin, settings.instruments) })}
+                        disabled={isViewMode}
+                      />
+                    )}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">P&L ($)</label>
+                    <input
+                      type="number"
+                      value={computedPnL !== null ? computedPnL.toFixed(2) : (formData.pnl === null ? '' : formData.pnl)}
+                      onChange={(e) => handlePnLChange(e.target.value)}
+                      className="w-full px-3 py-2 text-base border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+                      placeholder="Enter P&L in dollars"
+                      disabled={isViewMode || computedPnL !== null}
+                    />
+                    {computedPnL !== null && (
+                      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                        {executionAggregate ? 'Realized from executions' : 'Calculated from entry/exit prices'}
+                      </p>
+                    )}
+                    {formData.quoteConversion === 'manual' && !isViewMode && (
+                      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                        Quoted in a currency without a known dollar rate; enter the P&L in dollars
+                      </p>
+                    )}
+                    {errors.pnl && (
+                      <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.pnl.replace('P&L', 'P&L ($)')}</p>
+                    )}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Outcome</label>
+                    <select
+                      value={formData.outcome}
+                      onChange={(e) => setFormData({ ...formData, outcome: e.target.value as 'win' | 'loss' })}
+                      className="w-full px-3 py-2 text-base border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
                       disabled={isViewMode}
+                    >
+                      <option value="win">Win</option>
+                      <option value="loss">Loss</option>
+                    </select>
+                  </div>
+                  <div className="sm:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Setup</label>
+                    {isViewMode ? (
+                      <div className="w-full px-3 py-2 text-base text-gray-900 dark:text-white bg-gray-100 dark:bg-gray-700 rounded-lg">
+                        {formData.setup.length > 0 ? formData.setup.join(' + ') : <span className="text-gray-400">No setup</span>}
+                      </div>
+                    ) : (
+                      <SetupInput
+                        value={formData.setup}
+                        onChange={(value) => setFormData({ ...formData, setup: value })}
+                        disabled={isViewMode}
+                      />
+                    )}
+                    {errors.setup && (
+                      <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.setup}</p>
+                    )}
+                    <PlaybookChecklist
+                      setups={formData.setup}
+                      selectedRules={formData.selectedRules}
+                      onRulesChange={isViewMode ? undefined : (ruleIds) => setFormData({ ...formData, selectedRules: ruleIds })}
+                      trade={selectedDate ? { date: selectedDate } : undefined}
+                      className="mt-2"
                     />
-                  )}
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">P&L ($)</label>
-                  <input
-                    type="number"
-                    value={formData.pnl === null ? '' : formData.pnl}
-                    onChange={(e) => handlePnLChange(e.target.value)}
-                    className="w-full px-3 py-2 text-base border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
-                    placeholder="Enter P&L in dollars"
-                    disabled={isViewMode}
-                  />
-                  {errors.pnl && (
-                    <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.pnl.replace('P&L', 'P&L ($)')}</p>
-                  )}
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Outcome</label>
-                  <select
-                    value={formData.outcome}
-                    onChange={(e) => setFormData({ ...formData, outcome: e.target.value as 'win' | 'loss' })}
-                    className="w-full px-3 py-2 text-base border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
-                    disabled={isViewMode}
-                  >
-                    <option value="win">Win</option>
-                    <option value="loss">Loss</option>
-                  </select>
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Mood</label>
-                  <select
-                    value={formData.mood}
-                    onChange={(e) => setFormData({ ...formData, mood: e.target.value })}
-                    className="w-full px-3 py-2 text-base border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
-                    disabled={isViewMode}
-                  >
-                    <option value="great">Great</option>
-                    <option value="good">Good</option>
-                    <option value="neutral">Neutral</option>
-                    <option value="bad">Bad</option>
-                    <option value="terrible">Terrible</option>
-                  </select>
-                </div>
-                <div className="sm:col-span-2">
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Setup</label>
-                  {isViewMode ? (
-                    <div className="w-full px-3 py-2 text-base text-gray-900 dark:text-white bg-gray-100 dark:bg-gray-700 rounded-lg">
-                      {formData.setup.length > 0 ? formData.setup.join(' + ') : <span className="text-gray-400">No setup</span>}
+                  </div>
+                  <div className="sm:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Tags <span className="text-gray-400">(optional)</span></label>
+                    {isViewMode ? (
+                      <div className="w-full px-3 py-2 text-base bg-gray-100 dark:bg-gray-700 rounded-lg flex flex-wrap gap-1">
+                        {formData.tags.length > 0
+                          ? formData.tags.map(tag => <TagBadge key={tag} tag={tag} />)
+                          : <span className="text-gray-400">No tags</span>}
+                      </div>
+                    ) : (
+                      <TagInput
+                        value={formData.tags}
+                        onChange={(tags) => setFormData({ ...formData, tags })}
+                      />
+                    )}
+                    {errors.tags && (
+                      <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.tags}</p>
+                    )}
+                  </div>
+                  <div>
+                    <div className="flex items-center justify-between mb-1">
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Position Size ($) <span className="text-gray-400">(optional)</span></label>
+                      {!isViewMode && (
+                        <button
+                          type="button"
+                          onClick={() => setIsCalculatorOpen(true)}
+                          className="flex items-center gap-1 text-xs font-medium text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300"
+                        >
+                          <Calculator size={14} />
+                          Calculate
+                        </button>
+                      )}
                     </div>
-                  ) : (
-                    <SetupInput
-                      value={formData.setup}
-                      onChange={(value) => setFormData({ ...formData, setup: value })}
+                    <input
+                      type="number"
+                      value={formData.positionSize === undefined ? '' : formData.positionSize}
+                      onChange={e => setFormData(prev => ({ ...prev, positionSize: e.target.value }))}
+                      className="w-full px-3 py-2 text-base border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+                      placeholder="Enter position size in $"
+                      min="0"
                       disabled={isViewMode}
                     />
-                  )}
-                  {errors.setup && (
-                    <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.setup}</p>
-                  )}
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Position Size ($) <span className="text-gray-400">(optional)</span></label>
-                  <input
-                    type="number"
-                    value={formData.positionSize === undefined ? '' : formData.positionSize}
-                    onChange={e => setFormData(prev => ({ ...prev, positionSize: e.target.value }))}
-                    className="w-full px-3 py-2 text-base border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
-                    placeholder="Enter position size in $"
-                    min="0"
-                    disabled={isViewMode}
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Leverage (X) <span className="text-gray-400">(optional)</span></label>
-                  <input
-                    type="number"
-                    value={formData.leverage === undefined ? '' : formData.leverage}
-                    onChange={e => setFormData(prev => ({ ...prev, leverage: e.target.value }))}
-                    className="w-full px-3 py-2 text-base border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
-                    placeholder="Enter leverage (e.g. 5 for 5x)"
-                    min="0"
-                    disabled={isViewMode}
-                  />
-                </div>
-                <div className="sm:col-span-2">
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Trade Link <span className="text-gray-400">(optional)</span></label>
-                  {isViewMode ? (
-                    formData.link ? (
-                      (() => {
-                        try {
-                          new URL(formData.link);
-                          return (
-                            <a
-                              href={formData.link}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="w-full px-3 py-2 text-base text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 hover:underline truncate block bg-gray-50 dark:bg-gray-800 rounded-lg"
-                            >
-                              {formData.link}
-                            </a>
-                          );
-                        } catch {
-                          return (
-                            <span className="w-full px-3 py-2 text-base text-red-500 dark:text-red-400 bg-gray-50 dark:bg-gray-800 rounded-lg">
-                              Invalid link
-                            </span>
-                          );
-                        }
-                      })()
-                    ) : (
-                      <span className="w-full px-3 py-2 text-base text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-800 rounded-lg mt-2 block">
-                        No link provided
-                      </span>
-                    )
-                  ) : (
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Leverage (X) <span className="text-gray-400">(optional)</span></label>
                     <input
-                      type="url"
-                      value={formData.link || ''}
-                      onChange={e => setFormData(prev => ({ ...prev, link: e.target.value }))}
+                      type="number"
+                      value={formData.leverage === undefined ? '' : formData.leverage}
+                      onChange={e => setFormData(prev => ({ ...prev, leverage: e.target.value }))}
                       className="w-full px-3 py-2 text-base border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
-                      placeholder="Enter trade link (e.g. chart, analysis, etc.)"
+                      placeholder="Enter leverage (e.g. 5 for 5x)"
+                      min="0"
                       disabled={isViewMode}
                     />
-                  )}
-                </div>
-              </div>
-            </section>
-
-            {/* Notes Section */}
-            <section>
-              <h3 className="text-base font-semibold text-gray-900 dark:text-white border-b pb-0.5 mb-1">Notes & Lessons</h3>
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Lessons Learned <span className="text-xs text-gray-500 dark:text-gray-400 ml-1">({charCount.lessons}/500)</span></label>
-                  <textarea
-                    value={formData.lessons}
-                    onChange={(e) => handleTextChange('lessons', e.target.value)}
-                    className="w-full h-24 px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white resize-none"
-                    placeholder="What did you learn from this trade?"
-                    disabled={isViewMode}
-                  />
-                  {errors.lessons && (
-                    <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.lessons}</p>
-                  )}
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Additional Notes <span className="text-xs text-gray-500 dark:text-gray-400 ml-1">({charCount.notes}/1000)</span></label>
-                  <textarea
-                    value={formData.notes}
-                    onChange={(e) => handleTextChange('notes', e.target.value)}
-                    className="w-full h-24 px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white resize-none"
-                    placeholder="Additional notes about the trade"
-                    disabled={isViewMode}
-                  />
+                  </div>
+                  <div className="sm:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Trade Link <span className="text-gray-400">(optional)</span></label>
+                    {isViewMode ? (
+                      formData.link ? (
+                        (() => {
+                          try {
+                            new URL(formData.link);
+                            return (
+                              <a
+                                href={formData.link}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="w-full px-3 py-2 text-base text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 hover:underline truncate block bg-gray-50 dark:bg-gray-800 rounded-lg"
+                              >
+                                {formData.link}
+                              </a>
+                            );
+                          } catch {
+                            return (
+                              <span className="w-full px-3 py-2 text-base text-red-500 dark:text-red-400 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                                Invalid link
+                              </span>
+                            );
+                          }
+                        })()
+                      ) : (
+                        <span className="w-full px-3 py-2 text-base text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-800 rounded-lg mt-2 block">
+                          No link provided
+                        </span>
+                      )
+                    ) : (
+                      <input
+                        type="url"
+                        value={formData.link || ''}
+                        onChange={e => setFormData(prev => ({ ...prev, link: e.target.value }))}
+                        className="w-full px-3 py-2 text-base border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+                        placeholder="Enter trade link (e.g. chart, analysis, etc.)"
+                        disabled={isViewMode}
+                      />
+                    )}
+                  </div>
                 </div>
-              </div>
-            </section>
-
-            {/* Rules Section */}
-            <section>
-              <h3 className="text-base font-semibold text-gray-900 dark:text-white border-b pb-0.5 mb-1">Trading Rules</h3>
-              <RulesSelector
-                selectedRules={formData.selectedRules}
-                onRulesChange={(ruleIds) => setFormData({ ...formData, selectedRules: ruleIds })}
-                className="mt-2"
-              />
-            </section>
-
-            {/* Images Section */}
-            <section>
-              <h3 className="text-base font-semibold text-gray-900 dark:text-white border-b pb-0.5 mb-1">Trade Images</h3>
-              <div className="flex space-x-5 overflow-x-auto py-2">
-                {isViewMode && (!formData.images || formData.images.length === 0) && (
-                  <span className="text-gray-400 text-base flex items-center">No photo uploaded</span>
+              </section>
+
+              {/* Prices & Timing Section */}
+              <section>
+                <h3 className="text-base font-semibold text-gray-900 dark:text-white border-b pb-0.5 mb-1">Prices & Timing</h3>
+                <TradePriceFields
+                  value={{ ...formData, pnl: formData.pnl ?? undefined, positionSize: formData.positionSize ? parseFloat(formData.positionSize) : undefined, ...executionAggregate }}
+                  onChange={(values) => setFormData(prev => ({ ...prev, ...values }))}
+                  disabled={isViewMode || executionAggregate !== null}
+                  className="mt-2"
+                />
+                {executionAggregate && !isViewMode && (
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Averaged from the executions below</p>
                 )}
-                {formData.images?.map((image, index) => (
-                  <div key={index} className="relative w-[160px] h-[110px] rounded-lg shadow border overflow-hidden group flex-shrink-0">
-                    <img
-                      src={image.preview}
-                      alt={image.name}
-                      className="w-full h-full object-cover cursor-pointer hover:opacity-90 transition-opacity"
-                      onClick={() => handleImageClick(image, index)}
+              </section>
+
+              {/* Risk Plan Section */}
+              <section>
+                <h3 className="text-base font-semibold text-gray-900 dark:text-white border-b pb-0.5 mb-1">Risk Plan</h3>
+                <TradeRiskFields
+                  value={{ ...formData, ...executionAggregate }}
+                  netPnl={netPnLPreview}
+                  onChange={(values) => setFormData(prev => ({ ...prev, ...values }))}
+                  disabled={isViewMode}
+                  className="mt-2"
+                />
+              </section>
+
+              {/* Emotions Section */}
+              <section>
+                <h3 className="text-base font-semibold text-gray-900 dark:text-white border-b pb-0.5 mb-1">Emotions</h3>
+                <TradeEmotionFields
+                  value={formData.emotions}
+                  onChange={(emotions) => setFormData(prev => ({ ...prev, emotions }))}
+                  disabled={isViewMode}
+                  className="mt-2"
+                />
+              </section>
+
+              {/* Executions Section */}
+              <section>
+                <h3 className="text-base font-semibold text-gray-900 dark:text-white border-b pb-0.5 mb-1">Executions</h3>
+                <ExecutionsEditor
+                  executions={formData.executions}
+                  direction={formData.direction}
+                  onChange={(executions) => setFormData(prev => ({ ...prev, executions }))}
+                  readOnly={isViewMode}
+                  className="mt-2"
+                />
+              </section>
+
+              {/* Costs Section */}
+              <section>
+                <h3 className="text-base font-semibold text-gray-900 dark:text-white border-b pb-0.5 mb-1">Fees & Funding</h3>
+                <TradeCostFields
+                  value={formData}
+                  grossPnl={grossPnLPreview}
+                  onChange={(values) => setFormData(prev => ({ ...prev, ...values }))}
+                  disabled={isViewMode}
+                  className="mt-2"
+                />
+              </section>
+
+              {/* Notes Section */}
+              <section>
+                <h3 className="text-base font-semibold text-gray-900 dark:text-white border-b pb-0.5 mb-1">Notes & Lessons</h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Lessons Learned <span className="text-xs text-gray-500 dark:text-gray-400 ml-1">({charCount.lessons}/500)</span></label>
+                    <textarea
+                      value={formData.lessons}
+                      onChange={(e) => handleTextChange('lessons', e.target.value)}
+                      className="w-full h-24 px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white resize-none"
+                      placeholder="What did you learn from this trade?"
+                      disabled={isViewMode}
                     />
-                    {!isViewMode && (
-                      <button
-                        onClick={e => { e.stopPropagation(); handleRemoveImage(index); }}
-                        className="absolute top-2 right-2 bg-white bg-opacity-90 rounded-full p-1.5 hover:bg-red-500 hover:text-white transition text-xl shadow"
-                        title="Delete"
-                      >
-                        ×
-                      </button>
+                    {errors.lessons && (
+                      <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.lessons}</p>
                     )}
                   </div>
-                ))}
-                {!isViewMode && (
-                  <label
-                    className={
-                      `flex items-center justify-center w-[160px] h-[110px] border-2 border-dashed rounded-lg cursor-pointer transition-colors flex-shrink-0 ` +
-                      (isDragging
-                        ? 'border-blue-500 bg-blue-50 dark:border-blue-400 dark:bg-blue-900/30'
-                        : 'border-gray-300 dark:border-gray-600 hover:border-gray-400 dark:hover:border-gray-500')
-                    }
-                    onDragEnter={handleDragEnter}
-                    onDragLeave={handleDragLeave}
-                    onDragOver={handleDragOver}
-                    onDrop={handleDrop}
-                  >
-                    <input
-                      type="file"
-                      accept="image/*"
-                      multiple
-                      onChange={handleFileChange}
-                      className="hidden"
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Additional Notes <span className="text-xs text-gray-500 dark:text-gray-400 ml-1">({charCount.notes}/1000)</span></label>
+                    <textarea
+                      value={formData.notes}
+                      onChange={(e) => handleTextChange('notes', e.target.value)}
+                      className="w-full h-24 px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white resize-none"
+                      placeholder="Additional notes about the trade"
+                      disabled={isViewMode}
                     />
-                    <span className="text-lg text-gray-500 dark:text-gray-400 text-center">
-                      +<br />Upload or drag & drop images
-                    </span>
-                  </label>
-                )}
-              </div>
-            </section>
-          </div>
+                  </div>
+                </div>
+              </section>
 
-          <DialogFooter className="flex flex-col sm:flex-row gap-3 pt-4 mt-4 border-t">
-            <div className="flex flex-col sm:flex-row gap-3 w-full sm:w-auto">
-              {isViewMode && (
-                <>
-                  <button
-                    onClick={handleEditClick}
-                    className="flex-1 sm:flex-none px-4 py-2 text-base font-medium text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded-lg transition-colors"
-                  >
-                    Edit Trade
-                  </button>
-                  <button
-                    onClick={handleDeleteEntry}
-                    className="flex-1 sm:flex-none px-4 py-2 text-base font-medium text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg transition-colors"
-                  >
-                    Delete Trade
-                  </button>
-                  <button
-                    onClick={handleAddNewTrade}
-                    className="flex-1 sm:flex-none px-4 py-2 text-base font-medium text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded-lg transition-colors"
-                  >
-                    New Trade
-                  </button>
-                </>
-              )}
+              {/* Rules Section */}
+              <section>
+                <h3 className="text-base font-semibold text-gray-900 dark:text-white border-b pb-0.5 mb-1">Trading Rules</h3>
+                <RulesSelector
+                  selectedRules={formData.selectedRules}
+                  onRulesChange={(ruleIds) => setFormData({ ...formData, selectedRules: ruleIds })}
+                  brokenRules={formData.brokenRules}
+                  trade={selectedDate ? { date: selectedDate } : undefined}
+                  className="mt-2"
+                />
+              </section>
+
+              {/* Images Section */}
+              <section>
+                <h3 className="text-base font-semibold text-gray-900 dark:text-white border-b pb-0.5 mb-1">Trade Images</h3>
+                <div className="flex space-x-5 overflow-x-auto py-2">
+                  {isViewMode && (!formData.images || formData.images.length === 0) && (
+                    <span className="text-gray-400 text-base flex items-center">No photo uploaded</span>
+                  )}
+                  {formData.images?.map((image, index) => (
+                    <div key={image.id} className="relative w-[160px] h-[110px] rounded-lg shadow border overflow-hidden group flex-shrink-0">
+                      <StoredImage
+                        imageId={image.id}
+                        variant="thumbnail"
+                        alt={image.name}
+                        className="w-full h-full object-cover cursor-pointer hover:opacity-90 transition-opacity"
+                        onClick={() => handleImageClick(image, index)}
+                      />
+                      {!isViewMode && (
+                        <button
+                          onClick={e => { e.stopPropagation(); handleRemoveImage(index); }}
+                          className="absolute top-2 right-2 bg-white bg-opacity-90 rounded-full p-1.5 hover:bg-red-500 hover:text-white transition text-xl shadow"
+                          title="Delete"
+                        >
+                          ×
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                  {!isViewMode && (
+                    <label
+                      className={
+                        `flex items-center justify-center w-[160px] h-[110px] border-2 border-dashed rounded-lg cursor-pointer transition-colors flex-shrink-0 ` +
+                        (isDragging
+                          ? 'border-blue-500 bg-blue-50 dark:border-blue-400 dark:bg-blue-900/30'
+                          : 'border-gray-300 dark:border-gray-600 hover:border-gray-400 dark:hover:border-gray-500')
+                      }
+                      onDragEnter={handleDragEnter}
+                      onDragLeave={handleDragLeave}
+                      onDragOver={handleDragOver}
+                      onDrop={handleDrop}
+                    >
+                      <input
+                        type="file"
+                        accept="image/*"
+                        multiple
+                        onChange={handleFileChange}
+                        className="hidden"
+                      />
+                      <span className="text-lg text-gray-500 dark:text-gray-400 text-center">
+                        +<br />Upload or drag & drop images
+                      </span>
+                    </label>
+                  )}
+                </div>
+              </section>
             </div>
-            <div className="flex flex-col sm:flex-row gap-3 w-full sm:w-auto">
-              <button
-                onClick={() => setIsDialogOpen(false)}
-                className="flex-1 sm:flex-none px-4 py-2 text-base font-medium text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
-              >
-                Cancel
-              </button>
-              {!isViewMode && (
+
+            <DialogFooter className="flex flex-col sm:flex-row gap-3 pt-4 mt-4 border-t">
+              <div className="flex flex-col sm:flex-row gap-3 w-full sm:w-auto">
+                {isViewMode && (
+                  <>
+                    <button
+                      onClick={handleEditClick}
+                      className="flex-1 sm:flex-none px-4 py-2 text-base font-medium text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded-lg transition-colors"
+                    >
+                      Edit Trade
+                    </button>
+                    <button
+                      onClick={handleDeleteEntry}
+                      className="flex-1 sm:flex-none px-4 py-2 text-base font-medium text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg transition-colors"
+                    >
+                      Delete Trade
+                    </button>
+                    <button
+                      onClick={handleAddNewTrade}
+                      className="flex-1 sm:flex-none px-4 py-2 text-base font-medium text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 hover:bg-blue-50 dark:hover:bg-blue-900/30 rounded-lg transition-colors"
+                    >
+                      New Trade
+                    </button>
+                  </>
+                )}
+              </div>
+              <div className="flex flex-col sm:flex-row gap-3 w-full sm:w-auto">
                 <button
-                  onClick={handleSaveEntry}
-                  disabled={isSaving}
-                  className="flex-1 sm:flex-none px-4 py-2 text-base font-medium text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  onClick={() => setIsDialogOpen(false)}
+                  className="flex-1 sm:flex-none px-4 py-2 text-base font-medium text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
                 >
-                  {isSaving ? (
-                    <>
-                      <Loader2 className="w-4 h-4 mr-2 animate-spin inline" />
-                      Saving...
-                    </>
-                  ) : (
-                    isEditing ? 'Update Trade' : 'Save Trade'
-                  )}
+                  Cancel
                 </button>
-              )}
-            </div>
-          </DialogFooter>
+                {!isViewMode && (
+                  <button
+                    onClick={handleSaveEntry}
+                    disabled={isSaving}
+                    className="flex-1 sm:flex-none px-4 py-2 text-base font-medium text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isSaving ? (
+                      <>
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin inline" />
+                        Saving...
+                      </>
+                    ) : (
+                      isEditing ? 'Update Trade' : 'Save Trade'
+                    )}
+                  </button>
+                )}
+              </div>
+            </DialogFooter>
+            </>
+          )}
         </DialogContent>
       </Dialog>
 
+      <PeriodReviewsDialog month={currentDate} open={isReviewsOpen} onOpenChange={setIsReviewsOpen} />
+
+      <PositionSizeCalculator
+        open={isCalculatorOpen}
+        onOpenChange={setIsCalculatorOpen}
+        accountId={formData.accountId}
+        defaults={{
+          coin: formData.coin,
+          entryPrice: formData.entryPrice,
+          stopPrice: formData.plannedStop,
+          leverage: parseFloat(formData.leverage) || undefined,
+        }}
+        applyLabel="Use in Trade"
+        onApply={({ coin, direction, entryPrice, stopPrice, quantity, positionSize, leverage }) => setFormData(prev => ({
+          ...prev,
+          ...(coin ? { coin, ...getContractSpecs(coin, settings.instruments) } : {}),
+          direction,
+          entryPrice,
+          plannedStop: stopPrice,
+          quantity,
+          positionSize: positionSize.toString(),
+          leverage: leverage.toString(),
+        }))}
+      />
+
+      {/* Mandatory rule break confirmation */}
+      <AlertDialog open={rulesToConfirm.length > 0} onOpenChange={(open) => !open && setRulesToConfirm([])}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Mandatory Rules Not Followed</AlertDialogTitle>
+            <AlertDialogDescription>
+              This trade doesn't follow {rulesToConfirm.length === 1 ? 'a mandatory rule' : `${rulesToConfirm.length} mandatory rules`}. Confirm that you broke {rulesToConfirm.length === 1 ? 'it' : 'them'}; the break is recorded on the trade.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <ul className="list-disc pl-5 text-sm text-gray-700 dark:text-gray-300 space-y-1">
+            {rulesToConfirm.map(rule => <li key={rule.id}>{rule.title}</li>)}
+          </ul>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Go Back</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                checkRiskLimits(rulesToConfirm.map(rule => rule.id))
+                setRulesToConfirm([])
+              }}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              I Broke {rulesToConfirm.length === 1 ? 'It' : 'Them'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Risk limit override */}
+      <AlertDialog open={limitOverride !== null} onOpenChange={(open) => !open && setLimitOverride(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Risk Limit Reached</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your risk plan says to stop trading for now. To log this trade anyway, override the limit and say why; the reason is recorded on the trade.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <ul className="list-disc pl-5 text-sm text-gray-700 dark:text-gray-300 space-y-1">
+            {limitOverride?.breaches.map(breach => <li key={breach.limit}>{breach.message}</li>)}
+          </ul>
+          <textarea
+            value={limitOverride?.reason ?? ''}
+            onChange={(e) => setLimitOverride(prev => prev && { ...prev, reason: e.target.value })}
+            placeholder="Why are you taking this trade?"
+            rows={3}
+            className="w-full px-3 py-2 text-base border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel>Don't Save</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={!limitOverride?.reason.trim()}
+              onClick={() => {
+                if (!limitOverride) return
+                saveEntry(limitOverride.brokenRules, {
+                  limits: limitOverride.breaches.map(breach => breach.limit),
+                  reason: limitOverride.reason.trim(),
+                  at: new Date().toISOString(),
+                })
+                setLimitOverride(null)
+              }}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Override and Save
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Image Preview Fullscreen Overlay */}
       {isPreviewOpen && selectedImage && (
         <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/90 pointer-events-auto">
@@ -1087,8 +1524,8 @@ export function Calendar({ autoOpen = false }: { autoOpen?: boolean }): JSX.Elem
             onMouseLeave={handleMouseUp}
             style={{ touchAction: 'none' }}
           >
-            <img
-              src={selectedImage.preview}
+            <StoredImage
+              imageId={selectedImage.id}
               alt={selectedImage.name}
               className="max-w-full max-h-full object-contain select-none"
               style={{
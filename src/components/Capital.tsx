@@ -0,0 +1,347 @@
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { useTradeStore, useAccountScope, type CapitalEvent } from '@/store/tradeStore'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog'
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog'
+import { useToast } from '@/components/ui/use-toast'
+import { undoToastAction } from '@/components/UndoRedo'
+import { AccountSelect } from '@/components/AccountSwitcher'
+import { buildEquityCurve, calculateTimeWeightedReturn, getCapitalFlow, getNetDeposits } from '@/lib/equity'
+import { Plus, Edit2, Trash2, Landmark, ArrowDownCircle, ArrowUpCircle } from 'lucide-react'
+
+interface CapitalEventForm {
+  accountId: string
+  date: string
+  type: CapitalEvent['type']
+  amount: string
+  note: string
+}
+
+function formatMoney(value: number) {
+  return `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+export function Capital() {
+  const { accounts, addCapitalEvent, updateCapitalEvent, deleteCapitalEvent } = useTradeStore()
+  const { entries, capitalEvents, initialCapital, account, isAllAccounts } = useAccountScope()
+  const { toast } = useToast()
+
+  const emptyForm = (): CapitalEventForm => ({
+    accountId: account?.id ?? accounts[0]?.id ?? '',
+    date: format(new Date(), 'yyyy-MM-dd'),
+    type: 'deposit',
+    amount: '',
+    note: ''
+  })
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<CapitalEventForm>(emptyForm)
+  const [eventToDelete, setEventToDelete] = useState<string | null>(null)
+
+  // Newest first; the equity curve orders them chronologically itself
+  const sortedEvents = [...capitalEvents].sort((a, b) => b.date.localeCompare(a.date))
+  const deposits = capitalEvents.filter(e => e.type === 'deposit').reduce((sum, e) => sum + getCapitalFlow(e), 0)
+  const withdrawals = capitalEvents.filter(e => e.type === 'withdrawal').reduce((sum, e) => sum + getCapitalFlow(e), 0)
+  const netDeposits = getNetDeposits(capitalEvents)
+  const tradingPnL = entries.reduce((sum, e) => sum + e.pnl, 0)
+  const equityCurve = buildEquityCurve(entries, capitalEvents, initialCapital)
+  const currentEquity = equityCurve.length > 0 ? equityCurve[equityCurve.length - 1].equity : initialCapital
+  const timeWeightedReturn = calculateTimeWeightedReturn(entries, capitalEvents, initialCapital)
+  const showAccount = isAllAccounts || accounts.length > 1
+
+  const openAddDialog = (type: CapitalEvent['type']) => {
+    setEditingId(null)
+    setForm({ ...emptyForm(), type })
+    setIsDialogOpen(true)
+  }
+
+  const openEditDialog = (event: CapitalEvent) => {
+    setEditingId(event.id)
+    setForm({
+      accountId: event.accountId,
+      date: event.date,
+      type: event.type,
+      amount: Math.abs(event.amount).toString(),
+      note: event.note ?? ''
+    })
+    setIsDialogOpen(true)
+  }
+
+  const handleSave = () => {
+    const amount = parseFloat(form.amount)
+    if (isNaN(amount) || amount <= 0) {
+      toast({
+        title: 'Error',
+        description: 'Please enter an amount greater than zero',
+        variant: 'destructive'
+      })
+      return
+    }
+    if (!form.date) {
+      toast({
+        title: 'Error',
+        description: 'Date is required',
+        variant: 'destructive'
+      })
+      return
+    }
+
+    const event = {
+      accountId: form.accountId,
+      date: form.date,
+      type: form.type,
+      amount: form.type === 'withdrawal' ? -amount : amount,
+      note: form.note.trim() || undefined
+    }
+    if (editingId) {
+      updateCapitalEvent(editingId, event)
+    } else {
+      addCapitalEvent(event)
+    }
+
+    toast({
+      title: 'Success',
+      description: `${form.type === 'deposit' ? 'Deposit' : 'Withdrawal'} ${editingId ? 'updated' : 'recorded'}`
+    })
+    setIsDialogOpen(false)
+    setEditingId(null)
+  }
+
+  const handleDelete = () => {
+    if (eventToDelete) {
+      deleteCapitalEvent(eventToDelete)
+      toast({
+        title: 'Success',
+        description: 'Capital event moved to trash',
+        action: undoToastAction()
+      })
+    }
+    setEventToDelete(null)
+  }
+
+  const summary = [
+    { label: 'Initial Capital', value: formatMoney(initialCapital) },
+    { label: 'Net Deposits', value: formatMoney(netDeposits), detail: `${formatMoney(deposits)} in / ${formatMoney(Math.abs(withdrawals))} out` },
+    { label: 'Trading P&L', value: formatMoney(tradingPnL), color: tradingPnL >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400' },
+    { label: 'Current Equity', value: formatMoney(currentEquity) },
+    {
+      label: 'Time-Weighted Return',
+      value: timeWeightedReturn ? `${timeWeightedReturn.twr >= 0 ? '+' : ''}${timeWeightedReturn.twr.toFixed(2)}%` : '—',
+      detail: 'Excludes the effect of deposits and withdrawals',
+      color: !timeWeightedReturn ? undefined : timeWeightedReturn.twr >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+    }
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Capital</h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-2">
+            Deposits and withdrawals, kept separate from trading performance
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => openAddDialog('withdrawal')} className="flex items-center gap-2">
+            <ArrowUpCircle size={18} />
+            Withdrawal
+          </Button>
+          <Button onClick={() => openAddDialog('deposit')} className="flex items-center gap-2">
+            <Plus size={20} />
+            Deposit
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+        {summary.map(item => (
+          <Card key={item.label} className="bg-white dark:bg-gray-800 shadow-sm border border-gray-100 dark:border-gray-700">
+            <CardContent className="p-6">
+              <div className={`text-2xl font-bold mb-1 ${item.color ?? 'text-gray-900 dark:text-white'}`}>{item.value}</div>
+              <p className="text-sm text-gray-600 dark:text-gray-400">{item.label}</p>
+              {item.detail && <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{item.detail}</p>}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {sortedEvents.length === 0 ? (
+        <Card className="text-center py-12">
+          <CardContent>
+            <Landmark size={48} className="mx-auto text-gray-400 mb-4" />
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
+              No deposits or withdrawals yet
+            </h3>
+            <p className="text-gray-600 dark:text-gray-400 mb-4">
+              Record money moved in or out of your account so it isn't counted as profit or loss
+            </p>
+            <Button onClick={() => openAddDialog('deposit')}>
+              Record a Deposit
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg font-semibold text-gray-900 dark:text-white">Ledger</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                    <th className="py-2 pr-4 font-medium">Date</th>
+                    <th className="py-2 pr-4 font-medium">Type</th>
+                    {showAccount && <th className="py-2 pr-4 font-medium">Account</th>}
+                    <th className="py-2 pr-4 font-medium text-right">Amount</th>
+                    <th className="py-2 pr-4 font-medium">Note</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {sortedEvents.map(event => {
+                    const flow = getCapitalFlow(event)
+                    return (
+                      <tr key={event.id} className="border-b border-gray-100 dark:border-gray-700 last:border-0">
+                        <td className="py-2 pr-4 text-gray-900 dark:text-white whitespace-nowrap">{event.date}</td>
+                        <td className="py-2 pr-4">
+                          <span className={`inline-flex items-center gap-1 ${flow >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                            {flow >= 0 ? <ArrowDownCircle size={14} /> : <ArrowUpCircle size={14} />}
+                            {event.type === 'deposit' ? 'Deposit' : 'Withdrawal'}
+                          </span>
+                        </td>
+                        {showAccount && (
+                          <td className="py-2 pr-4 text-gray-600 dark:text-gray-400">
+                            {accounts.find(a => a.id === event.accountId)?.name ?? '—'}
+                          </td>
+                        )}
+                        <td className={`py-2 pr-4 text-right font-medium ${flow >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                          {flow >= 0 ? '+' : ''}{formatMoney(flow)}
+                        </td>
+                        <td className="py-2 pr-4 text-gray-600 dark:text-gray-400">{event.note}</td>
+                        <td className="py-2 text-right whitespace-nowrap">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => openEditDialog(event)}
+                            className="text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400"
+                          >
+                            <Edit2 size={16} />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setEventToDelete(event.id)}
+                            className="text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400"
+                          >
+                            <Trash2 size={16} />
+                          </Button>
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Add/Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {editingId ? 'Edit' : 'Record'} {form.type === 'deposit' ? 'Deposit' : 'Withdrawal'}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Type</label>
+                <select
+                  value={form.type}
+                  onChange={(e) => setForm({ ...form, type: e.target.value as CapitalEvent['type'] })}
+                  className="mt-1 w-full px-3 py-2 text-base border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                >
+                  <option value="deposit">Deposit</option>
+                  <option value="withdrawal">Withdrawal</option>
+                </select>
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Date *</label>
+                <Input
+                  type="date"
+                  value={form.date}
+                  onChange={(e) => setForm({ ...form, date: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Amount *</label>
+              <Input
+                type="number"
+                value={form.amount}
+                onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                placeholder="0.00"
+                min="0"
+                step="any"
+                className="mt-1"
+              />
+            </div>
+            {showAccount && (
+              <div>
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Account</label>
+                <AccountSelect
+                  value={form.accountId}
+                  onChange={(accountId) => setForm({ ...form, accountId })}
+                  className="mt-1"
+                />
+              </div>
+            )}
+            <div>
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Note (Optional)</label>
+              <Input
+                value={form.note}
+                onChange={(e) => setForm({ ...form, note: e.target.value })}
+                placeholder="e.g., Monthly top-up"
+                className="mt-1"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave}>
+              {editingId ? 'Save Changes' : 'Record'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={eventToDelete !== null} onOpenChange={(open) => !open && setEventToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Capital Event</AlertDialogTitle>
+            <AlertDialogDescription>
+              Move this entry to the trash? Equity and returns will be recalculated without it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react'
+import { useTradeStore, useAccountScope } from '@/store/tradeStore'
+import { useToast } from '@/components/ui/use-toast'
+import { undoToastAction } from '@/components/UndoRedo'
+import { Button } from '@/components/ui/button'
+import { DAY_GRADES, DAY_GRADE_CLASSES, getWrittenSections, isDailyJournalEmpty, type DayGrade } from '@/lib/dailyJournal'
+import { Trash2 } from 'lucide-react'
+
+interface DailyJournalEditorProps {
+  date: string // yyyy-MM-dd
+  onClose?: () => void
+}
+
+// The pre-market plan and end-of-day review for one day, next to a summary of that day's trades
+export function DailyJournalEditor({ date, onClose }: DailyJournalEditorProps) {
+  const { settings, dailyJournals, saveDailyJournal, deleteDailyJournal } = useTradeStore()
+  const { entries } = useAccountScope()
+  const { toast } = useToast()
+  const journal = dailyJournals.find(j => j.date === date)
+  const [sections, setSections] = useState<Record<string, string>>({})
+  const [grade, setGrade] = useState<DayGrade | undefined>()
+
+  useEffect(() => {
+    setSections(journal?.sections ?? {})
+    setGrade(journal?.grade)
+  }, [journal, date])
+
+  // Sections since removed from settings stay editable on the days that wrote them
+  const removedSections = journal
+    ? getWrittenSections(journal, settings.journalSections).filter(s => !settings.journalSections.some(section => section.id === s.id))
+    : []
+  const fields = [...settings.journalSections, ...removedSections.map(({ id, label }) => ({ id, label, prompt: undefined }))]
+
+  const dayEntries = entries.filter(entry => entry.date === date)
+  const dayPnl = dayEntries.reduce((sum, entry) => sum + entry.pnl, 0)
+  const isDirty = JSON.stringify(sections) !== JSON.stringify(journal?.sections ?? {}) || grade !== journal?.grade
+
+  const handleSave = () => {
+    const written = Object.fromEntries(Object.entries(sections).filter(([, text]) => text.trim()))
+    if (!journal && isDailyJournalEmpty({ sections: written, grade })) return
+    saveDailyJournal(date, { sections: written, grade })
+    toast({ title: 'Success', description: 'Daily journal saved', action: undoToastAction() })
+  }
+
+  const handleDelete = () => {
+    if (!journal) return
+    deleteDailyJournal(journal.id)
+    toast({ title: 'Success', description: 'Daily journal moved to trash', action: undoToastAction() })
+    onClose?.()
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-gray-600 dark:text-gray-400">
+        <span>
+          {dayEntries.length === 0
+            ? 'No trades on this day'
+            : <>
+                {dayEntries.length} trade{dayEntries.length === 1 ? '' : 's'} ·{' '}
+                <span className={dayPnl >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                  {dayPnl >= 0 ? '+' : '-'}${Math.abs(dayPnl).toFixed(2)}
+                </span>
+              </>}
+        </span>
+        {journal && (
+          <span className="text-xs">Last saved {new Date(journal.updatedAt).toLocaleString()}</span>
+        )}
+      </div>
+
+      {fields.map(field => (
+        <div key={field.id}>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{field.label}</label>
+          <textarea
+            value={sections[field.id] ?? ''}
+            onChange={(e) => setSections(prev => ({ ...prev, [field.id]: e.target.value }))}
+            placeholder={field.prompt}
+            rows={4}
+            className="w-full px-3 py-2 text-base border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          />
+        </div>
+      ))}
+      {fields.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Add journal sections in Settings to start writing.</p>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Grade for the Day</label>
+        <div className="flex gap-2">
+          {DAY_GRADES.map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setGrade(prev => prev === option ? undefined : option)}
+              className={`w-10 h-10 rounded-lg text-sm font-semibold border transition-colors ${
+                grade === option
+                  ? `${DAY_GRADE_CLASSES[option]} border-transparent ring-2 ring-blue-500`
+                  : 'border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:justify-between gap-3 pt-4 border-t">
+        <div>
+          {journal && (
+            <Button variant="ghost" onClick={handleDelete} className="text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/30">
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete Journal
+            </Button>
+          )}
+        </div>
+        <div className="flex gap-3">
+          {onClose && (
+            <Button variant="ghost" onClick={onClose}>Close</Button>
+          )}
+          <Button onClick={handleSave} disabled={!isDirty}>Save Journal</Button>
+        </div>
+      </div>
+    </div>
+  )
+}
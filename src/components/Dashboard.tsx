@@ -1,7 +1,11 @@
 import React, { useState, useEffect } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, Area } from 'recharts'
-import { useTradeStore } from '../store/tradeStore'
+import { useTradeStore, useAccountScope, type TradeEntry } from '../store/tradeStore'
+import { calculateHoldingTime, calculateReturnPercent, formatDuration, getTradeCosts, getTradePnL, type PnLMode } from '../lib/pnl'
+import { buildEquityCurve, calculateTimeWeightedReturn, getMaxDrawdown, getNetDeposits } from '../lib/equity'
+import { getLimitBreaches } from '../lib/guardrails'
+import { PnLModeToggle } from './PnLModeToggle'
 import { Tabs, TabsList, TabsTrigger, TabsContent } from './ui/tabs'
 import { format, startOfWeek, endOfWeek, startOfMonth, endOfMonth, startOfYear, endOfYear, isWithinInterval, parseISO, subDays, eachDayOfInterval } from 'date-fns'
 import { Button } from './ui/button'
@@ -13,7 +17,9 @@ import { normalizeTradeName } from '../store/tradeStore'
 import { DateRangePicker } from './ui/date-range-picker'
 import type { DateRange } from 'react-day-picker'
 import { ImageViewer } from './ui/image-viewer'
-import { Search, DollarSign, TrendingUp, TrendingDown, Target, Calendar, Award, BarChart2, ArrowUpRight, ArrowDownRight, Zap, Brain, AlertTriangle } from 'lucide-react'
+import { EmotionBadges } from './EmotionBadge'
+import { PositionSizeCalculator, type SizedTrade } from './PositionSizeCalculator'
+import { Search, DollarSign, TrendingUp, TrendingDown, Target, Calendar, Award, BarChart2, ArrowUpRight, ArrowDownRight, Zap, Brain, AlertTriangle, ShieldAlert, Calculator } from 'lucide-react'
 
 const WINLOSS_COLORS = ['#10B981', '#EF4444'] // Modern green and red
 const CHART_COLORS = {
@@ -73,8 +79,8 @@ export function calculateSharpeRatio(trades, riskFreeRate = 0) {
   return stdDev > 0 ? (avg - riskFreeRate) / stdDev : null
 }
 
-// Helper to calculate expectancy
-export function calculateExpectancy(trades) {
+// Helper to calculate expectancy in dollars per trade (see calculateRStats for the R-based version)
+export function calculateExpectancy(trades: TradeEntry[]) {
   if (trades.length < 2) return null
   const wins = trades.filter(t => t.outcome === 'win')
   const losses = trades.filter(t => t.outcome === 'loss')
@@ -84,10 +90,12 @@ export function calculateExpectancy(trades) {
   return winRate * avgWin + (1 - winRate) * avgLoss
 }
 
-// Helper to calculate average holding time
-export function calculateAvgHoldingTime(trades) {
-  if (trades.length < 2) return null
-  const holdingTimes = trades.map(t => t.holdingTime)
+// Helper to calculate average holding time (ms) over trades with entry/exit timestamps
+export function calculateAvgHoldingTime(trades: TradeEntry[]) {
+  const holdingTimes = trades
+    .map(t => calculateHoldingTime(t))
+    .filter((t): t is number => t !== null)
+  if (holdingTimes.length === 0) return null
   return holdingTimes.reduce((a, b) => a + b, 0) / holdingTimes.length
 }
 
@@ -101,19 +109,22 @@ export function calculateVolatility(trades) {
 }
 
 // Helper to get best trade by return
-export function getBestTradeByReturn(trades) {
-  if (trades.length === 0) return null
-  return trades.reduce((best, trade) => {
-    const tradeReturn = trade.pnl / trade.positionSize
-    const bestReturn = best ? best.pnl / best.positionSize : 0
-    return tradeReturn > bestReturn ? trade : best
-  }, null)
+export function getBestTradeByReturn(trades: TradeEntry[]) {
+  let best: (TradeEntry & { return: number }) | null = null
+  for (const trade of trades) {
+    const tradeReturn = calculateReturnPercent(trade)
+    if (tradeReturn === null) continue
+    if (!best || tradeReturn > best.return) best = { ...trade, return: tradeReturn }
+  }
+  return best
 }
 
-export function Dashboard({ onNavigate }: { onNavigate?: (page: string, fromComponent?: string) => void }) {
-  const { entries, settings, updateSettings } = useTradeStore()
+export function Dashboard({ onNavigate, onStartTrade }: { onNavigate?: (page: string, fromComponent?: string) => void; onStartTrade?: (trade: SizedTrade) => void }) {
+  const { updateAccount, accounts, settings } = useTradeStore()
+  const { entries, account, initialCapital, capitalEvents } = useAccountScope()
   const [isEditingCapital, setIsEditingCapital] = useState(false)
-  const [newCapital, setNewCapital] = useState(settings?.initialCapital?.toString() || '0')
+  const [isCalculatorOpen, setIsCalculatorOpen] = useState(false)
+  const [newCapital, setNewCapital] = useState(initialCapital.toString())
   const { toast } = useToast()
 
   // Modal state for Most Traded Setup trades list
@@ -121,12 +132,22 @@ export function Dashboard({ onNavigate }: { onNavigate?: (page: string, fromComp
   const [modalTrades, setModalTrades] = useState<any[]>([])
   const [modalSetup, setModalSetup] = useState('')
 
+  // Risk limits hit today, checked per account as new trades are
+  const limitBreaches = (account ? [account] : accounts)
+    .map(a => ({ account: a, breaches: getLimitBreaches(entries.filter(entry => entry.accountId === a.id), settings.riskLimits) }))
+    .filter(({ breaches }) => breaches.length > 0)
+
   // Calculate total PnL
   const totalPnL = entries.reduce((sum, entry) => sum + entry.pnl, 0)
 
-  // Calculate total assets with safe fallback
-  const initialCapital = settings?.initialCapital || 0
-  const totalAssets = initialCapital + totalPnL
+  // Time-weighted return, so deposits and withdrawals don't count as trading profit
+  const timeWeightedReturn = calculateTimeWeightedReturn(entries, capitalEvents, initialCapital)
+
+  // Calculate total assets for the selected account(s), before or after trading costs
+  const [assetsPnLMode, setAssetsPnLMode] = useState<PnLMode>('net')
+  const netDeposits = getNetDeposits(capitalEvents)
+  const totalAssets = initialCapital + netDeposits + entries.reduce((sum, entry) => sum + getTradePnL(entry, assetsPnLMode), 0)
+  const totalCosts = entries.reduce((sum, entry) => sum + getTradeCosts(entry).total, 0)
 
   // Handle initial capital update
   const handleUpdateCapital = () => {
@@ -139,7 +160,8 @@ export function Dashboard({ onNavigate }: { onNavigate?: (page: string, fromComp
       })
       return
     }
-    updateSettings({ initialCapital: capital })
+    if (!account) return
+    updateAccount(account.id, { initialCapital: capital })
     setIsEditingCapital(false)
     toast({
       title: 'Success',
@@ -231,8 +253,42 @@ export function Dashboard({ onNavigate }: { onNavigate?: (page: string, fromComp
       <div className="max-w-[95vw] xs:max-w-[90vw] sm:max-w-[85vw] md:max-w-7xl mx-auto">
         <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 xs:gap-4 mb-4 xs:mb-6 sm:mb-8">
           <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Dashboard</h1>
+          <Button variant="outline" size="sm" className="h-9 px-3 self-start sm:self-auto" onClick={() => setIsCalculatorOpen(true)}>
+            <Calculator className="h-4 w-4 mr-2" />
+            Position Size
+          </Button>
         </div>
 
+        <PositionSizeCalculator
+          open={isCalculatorOpen}
+          onOpenChange={setIsCalculatorOpen}
+          applyLabel="Start Trade"
+          onApply={trade => onStartTrade?.(trade)}
+        />
+
+        {/* Risk limit banner */}
+        {limitBreaches.length > 0 && (
+          <div className="mb-6 p-4 sm:p-5 rounded-2xl border-2 border-red-300 dark:border-red-800 bg-red-50 dark:bg-red-900/20">
+            <div className="flex items-start gap-3">
+              <ShieldAlert className="w-6 h-6 shrink-0 text-red-600 dark:text-red-400" />
+              <div className="space-y-2">
+                <div>
+                  <h2 className="text-lg font-bold text-red-800 dark:text-red-300">Risk limit reached — stop trading for today</h2>
+                  <p className="text-sm text-red-700 dark:text-red-400">New trades can only be logged with an override and a reason.</p>
+                </div>
+                {limitBreaches.map(({ account: breachedAccount, breaches }) => (
+                  <div key={breachedAccount.id} className="text-sm text-red-800 dark:text-red-300">
+                    {accounts.length > 1 && <div className="font-semibold">{breachedAccount.name}</div>}
+                    <ul className="list-disc pl-5 space-y-0.5">
+                      {breaches.map(breach => <li key={breach.limit}>{breach.message}</li>)}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Key Metrics - Updated with modern design */}
         <div className="grid grid-cols-1 xs:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5 gap-4 mb-6">
           {/* Total Assets Card */}
@@ -242,14 +298,22 @@ export function Dashboard({ onNavigate }: { onNavigate?: (page: string, fromComp
                 <div className="rounded-full p-2 bg-blue-100 dark:bg-blue-900/20">
                   <DollarSign className="w-5 h-5 text-blue-600 dark:text-blue-400" />
                 </div>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  className="text-xs h-7 px-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20"
-                  onClick={() => setIsEditingCapital(true)}
-                >
-                  Edit
-                </Button>
+                <div className="flex items-center gap-1">
+                  <PnLModeToggle value={assetsPnLMode} onChange={setAssetsPnLMode} />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-xs h-7 px-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20"
+                    onClick={() => {
+                      setNewCapital(initialCapital.toString())
+                      setIsEditingCapital(true)
+                    }}
+                    disabled={!account}
+                    title={account ? `Edit initial capital of ${account.name}` : 'Select a single account to edit its capital'}
+                  >
+                    Edit
+                  </Button>
+                </div>
               </div>
               <div className="text-2xl font-bold text-gray-900 dark:text-white mb-1">
                 ${totalAssets.toFixed(2)}
@@ -257,6 +321,9 @@ export function Dashboard({ onNavigate }: { onNavigate?: (page: string, fromComp
               <p className="text-sm text-gray-600 dark:text-gray-400">Total Assets</p>
               <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
                 Initial: ${initialCapital.toFixed(2)}
+                {!account && accounts.length > 1 && ` across ${accounts.length} accounts`}
+                {netDeposits !== 0 && ` · Net deposits: ${netDeposits < 0 ? '-' : ''}$${Math.abs(netDeposits).toFixed(2)}`}
+                {totalCosts !== 0 && ` · Costs paid: $${totalCosts.toFixed(2)}`}
               </p>
             </CardContent>
           </Card>
@@ -278,8 +345,11 @@ export function Dashboard({ onNavigate }: { onNavigate?: (page: string, fromComp
                   ) : (
                     <ArrowDownRight className="w-4 h-4 text-red-500" />
                   )}
-                  <span className={`text-xs font-semibold ${totalPnL >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                    {initialCapital > 0 ? `${((totalPnL / initialCapital) * 100).toFixed(1)}%` : '0%'}
+                  <span
+                    className={`text-xs font-semibold ${totalPnL >= 0 ? 'text-green-600' : 'text-red-600'}`}
+                    title="Time-weighted return"
+                  >
+                    {timeWeightedReturn ? `${timeWeightedReturn.twr.toFixed(1)}%` : '0%'}
                   </span>
                 </div>
               </div>
@@ -535,7 +605,7 @@ export function Dashboard({ onNavigate }: { onNavigate?: (page: string, fromComp
         <Dialog open={isEditingCapital} onOpenChange={setIsEditingCapital}>
           <DialogContent className="sm:max-w-[425px]">
             <DialogHeader>
-              <DialogTitle>Edit Initial Capital</DialogTitle>
+              <DialogTitle>Edit Initial Capital{account ? ` · ${account.name}` : ''}</DialogTitle>
             </DialogHeader>
             <div className="grid gap-4 py-4">
               <div className="grid grid-cols-4 items-center gap-4">
@@ -595,7 +665,7 @@ export function Dashboard({ onNavigate }: { onNavigate?: (page: string, fromComp
                       <th className="px-4 py-3 text-left font-semibold text-gray-700 dark:text-gray-200">Position Size</th>
                       <th className="px-4 py-3 text-left font-semibold text-gray-700 dark:text-gray-200">Leverage</th>
                       <th className="px-4 py-3 text-left font-semibold text-gray-700 dark:text-gray-200">Outcome</th>
-                      <th className="px-4 py-3 text-left font-semibold text-gray-700 dark:text-gray-200">Mood</th>
+                      <th className="px-4 py-3 text-left font-semibold text-gray-700 dark:text-gray-200">Emotions</th>
                     </tr>
                   </thead>
                   <tbody>
@@ -619,18 +689,7 @@ export function Dashboard({ onNavigate }: { onNavigate?: (page: string, fromComp
                             <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-semibold ${trade.outcome === 'win' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>{trade.outcome}</span>
                           </td>
                           <td className="px-4 py-3 whitespace-nowrap">
-                            {trade.mood ? (
-                              <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-semibold ${
-                                trade.mood === 'happy' ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300' :
-                                trade.mood === 'neutral' ? 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300' :
-                                trade.mood === 'sad' ? 'bg-purple-100 text-purple-800 dark:bg-purple-900/40 dark:text-purple-300' :
-                                'bg-gray-100 text-gray-800 dark:bg-gray-900/40 dark:text-gray-300'
-                              }`}>
-                                {trade.mood.charAt(0).toUpperCase() + trade.mood.slice(1)}
-                              </span>
-                            ) : (
-                              <span className="text-gray-400">-</span>
-                            )}
+                            <EmotionBadges emotions={trade.emotions} showPhase={false} />
                           </td>
                         </tr>
                       );
@@ -658,51 +717,6 @@ export function Dashboard({ onNavigate }: { onNavigate?: (page: string, fromComp
   )
 }
 
-// Helper function to calculate equity curve
-function getEquityCurve(trades: any[], initialCapital: number): { equity: number; peak: number }[] {
-  const curve: { equity: number; peak: number }[] = [];
-  let equity = initialCapital;
-  let peak = initialCapital;
-
-  // Sort trades by date to ensure correct sequence
-  const sortedTrades = [...trades].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-
-  for (const trade of sortedTrades) {
-    equity += trade.pnl;
-    peak = Math.max(peak, equity);
-    curve.push({ equity, peak });
-  }
-
-  return curve;
-}
-
-// Helper function to calculate max drawdown
-function getMaxDrawdownFromCurve(curve: { equity: number; peak: number }[]): { 
-  maxDrawdown: number; 
-  maxDrawdownPercent: number;
-  peakEquity: number;
-} {
-  if (curve.length === 0) return { maxDrawdown: 0, maxDrawdownPercent: 0, peakEquity: 0 };
-
-  let maxDrawdown = 0;
-  let peakEquity = 0;
-
-  for (const point of curve) {
-    peakEquity = Math.max(peakEquity, point.equity);
-    const drawdown = point.equity - peakEquity;
-    maxDrawdown = Math.min(maxDrawdown, drawdown);
-  }
-
-  // Calculate max drawdown as percentage of peak equity
-  const maxDrawdownPercent = peakEquity !== 0 ? (Math.abs(maxDrawdown) / peakEquity) * 100 : 0;
-
-  return {
-    maxDrawdown,
-    maxDrawdownPercent,
-    peakEquity
-  };
-}
-
 function getMostTradedSetupInfo(filtered: any[]): { setup: string; count: number; pnl: number; normalized: string; trades: any[] } | null {
   if (filtered.length === 0) return null;
 
@@ -844,14 +858,18 @@ function PerformanceMetrics({ entries, period, showTradesModal, setShowTradesMod
   const avgLoss = losses.length > 0 ? losses.reduce((sum, e) => sum + Math.abs(e.pnl), 0) / losses.length : 0
   const rr = avgLoss > 0 ? avgWin / avgLoss : 0
 
-  // Get initial capital from store
-  const { settings } = useTradeStore();
-  const initialCapital = settings?.initialCapital || 0;
-
-  // Calculate equity curve for filtered trades (sorted by date for correct curve)
-  const filteredSorted = [...filtered].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-  const equityCurve = getEquityCurve(filteredSorted, initialCapital);
-  const { maxDrawdown, maxDrawdownPercent } = getMaxDrawdownFromCurve(equityCurve);
+  // Capital of the selected account(s)
+  const { initialCapital, capitalEvents } = useAccountScope();
+
+  // Equity curve for the period, starting from the equity built up before it
+  const isBeforePeriod = (date: string) => parseISO(date) < start
+  const startingEquity = initialCapital
+    + getNetDeposits(capitalEvents.filter(e => isBeforePeriod(e.date)))
+    + entries.filter(e => isBeforePeriod(e.date)).reduce((sum, e) => sum + e.pnl, 0)
+  const periodCapitalEvents = capitalEvents.filter(e => isWithinInterval(parseISO(e.date), { start, end }))
+  const equityCurve = buildEquityCurve(filtered, periodCapitalEvents, startingEquity);
+  const { maxDrawdown, maxDrawdownPercent } = getMaxDrawdown(equityCurve);
+  const periodReturn = calculateTimeWeightedReturn(filtered, periodCapitalEvents, startingEquity);
   const mostTradedSetupInfo = getMostTradedSetupInfo(filtered);
 
   // Calculate new metrics
@@ -881,8 +899,11 @@ function PerformanceMetrics({ entries, period, showTradesModal, setShowTradesMod
                 ) : (
                   <ArrowDownRight className="w-4 h-4 text-red-500" />
                 )}
-                <span className={`text-xs font-semibold ${totalPnL >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                  {initialCapital > 0 ? `${((totalPnL / initialCapital) * 100).toFixed(1)}%` : '0%'}
+                <span
+                  className={`text-xs font-semibold ${totalPnL >= 0 ? 'text-green-600' : 'text-red-600'}`}
+                  title="Time-weighted return"
+                >
+                  {periodReturn ? `${periodReturn.twr.toFixed(1)}%` : '0%'}
                 </span>
               </div>
             </div>
@@ -930,6 +951,7 @@ function PerformanceMetrics({ entries, period, showTradesModal, setShowTradesMod
             <p className="text-sm text-gray-600 dark:text-gray-400">Avg Trade</p>
             <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
               {numTrades} trades in period
+              {avgHoldingTime !== null && ` · avg hold ${formatDuration(avgHoldingTime)}`}
             </p>
           </CardContent>
         </Card>
@@ -999,7 +1021,7 @@ function PerformanceMetrics({ entries, period, showTradesModal, setShowTradesMod
               </div>
               {maxDrawdown !== 0 && (
                 <div className="text-xs text-red-600 dark:text-red-400 mb-1">
-                  {maxDrawdownPercent.toFixed(1)}% of peak
+                  {Math.abs(maxDrawdownPercent).toFixed(1)}% of peak
                 </div>
               )}
             </div>
@@ -1049,7 +1071,9 @@ function PerformanceMetrics({ entries, period, showTradesModal, setShowTradesMod
               ) : (
                 <ResponsiveContainer width="100%" height="100%">
                   <LineChart data={equityCurve.map((point, index) => ({
-                    date: index,
+                    index,
+                    date: point.date,
+                    flow: point.flow,
                     equity: point.equity,
                     peak: point.peak
                   }))}>
@@ -1061,7 +1085,7 @@ function PerformanceMetrics({ entries, period, showTradesModal, setShowTradesMod
                     </defs>
                     <CartesianGrid strokeDasharray="3 3" stroke={CHART_COLORS.grid} />
                     <XAxis 
-                      dataKey="date" 
+                      dataKey="index" 
                       tick={{ fill: CHART_COLORS.text, fontSize: 10 }}
                       tickFormatter={(value) => value + 1}
                     />
@@ -1078,7 +1102,12 @@ function PerformanceMetrics({ entries, period, showTradesModal, setShowTradesMod
                         fontSize: '12px'
                       }}
                       formatter={(value: number, name: string) => [`$${value.toFixed(2)}`, name === 'equity' ? 'Equity' : 'Peak']}
-                      labelFormatter={(label) => `Trade ${Number(label) + 1}`}
+                      labelFormatter={(label, payload) => {
+                        const point = payload?.[0]?.payload
+                        if (!point) return `#${Number(label) + 1}`
+                        if (point.flow !== 0) return `${point.date} · ${point.flow > 0 ? 'Deposit' : 'Withdrawal'} $${Math.abs(point.flow).toFixed(2)}`
+                        return `${point.date} · Trade`
+                      }}
                     />
                     {/* Area fill under equity */}
                     <Area
@@ -0,0 +1,38 @@
+import { useTradeStore } from '@/store/tradeStore'
+import { EMOTION_PHASE_LABELS, EMOTION_VALENCE_CLASSES, getEmotionLabel, getEmotionValence, getRecordedEmotions, type EmotionPhase, type EmotionState, type TradeEmotions } from '@/lib/emotions'
+
+interface EmotionBadgeProps {
+  state: EmotionState
+  phase?: EmotionPhase // Prefixes the badge with the phase
+  className?: string
+}
+
+// An emotion colored by its valence, with its intensity as dots
+export function EmotionBadge({ state, phase, className = '' }: EmotionBadgeProps) {
+  const { settings } = useTradeStore()
+  const label = getEmotionLabel(state.emotion, settings.emotions)
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium ${EMOTION_VALENCE_CLASSES[getEmotionValence(state.emotion, settings.emotions)]} ${className}`}
+      title={`${phase ? `${EMOTION_PHASE_LABELS[phase]}: ` : ''}${label}, intensity ${state.intensity}/5`}
+    >
+      {phase && <span className="opacity-70">{EMOTION_PHASE_LABELS[phase]}:</span>}
+      {label}
+      <span className="opacity-70">{'•'.repeat(state.intensity)}</span>
+    </span>
+  )
+}
+
+// Every recorded phase of a trade, or a placeholder
+export function EmotionBadges({ emotions, showPhase = true }: { emotions?: TradeEmotions; showPhase?: boolean }) {
+  const recorded = getRecordedEmotions(emotions)
+  if (recorded.length === 0) return <span className="text-gray-400">N/A</span>
+  return (
+    <span className="inline-flex flex-wrap gap-1">
+      {recorded.map(({ phase, state }) => (
+        <EmotionBadge key={phase} state={state} phase={showPhase ? phase : undefined} />
+      ))}
+    </span>
+  )
+}
@@ -0,0 +1,145 @@
+import { useMemo, useState } from 'react'
+import { Plus, Trash2, RotateCcw } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { useTradeStore } from '../store/tradeStore'
+import { DEFAULT_EMOTIONS, EMOTION_VALENCE_CLASSES, getRecordedEmotions, type EmotionDefinition, type EmotionValence } from '../lib/emotions'
+import { toSlug } from '../lib/utils'
+
+const inputClassName = 'w-full p-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 text-sm'
+
+const VALENCE_OPTIONS: { value: EmotionValence; label: string }[] = [
+  { value: 'positive', label: 'Positive' },
+  { value: 'neutral', label: 'Neutral' },
+  { value: 'negative', label: 'Negative' }
+]
+
+export function EmotionsManager() {
+  const { settings, entries, updateSettings } = useTradeStore()
+  const [newEmotion, setNewEmotion] = useState<{ label: string; valence: EmotionValence }>({ label: '', valence: 'neutral' })
+
+  // How many trades record each emotion in any phase
+  const usage = useMemo(() => {
+    const counts = new Map<string, number>()
+    entries.forEach(entry => {
+      new Set(getRecordedEmotions(entry.emotions).map(({ state }) => state.emotion)).forEach(id => {
+        counts.set(id, (counts.get(id) ?? 0) + 1)
+      })
+    })
+    return counts
+  }, [entries])
+
+  const newId = toSlug(newEmotion.label)
+  const isDuplicate = settings.emotions.some(e => e.id === newId || e.label.toLowerCase() === newEmotion.label.trim().toLowerCase())
+
+  const handleAdd = () => {
+    if (!newId || isDuplicate) return
+    updateSettings({ emotions: [...settings.emotions, { id: newId, label: newEmotion.label.trim(), valence: newEmotion.valence }] })
+    setNewEmotion({ label: '', valence: 'neutral' })
+  }
+
+  // Renames keep the id, so trades that recorded the emotion show the new label
+  const handleUpdate = (id: string, changes: Partial<Omit<EmotionDefinition, 'id'>>) => {
+    updateSettings({ emotions: settings.emotions.map(e => e.id === id ? { ...e, ...changes } : e) })
+  }
+
+  const handleRemove = (id: string) => {
+    updateSettings({ emotions: settings.emotions.filter(e => e.id !== id) })
+  }
+
+  // Adds back built-in emotions that were removed; custom ones and renames are kept
+  const missingDefaults = DEFAULT_EMOTIONS.filter(d => !settings.emotions.some(e => e.id === d.id))
+
+  return (
+    <Card className="bg-white dark:bg-gray-800 shadow-sm hover:shadow-md transition-shadow">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold text-gray-900 dark:text-white">Emotions</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Emotions offered for the pre-trade, in-trade and post-trade states. Removing one keeps it on the trades that already use it.
+        </p>
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {settings.emotions.map(emotion => (
+            <div key={emotion.id} className="flex items-center gap-2 text-sm">
+              <span className={`w-2.5 h-2.5 rounded-full shrink-0 ${EMOTION_VALENCE_CLASSES[emotion.valence]}`} />
+              <input
+                key={emotion.label}
+                type="text"
+                defaultValue={emotion.label}
+                onBlur={(e) => {
+                  const label = e.target.value.trim()
+                  if (label && label !== emotion.label) handleUpdate(emotion.id, { label })
+                }}
+                className={`${inputClassName} flex-1 min-w-0`}
+              />
+              <select
+                value={emotion.valence}
+                onChange={(e) => handleUpdate(emotion.id, { valence: e.target.value as EmotionValence })}
+                className={`${inputClassName} w-28`}
+              >
+                {VALENCE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <span className="w-16 text-right text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                {usage.get(emotion.id) ?? 0} trade{usage.get(emotion.id) === 1 ? '' : 's'}
+              </span>
+              <button
+                onClick={() => handleRemove(emotion.id)}
+                title="Remove emotion"
+                className="p-1.5 rounded-lg text-gray-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {/* New emotion */}
+        <div className="space-y-2">
+          <div className="font-medium text-gray-800 dark:text-gray-200 text-sm">Add Emotion</div>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={newEmotion.label}
+              onChange={(e) => setNewEmotion(prev => ({ ...prev, label: e.target.value }))}
+              onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+              placeholder="e.g. Hesitant"
+              className={inputClassName}
+            />
+            <select
+              value={newEmotion.valence}
+              onChange={(e) => setNewEmotion(prev => ({ ...prev, valence: e.target.value as EmotionValence }))}
+              className={inputClassName}
+            >
+              {VALENCE_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          {newId && isDuplicate && (
+            <p className="text-xs text-red-600 dark:text-red-400">This emotion already exists</p>
+          )}
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleAdd} disabled={!newId || isDuplicate} className="h-9 px-3">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Emotion
+            </Button>
+            {missingDefaults.length > 0 && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => updateSettings({ emotions: [...settings.emotions, ...missingDefaults] })}
+                className="h-9 px-3"
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Restore Defaults ({missingDefaults.length})
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
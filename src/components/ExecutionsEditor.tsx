@@ -0,0 +1,212 @@
+import { format, parseISO } from 'date-fns'
+import { Plus, Trash2, AlertTriangle } from 'lucide-react'
+import type { TradeDirection, TradeExecution } from '@/store/tradeStore'
+import { summarizeExecutions } from '@/lib/executions'
+import { Button } from '@/components/ui/button'
+
+interface ExecutionsEditorProps {
+  executions: TradeExecution[]
+  direction?: TradeDirection
+  onChange: (executions: TradeExecution[]) => void
+  readOnly?: boolean
+  className?: string
+}
+
+const cellInputClassName = 'w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white'
+
+function toLocalInput(iso?: string): string {
+  if (!iso) return ''
+  try {
+    return format(parseISO(iso), "yyyy-MM-dd'T'HH:mm")
+  } catch {
+    return ''
+  }
+}
+
+function fromLocalInput(value: string): string | undefined {
+  if (!value) return undefined
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date.toISOString()
+}
+
+function formatNumber(value: number | null | undefined, digits = 2): string {
+  if (value === null || value === undefined || !isFinite(value)) return '-'
+  return value.toLocaleString(undefined, { maximumFractionDigits: digits })
+}
+
+export function ExecutionsEditor({ executions, direction, onChange, readOnly, className = '' }: ExecutionsEditorProps) {
+  const summary = summarizeExecutions(executions, direction)
+  // Realized P&L is looked up per fill id since the summary walks fills in time order
+  const fillsById = new Map(summary?.fills.map(fill => [fill.id, fill]) ?? [])
+
+  const updateExecution = (id: string, changes: Partial<TradeExecution>) => {
+    onChange(executions.map(execution => execution.id === id ? { ...execution, ...changes } : execution))
+  }
+
+  const addExecution = () => {
+    const last = executions[executions.length - 1]
+    onChange([
+      ...executions,
+      {
+        id: crypto.randomUUID(),
+        side: last?.side ?? (direction === 'short' ? 'sell' : 'buy'),
+        price: 0,
+        size: 0,
+        time: new Date().toISOString()
+      }
+    ])
+  }
+
+  const removeExecution = (id: string) => {
+    onChange(executions.filter(execution => execution.id !== id))
+  }
+
+  return (
+    <div className={className}>
+      {executions.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No executions recorded. Add fills to track scale-ins and partial exits.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400">
+                <th className="py-1 pr-2 font-medium">Side</th>
+                <th className="py-1 pr-2 font-medium">Price</th>
+                <th className="py-1 pr-2 font-medium">Size</th>
+                <th className="py-1 pr-2 font-medium">Time</th>
+                <th className="py-1 pr-2 font-medium">Fee</th>
+                <th className="py-1 pr-2 font-medium text-right">Position</th>
+                <th className="py-1 pr-2 font-medium text-right">Realized</th>
+                {!readOnly && <th className="py-1" />}
+              </tr>
+            </thead>
+            <tbody>
+              {executions.map(execution => {
+                const fill = fillsById.get(execution.id)
+                return (
+                  <tr key={execution.id} className="border-t border-gray-100 dark:border-gray-700">
+                    <td className="py-1 pr-2">
+                      {readOnly ? (
+                        <span className={execution.side === 'buy' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                          {execution.side === 'buy' ? 'Buy' : 'Sell'}
+                        </span>
+                      ) : (
+                        <select
+                          value={execution.side}
+                          onChange={(e) => updateExecution(execution.id, { side: e.target.value as TradeExecution['side'] })}
+                          className={cellInputClassName}
+                        >
+                          <option value="buy">Buy</option>
+                          <option value="sell">Sell</option>
+                        </select>
+                      )}
+                    </td>
+                    <td className="py-1 pr-2">
+                      {readOnly ? formatNumber(execution.price, 8) : (
+                        <input
+                          type="number"
+                          value={execution.price || ''}
+                          onChange={(e) => updateExecution(execution.id, { price: parseFloat(e.target.value) || 0 })}
+                          className={cellInputClassName}
+                          min="0"
+                          step="any"
+                        />
+                      )}
+                    </td>
+                    <td className="py-1 pr-2">
+                      {readOnly ? formatNumber(execution.size, 8) : (
+                        <input
+                          type="number"
+                          value={execution.size || ''}
+                          onChange={(e) => updateExecution(execution.id, { size: parseFloat(e.target.value) || 0 })}
+                          className={cellInputClassName}
+                          min="0"
+                          step="any"
+                        />
+                      )}
+                    </td>
+                    <td className="py-1 pr-2">
+                      {readOnly ? (execution.time ? format(parseISO(execution.time), 'MMM d, HH:mm') : '-') : (
+                        <input
+                          type="datetime-local"
+                          value={toLocalInput(execution.time)}
+                          onChange={(e) => updateExecution(execution.id, { time: fromLocalInput(e.target.value) })}
+                          className={cellInputClassName}
+                        />
+                      )}
+                    </td>
+                    <td className="py-1 pr-2">
+                      {readOnly ? formatNumber(execution.fee) : (
+                        <input
+                          type="number"
+                          value={execution.fee ?? ''}
+                          onChange={(e) => updateExecution(execution.id, { fee: e.target.value === '' ? undefined : parseFloat(e.target.value) || 0 })}
+                          className={cellInputClassName}
+                          min="0"
+                          step="any"
+                        />
+                      )}
+                    </td>
+                    <td className="py-1 pr-2 text-right text-gray-700 dark:text-gray-300">
+                      {fill ? formatNumber(fill.positionAfter, 8) : '-'}
+                    </td>
+                    <td className={`py-1 pr-2 text-right font-medium ${
+                      fill?.realizedPnL == null ? 'text-gray-400' : fill.realizedPnL >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+                    }`}>
+                      {fill?.realizedPnL == null ? '-' : `${fill.realizedPnL >= 0 ? '+' : ''}${fill.realizedPnL.toFixed(2)}`}
+                    </td>
+                    {!readOnly && (
+                      <td className="py-1 text-right">
+                        <button
+                          type="button"
+                          onClick={() => removeExecution(execution.id)}
+                          className="p-1 text-gray-400 hover:text-red-500"
+                          aria-label="Remove execution"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {summary && (
+        <div className="flex flex-wrap gap-x-6 gap-y-1 mt-2 text-sm text-gray-600 dark:text-gray-400">
+          <span>Direction: <span className="font-medium capitalize">{summary.direction}</span></span>
+          <span>Avg Entry: {formatNumber(summary.avgEntryPrice, 8)}</span>
+          <span>Avg Exit: {formatNumber(summary.avgExitPrice, 8)}</span>
+          <span>Peak Size: {formatNumber(summary.peakPositionSize, 8)}</span>
+          {summary.openQuantity > 0 && <span>Still Open: {formatNumber(summary.openQuantity, 8)}</span>}
+          <span>
+            Realized:{' '}
+            <span className={`font-medium ${summary.realizedPnL >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+              {summary.realizedPnL >= 0 ? '+' : ''}{summary.realizedPnL.toFixed(2)}
+            </span>
+          </span>
+          {summary.totalFees > 0 && <span>Fees: {summary.totalFees.toFixed(2)}</span>}
+        </div>
+      )}
+
+      {summary?.overClosed && (
+        <p className="flex items-center gap-1 mt-1 text-sm text-amber-600 dark:text-amber-400">
+          <AlertTriangle className="h-4 w-4" />
+          Exits exceed the open position; the excess size is ignored.
+        </p>
+      )}
+
+      {!readOnly && (
+        <Button type="button" variant="outline" size="sm" onClick={addExecution} className="mt-2">
+          <Plus className="h-4 w-4 mr-1" />
+          Add Fill
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,243 @@
+import { useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { useTradeStore } from '../store/tradeStore'
+import { ASSET_CLASS_LABELS, getInstruments, getPipValue, searchInstruments, type AssetClass, type Instrument } from '../lib/instruments'
+
+const inputClassName = 'w-full p-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 text-sm'
+
+const EMPTY_INSTRUMENT = { symbol: '', name: '', assetClass: 'crypto' as AssetClass, exchange: '', quoteCurrency: 'USD', baseCurrency: '', tickSize: '0.01', multiplier: '1', pipSize: '' }
+
+type InstrumentForm = typeof EMPTY_INSTRUMENT
+
+function toForm(instrument: Instrument): InstrumentForm {
+  return {
+    symbol: instrument.symbol,
+    name: instrument.name ?? '',
+    assetClass: instrument.assetClass,
+    exchange: instrument.exchange ?? '',
+    quoteCurrency: instrument.quoteCurrency,
+    baseCurrency: instrument.baseCurrency ?? '',
+    tickSize: String(instrument.tickSize),
+    multiplier: String(instrument.multiplier),
+    pipSize: instrument.pipSize ? String(instrument.pipSize) : ''
+  }
+}
+
+export function InstrumentsManager() {
+  const { settings, updateSettings } = useTradeStore()
+  const [searchTerm, setSearchTerm] = useState('')
+  const [form, setForm] = useState<InstrumentForm>(EMPTY_INSTRUMENT)
+
+  const customSymbols = new Set(settings.instruments.map(i => i.symbol))
+  const instruments = searchInstruments(searchTerm, getInstruments(settings.instruments))
+    .sort((a, b) => a.assetClass.localeCompare(b.assetClass) || a.symbol.localeCompare(b.symbol))
+
+  const symbol = form.symbol.trim().toUpperCase()
+  const tickSize = parseFloat(form.tickSize)
+  const multiplier = parseFloat(form.multiplier)
+  const isValid = symbol !== '' && tickSize > 0 && multiplier > 0
+
+  const handleSave = () => {
+    if (!isValid) return
+    const pipSize = parseFloat(form.pipSize)
+    const instrument: Instrument = {
+      symbol,
+      name: form.name.trim() || undefined,
+      assetClass: form.assetClass,
+      exchange: form.exchange.trim() || undefined,
+      quoteCurrency: form.quoteCurrency.trim().toUpperCase() || 'USD',
+      baseCurrency: form.assetClass === 'forex' ? form.baseCurrency.trim().toUpperCase() || undefined : undefined,
+      tickSize,
+      multiplier,
+      pipSize: pipSize > 0 ? pipSize : undefined
+    }
+    updateSettings({ instruments: [...settings.instruments.filter(i => i.symbol !== symbol), instrument] })
+    setForm(EMPTY_INSTRUMENT)
+  }
+
+  const handleRemove = (symbolToRemove: string) => {
+    updateSettings({ instruments: settings.instruments.filter(i => i.symbol !== symbolToRemove) })
+  }
+
+  return (
+    <Card className="bg-white dark:bg-gray-800 shadow-sm hover:shadow-md transition-shadow">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold text-gray-900 dark:text-white">Instruments</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          P&L from prices is multiplied by the contract multiplier (e.g. 50 for ES, 100,000 for a forex lot). Pairs quoted in another currency are converted at the exit price when the base is USD (USDJPY); otherwise their P&L is entered by hand. Changes apply to trades saved afterwards.
+        </p>
+        <input
+          type="text"
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          placeholder="Search symbol or name"
+          className={inputClassName}
+        />
+        <div className="max-h-64 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+                <th className="py-1 font-medium">Symbol</th>
+                <th className="py-1 font-medium">Class</th>
+                <th className="py-1 font-medium text-right">Tick</th>
+                <th className="py-1 font-medium text-right">Multiplier</th>
+                <th className="py-1" />
+              </tr>
+            </thead>
+            <tbody>
+              {instruments.map(instrument => {
+                const pipValue = getPipValue(instrument)
+                return (
+                  <tr
+                    key={instrument.symbol}
+                    onClick={() => setForm(toForm(instrument))}
+                    className="border-t border-gray-100 dark:border-gray-700 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                    title="Edit"
+                  >
+                    <td className="py-1.5">
+                      <div className="font-medium text-gray-900 dark:text-white">{instrument.symbol}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                        {[instrument.name, instrument.exchange, instrument.quoteCurrency].filter(Boolean).join(' · ')}
+                      </div>
+                    </td>
+                    <td className="py-1.5 text-gray-700 dark:text-gray-300">{ASSET_CLASS_LABELS[instrument.assetClass]}</td>
+                    <td className="py-1.5 text-right text-gray-700 dark:text-gray-300">{instrument.tickSize}</td>
+                    <td className="py-1.5 text-right text-gray-700 dark:text-gray-300">
+                      {instrument.multiplier.toLocaleString()}
+                      {pipValue !== null && <div className="text-xs text-gray-500 dark:text-gray-400">{pipValue} / pip</div>}
+                    </td>
+                    <td className="py-1.5 text-right">
+                      {customSymbols.has(instrument.symbol) && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            handleRemove(instrument.symbol)
+                          }}
+                          title="Remove custom instrument"
+                          className="p-1.5 rounded-lg text-gray-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Add or override an instrument */}
+        <div className="space-y-2">
+          <div className="font-medium text-gray-800 dark:text-gray-200 text-sm">Add or Edit Instrument</div>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={form.symbol}
+              onChange={(e) => setForm(prev => ({ ...prev, symbol: e.target.value.toUpperCase() }))}
+              placeholder="Symbol, e.g. EURGBP"
+              className={inputClassName}
+            />
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="Name (optional)"
+              className={inputClassName}
+            />
+            <select
+              value={form.assetClass}
+              onChange={(e) => setForm(prev => ({ ...prev, assetClass: e.target.value as AssetClass }))}
+              className={inputClassName}
+            >
+              {(Object.keys(ASSET_CLASS_LABELS) as AssetClass[]).map(assetClass => (
+                <option key={assetClass} value={assetClass}>
+                  {ASSET_CLASS_LABELS[assetClass]}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={form.exchange}
+              onChange={(e) => setForm(prev => ({ ...prev, exchange: e.target.value }))}
+              placeholder="Exchange (optional)"
+              className={inputClassName}
+            />
+            <div>
+              <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Quote Currency</label>
+              <input
+                type="text"
+                value={form.quoteCurrency}
+                onChange={(e) => setForm(prev => ({ ...prev, quoteCurrency: e.target.value.toUpperCase() }))}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Tick Size</label>
+              <input
+                type="number"
+                value={form.tickSize}
+                onChange={(e) => setForm(prev => ({ ...prev, tickSize: e.target.value }))}
+                className={inputClassName}
+                min="0"
+                step="any"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Contract Multiplier</label>
+              <input
+                type="number"
+                value={form.multiplier}
+                onChange={(e) => setForm(prev => ({ ...prev, multiplier: e.target.value }))}
+                className={inputClassName}
+                min="0"
+                step="any"
+              />
+            </div>
+            {form.assetClass === 'forex' && (
+              <div>
+                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Base Currency</label>
+                <input
+                  type="text"
+                  value={form.baseCurrency}
+                  onChange={(e) => setForm(prev => ({ ...prev, baseCurrency: e.target.value.toUpperCase() }))}
+                  placeholder="EUR"
+                  className={inputClassName}
+                />
+              </div>
+            )}
+            {form.assetClass === 'forex' && (
+              <div>
+                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Pip Size</label>
+                <input
+                  type="number"
+                  value={form.pipSize}
+                  onChange={(e) => setForm(prev => ({ ...prev, pipSize: e.target.value }))}
+                  placeholder="0.0001"
+                  className={inputClassName}
+                  min="0"
+                  step="any"
+                />
+              </div>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleSave} disabled={!isValid} className="h-9 px-3">
+              <Plus className="h-4 w-4 mr-2" />
+              Save Instrument
+            </Button>
+            {form !== EMPTY_INSTRUMENT && (
+              <Button size="sm" variant="outline" onClick={() => setForm(EMPTY_INSTRUMENT)} className="h-9 px-3">
+                Clear
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,35 +1,39 @@
 import { useState, useMemo, useRef, useEffect } from 'react'
 import { format, parseISO, isWithinInterval } from 'date-fns'
-import { useTradeStore } from '@/store/tradeStore'
+import { useTradeStore, useAccountScope, type TradeEntry } from '@/store/tradeStore'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog'
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog'
 import { useToast } from '@/components/ui/use-toast'
-import { Search, Filter, Download, ChevronUp, ChevronDown, Edit2, Trash2, Check, Calendar, Target, DollarSign } from 'lucide-react'
+import { undoToastAction } from '@/components/UndoRedo'
+import { TradeRevisionHistory } from '@/components/TradeRevisionHistory'
+import { StoredImage } from '@/components/StoredImage'
+import { describeSavedUploads, saveUploadedImages } from '@/lib/imageStore'
+import { getContractSpecs } from '@/lib/instruments'
+import { Search, Filter, Download, ChevronUp, ChevronDown, Edit2, Trash2, Check, Calendar, Target, DollarSign, NotebookPen } from 'lucide-react'
 import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 import { DateRangePicker } from '@/components/ui/date-range-picker'
 import type { DateRange } from 'react-day-picker'
 import { Dialog as PreviewDialog, DialogContent as PreviewDialogContent } from '@/components/ui/dialog'
 import { SetupInput } from '@/components/ui/setup-input'
+import { TagInput } from '@/components/ui/tag-input'
+import { TagBadge } from '@/components/TagBadge'
 import { CoinInput } from '@/components/ui/coin-input'
 import { RulesSelector } from '@/components/RulesSelector'
-
-interface TradeEntry {
-  id: string
-  date: string
-  lessons: string
-  setup: string[]
-  coin: string
-  pnl: number
-  outcome: 'win' | 'loss'
-  tags: string[]
-  mood: string
-  images?: string[]
-  notes?: string
-  link?: string
-  selectedRules?: string[]
-}
+import { PlaybookChecklist } from '@/components/PlaybookChecklist'
+import { DailyJournalEditor } from '@/components/DailyJournalEditor'
+import { TradePriceFields } from '@/components/TradePriceFields'
+import { ExecutionsEditor } from '@/components/ExecutionsEditor'
+import { AccountSelect } from '@/components/AccountSwitcher'
+import { TradeCostFields } from '@/components/TradeCostFields'
+import { TradeRiskFields } from '@/components/TradeRiskFields'
+import { TradeEmotionFields } from '@/components/TradeEmotionFields'
+import { EmotionBadges } from '@/components/EmotionBadge'
+import { EMOTION_PHASES, formatEmotionState, getEmotionLabel, getRecordedEmotions } from '@/lib/emotions'
+import { calculateRMultiple, getInitialRisk, formatR } from '@/lib/risk'
+import { DAY_GRADE_CLASSES, getDailyJournalExcerpt, searchDailyJournals } from '@/lib/dailyJournal'
+import { aggregateExecutions, calculateTradePnL, resolveTradePnL, calculateReturnPercent, getTradeCosts, calculateHoldingTime, getPeakPositionSize, formatDuration } from '@/lib/pnl'
 
 interface SortConfig {
   key: keyof TradeEntry
@@ -53,10 +57,12 @@ interface JournalProps {
 const ITEMS_PER_PAGE = 10
 
 export function Journal({ onNavigate }: JournalProps) {
-  const { entries, deleteEntry, updateEntry, settings } = useTradeStore()
+  const { deleteEntry, deleteEntries, updateEntry, settings, accounts, dailyJournals } = useTradeStore()
+  const { entries } = useAccountScope()
   const { toast } = useToast()
   const [searchQuery, setSearchQuery] = useState('')
   const [dateRange, setDateRange] = useState<DateRange | undefined>(undefined)
+  const [journalDate, setJournalDate] = useState<string | null>(null)
   const [sortConfig, setSortConfig] = useState<SortConfig>({ key: 'date', direction: 'desc' })
   const [currentPage, setCurrentPage] = useState(1)
   const [selectedRows, setSelectedRows] = useState<Set<string>>(new Set())
@@ -69,7 +75,7 @@ export function Journal({ onNavigate }: JournalProps) {
   const setupInputRef = useRef<HTMLInputElement>(null)
   const dummyRef = useRef<HTMLButtonElement>(null)
   const [isPreviewOpen, setIsPreviewOpen] = useState(false)
-  const [selectedImage, setSelectedImage] = useState<{ preview: string; name: string } | null>(null)
+  const [selectedImage, setSelectedImage] = useState<{ id: string; name: string } | null>(null)
   const [currentImageIndex, setCurrentImageIndex] = useState(0)
   const [scale, setScale] = useState(1)
   const [position, setPosition] = useState({ x: 0, y: 0 })
@@ -91,7 +97,8 @@ export function Journal({ onNavigate }: JournalProps) {
         entry.setup.some(setup => setup.toLowerCase().includes(searchQuery.toLowerCase())) ||
         entry.notes?.toLowerCase().includes(searchQuery.toLowerCase()) ||
         (entry.coin && entry.coin.toLowerCase().includes(searchQuery.toLowerCase())) ||
-        (entry.mood && entry.mood.toLowerCase().includes(searchQuery.toLowerCase())) ||
+        getRecordedEmotions(entry.emotions).some(({ state }) => getEmotionLabel(state.emotion, settings.emotions).toLowerCase().includes(searchQuery.toLowerCase())) ||
+        entry.tags.some(tag => tag.toLowerCase().includes(searchQuery.toLowerCase())) ||
         entry.outcome.toLowerCase().includes(searchQuery.toLowerCase())
 
       const matchesDateRange = !dateRange?.from || !dateRange?.to || 
@@ -151,13 +158,12 @@ export function Journal({ onNavigate }: JournalProps) {
   const handleBulkDelete = () => {
     if (selectedRows.size === 0) return
 
-    selectedRows.forEach(id => {
-      deleteEntry(id)
-    })
+    deleteEntries([...selectedRows])
 
     toast({
       title: 'Success',
-      description: `Deleted ${selectedRows.size} trade${selectedRows.size > 1 ? 's' : ''}`,
+      description: `Moved ${selectedRows.size} trade${selectedRows.size > 1 ? 's' : ''} to trash`,
+      action: undoToastAction(),
     })
 
     setSelectedRows(new Set())
@@ -173,7 +179,8 @@ export function Journal({ onNavigate }: JournalProps) {
       deleteEntry(entryToDelete)
       toast({
         title: 'Success',
-        description: 'Trade entry deleted',
+        description: 'Trade entry moved to trash',
+        action: undoToastAction(),
       })
     }
     setIsDeleteDialogOpen(false)
@@ -204,7 +211,7 @@ export function Journal({ onNavigate }: JournalProps) {
 
   const handleSaveEdit = () => {
     if (editingEntry) {
-      updateEntry(editingEntry.id, editingEntry)
+      updateEntry(editingEntry.id, { ...editingEntry, lastSaved: new Date().toISOString() }, 'Journal')
       toast({
         title: 'Success',
         description: 'Trade entry updated',
@@ -224,6 +231,14 @@ export function Journal({ onNavigate }: JournalProps) {
 
   const totalPages = Math.ceil(filterEntries(entries).length / ITEMS_PER_PAGE)
 
+  // Day journals are searched alongside trades once there is a query
+  const matchingJournals = useMemo(() => {
+    if (!searchQuery.trim()) return []
+    return searchDailyJournals(dailyJournals, searchQuery).filter(journal =>
+      !dateRange?.from || !dateRange?.to || isWithinInterval(parseISO(journal.date), { start: dateRange.from, end: dateRange.to })
+    )
+  }, [dailyJournals, searchQuery, dateRange])
+
   const stats = useMemo(() => {
     const filteredEntries = filterEntries(entries)
     const totalTrades = filteredEntries.length
@@ -286,7 +301,7 @@ export function Journal({ onNavigate }: JournalProps) {
         if (editingEntry?.images && currentImageIndex > 0) {
           const prevImage = editingEntry.images[currentImageIndex - 1]
           if (prevImage) {
-            setSelectedImage({ preview: prevImage, name: `Trade Image ${currentImageIndex}` })
+            setSelectedImage({ id: prevImage, name: `Trade Image ${currentImageIndex}` })
             setCurrentImageIndex(currentImageIndex - 1)
             setScale(1)
             setPosition({ x: 0, y: 0 })
@@ -296,7 +311,7 @@ export function Journal({ onNavigate }: JournalProps) {
         if (editingEntry?.images && currentImageIndex < editingEntry.images.length - 1) {
           const nextImage = editingEntry.images[currentImageIndex + 1]
           if (nextImage) {
-            setSelectedImage({ preview: nextImage, name: `Trade Image ${currentImageIndex + 2}` })
+            setSelectedImage({ id: nextImage, name: `Trade Image ${currentImageIndex + 2}` })
             setCurrentImageIndex(currentImageIndex + 1)
             setScale(1)
             setPosition({ x: 0, y: 0 })
@@ -331,35 +346,31 @@ export function Journal({ onNavigate }: JournalProps) {
     setIsDraggingUpload(false)
     const files = Array.from(e.dataTransfer.files).filter(file => file.type.startsWith('image/'))
     if (!editingEntry || files.length === 0) return
-    // You may want to add file size validation here
-    const processedFiles = await Promise.all(
-      files.map(async (file) => {
-        return new Promise<string>((resolve) => {
-          const reader = new FileReader()
-          reader.onloadend = () => {
-            resolve(reader.result as string)
-          }
-          reader.readAsDataURL(file)
-        })
+    await addUploads(editingEntry.id, files)
+  }
+  // Compress and store the files in the image store, then append their ids to the entry as it is by then;
+  // compression takes a while and the form may have been edited meanwhile
+  const addUploads = async (entryId: string, files: File[]) => {
+    try {
+      const saved = await saveUploadedImages(files, {
+        maxDimension: settings.imageMaxDimension,
+        format: settings.imageFormat,
+        quality: settings.imageQuality
       })
-    )
-    handleFormChange({ ...editingEntry, images: [...(editingEntry.images || []), ...processedFiles] })
+      toast(describeSavedUploads(saved))
+      setEditingEntry(prev => prev && prev.id === entryId ? { ...prev, images: [...(prev.images || []), ...saved.ids] } : prev)
+    } catch (error) {
+      console.error('Error storing images:', error)
+      toast({
+        title: 'Upload failed',
+        description: error instanceof Error ? error.message : 'The images could not be stored',
+        variant: 'destructive'
+      })
+    }
   }
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (!editingEntry || !e.target.files) return
-    const files = Array.from(e.target.files)
-    const processedFiles = await Promise.all(
-      files.map(async (file) => {
-        return new Promise<string>((resolve) => {
-          const reader = new FileReader()
-          reader.onloadend = () => {
-            resolve(reader.result as string)
-          }
-          reader.readAsDataURL(file)
-        })
-      })
-    )
-    handleFormChange({ ...editingEntry, images: [...(editingEntry.images || []), ...processedFiles] })
+    await addUploads(editingEntry.id, Array.from(e.target.files))
   }
   const handleRemoveImage = (index: number) => {
     if (!editingEntry) return
@@ -368,16 +379,35 @@ export function Journal({ onNavigate }: JournalProps) {
 
   // CSV Export functions
   const generateCSV = (entries: TradeEntry[]) => {
-    const headers = ['Date', 'Coin', 'Setup', 'PnL', 'Outcome', 'Mood', 'Lessons', 'Notes']
+    const headers = ['Date', 'Account', 'Coin', 'Setup', 'Direction', 'Quantity', 'Entry Price', 'Exit Price', 'Entry Time', 'Exit Time', 'Gross PnL', 'Commission', 'Funding', 'Other Costs', 'PnL', 'PnL Source', 'Planned Stop', 'Planned Target', 'Initial Risk', 'R Multiple', 'Outcome', 'Pre-Trade Emotion', 'In-Trade Emotion', 'Post-Trade Emotion', 'Lessons', 'Notes']
     const csvContent = [
       headers.join(','),
       ...entries.map(entry => [
         format(parseISO(entry.date), 'yyyy-MM-dd'),
+        `"${(accounts.find(a => a.id === entry.accountId)?.name || '').replace(/"/g, '""')}"`,
         entry.coin || '',
         `"${entry.setup.join('; ')}"`,
+        entry.direction || '',
+        entry.quantity ?? '',
+        entry.entryPrice ?? '',
+        entry.exitPrice ?? '',
+        entry.entryTime || '',
+        entry.exitTime || '',
+        entry.grossPnl ?? entry.pnl,
+        getTradeCosts(entry).commission,
+        entry.funding ?? 0,
+        entry.otherCosts ?? 0,
         entry.pnl,
+        entry.pnlSource || 'manual',
+        entry.plannedStop ?? '',
+        entry.plannedTarget ?? '',
+        getInitialRisk(entry)?.toFixed(2) ?? '',
+        calculateRMultiple(entry)?.toFixed(2) ?? '',
         entry.outcome,
-        entry.mood,
+        ...EMOTION_PHASES.map(phase => {
+          const state = entry.emotions?.[phase]
+          return state ? formatEmotionState(state, settings.emotions) : ''
+        }),
         `"${entry.lessons.replace(/"/g, '""')}"`,
         `"${(entry.notes || '').replace(/"/g, '""')}"`
       ].join(','))
@@ -491,7 +521,7 @@ export function Journal({ onNavigate }: JournalProps) {
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
             <Input
               type="text"
-              placeholder="Search coins, setups, mood or outcome..."
+              placeholder="Search coins, setups, tags, emotions, outcome or daily journals..."
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               className="pl-9 bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700"
@@ -509,6 +539,33 @@ export function Journal({ onNavigate }: JournalProps) {
           </Button>
         </div>
 
+        {/* Matching daily journals */}
+        {matchingJournals.length > 0 && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm divide-y divide-gray-100 dark:divide-gray-700">
+            <div className="px-4 py-3 flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-white">
+              <NotebookPen className="h-4 w-4 text-indigo-500" />
+              Daily Journal ({matchingJournals.length})
+            </div>
+            {matchingJournals.map(journal => (
+              <button
+                key={journal.id}
+                onClick={() => setJournalDate(journal.date)}
+                className="w-full px-4 py-3 flex items-start gap-3 text-left hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors"
+              >
+                <span className="w-24 shrink-0 text-sm font-medium text-gray-900 dark:text-white">
+                  {format(parseISO(journal.date), 'MMM d, yyyy')}
+                </span>
+                {journal.grade && (
+                  <span className={`px-1.5 rounded text-xs font-semibold ${DAY_GRADE_CLASSES[journal.grade]}`}>{journal.grade}</span>
+                )}
+                <span className="text-sm text-gray-600 dark:text-gray-400 line-clamp-2">
+                  {getDailyJournalExcerpt(journal, settings.journalSections, searchQuery)}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Journal Entries Table */}
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm overflow-hidden">
           {paginatedEntries.length === 0 ? (
@@ -573,7 +630,7 @@ export function Journal({ onNavigate }: JournalProps) {
                       Outcome
                     </th>
                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
-                      Mood
+                      Emotions
                     </th>
                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                       Actions
@@ -609,6 +666,7 @@ export function Journal({ onNavigate }: JournalProps) {
                               {setup}
                             </span>
                           ))}
+                          {entry.tags.map(tag => <TagBadge key={tag} tag={tag} />)}
                         </div>
                       </td>
                       <td className="px-4 py-3">
@@ -626,9 +684,7 @@ export function Journal({ onNavigate }: JournalProps) {
                         </span>
                       </td>
                       <td className="px-4 py-3">
-                        <span className="inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-orange-100 dark:bg-orange-900/20 text-orange-800 dark:text-orange-300">
-                          {entry.mood || 'N/A'}
-                        </span>
+                        <EmotionBadges emotions={entry.emotions} showPhase={false} />
                       </td>
                       <td className="px-4 py-3">
                         <div className="flex items-center gap-2">
@@ -713,6 +769,14 @@ export function Journal({ onNavigate }: JournalProps) {
                   <>
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6 w-full">
                       <div className="space-y-4">
+                        {accounts.length > 1 && (
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Account</label>
+                            <div className="w-full px-3 py-2 text-base text-gray-900 bg-gray-100 rounded-lg">
+                              {accounts.find(a => a.id === editingEntry.accountId)?.name || <span className="text-gray-400">Unknown account</span>}
+                            </div>
+                          </div>
+                        )}
                         <div>
                           <label className="block text-sm font-medium text-gray-700 mb-1">Setup</label>
                           <div className="w-full px-3 py-2 text-base text-gray-900 bg-gray-100 rounded-lg">
@@ -750,6 +814,48 @@ export function Journal({ onNavigate }: JournalProps) {
                             <span className={`font-medium ${editingEntry.pnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>
                               {editingEntry.pnl >= 0 ? '+' : ''}{editingEntry.pnl.toFixed(2)}
                             </span>
+                            <span className="ml-2 text-xs text-gray-500">
+                              {editingEntry.pnlSource === 'executions'
+                                ? `realized over ${editingEntry.executions?.length ?? 0} fills`
+                                : editingEntry.pnlSource === 'prices'
+                                ? `(${editingEntry.direction}: ${editingEntry.exitPrice} − ${editingEntry.entryPrice}) × ${editingEntry.quantity}`
+                                : 'entered manually'}
+                            </span>
+                            {(() => {
+                              const costs = getTradeCosts(editingEntry)
+                              if (costs.total === 0) return null
+                              return (
+                                <div className="text-xs text-gray-500">
+                                  Gross {(editingEntry.grossPnl ?? editingEntry.pnl).toFixed(2)} · Commission {costs.commission.toFixed(2)} · Funding {costs.funding.toFixed(2)} · Other {costs.other.toFixed(2)}
+                                </div>
+                              )
+                            })()}
+                          </div>
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Execution</label>
+                          <div className="w-full px-3 py-2 text-sm text-gray-900 bg-gray-100 rounded-lg space-y-1">
+                            <div>
+                              {editingEntry.direction ? editingEntry.direction.toUpperCase() : 'No direction'}
+                              {editingEntry.quantity ? ` · ${editingEntry.quantity} @ ${editingEntry.entryPrice ?? '-'} → ${editingEntry.exitPrice ?? '-'}` : ''}
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              {(() => {
+                                const returnPercent = calculateReturnPercent(editingEntry)
+                                const holdingTime = calculateHoldingTime(editingEntry)
+                                const rMultiple = calculateRMultiple(editingEntry)
+                                return [
+                                  returnPercent !== null ? `Return ${returnPercent.toFixed(2)}%` : null,
+                                  holdingTime !== null ? `Held ${formatDuration(holdingTime)}` : null,
+                                  editingEntry.executions?.length ? `Peak size ${getPeakPositionSize(editingEntry)}` : null,
+                                  editingEntry.plannedStop ? `Stop ${editingEntry.plannedStop}` : null,
+                                  editingEntry.plannedTarget ? `Target ${editingEntry.plannedTarget}` : null,
+                                  rMultiple !== null ? `${formatR(rMultiple)} on ${getInitialRisk(editingEntry)?.toFixed(2)} risk` : null,
+                                  editingEntry.entryTime ? `Opened ${format(parseISO(editingEntry.entryTime), 'MMM d, HH:mm')}` : null,
+                                  editingEntry.exitTime ? `Closed ${format(parseISO(editingEntry.exitTime), 'MMM d, HH:mm')}` : null,
+                                ].filter(Boolean).join(' · ') || 'No timing recorded'
+                              })()}
+                            </div>
                           </div>
                         </div>
                         <div>
@@ -765,14 +871,20 @@ export function Journal({ onNavigate }: JournalProps) {
                           </div>
                         </div>
                         <div>
-                          <label className="block text-sm font-medium text-gray-700 mb-1">Mood</label>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Emotions</label>
                           <div className="w-full px-3 py-2 text-base text-gray-900 bg-gray-100 rounded-lg">
-                            {editingEntry.mood ? (
-                              <span className="inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-orange-100 text-orange-800">
-                                {editingEntry.mood}
-                              </span>
+                            <EmotionBadges emotions={editingEntry.emotions} />
+                          </div>
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Tags</label>
+                          <div className="w-full px-3 py-2 text-base text-gray-900 bg-gray-100 rounded-lg">
+                            {editingEntry.tags.length > 0 ? (
+                              <div className="flex flex-wrap gap-1">
+                                {editingEntry.tags.map(tag => <TagBadge key={tag} tag={tag} />)}
+                              </div>
                             ) : (
-                              <span className="text-gray-400">No mood specified</span>
+                              <span className="text-gray-400">No tags</span>
                             )}
                           </div>
                         </div>
@@ -814,13 +926,14 @@ export function Journal({ onNavigate }: JournalProps) {
                               <span className="text-gray-400 text-base flex items-center">No images uploaded</span>
                             )}
                             {editingEntry?.images?.map((img, idx) => (
-                              <div key={idx} className="relative w-[160px] h-[110px] rounded-lg shadow border overflow-hidden group flex-shrink-0">
-                                <img
-                                  src={img}
+                              <div key={img} className="relative w-[160px] h-[110px] rounded-lg shadow border overflow-hidden group flex-shrink-0">
+                                <StoredImage
+                                  imageId={img}
+                                  variant="thumbnail"
                                   alt={`Trade Image ${idx + 1}`}
                                   className="w-full h-full object-cover cursor-pointer hover:opacity-90 transition-opacity"
                                   onClick={() => {
-                                    setSelectedImage({ preview: img, name: `Trade Image ${idx + 1}` })
+                                    setSelectedImage({ id: img, name: `Trade Image ${idx + 1}` })
                                     setCurrentImageIndex(idx)
                                     setScale(1)
                                     setPosition({ x: 0, y: 0 })
@@ -834,15 +947,35 @@ export function Journal({ onNavigate }: JournalProps) {
                       </div>
                     </div>
                     
+                    {editingEntry.executions && editingEntry.executions.length > 0 && (
+                      <div className="mt-6">
+                        <h3 className="text-base font-semibold text-gray-900 dark:text-white border-b pb-0.5 mb-3">Executions</h3>
+                        <ExecutionsEditor
+                          executions={editingEntry.executions}
+                          direction={editingEntry.direction}
+                          onChange={() => {}}
+                          readOnly
+                        />
+                      </div>
+                    )}
+
                     {/* Rules Section */}
                     <div className="mt-6">
                       <h3 className="text-base font-semibold text-gray-900 dark:text-white border-b pb-0.5 mb-3">Trading Rules Followed</h3>
                       <RulesSelector
                         selectedRules={editingEntry.selectedRules || []}
                         onRulesChange={(ruleIds) => handleFormChange({ ...editingEntry, selectedRules: ruleIds })}
+                        brokenRules={editingEntry.brokenRules}
+                        trade={editingEntry}
                         className="mt-2"
                       />
                     </div>
+
+                    {/* Revision History */}
+                    <div className="mt-6">
+                      <h3 className="text-base font-semibold text-gray-900 dark:text-white border-b pb-0.5 mb-3">Revision History</h3>
+                      <TradeRevisionHistory entry={editingEntry} onRevert={setEditingEntry} />
+                    </div>
                     
                     <DialogFooter className="flex flex-col sm:flex-row gap-2 sm:gap-4">
                       <Button
@@ -869,6 +1002,17 @@ export function Journal({ onNavigate }: JournalProps) {
                   <>
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6 w-full">
                       <div className="space-y-4">
+                        {accounts.length > 1 && (
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">
+                              Account
+                            </label>
+                            <AccountSelect
+                              value={editingEntry.accountId}
+                              onChange={(accountId) => handleFormChange({ ...editingEntry, accountId })}
+                            />
+                          </div>
+                        )}
                         <div>
                           <label className="block text-sm font-medium text-gray-700 mb-1">
                             Setup
@@ -878,6 +1022,13 @@ export function Journal({ onNavigate }: JournalProps) {
                             onChange={(value) => handleFormChange({ ...editingEntry, setup: value })}
                             className="w-full"
                           />
+                          <PlaybookChecklist
+                            setups={editingEntry.setup}
+                            selectedRules={editingEntry.selectedRules || []}
+                            onRulesChange={(ruleIds) => handleFormChange({ ...editingEntry, selectedRules: ruleIds })}
+                            trade={editingEntry}
+                            className="mt-2"
+                          />
                         </div>
                         <div>
                           <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -885,7 +1036,7 @@ export function Journal({ onNavigate }: JournalProps) {
                           </label>
                           <CoinInput
                             value={editingEntry.coin}
-                            onChange={(value) => handleFormChange({ ...editingEntry, coin: value })}
+                            onChange={(value) => handleFormChange({ ...editingEntry, coin: value, ...getContractSpecs(value, settings.instruments) })}
                             className="w-full"
                           />
                         </div>
@@ -895,9 +1046,10 @@ export function Journal({ onNavigate }: JournalProps) {
                           </label>
                           <input
                             type="number"
-                            value={editingEntry.pnl}
-                            onChange={(e) => handleFormChange({ ...editingEntry, pnl: Number(e.target.value) })}
-                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            value={calculateTradePnL(editingEntry)?.toFixed(2) ?? editingEntry.grossPnl ?? editingEntry.pnl}
+                            onChange={(e) => handleFormChange({ ...editingEntry, grossPnl: Number(e.target.value) })}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                            disabled={calculateTradePnL(editingEntry) !== null}
                           />
                         </div>
                         <div>
@@ -915,19 +1067,12 @@ export function Journal({ onNavigate }: JournalProps) {
                         </div>
                         <div>
                           <label className="block text-sm font-medium text-gray-700 mb-1">
-                            Mood
+                            Tags <span className="text-gray-400">(optional)</span>
                           </label>
-                          <select
-                            value={editingEntry.mood || ''}
-                            onChange={(e) => handleFormChange({ ...editingEntry, mood: e.target.value })}
-                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                          >
-                            <option value="great">Great</option>
-                            <option value="good">Good</option>
-                            <option value="neutral">Neutral</option>
-                            <option value="bad">Bad</option>
-                            <option value="terrible">Terrible</option>
-                          </select>
+                          <TagInput
+                            value={editingEntry.tags}
+                            onChange={(tags) => handleFormChange({ ...editingEntry, tags })}
+                          />
                         </div>
                         <div>
                           <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -972,13 +1117,14 @@ export function Journal({ onNavigate }: JournalProps) {
                               <span className="text-gray-400 text-base flex items-center">No photo uploaded</span>
                             )}
                             {editingEntry?.images?.map((img, idx) => (
-                              <div key={idx} className="relative w-[160px] h-[110px] rounded-lg shadow border overflow-hidden group flex-shrink-0">
-                                <img
-                                  src={img}
+                              <div key={img} className="relative w-[160px] h-[110px] rounded-lg shadow border overflow-hidden group flex-shrink-0">
+                                <StoredImage
+                                  imageId={img}
+                                  variant="thumbnail"
                                   alt={`Trade Image ${idx + 1}`}
                                   className="w-full h-full object-cover cursor-pointer hover:opacity-90 transition-opacity"
                                   onClick={() => {
-                                    setSelectedImage({ preview: img, name: `Trade Image ${idx + 1}` })
+                                    setSelectedImage({ id: img, name: `Trade Image ${idx + 1}` })
                                     setCurrentImageIndex(idx)
                                     setScale(1)
                                     setPosition({ x: 0, y: 0 })
@@ -1020,6 +1166,50 @@ export function Journal({ onNavigate }: JournalProps) {
                       </div>
                     </div>
                     
+                    <div className="mt-6">
+                      <h3 className="text-base font-semibold text-gray-900 dark:text-white border-b pb-0.5 mb-3">Prices & Timing</h3>
+                      <TradePriceFields
+                        value={{ ...editingEntry, ...aggregateExecutions(editingEntry) }}
+                        onChange={(values) => handleFormChange({ ...editingEntry, ...values })}
+                        disabled={aggregateExecutions(editingEntry) !== null}
+                      />
+                    </div>
+
+                    <div className="mt-6">
+                      <h3 className="text-base font-semibold text-gray-900 dark:text-white border-b pb-0.5 mb-3">Executions</h3>
+                      <ExecutionsEditor
+                        executions={editingEntry.executions || []}
+                        direction={editingEntry.direction}
+                        onChange={(executions) => handleFormChange({ ...editingEntry, executions })}
+                      />
+                    </div>
+
+                    <div className="mt-6">
+                      <h3 className="text-base font-semibold text-gray-900 dark:text-white border-b pb-0.5 mb-3">Risk Plan</h3>
+                      <TradeRiskFields
+                        value={{ ...editingEntry, ...aggregateExecutions(editingEntry) }}
+                        netPnl={resolveTradePnL(editingEntry).pnl}
+                        onChange={(values) => handleFormChange({ ...editingEntry, ...values })}
+                      />
+                    </div>
+
+                    <div className="mt-6">
+                      <h3 className="text-base font-semibold text-gray-900 dark:text-white border-b pb-0.5 mb-3">Emotions</h3>
+                      <TradeEmotionFields
+                        value={editingEntry.emotions ?? {}}
+                        onChange={(emotions) => handleFormChange({ ...editingEntry, emotions: getRecordedEmotions(emotions).length > 0 ? emotions : undefined })}
+                      />
+                    </div>
+
+                    <div className="mt-6">
+                      <h3 className="text-base font-semibold text-gray-900 dark:text-white border-b pb-0.5 mb-3">Fees & Funding</h3>
+                      <TradeCostFields
+                        value={editingEntry}
+                        grossPnl={calculateTradePnL(editingEntry) ?? editingEntry.grossPnl ?? editingEntry.pnl}
+                        onChange={(values) => handleFormChange({ ...editingEntry, ...values })}
+                      />
+                    </div>
+
                     <DialogFooter className="flex flex-col sm:flex-row gap-2 sm:gap-4">
                       <Button
                         variant="outline"
@@ -1052,7 +1242,7 @@ export function Journal({ onNavigate }: JournalProps) {
             <AlertDialogHeader>
               <AlertDialogTitle>Delete Trade Entry</AlertDialogTitle>
               <AlertDialogDescription>
-                Are you sure you want to delete this trade entry? This action cannot be undone.
+                Move this trade entry to the trash? You can restore it from the Trash page.
               </AlertDialogDescription>
             </AlertDialogHeader>
             <AlertDialogFooter className="flex flex-col sm:flex-row gap-2 sm:gap-4">
@@ -1066,6 +1256,18 @@ export function Journal({ onNavigate }: JournalProps) {
             </AlertDialogFooter>
           </AlertDialogContent>
         </AlertDialog>
+
+        {/* Daily journal opened from the search results */}
+        <Dialog open={journalDate !== null} onOpenChange={(open) => !open && setJournalDate(null)}>
+          <DialogContent className="w-[95vw] sm:max-w-xl md:max-w-2xl p-4 sm:p-6 overflow-y-auto max-h-[90vh] bg-white dark:bg-gray-800">
+            <DialogHeader>
+              <DialogTitle className="text-xl font-semibold text-gray-900 dark:text-white">
+                {journalDate ? format(parseISO(journalDate), 'MMMM d, yyyy') : ''}
+              </DialogTitle>
+            </DialogHeader>
+            {journalDate && <DailyJournalEditor date={journalDate} onClose={() => setJournalDate(null)} />}
+          </DialogContent>
+        </Dialog>
       </div>
 
       {/* Move the fullscreen overlay here, outside the modal */}
@@ -1109,8 +1311,8 @@ export function Journal({ onNavigate }: JournalProps) {
             onWheel={handleWheel}
             style={{ touchAction: 'none' }}
           >
-            <img
-              src={selectedImage.preview}
+            <StoredImage
+              imageId={selectedImage.id}
               alt={selectedImage.name}
               className="max-w-full max-h-full object-contain select-none"
               style={{
@@ -1132,7 +1334,7 @@ export function Journal({ onNavigate }: JournalProps) {
                   onClick={() => {
                     if (currentImageIndex > 0 && editingEntry?.images?.[currentImageIndex - 1]) {
                       const prevImage = editingEntry.images[currentImageIndex - 1]
-                      setSelectedImage({ preview: prevImage, name: `Trade Image ${currentImageIndex}` })
+                      setSelectedImage({ id: prevImage, name: `Trade Image ${currentImageIndex}` })
                       setCurrentImageIndex(currentImageIndex - 1)
                       setScale(1)
                       setPosition({ x: 0, y: 0 })
@@ -1154,7 +1356,7 @@ export function Journal({ onNavigate }: JournalProps) {
                       editingEntry.images[currentImageIndex + 1]
                     ) {
                       const nextImage = editingEntry.images[currentImageIndex + 1]
-                      setSelectedImage({ preview: nextImage, name: `Trade Image ${currentImageIndex + 2}` })
+                      setSelectedImage({ id: nextImage, name: `Trade Image ${currentImageIndex + 2}` })
                       setCurrentImageIndex(currentImageIndex + 1)
                       setScale(1)
                       setPosition({ x: 0, y: 0 })
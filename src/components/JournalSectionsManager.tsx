@@ -0,0 +1,41 @@
+import { useMemo } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { SectionListEditor } from './SectionListEditor'
+import { useTradeStore } from '../store/tradeStore'
+import { DEFAULT_JOURNAL_SECTIONS } from '../lib/dailyJournal'
+
+export function JournalSectionsManager() {
+  const { settings, dailyJournals, updateSettings } = useTradeStore()
+
+  // How many days have text in each section
+  const usage = useMemo(() => {
+    const counts = new Map<string, number>()
+    dailyJournals.forEach(journal => {
+      Object.entries(journal.sections).forEach(([id, text]) => {
+        if (text.trim()) counts.set(id, (counts.get(id) ?? 0) + 1)
+      })
+    })
+    return counts
+  }, [dailyJournals])
+
+  return (
+    <Card className="bg-white dark:bg-gray-800 shadow-sm hover:shadow-md transition-shadow">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold text-gray-900 dark:text-white">Daily Journal</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Sections of the pre-market plan and end-of-day review written for each day. Removing one keeps its text on the days that already use it.
+        </p>
+        <SectionListEditor
+          sections={settings.journalSections}
+          onChange={journalSections => updateSettings({ journalSections })}
+          defaults={DEFAULT_JOURNAL_SECTIONS}
+          usage={usage}
+          usageUnit="day"
+          placeholder="e.g. Key Levels"
+        />
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,288 @@
+import { useEffect, useMemo, useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { useTradeStore, useAccountScope, type TradeEntry } from '@/store/tradeStore'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { useToast } from '@/components/ui/use-toast'
+import { undoToastAction } from '@/components/UndoRedo'
+import { getWrittenSections } from '@/lib/dailyJournal'
+import {
+  REVIEW_PERIOD_LABELS,
+  REVIEW_STAT_LABELS,
+  formatReviewPeriod,
+  getPeriodStart,
+  getReviewStats,
+  getWeeksOfMonth,
+  sortReviews,
+  type ReviewPeriod,
+  type ReviewStat,
+  type ReviewStats,
+} from '@/lib/reviews'
+import { ArrowLeft, CalendarCheck, ChevronRight, Trash2 } from 'lucide-react'
+
+interface OpenReview {
+  period: ReviewPeriod
+  start: string
+}
+
+function formatMoney(value: number): string {
+  return `${value >= 0 ? '+' : '-'}$${Math.abs(value).toFixed(2)}`
+}
+
+function pnlClassName(value: number): string {
+  return value >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+}
+
+function TradeLine({ label, entry }: { label: string; entry: TradeEntry }) {
+  return (
+    <div>
+      <span className="text-gray-500 dark:text-gray-400">{label}:</span>{' '}
+      {entry.coin || 'Trade'} on {format(parseISO(entry.date), 'MMM d')}{' '}
+      <span className={pnlClassName(entry.pnl)}>{formatMoney(entry.pnl)}</span>
+    </div>
+  )
+}
+
+function StatBlock({ stat, stats }: { stat: ReviewStat; stats: ReviewStats }) {
+  switch (stat) {
+    case 'pnl':
+      return (
+        <div>
+          <span className={`text-2xl font-bold ${pnlClassName(stats.totalPnL)}`}>{formatMoney(stats.totalPnL)}</span>
+          <span className="ml-2 text-sm text-gray-500 dark:text-gray-400">over {stats.trades} trade{stats.trades === 1 ? '' : 's'}</span>
+        </div>
+      )
+    case 'winRate':
+      return (
+        <div className="text-sm text-gray-700 dark:text-gray-300">
+          {stats.winRate === null ? 'No trades' : `${stats.winRate.toFixed(1)}%`}
+          {stats.expectancy !== null && (
+            <span className="ml-2 text-gray-500 dark:text-gray-400">· {formatMoney(stats.expectancy)} per trade</span>
+          )}
+        </div>
+      )
+    case 'bestWorst':
+      return !stats.best ? (
+        <div className="text-sm text-gray-500 dark:text-gray-400">No trades</div>
+      ) : (
+        <div className="space-y-1 text-sm text-gray-700 dark:text-gray-300">
+          <TradeLine label="Best" entry={stats.best} />
+          {stats.worst && <TradeLine label="Worst" entry={stats.worst} />}
+        </div>
+      )
+    case 'topSetups':
+      return stats.topSetups.length === 0 ? (
+        <div className="text-sm text-gray-500 dark:text-gray-400">No setups recorded</div>
+      ) : (
+        <div className="space-y-1 text-sm text-gray-700 dark:text-gray-300">
+          {stats.topSetups.map(setup => (
+            <div key={setup.setup} className="flex justify-between gap-4">
+              <span>{setup.setup}</span>
+              <span>
+                {setup.trades} trade{setup.trades === 1 ? '' : 's'} · {setup.winRate?.toFixed(0)}% ·{' '}
+                <span className={pnlClassName(setup.totalPnL)}>{formatMoney(setup.totalPnL)}</span>
+              </span>
+            </div>
+          ))}
+        </div>
+      )
+    case 'ruleBreaks':
+      return stats.ruleBreaks.length === 0 ? (
+        <div className="text-sm text-gray-500 dark:text-gray-400">No rules broken</div>
+      ) : (
+        <div className="space-y-1 text-sm text-gray-700 dark:text-gray-300">
+          {stats.ruleBreaks.map(ruleBreak => (
+            <div key={ruleBreak.ruleId} className="flex justify-between gap-4">
+              <span>{ruleBreak.title}</span>
+              <span>
+                {ruleBreak.count}× · <span className={pnlClassName(ruleBreak.pnl)}>{formatMoney(ruleBreak.pnl)}</span>
+              </span>
+            </div>
+          ))}
+        </div>
+      )
+    case 'lessons':
+      return stats.lessons.length === 0 ? (
+        <div className="text-sm text-gray-500 dark:text-gray-400">No lessons written on trades or in the journal</div>
+      ) : (
+        <div className="space-y-2 text-sm text-gray-700 dark:text-gray-300">
+          {stats.lessons.map(day => (
+            <div key={day.date}>
+              <div className="text-xs font-medium text-gray-500 dark:text-gray-400">{format(parseISO(day.date), 'EEE, MMM d')}</div>
+              {day.lessons.map((lesson, index) => (
+                <p key={index} className="whitespace-pre-wrap">{lesson}</p>
+              ))}
+            </div>
+          ))}
+        </div>
+      )
+  }
+}
+
+// One review: the template's stats filled in from the period's trades, then its reflection fields
+function ReviewEditor({ period, start, onBack }: OpenReview & { onBack: () => void }) {
+  const { settings, rules, reviews, dailyJournals, saveReview, deleteReview } = useTradeStore()
+  const { entries, isAllAccounts, account } = useAccountScope()
+  const { toast } = useToast()
+  const review = reviews.find(r => r.period === period && r.start === start)
+  const [sections, setSections] = useState<Record<string, string>>({})
+  const template = settings.reviewTemplate
+
+  useEffect(() => {
+    setSections(review?.sections ?? {})
+  }, [review])
+
+  const stats = useMemo(
+    () => getReviewStats(entries, rules, dailyJournals, settings.journalSections, period, start),
+    [entries, rules, dailyJournals, settings.journalSections, period, start]
+  )
+
+  // Fields since removed from the template stay editable on the reviews that wrote them
+  const removedSections = review
+    ? getWrittenSections(review, template.sections).filter(s => !template.sections.some(section => section.id === s.id))
+    : []
+  const fields = [...template.sections, ...removedSections.map(({ id, label }) => ({ id, label, prompt: undefined }))]
+  const isDirty = JSON.stringify(sections) !== JSON.stringify(review?.sections ?? {})
+
+  const handleSave = () => {
+    saveReview(period, start, Object.fromEntries(Object.entries(sections).filter(([, text]) => text.trim())))
+    toast({ title: 'Success', description: `${REVIEW_PERIOD_LABELS[period]} saved`, action: undoToastAction() })
+  }
+
+  const handleDelete = () => {
+    if (!review) return
+    deleteReview(review.id)
+    toast({ title: 'Success', description: `${REVIEW_PERIOD_LABELS[period]} moved to trash`, action: undoToastAction() })
+    onBack()
+  }
+
+  return (
+    <div className="space-y-4">
+      <button
+        onClick={onBack}
+        className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+      >
+        <ArrowLeft size={14} />
+        All reviews
+      </button>
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{REVIEW_PERIOD_LABELS[period]}</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {formatReviewPeriod(period, start)} · {isAllAccounts ? 'All accounts' : account?.name}
+        </p>
+      </div>
+
+      {template.stats.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {template.stats.map(stat => (
+            <div
+              key={stat}
+              className={`rounded-lg border border-gray-200 dark:border-gray-700 p-3 ${stat === 'lessons' || stat === 'ruleBreaks' ? 'sm:col-span-2' : ''}`}
+            >
+              <div className="text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-1">{REVIEW_STAT_LABELS[stat]}</div>
+              <StatBlock stat={stat} stats={stats} />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {fields.map(field => (
+        <div key={field.id}>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{field.label}</label>
+          <textarea
+            value={sections[field.id] ?? ''}
+            onChange={(e) => setSections(prev => ({ ...prev, [field.id]: e.target.value }))}
+            placeholder={field.prompt}
+            rows={4}
+            className="w-full px-3 py-2 text-base border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          />
+        </div>
+      ))}
+
+      <div className="flex flex-col sm:flex-row sm:justify-between gap-3 pt-4 border-t">
+        <div>
+          {review && (
+            <Button variant="ghost" onClick={handleDelete} className="text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/30">
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete Review
+            </Button>
+          )}
+        </div>
+        <Button onClick={handleSave} disabled={!isDirty && !!review}>Save Review</Button>
+      </div>
+    </div>
+  )
+}
+
+interface PeriodReviewsDialogProps {
+  month: Date // The month shown in the calendar
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Reviews of the calendar month and its weeks, followed by every review written before
+export function PeriodReviewsDialog({ month, open, onOpenChange }: PeriodReviewsDialogProps) {
+  const { reviews } = useTradeStore()
+  const [openReview, setOpenReview] = useState<OpenReview | null>(null)
+
+  useEffect(() => {
+    if (!open) setOpenReview(null)
+  }, [open])
+
+  const monthStart = getPeriodStart('month', month)
+  const periods: OpenReview[] = [
+    { period: 'month', start: monthStart },
+    ...getWeeksOfMonth(month).map(start => ({ period: 'week' as const, start })),
+  ]
+  const pastReviews = sortReviews(reviews).filter(review => !periods.some(p => p.period === review.period && p.start === review.start))
+
+  const renderRow = ({ period, start }: OpenReview) => {
+    const review = reviews.find(r => r.period === period && r.start === start)
+    return (
+      <button
+        key={`${period}-${start}`}
+        onClick={() => setOpenReview({ period, start })}
+        className="w-full flex items-center justify-between gap-3 px-3 py-2 rounded-lg text-left hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors"
+      >
+        <span>
+          <span className="block text-sm font-medium text-gray-900 dark:text-white">{formatReviewPeriod(period, start)}</span>
+          <span className="block text-xs text-gray-500 dark:text-gray-400">
+            {REVIEW_PERIOD_LABELS[period]}
+            {review ? ` · Updated ${format(new Date(review.updatedAt), 'MMM d, yyyy')}` : ' · Not written yet'}
+          </span>
+        </span>
+        <span className="flex items-center gap-2">
+          {review && <CalendarCheck size={16} className="text-cyan-500" />}
+          <ChevronRight size={16} className="text-gray-400" />
+        </span>
+      </button>
+    )
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] sm:max-w-xl md:max-w-2xl p-4 sm:p-6 overflow-y-auto max-h-[90vh] bg-white dark:bg-gray-800">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold text-gray-900 dark:text-white">Reviews</DialogTitle>
+          <DialogDescription>Weekly and monthly reviews with stats filled in from your trades</DialogDescription>
+        </DialogHeader>
+        {openReview ? (
+          <ReviewEditor {...openReview} onBack={() => setOpenReview(null)} />
+        ) : (
+          <div className="space-y-4">
+            <section>
+              <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-1">{format(month, 'MMMM yyyy')}</h3>
+              <div className="divide-y divide-gray-100 dark:divide-gray-700">{periods.map(renderRow)}</div>
+            </section>
+            {pastReviews.length > 0 && (
+              <section>
+                <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-1">Other Reviews</h3>
+                <div className="divide-y divide-gray-100 dark:divide-gray-700">{pastReviews.map(renderRow)}</div>
+              </section>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
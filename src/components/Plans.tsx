@@ -0,0 +1,500 @@
+import { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { useTradeStore, useAccountScope, type TradeDirection, type TradePlan } from '@/store/tradeStore'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog'
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog'
+import { useToast } from '@/components/ui/use-toast'
+import { undoToastAction } from '@/components/UndoRedo'
+import { AccountSelect } from '@/components/AccountSwitcher'
+import { CoinInput } from '@/components/ui/coin-input'
+import { SetupInput } from '@/components/ui/setup-input'
+import { RulesSelector } from '@/components/RulesSelector'
+import { PlaybookChecklist } from '@/components/PlaybookChecklist'
+import { PLAN_STATUS_LABELS, type TradePlanStatus } from '@/lib/plans'
+import { calculatePlannedRewardRisk, formatR } from '@/lib/risk'
+import { Plus, Edit2, Trash2, Crosshair, ArrowRightCircle, SkipForward, RotateCcw } from 'lucide-react'
+
+interface TradePlanForm {
+  accountId: string
+  date: string
+  coin: string
+  setup: string[]
+  direction: TradeDirection
+  thesis: string
+  entryPrice: string
+  plannedStop: string
+  plannedTarget: string
+  positionSize: string
+  leverage: string
+  selectedRules: string[]
+}
+
+const selectClassName = 'mt-1 w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+const STATUS_CLASSES: Record<TradePlanStatus, string> = {
+  planned: 'bg-blue-100 dark:bg-blue-900/20 text-blue-800 dark:text-blue-300',
+  converted: 'bg-green-100 dark:bg-green-900/20 text-green-800 dark:text-green-300',
+  skipped: 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+}
+
+function parseNumber(value: string): number | undefined {
+  if (value.trim() === '') return undefined
+  const num = parseFloat(value)
+  return isNaN(num) ? undefined : num
+}
+
+function formatMoney(value: number) {
+  return `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+// Converting opens the trade form pre-filled from the plan
+export function Plans({ onConvert }: { onConvert: (planId: string) => void }) {
+  const { accounts, entries: allEntries, addPlan, updatePlan, deletePlan } = useTradeStore()
+  const { plans, account, isAllAccounts } = useAccountScope()
+  const { toast } = useToast()
+
+  const emptyForm = (): TradePlanForm => ({
+    accountId: account?.id ?? accounts[0]?.id ?? '',
+    date: format(new Date(), 'yyyy-MM-dd'),
+    coin: '',
+    setup: [],
+    direction: 'long',
+    thesis: '',
+    entryPrice: '',
+    plannedStop: '',
+    plannedTarget: '',
+    positionSize: '',
+    leverage: '',
+    selectedRules: []
+  })
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<TradePlanForm>(emptyForm)
+  const [planToDelete, setPlanToDelete] = useState<string | null>(null)
+  const [planToSkip, setPlanToSkip] = useState<string | null>(null)
+  const [skipReason, setSkipReason] = useState('')
+
+  const openPlans = plans.filter(plan => plan.status === 'planned').sort((a, b) => a.date.localeCompare(b.date))
+  const pastPlans = plans.filter(plan => plan.status !== 'planned').sort((a, b) => b.date.localeCompare(a.date))
+  const showAccount = isAllAccounts || accounts.length > 1
+
+  const openAddDialog = () => {
+    setEditingId(null)
+    setForm(emptyForm())
+    setIsDialogOpen(true)
+  }
+
+  const openEditDialog = (plan: TradePlan) => {
+    setEditingId(plan.id)
+    setForm({
+      accountId: plan.accountId,
+      date: plan.date,
+      coin: plan.coin,
+      setup: plan.setup,
+      direction: plan.direction,
+      thesis: plan.thesis,
+      entryPrice: plan.entryPrice?.toString() ?? '',
+      plannedStop: plan.plannedStop?.toString() ?? '',
+      plannedTarget: plan.plannedTarget?.toString() ?? '',
+      positionSize: plan.positionSize?.toString() ?? '',
+      leverage: plan.leverage?.toString() ?? '',
+      selectedRules: plan.selectedRules
+    })
+    setIsDialogOpen(true)
+  }
+
+  const handleSave = () => {
+    if (!form.coin.trim() || !form.thesis.trim()) {
+      toast({
+        title: 'Error',
+        description: 'Coin and thesis are required',
+        variant: 'destructive'
+      })
+      return
+    }
+
+    const plan = {
+      accountId: form.accountId,
+      date: form.date || format(new Date(), 'yyyy-MM-dd'),
+      coin: form.coin,
+      setup: form.setup,
+      direction: form.direction,
+      thesis: form.thesis.trim(),
+      entryPrice: parseNumber(form.entryPrice),
+      plannedStop: parseNumber(form.plannedStop),
+      plannedTarget: parseNumber(form.plannedTarget),
+      positionSize: parseNumber(form.positionSize),
+      leverage: parseNumber(form.leverage),
+      selectedRules: form.selectedRules
+    }
+    if (editingId) {
+      updatePlan(editingId, plan)
+    } else {
+      addPlan(plan)
+    }
+
+    toast({
+      title: 'Success',
+      description: editingId ? 'Trade plan updated' : 'Trade plan added'
+    })
+    setIsDialogOpen(false)
+  }
+
+  const handleSkip = () => {
+    if (planToSkip) {
+      updatePlan(planToSkip, { status: 'skipped', skipReason: skipReason.trim() || undefined })
+      toast({
+        title: 'Success',
+        description: 'Trade plan skipped',
+        action: undoToastAction()
+      })
+    }
+    setPlanToSkip(null)
+    setSkipReason('')
+  }
+
+  const handleDelete = () => {
+    if (planToDelete) {
+      deletePlan(planToDelete)
+      toast({
+        title: 'Success',
+        description: 'Trade plan moved to trash',
+        action: undoToastAction()
+      })
+    }
+    setPlanToDelete(null)
+  }
+
+  const renderPlan = (plan: TradePlan) => {
+    const rewardRisk = calculatePlannedRewardRisk(plan)
+    const trade = plan.entryId ? allEntries.find(entry => entry.id === plan.entryId) : undefined
+    const levels = [
+      { label: 'Entry', value: plan.entryPrice },
+      { label: 'Stop', value: plan.plannedStop },
+      { label: 'Target', value: plan.plannedTarget },
+      { label: 'Size', value: plan.positionSize !== undefined ? formatMoney(plan.positionSize) : undefined },
+      { label: 'Leverage', value: plan.leverage !== undefined ? `${plan.leverage}x` : undefined }
+    ].filter(level => level.value !== undefined)
+
+    return (
+      <Card key={plan.id}>
+        <CardContent className="p-6 space-y-3">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <div className="flex flex-wrap items-center gap-2">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{plan.coin}</h3>
+                <span className={`px-2 py-0.5 rounded text-xs font-medium ${plan.direction === 'long' ? 'bg-green-100 dark:bg-green-900/20 text-green-800 dark:text-green-300' : 'bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300'}`}>
+                  {plan.direction === 'long' ? 'Long' : 'Short'}
+                </span>
+                <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_CLASSES[plan.status]}`}>
+                  {PLAN_STATUS_LABELS[plan.status]}
+                </span>
+              </div>
+              <div className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                {[
+                  format(parseISO(plan.date), 'MMM d, yyyy'),
+                  plan.setup.join(' + '),
+                  showAccount ? accounts.find(a => a.id === plan.accountId)?.name : undefined
+                ].filter(Boolean).join(' · ')}
+              </div>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              {plan.status === 'planned' && (
+                <>
+                  <Button size="sm" onClick={() => onConvert(plan.id)} className="flex items-center gap-1">
+                    <ArrowRightCircle size={16} />
+                    Convert to Trade
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setPlanToSkip(plan.id)} className="flex items-center gap-1">
+                    <SkipForward size={16} />
+                    Skip
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => openEditDialog(plan)}
+                    className="text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400"
+                  >
+                    <Edit2 size={16} />
+                  </Button>
+                </>
+              )}
+              {plan.status === 'skipped' && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updatePlan(plan.id, { status: 'planned', skipReason: undefined })}
+                  className="flex items-center gap-1"
+                >
+                  <RotateCcw size={16} />
+                  Reopen
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setPlanToDelete(plan.id)}
+                className="text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400"
+              >
+                <Trash2 size={16} />
+              </Button>
+            </div>
+          </div>
+
+          <p className="text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{plan.thesis}</p>
+
+          {(levels.length > 0 || rewardRisk !== null) && (
+            <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+              {levels.map(level => (
+                <span key={level.label} className="text-gray-600 dark:text-gray-400">
+                  {level.label}: <span className="font-medium text-gray-900 dark:text-white">{level.value}</span>
+                </span>
+              ))}
+              {rewardRisk !== null && (
+                <span className="text-gray-600 dark:text-gray-400">
+                  Reward:Risk: <span className="font-medium text-gray-900 dark:text-white">{formatR(rewardRisk)}</span>
+                </span>
+              )}
+            </div>
+          )}
+
+          {plan.selectedRules.length > 0 && (
+            <div className="text-sm text-gray-500 dark:text-gray-400">
+              Follows {plan.selectedRules.length} rule{plan.selectedRules.length === 1 ? '' : 's'}
+            </div>
+          )}
+
+          {plan.status === 'converted' && (
+            <div className="text-sm text-gray-600 dark:text-gray-400 border-t border-gray-100 dark:border-gray-700 pt-3">
+              {trade ? (
+                <>
+                  Taken on {format(parseISO(trade.date), 'MMM d, yyyy')}
+                  {trade.entryPrice !== undefined && <> at {trade.entryPrice}</>}
+                  {' · '}
+                  <span className={trade.pnl >= 0 ? 'text-green-600' : 'text-red-600'}>
+                    {trade.pnl >= 0 ? '+' : ''}{formatMoney(trade.pnl)}
+                  </span>
+                </>
+              ) : (
+                'The trade made from this plan was deleted'
+              )}
+            </div>
+          )}
+          {plan.status === 'skipped' && plan.skipReason && (
+            <div className="text-sm text-gray-600 dark:text-gray-400 border-t border-gray-100 dark:border-gray-700 pt-3">
+              Skipped: {plan.skipReason}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Trade Plans</h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-2">
+            Plan the trade before you take it, then journal it straight from the plan
+          </p>
+        </div>
+        {plans.length > 0 && (
+          <Button onClick={openAddDialog} className="flex items-center gap-2">
+            <Plus size={20} />
+            New Plan
+          </Button>
+        )}
+      </div>
+
+      {plans.length === 0 ? (
+        <Card className="text-center py-12">
+          <CardContent>
+            <Crosshair size={48} className="mx-auto text-gray-400 mb-4" />
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
+              No trade plans yet
+            </h3>
+            <p className="text-gray-600 dark:text-gray-400 mb-4">
+              Write down the thesis, levels and size before entering to compare the plan with what you actually did
+            </p>
+            <Button onClick={openAddDialog}>
+              Plan Your First Trade
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <div>
+            <h2 className="text-sm font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-3">
+              Open Plans
+            </h2>
+            {openPlans.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No open plans</p>
+            ) : (
+              <div className="grid gap-4">{openPlans.map(renderPlan)}</div>
+            )}
+          </div>
+          {pastPlans.length > 0 && (
+            <div>
+              <h2 className="text-sm font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-3">
+                Taken & Skipped
+              </h2>
+              <div className="grid gap-4">{pastPlans.map(renderPlan)}</div>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Add/Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Trade Plan' : 'New Trade Plan'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div>
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Date</label>
+                <Input
+                  type="date"
+                  value={form.date}
+                  onChange={(e) => setForm({ ...form, date: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Coin *</label>
+                <div className="mt-1">
+                  <CoinInput value={form.coin} onChange={(coin) => setForm({ ...form, coin })} />
+                </div>
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Direction</label>
+                <select
+                  value={form.direction}
+                  onChange={(e) => setForm({ ...form, direction: e.target.value as TradeDirection })}
+                  className={selectClassName}
+                >
+                  <option value="long">Long</option>
+                  <option value="short">Short</option>
+                </select>
+              </div>
+            </div>
+            {accounts.length > 1 && (
+              <div>
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Account</label>
+                <AccountSelect value={form.accountId} onChange={(accountId) => setForm({ ...form, accountId })} className="mt-1" />
+              </div>
+            )}
+            <div>
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Setup</label>
+              <div className="mt-1">
+                <SetupInput value={form.setup} onChange={(setup) => setForm({ ...form, setup })} />
+              </div>
+              <PlaybookChecklist
+                setups={form.setup}
+                selectedRules={form.selectedRules}
+                onRulesChange={(selectedRules) => setForm({ ...form, selectedRules })}
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Thesis *</label>
+              <Textarea
+                value={form.thesis}
+                onChange={(e) => setForm({ ...form, thesis: e.target.value })}
+                placeholder="Why this trade, why now, and what has to happen for it to work..."
+                className="mt-1"
+                rows={3}
+              />
+            </div>
+            <div className="grid gap-4 grid-cols-2 sm:grid-cols-5">
+              {([
+                ['entryPrice', 'Entry'],
+                ['plannedStop', 'Stop'],
+                ['plannedTarget', 'Target'],
+                ['positionSize', 'Size ($)'],
+                ['leverage', 'Leverage']
+              ] as const).map(([field, label]) => (
+                <div key={field}>
+                  <label className="text-sm font-medium text-gray-700 dark:text-gray-300">{label}</label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={form[field]}
+                    onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                    className="mt-1"
+                  />
+                </div>
+              ))}
+            </div>
+            <RulesSelector
+              selectedRules={form.selectedRules}
+              onRulesChange={(selectedRules) => setForm({ ...form, selectedRules })}
+              trade={{ date: form.date }}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave}>
+              {editingId ? 'Save Changes' : 'Add Plan'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Skip Dialog */}
+      <Dialog open={!!planToSkip} onOpenChange={(open) => !open && setPlanToSkip(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Skip Trade Plan</DialogTitle>
+          </DialogHeader>
+          <div>
+            <label className="text-sm font-medium text-gray-700 dark:text-gray-300">Reason (Optional)</label>
+            <Input
+              value={skipReason}
+              onChange={(e) => setSkipReason(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSkip()}
+              placeholder="e.g., Entry never triggered"
+              className="mt-1"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPlanToSkip(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSkip}>
+              Skip Plan
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={!!planToDelete} onOpenChange={(open) => !open && setPlanToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Trade Plan</AlertDialogTitle>
+            <AlertDialogDescription>
+              Move this plan to the trash? A trade made from it is kept, and you can restore the plan from the Trash page.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
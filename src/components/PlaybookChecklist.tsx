@@ -0,0 +1,80 @@
+import { useTradeStore, type TradeEntry } from '@/store/tradeStore'
+import { getTradePlaybooks } from '@/lib/playbooks'
+import { getTradeRuleVersion } from '@/lib/rules'
+import { CheckCircle2, ClipboardList, XCircle } from 'lucide-react'
+
+interface PlaybookChecklistProps {
+  setups: string[]
+  selectedRules: string[]
+  onRulesChange?: (ruleIds: string[]) => void // Linked rules are read-only without it
+  trade?: Pick<TradeEntry, 'date' | 'ruleVersions'> // Shows each rule as worded for this trade
+  className?: string
+}
+
+// The playbooks of the chosen setups: what to check before entering, and their rules to tick
+export function PlaybookChecklist({ setups, selectedRules, onRulesChange, trade, className = '' }: PlaybookChecklistProps) {
+  const { playbooks, rules, settings } = useTradeStore()
+  const tradePlaybooks = getTradePlaybooks(setups, playbooks, settings)
+  if (tradePlaybooks.length === 0) return null
+
+  const toggleRule = (ruleId: string) => {
+    onRulesChange?.(selectedRules.includes(ruleId) ? selectedRules.filter(id => id !== ruleId) : [...selectedRules, ruleId])
+  }
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      {tradePlaybooks.map(playbook => {
+        const linkedRules = rules.filter(rule => playbook.ruleIds.includes(rule.id))
+        return (
+          <div key={playbook.id} className="rounded-lg border border-blue-200 dark:border-blue-800 bg-blue-50/50 dark:bg-blue-900/10 p-3 text-sm">
+            <div className="flex flex-wrap items-center gap-2 mb-2">
+              <ClipboardList size={16} className="text-blue-600 dark:text-blue-400" />
+              <span className="font-semibold text-gray-900 dark:text-white">{playbook.setup} Playbook</span>
+              {playbook.timeframes.map(timeframe => (
+                <span key={timeframe} className="px-1.5 py-0.5 rounded text-xs bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300">
+                  {timeframe}
+                </span>
+              ))}
+            </div>
+            {playbook.entryCriteria.length > 0 && (
+              <ul className="space-y-0.5 mb-2">
+                {playbook.entryCriteria.map((criterion, index) => (
+                  <li key={index} className="flex items-start gap-2 text-gray-700 dark:text-gray-300">
+                    <CheckCircle2 size={14} className="mt-0.5 shrink-0 text-green-600" />
+                    {criterion}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {playbook.invalidation.length > 0 && (
+              <ul className="space-y-0.5 mb-2">
+                {playbook.invalidation.map((condition, index) => (
+                  <li key={index} className="flex items-start gap-2 text-gray-700 dark:text-gray-300">
+                    <XCircle size={14} className="mt-0.5 shrink-0 text-red-600" />
+                    <span><span className="text-gray-500 dark:text-gray-400">Invalid if:</span> {condition}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {linkedRules.length > 0 && (
+              <div className="space-y-0.5 border-t border-blue-200 dark:border-blue-800 pt-2">
+                {linkedRules.map(rule => (
+                  <label key={rule.id} className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={selectedRules.includes(rule.id)}
+                      onChange={() => toggleRule(rule.id)}
+                      disabled={!onRulesChange}
+                      className="rounded border-gray-300"
+                    />
+                    {trade ? getTradeRuleVersion(rule, trade).title : rule.title}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,551 @@
+import { useState } from 'react'
+import { useTradeStore, useAccountScope, type Playbook, type PlaybookExample } from '@/store/tradeStore'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog'
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog'
+import { useToast } from '@/components/ui/use-toast'
+import { undoToastAction } from '@/components/UndoRedo'
+import { StoredImage } from '@/components/StoredImage'
+import { describeSavedUploads, saveUploadedImages } from '@/lib/imageStore'
+import { TIMEFRAMES, findPlaybook, getAvailableSetups, getPlaybookStats } from '@/lib/playbooks'
+import { groupRulesByCategory, RULE_CATEGORY_LABELS } from '@/lib/rules'
+import { Plus, Edit2, Trash2, ClipboardList, CheckCircle2, XCircle, BookMarked, ImagePlus } from 'lucide-react'
+
+// Criteria and invalidation are edited one per line
+interface PlaybookForm {
+  setup: string
+  description: string
+  entryCriteria: string
+  invalidation: string
+  timeframes: string[]
+  ruleIds: string[]
+  examples: PlaybookExample[]
+}
+
+const EMPTY_FORM: PlaybookForm = {
+  setup: '',
+  description: '',
+  entryCriteria: '',
+  invalidation: '',
+  timeframes: [],
+  ruleIds: [],
+  examples: []
+}
+
+const toLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean)
+
+const money = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString(undefined, { maximumFractionDigits: 2 })}`
+
+// Trades, win rate and expectancy of the setup in the selected account
+function PlaybookStatsCard({ playbook }: { playbook: Playbook }) {
+  const { settings } = useTradeStore()
+  const { entries } = useAccountScope()
+  const stats = getPlaybookStats(playbook, entries, settings)
+
+  return (
+    <div className="grid grid-cols-3 gap-2 rounded-lg bg-gray-50 dark:bg-gray-900/40 p-3 text-center">
+      <div>
+        <div className="text-xs text-gray-500 dark:text-gray-400">Trades</div>
+        <div className="text-lg font-semibold text-gray-900 dark:text-white">{stats.trades}</div>
+      </div>
+      <div>
+        <div className="text-xs text-gray-500 dark:text-gray-400">Win Rate</div>
+        <div className="text-lg font-semibold text-gray-900 dark:text-white">
+          {stats.winRate !== null ? `${Math.round(stats.winRate)}%` : '-'}
+        </div>
+      </div>
+      <div>
+        <div className="text-xs text-gray-500 dark:text-gray-400">Expectancy</div>
+        <div className={`text-lg font-semibold ${stats.expectancy === null ? 'text-gray-900 dark:text-white' : stats.expectancy >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+          {stats.expectancy !== null ? money(stats.expectancy) : '-'}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export function Playbooks() {
+  const { playbooks, rules, settings, addPlaybook, updatePlaybook, deletePlaybook, addCustomSetup } = useTradeStore()
+  const { entries } = useAccountScope()
+  const { toast } = useToast()
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<PlaybookForm>(EMPTY_FORM)
+  const [playbookToDelete, setPlaybookToDelete] = useState<string | null>(null)
+  const [previewImage, setPreviewImage] = useState<PlaybookExample | null>(null)
+
+  // Setups that are offered or traded but have no playbook yet
+  const setupsWithoutPlaybook = [...new Set([...getAvailableSetups(settings), ...entries.flatMap(entry => entry.setup)])]
+    .filter(setup => setup.trim() && !findPlaybook(setup, playbooks, settings))
+  const ruleGroups = groupRulesByCategory(rules)
+
+  const openAddDialog = (setup = '') => {
+    setEditingId(null)
+    setForm({ ...EMPTY_FORM, setup })
+    setIsDialogOpen(true)
+  }
+
+  const openEditDialog = (playbook: Playbook) => {
+    setEditingId(playbook.id)
+    setForm({
+      setup: playbook.setup,
+      description: playbook.description ?? '',
+      entryCriteria: playbook.entryCriteria.join('\n'),
+      invalidation: playbook.invalidation.join('\n'),
+      timeframes: playbook.timeframes,
+      ruleIds: playbook.ruleIds,
+      examples: playbook.examples
+    })
+    setIsDialogOpen(true)
+  }
+
+  const handleSave = () => {
+    const setup = form.setup.trim()
+    if (!setup) {
+      toast({
+        title: 'Error',
+        description: 'Choose the setup this playbook is for',
+        variant: 'destructive'
+      })
+      return
+    }
+    const existing = findPlaybook(setup, playbooks, settings)
+    if (existing && existing.id !== editingId) {
+      toast({
+        title: 'Error',
+        description: `${existing.setup} already has a playbook`,
+        variant: 'destructive'
+      })
+      return
+    }
+
+    const playbook = {
+      setup,
+      description: form.description.trim() || undefined,
+      entryCriteria: toLines(form.entryCriteria),
+      invalidation: toLines(form.invalidation),
+      timeframes: TIMEFRAMES.filter(timeframe => form.timeframes.includes(timeframe)),
+      ruleIds: form.ruleIds,
+      examples: form.examples.map(example => ({ imageId: example.imageId, caption: example.caption?.trim() || undefined }))
+    }
+    if (!getAvailableSetups(settings).includes(setup)) addCustomSetup(setup)
+    if (editingId) {
+      updatePlaybook(editingId, playbook)
+    } else {
+      addPlaybook(playbook)
+    }
+
+    toast({
+      title: 'Success',
+      description: editingId ? 'Playbook updated successfully' : 'Playbook added successfully'
+    })
+    setIsDialogOpen(false)
+  }
+
+  const handleDelete = () => {
+    if (playbookToDelete) {
+      deletePlaybook(playbookToDelete)
+      toast({
+        title: 'Success',
+        description: 'Playbook moved to trash',
+        action: undoToastAction()
+      })
+    }
+    setPlaybookToDelete(null)
+  }
+
+  const handleExampleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? [])
+    e.target.value = ''
+    if (files.length === 0) return
+
+    try {
+      const saved = await saveUploadedImages(files, {
+        maxDimension: settings.imageMaxDimension,
+        format: settings.imageFormat,
+        quality: settings.imageQuality
+      })
+      toast(describeSavedUploads(saved))
+      setForm(prev => ({ ...prev, examples: [...prev.examples, ...saved.ids.map(imageId => ({ imageId }))] }))
+    } catch (error) {
+      console.error('Error storing images:', error)
+      toast({
+        title: 'Upload failed',
+        description: error instanceof Error ? error.message : 'The images could not be stored',
+        variant: 'destructive'
+      })
+    }
+  }
+
+  const updateExample = (index: number, caption: string) => {
+    setForm(prev => ({ ...prev, examples: prev.examples.map((example, i) => i === index ? { ...example, caption } : example) }))
+  }
+
+  const toggleItem = (key: 'timeframes' | 'ruleIds', value: string) => {
+    setForm(prev => ({
+      ...prev,
+      [key]: prev[key].includes(value) ? prev[key].filter(item => item !== value) : [...prev[key], value]
+    }))
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Playbooks</h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-2">
+            Define each setup once - when to take it, when it fails, and how it has performed
+          </p>
+        </div>
+        {playbooks.length > 0 && (
+          <Button onClick={() => openAddDialog()} className="flex items-center gap-2">
+            <Plus size={20} />
+            Add Playbook
+          </Button>
+        )}
+      </div>
+
+      {playbooks.length === 0 ? (
+        <Card className="text-center py-12">
+          <CardContent>
+            <ClipboardList size={48} className="mx-auto text-gray-400 mb-4" />
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
+              No playbooks yet
+            </h3>
+            <p className="text-gray-600 dark:text-gray-400 mb-4">
+              Write down the entry criteria and invalidation of a setup to see them when you log a trade
+            </p>
+            <Button onClick={() => openAddDialog()}>
+              Create Your First Playbook
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-2">
+          {playbooks.map(playbook => {
+            const linkedRules = rules.filter(rule => playbook.ruleIds.includes(rule.id))
+            return (
+              <Card key={playbook.id}>
+                <CardContent className="p-6 space-y-4">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{playbook.setup}</h3>
+                      {playbook.description && (
+                        <p className="text-gray-600 dark:text-gray-400 text-sm mt-1">{playbook.description}</p>
+                      )}
+                      {playbook.timeframes.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                          {playbook.timeframes.map(timeframe => (
+                            <span key={timeframe} className="px-2 py-0.5 rounded text-xs font-medium bg-blue-100 dark:bg-blue-900/20 text-blue-800 dark:text-blue-300">
+                              {timeframe}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2 ml-4">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openEditDialog(playbook)}
+                        className="text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400"
+                      >
+                        <Edit2 size={16} />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setPlaybookToDelete(playbook.id)}
+                        className="text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400"
+                      >
+                        <Trash2 size={16} />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <PlaybookStatsCard playbook={playbook} />
+
+                  {playbook.entryCriteria.length > 0 && (
+                    <div>
+                      <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1">Entry Criteria</h4>
+                      <ul className="space-y-1">
+                        {playbook.entryCriteria.map((criterion, index) => (
+                          <li key={index} className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300">
+                            <CheckCircle2 size={16} className="mt-0.5 shrink-0 text-green-600" />
+                            {criterion}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  {playbook.invalidation.length > 0 && (
+                    <div>
+                      <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1">Invalidation</h4>
+                      <ul className="space-y-1">
+                        {playbook.invalidation.map((condition, index) => (
+                          <li key={index} className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300">
+                            <XCircle size={16} className="mt-0.5 shrink-0 text-red-600" />
+                            {condition}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  {linkedRules.length > 0 && (
+                    <div>
+                      <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1">Rules</h4>
+                      <ul className="space-y-1">
+                        {linkedRules.map(rule => (
+                          <li key={rule.id} className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300">
+                            <BookMarked size={16} className="mt-0.5 shrink-0 text-purple-500" />
+                            {rule.title}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  {playbook.examples.length > 0 && (
+                    <div>
+                      <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1">Examples</h4>
+                      <div className="flex gap-3 overflow-x-auto py-1">
+                        {playbook.examples.map(example => (
+                          <figure key={example.imageId} className="w-[160px] flex-shrink-0">
+                            <StoredImage
+                              imageId={example.imageId}
+                              variant="thumbnail"
+                              alt={example.caption ?? playbook.setup}
+                              className="w-[160px] h-[110px] rounded-lg border object-cover cursor-pointer hover:opacity-90 transition-opacity"
+                              onClick={() => setPreviewImage(example)}
+                            />
+                            {example.caption && (
+                              <figcaption className="mt-1 text-xs text-gray-600 dark:text-gray-400">{example.caption}</figcaption>
+                            )}
+                          </figure>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      )}
+
+      {playbooks.length > 0 && setupsWithoutPlaybook.length > 0 && (
+        <div>
+          <h2 className="text-sm font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-3">
+            Setups Without a Playbook
+          </h2>
+          <div className="flex flex-wrap gap-2">
+            {setupsWithoutPlaybook.map(setup => (
+              <button
+                key={setup}
+                onClick={() => openAddDialog(setup)}
+                className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-sm border border-dashed border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:border-blue-500 hover:text-blue-600 dark:hover:text-blue-400"
+              >
+                <Plus size={14} />
+                {setup}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Add/Edit Playbook Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Playbook' : 'Add Playbook'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Setup *
+              </label>
+              <Input
+                value={form.setup}
+                onChange={(e) => setForm({ ...form, setup: e.target.value })}
+                placeholder="e.g., Breakout"
+                list="playbook-setups"
+                className="mt-1"
+              />
+              <datalist id="playbook-setups">
+                {getAvailableSetups(settings).map(setup => (
+                  <option key={setup} value={setup} />
+                ))}
+              </datalist>
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Description (Optional)
+              </label>
+              <Textarea
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                placeholder="What the setup is and why it works..."
+                className="mt-1"
+                rows={2}
+              />
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div>
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Entry Criteria <span className="text-gray-400">(one per line)</span>
+                </label>
+                <Textarea
+                  value={form.entryCriteria}
+                  onChange={(e) => setForm({ ...form, entryCriteria: e.target.value })}
+                  placeholder={'Close above range high\nVolume above average'}
+                  className="mt-1"
+                  rows={4}
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Invalidation <span className="text-gray-400">(one per line)</span>
+                </label>
+                <Textarea
+                  value={form.invalidation}
+                  onChange={(e) => setForm({ ...form, invalidation: e.target.value })}
+                  placeholder={'Close back inside the range'}
+                  className="mt-1"
+                  rows={4}
+                />
+              </div>
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Preferred Timeframes
+              </label>
+              <div className="mt-1 flex flex-wrap gap-2">
+                {TIMEFRAMES.map(timeframe => (
+                  <button
+                    key={timeframe}
+                    type="button"
+                    onClick={() => toggleItem('timeframes', timeframe)}
+                    className={`px-3 py-1 rounded-md text-sm border transition-colors ${
+                      form.timeframes.includes(timeframe)
+                        ? 'bg-blue-600 border-blue-600 text-white'
+                        : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-blue-500'
+                    }`}
+                  >
+                    {timeframe}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Linked Rules
+              </label>
+              {rules.length === 0 ? (
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">No rules defined yet. Add rules in the Rules tab to link them here.</p>
+              ) : (
+                <div className="mt-1 max-h-48 overflow-y-auto space-y-3 rounded-md border border-gray-200 dark:border-gray-700 p-3">
+                  {ruleGroups.map(group => (
+                    <div key={group.category}>
+                      <div className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-1">
+                        {RULE_CATEGORY_LABELS[group.category]}
+                      </div>
+                      {group.rules.map(rule => (
+                        <label key={rule.id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 py-0.5">
+                          <input
+                            type="checkbox"
+                            checked={form.ruleIds.includes(rule.id)}
+                            onChange={() => toggleItem('ruleIds', rule.id)}
+                            className="rounded border-gray-300"
+                          />
+                          {rule.title}
+                        </label>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Example Screenshots
+              </label>
+              <div className="mt-1 space-y-2">
+                {form.examples.map((example, index) => (
+                  <div key={example.imageId} className="flex items-center gap-3">
+                    <StoredImage
+                      imageId={example.imageId}
+                      variant="thumbnail"
+                      alt={example.caption ?? 'Example'}
+                      className="w-24 h-16 rounded border object-cover flex-shrink-0"
+                    />
+                    <Input
+                      value={example.caption ?? ''}
+                      onChange={(e) => updateExample(index, e.target.value)}
+                      placeholder="What to notice on this chart"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setForm(prev => ({ ...prev, examples: prev.examples.filter((_, i) => i !== index) }))}
+                      className="text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400"
+                    >
+                      <Trash2 size={16} />
+                    </Button>
+                  </div>
+                ))}
+                <label className="inline-flex items-center gap-2 px-3 py-2 rounded-md border-2 border-dashed border-gray-300 dark:border-gray-600 text-sm text-gray-600 dark:text-gray-300 cursor-pointer hover:border-gray-400 dark:hover:border-gray-500">
+                  <ImagePlus size={16} />
+                  Add Screenshots
+                  <input type="file" accept="image/*" multiple className="hidden" onChange={handleExampleUpload} />
+                </label>
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave}>
+              {editingId ? 'Save Changes' : 'Add Playbook'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Example preview */}
+      <Dialog open={!!previewImage} onOpenChange={(open) => !open && setPreviewImage(null)}>
+        <DialogContent className="sm:max-w-4xl">
+          {previewImage && (
+            <figure className="space-y-2">
+              <StoredImage imageId={previewImage.imageId} alt={previewImage.caption ?? 'Example'} className="w-full max-h-[75vh] object-contain" />
+              {previewImage.caption && (
+                <figcaption className="text-sm text-gray-700 dark:text-gray-300">{previewImage.caption}</figcaption>
+              )}
+            </figure>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={!!playbookToDelete} onOpenChange={(open) => !open && setPlaybookToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Playbook</AlertDialogTitle>
+            <AlertDialogDescription>
+              Move this playbook to the trash? Trades with its setup are kept, and you can restore it from the Trash page.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,34 @@
+import type { PnLMode } from '@/lib/pnl'
+
+interface PnLModeToggleProps {
+  value: PnLMode
+  onChange: (mode: PnLMode) => void
+  className?: string
+}
+
+const MODES: { value: PnLMode; label: string; title: string }[] = [
+  { value: 'gross', label: 'Gross', title: 'P&L before commission, funding and other costs' },
+  { value: 'net', label: 'Net', title: 'P&L after commission, funding and other costs' }
+]
+
+export function PnLModeToggle({ value, onChange, className = '' }: PnLModeToggleProps) {
+  return (
+    <div className={`inline-flex rounded-md bg-gray-100 dark:bg-gray-700 p-0.5 text-xs ${className}`}>
+      {MODES.map(mode => (
+        <button
+          key={mode.value}
+          type="button"
+          onClick={() => onChange(mode.value)}
+          title={mode.title}
+          className={`px-2 py-0.5 rounded font-medium transition-colors ${
+            value === mode.value
+              ? 'bg-white dark:bg-gray-900 text-gray-900 dark:text-white shadow-sm'
+              : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+          }`}
+        >
+          {mode.label}
+        </button>
+      ))}
+    </div>
+  )
+}
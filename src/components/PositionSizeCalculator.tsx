@@ -0,0 +1,199 @@
+import { useEffect, useState } from 'react'
+import { useTradeStore, useAccountScope, type TradeDirection } from '@/store/tradeStore'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { CoinInput } from '@/components/ui/coin-input'
+import { AccountSelect } from '@/components/AccountSwitcher'
+import { getContractSpecs } from '@/lib/instruments'
+import { getCurrentEquity } from '@/lib/equity'
+import { DEFAULT_MAINTENANCE_MARGIN_PERCENT, calculatePositionSize } from '@/lib/positionSizing'
+import { AlertTriangle } from 'lucide-react'
+
+// What the calculator hands to a new trade
+export interface SizedTrade {
+  accountId: string // The account whose equity the position was sized against
+  coin?: string
+  direction: TradeDirection
+  entryPrice: number
+  stopPrice: number
+  quantity: number // Units or contracts
+  positionSize: number // $ notional
+  leverage: number
+}
+
+interface PositionSizeCalculatorProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  accountId?: string // Size against this account's equity; without it an account is picked in the dialog
+  defaults?: { coin?: string; entryPrice?: number; stopPrice?: number; leverage?: number }
+  applyLabel: string
+  onApply: (trade: SizedTrade) => void
+}
+
+const inputClassName = 'w-full px-3 py-2 text-base border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white'
+
+function formatMoney(value: number): string {
+  return `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+function formatPrice(value: number): string {
+  return value.toLocaleString(undefined, { maximumSignificantDigits: 8 })
+}
+
+// Sizes a position from account equity, risk per trade, entry and stop, and estimates where it is liquidated
+export function PositionSizeCalculator({ open, onOpenChange, accountId, defaults, applyLabel, onApply }: PositionSizeCalculatorProps) {
+  const { entries, capitalEvents, accounts, settings } = useTradeStore()
+  const scope = useAccountScope()
+  // Equity is always one account's: the trade the size is used for is saved to a single account
+  const [pickedAccountId, setPickedAccountId] = useState('')
+  const account = accounts.find(a => a.id === (accountId ?? pickedAccountId))
+  const equity = account
+    ? getCurrentEquity(
+        entries.filter(entry => entry.accountId === account.id),
+        capitalEvents.filter(event => event.accountId === account.id),
+        account.initialCapital
+      )
+    : 0
+
+  const [form, setForm] = useState({ equity: '', riskPercent: '1', coin: '', entryPrice: '', stopPrice: '', leverage: '1', maintenance: DEFAULT_MAINTENANCE_MARGIN_PERCENT.toString() })
+
+  // Opening from outside a trade starts on the account in the switcher, else the first one
+  useEffect(() => {
+    if (open && !accountId) setPickedAccountId(scope.account?.id ?? accounts[0]?.id ?? '')
+  }, [open])
+
+  // Every opening, and every change of account, starts from that account's current equity
+  useEffect(() => {
+    if (open) setForm(prev => ({ ...prev, equity: equity.toFixed(2) }))
+  }, [open, account?.id])
+
+  // Every opening starts from whatever the trade already has
+  useEffect(() => {
+    if (!open) return
+    setForm(prev => ({
+      ...prev,
+      coin: defaults?.coin ?? '',
+      entryPrice: defaults?.entryPrice?.toString() ?? '',
+      stopPrice: defaults?.stopPrice?.toString() ?? '',
+      leverage: defaults?.leverage?.toString() ?? '1',
+    }))
+  }, [open])
+
+  const { multiplier, quoteConversion } = getContractSpecs(form.coin, settings.instruments)
+  const result = calculatePositionSize({
+    equity: parseFloat(form.equity),
+    riskPercent: parseFloat(form.riskPercent),
+    entryPrice: parseFloat(form.entryPrice),
+    stopPrice: parseFloat(form.stopPrice),
+    leverage: parseFloat(form.leverage),
+    multiplier,
+    quoteConversion,
+    maintenanceMarginPercent: parseFloat(form.maintenance) || 0,
+  })
+
+  const field = (key: keyof typeof form, label: string, placeholder?: string) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{label}</label>
+      <input
+        type="number"
+        min="0"
+        step="any"
+        value={form[key]}
+        onChange={(e) => setForm(prev => ({ ...prev, [key]: e.target.value }))}
+        placeholder={placeholder}
+        className={inputClassName}
+      />
+    </div>
+  )
+
+  const handleApply = () => {
+    if (!result || !account) return
+    onApply({
+      accountId: account.id,
+      coin: form.coin || undefined,
+      direction: result.direction,
+      entryPrice: parseFloat(form.entryPrice),
+      stopPrice: parseFloat(form.stopPrice),
+      quantity: result.quantity,
+      positionSize: Math.round(result.notional * 100) / 100,
+      leverage: parseFloat(form.leverage),
+    })
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[95vw] sm:max-w-xl p-4 sm:p-6 overflow-y-auto max-h-[90vh] bg-white dark:bg-gray-800">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold text-gray-900 dark:text-white">Position Size Calculator</DialogTitle>
+          <DialogDescription>
+            Current equity of {account?.name ?? 'the account'}: initial capital, trade P&L and deposits/withdrawals
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {!accountId && (
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Account</label>
+              <AccountSelect value={pickedAccountId} onChange={setPickedAccountId} />
+            </div>
+          )}
+          {field('equity', 'Equity ($)')}
+          {field('riskPercent', 'Risk per Trade (%)', 'e.g. 1')}
+          <div className="sm:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Coin <span className="text-gray-400">(optional)</span></label>
+            <CoinInput value={form.coin} onChange={coin => setForm(prev => ({ ...prev, coin }))} />
+            {multiplier !== 1 && (
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Contract multiplier {multiplier}</p>
+            )}
+          </div>
+          {field('entryPrice', 'Entry Price')}
+          {field('stopPrice', 'Stop Price')}
+          {field('leverage', 'Leverage (X)', 'e.g. 5')}
+          {field('maintenance', 'Maintenance Margin (%)')}
+        </div>
+
+        {result ? (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {[
+                { label: 'Quantity', value: formatPrice(result.quantity) },
+                { label: 'Notional Value', value: formatMoney(result.notional) },
+                { label: 'Margin', value: formatMoney(result.margin) },
+                { label: 'Risk', value: `${formatMoney(result.riskAmount)} · ${result.direction}` },
+                { label: 'Stop Distance', value: `${result.stopDistancePercent.toFixed(2)}%` },
+                { label: 'Liquidation ≈', value: result.liquidationPrice === null ? 'None (unleveraged long)' : formatPrice(result.liquidationPrice) },
+              ].map(({ label, value }) => (
+                <div key={label} className="rounded-lg bg-gray-50 dark:bg-gray-700/50 p-3">
+                  <div className="text-xs text-gray-500 dark:text-gray-400">{label}</div>
+                  <div className="text-base font-semibold text-gray-900 dark:text-white">{value}</div>
+                </div>
+              ))}
+            </div>
+            {result.stopBeyondLiquidation && (
+              <p className="flex items-start gap-2 text-sm text-red-600 dark:text-red-400">
+                <AlertTriangle size={16} className="mt-0.5 shrink-0" />
+                The position would be liquidated before the stop is hit. Lower the leverage or tighten the stop.
+              </p>
+            )}
+            {result.exceedsEquity && (
+              <p className="flex items-start gap-2 text-sm text-amber-600 dark:text-amber-400">
+                <AlertTriangle size={16} className="mt-0.5 shrink-0" />
+                The margin needed is more than your equity. Raise the leverage or risk less.
+              </p>
+            )}
+          </div>
+        ) : quoteConversion === 'manual' ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">{form.coin.toUpperCase()} is quoted in a currency without a known dollar rate, so it cannot be sized here.</p>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Enter equity, risk, leverage and different entry and stop prices to size the position.</p>
+        )}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>Close</Button>
+          <Button onClick={handleApply} disabled={!result || !account}>{applyLabel}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,67 @@
+import { useMemo } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { SectionListEditor } from './SectionListEditor'
+import { useTradeStore } from '../store/tradeStore'
+import { DEFAULT_REVIEW_TEMPLATE, REVIEW_STATS, REVIEW_STAT_LABELS, type ReviewStat } from '../lib/reviews'
+
+export function ReviewTemplateManager() {
+  const { settings, reviews, updateSettings } = useTradeStore()
+  const template = settings.reviewTemplate
+
+  // How many reviews have text in each reflection field
+  const usage = useMemo(() => {
+    const counts = new Map<string, number>()
+    reviews.forEach(review => {
+      Object.entries(review.sections).forEach(([id, text]) => {
+        if (text.trim()) counts.set(id, (counts.get(id) ?? 0) + 1)
+      })
+    })
+    return counts
+  }, [reviews])
+
+  // Stats keep their built-in order whichever way they were ticked
+  const toggleStat = (stat: ReviewStat) => {
+    const stats = template.stats.includes(stat) ? template.stats.filter(s => s !== stat) : [...template.stats, stat]
+    updateSettings({ reviewTemplate: { ...template, stats: REVIEW_STATS.filter(s => stats.includes(s)) } })
+  }
+
+  return (
+    <Card className="bg-white dark:bg-gray-800 shadow-sm hover:shadow-md transition-shadow">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold text-gray-900 dark:text-white">Review Template</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Weekly and monthly reviews open with the stats ticked here, filled in from the period's trades, followed by the reflection sections.
+        </p>
+        <div className="space-y-2">
+          <div className="font-medium text-gray-800 dark:text-gray-200 text-sm">Auto-Filled Stats</div>
+          <div className="grid grid-cols-2 gap-2">
+            {REVIEW_STATS.map(stat => (
+              <label key={stat} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={template.stats.includes(stat)}
+                  onChange={() => toggleStat(stat)}
+                  className="rounded border-gray-300"
+                />
+                {REVIEW_STAT_LABELS[stat]}
+              </label>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-2">
+          <div className="font-medium text-gray-800 dark:text-gray-200 text-sm">Reflection Sections</div>
+          <SectionListEditor
+            sections={template.sections}
+            onChange={sections => updateSettings({ reviewTemplate: { ...template, sections } })}
+            defaults={DEFAULT_REVIEW_TEMPLATE.sections}
+            usage={usage}
+            usageUnit="review"
+            placeholder="e.g. Biggest Lesson"
+          />
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
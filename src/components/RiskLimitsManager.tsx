@@ -0,0 +1,60 @@
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { useTradeStore } from '../store/tradeStore'
+import { RISK_LIMITS, RISK_LIMIT_LABELS, type RiskLimit } from '../lib/guardrails'
+
+const inputClassName = 'w-full p-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 text-sm'
+
+const LIMIT_HINTS: Record<RiskLimit, string> = {
+  dailyLoss: 'Net loss ($) on a single day',
+  weeklyLoss: 'Net loss ($) from Sunday to Saturday',
+  tradesPerDay: 'Trades logged on a single day',
+  consecutiveLosses: 'Losing trades in a row, across days',
+}
+
+// Money limits accept cents; counts are whole numbers
+const isCountLimit = (limit: RiskLimit) => limit === 'tradesPerDay' || limit === 'consecutiveLosses'
+
+export function RiskLimitsManager() {
+  const { settings, updateSettings } = useTradeStore()
+
+  // Empty or zero turns the limit off
+  const handleChange = (limit: RiskLimit, input: string) => {
+    const parsed = isCountLimit(limit) ? parseInt(input, 10) : parseFloat(input)
+    const value = isFinite(parsed) && parsed > 0 ? parsed : undefined
+    if (value === settings.riskLimits[limit]) return
+    const riskLimits = { ...settings.riskLimits, [limit]: value }
+    if (value === undefined) delete riskLimits[limit]
+    updateSettings({ riskLimits })
+  }
+
+  return (
+    <Card className="bg-white dark:bg-gray-800 shadow-sm hover:shadow-md transition-shadow">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold text-gray-900 dark:text-white">Risk Limits</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          When a limit is hit the Dashboard warns you, and a new trade for that day can only be saved with an override and a reason. Leave a limit empty to turn it off.
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {RISK_LIMITS.map(limit => (
+            <div key={limit}>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{RISK_LIMIT_LABELS[limit]}</label>
+              <input
+                key={settings.riskLimits[limit] ?? 'off'}
+                type="number"
+                min={0}
+                step={isCountLimit(limit) ? 1 : 'any'}
+                defaultValue={settings.riskLimits[limit] ?? ''}
+                onBlur={(e) => handleChange(limit, e.target.value)}
+                placeholder="Off"
+                className={inputClassName}
+              />
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{LIMIT_HINTS[limit]}</p>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,4 +1,5 @@
 import { useState } from 'react'
+import { format, parseISO } from 'date-fns'
 import { useTradeStore, type TradingRule } from '@/store/tradeStore'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -7,10 +8,14 @@ import { Textarea } from '@/components/ui/textarea'
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog'
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog'
 import { useToast } from '@/components/ui/use-toast'
-import { Plus, Edit2, Trash2, Pin, PinOff, BookOpen } from 'lucide-react'
+import { undoToastAction } from '@/components/UndoRedo'
+import { RULE_CATEGORIES, RULE_CATEGORY_LABELS, groupRulesByCategory, type RuleCategory } from '@/lib/rules'
+import { Plus, Edit2, Trash2, Pin, PinOff, BookOpen, GripVertical, ShieldAlert, History, ArrowUp, ArrowDown } from 'lucide-react'
+
+const selectClassName = 'mt-1 w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500'
 
 export function Rules() {
-  const { rules, addRule, updateRule, deleteRule, toggleRulePin } = useTradeStore()
+  const { rules, addRule, updateRule, deleteRule, toggleRulePin, moveRule } = useTradeStore()
   const { toast } = useToast()
   
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false)
@@ -18,19 +23,20 @@ export function Rules() {
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false)
   const [editingRule, setEditingRule] = useState<TradingRule | null>(null)
   const [ruleToDelete, setRuleToDelete] = useState<string | null>(null)
+  const [draggedRuleId, setDraggedRuleId] = useState<string | null>(null)
+  const [historyRuleId, setHistoryRuleId] = useState<string | null>(null)
+  // Date a reworded rule takes effect from
+  const [effectiveFrom, setEffectiveFrom] = useState('')
   
   const [newRule, setNewRule] = useState({
     title: '',
     description: '',
-    pinned: false
+    category: 'entry' as RuleCategory,
+    pinned: false,
+    mandatory: false
   })
 
-  // Sort rules: pinned first, then by creation date
-  const sortedRules = [...rules].sort((a, b) => {
-    if (a.pinned && !b.pinned) return -1
-    if (!a.pinned && b.pinned) return 1
-    return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-  })
+  const ruleGroups = groupRulesByCategory(rules)
 
   const handleAddRule = () => {
     if (!newRule.title.trim()) {
@@ -45,7 +51,9 @@ export function Rules() {
     addRule({
       title: newRule.title.trim(),
       description: newRule.description.trim() || undefined,
-      pinned: newRule.pinned
+      category: newRule.category,
+      pinned: newRule.pinned,
+      mandatory: newRule.mandatory
     })
 
     toast({
@@ -53,7 +61,7 @@ export function Rules() {
       description: 'Rule added successfully'
     })
 
-    setNewRule({ title: '', description: '', pinned: false })
+    setNewRule({ title: '', description: '', category: newRule.category, pinned: false, mandatory: false })
     setIsAddDialogOpen(false)
   }
 
@@ -70,8 +78,10 @@ export function Rules() {
     updateRule(editingRule.id, {
       title: editingRule.title.trim(),
       description: editingRule.description?.trim() || undefined,
+      category: editingRule.category,
+      mandatory: editingRule.mandatory,
       updatedAt: new Date().toISOString()
-    })
+    }, { effectiveFrom })
 
     toast({
       title: 'Success',
@@ -87,7 +97,8 @@ export function Rules() {
       deleteRule(ruleToDelete)
       toast({
         title: 'Success',
-        description: 'Rule deleted successfully'
+        description: 'Rule moved to trash',
+        action: undoToastAction()
       })
     }
     setIsDeleteDialogOpen(false)
@@ -104,14 +115,40 @@ export function Rules() {
 
   const openEditDialog = (rule: TradingRule) => {
     setEditingRule({ ...rule })
+    setEffectiveFrom(format(new Date(), 'yyyy-MM-dd'))
     setIsEditDialogOpen(true)
   }
 
+  // The rule as saved, to tell whether the dialog rewords it
+  const savedRule = editingRule ? rules.find(r => r.id === editingRule.id) : undefined
+  const currentVersion = savedRule?.versions[savedRule.versions.length - 1]
+  const isReworded = !!savedRule && (
+    editingRule?.title.trim() !== savedRule.title ||
+    (editingRule?.description?.trim() || '') !== (savedRule.description ?? '')
+  )
+
   const openDeleteDialog = (id: string) => {
     setRuleToDelete(id)
     setIsDeleteDialogOpen(true)
   }
 
+  // Dropping a rule on another puts it in that rule's place (and category)
+  const handleDrop = (targetId: string) => {
+    if (draggedRuleId) moveRule(draggedRuleId, targetId)
+    setDraggedRuleId(null)
+  }
+
+  // Pinned rules always sort first, so a rule only swaps with a neighbour of the same pin state
+  const getNeighbour = (groupRules: TradingRule[], index: number, offset: -1 | 1) => {
+    const neighbour = groupRules[index + offset]
+    return neighbour && neighbour.pinned === groupRules[index].pinned ? neighbour : undefined
+  }
+
+  const handleMove = (groupRules: TradingRule[], index: number, offset: -1 | 1) => {
+    const neighbour = getNeighbour(groupRules, index, offset)
+    if (neighbour) moveRule(groupRules[index].id, neighbour.id)
+  }
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -121,7 +158,7 @@ export function Rules() {
             Your personal playbook - write, review, and follow your trading discipline
           </p>
         </div>
-        {sortedRules.length > 0 && (
+        {rules.length > 0 && (
           <Button onClick={() => setIsAddDialogOpen(true)} className="flex items-center gap-2">
             <Plus size={20} />
             Add Rule
@@ -129,7 +166,7 @@ export function Rules() {
         )}
       </div>
 
-      {sortedRules.length === 0 ? (
+      {rules.length === 0 ? (
         <Card className="text-center py-12">
           <CardContent>
             <BookOpen size={48} className="mx-auto text-gray-400 mb-4" />
@@ -145,61 +182,136 @@ export function Rules() {
           </CardContent>
         </Card>
       ) : (
-        <div className="grid gap-4">
-          {sortedRules.map((rule) => (
-            <Card key={rule.id} className={`transition-all duration-200 ${rule.pinned ? 'ring-2 ring-blue-200 dark:ring-blue-800 bg-blue-50/50 dark:bg-blue-900/10' : ''}`}>
-              <CardContent className="p-6">
-                <div className="flex items-start justify-between">
-                  <div className="flex-1">
-                    <div className="flex items-center gap-2 mb-2">
-                      <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
-                        {rule.title}
-                      </h3>
-                      {rule.pinned && (
-                        <Pin size={16} className="text-blue-600 dark:text-blue-400" />
-                      )}
-                    </div>
-                    {rule.description && (
-                      <p className="text-gray-600 dark:text-gray-400 mb-3">
-                        {rule.description}
-                      </p>
-                    )}
-                    <div className="flex items-center gap-4 text-sm text-gray-500 dark:text-gray-400">
-                      <span>Created: {new Date(rule.createdAt).toLocaleDateString()}</span>
-                      {rule.updatedAt !== rule.createdAt && (
-                        <span>Updated: {new Date(rule.updatedAt).toLocaleDateString()}</span>
-                      )}
-                    </div>
-                  </div>
-                  <div className="flex items-center gap-2 ml-4">
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleTogglePin(rule.id)}
-                      className="text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400"
-                    >
-                      {rule.pinned ? <PinOff size={16} /> : <Pin size={16} />}
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => openEditDialog(rule)}
-                      className="text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400"
-                    >
-                      <Edit2 size={16} />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => openDeleteDialog(rule.id)}
-                      className="text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400"
-                    >
-                      <Trash2 size={16} />
-                    </Button>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+        <div className="space-y-8">
+          {ruleGroups.map(group => (
+            <div key={group.category}>
+              <h2 className="text-sm font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-3">
+                {RULE_CATEGORY_LABELS[group.category]}
+              </h2>
+              <div className="grid gap-4">
+                {group.rules.map((rule, index) => (
+                  <Card
+                    key={rule.id}
+                    draggable
+                    onDragStart={(e) => {
+                      // Firefox only starts a drag that carries data
+                      e.dataTransfer.setData('text/plain', rule.id)
+                      e.dataTransfer.effectAllowed = 'move'
+                      setDraggedRuleId(rule.id)
+                    }}
+                    onDragEnd={() => setDraggedRuleId(null)}
+                    onDragOver={(e) => draggedRuleId && draggedRuleId !== rule.id && e.preventDefault()}
+                    onDrop={() => handleDrop(rule.id)}
+                    className={`transition-all duration-200 ${rule.pinned ? 'ring-2 ring-blue-200 dark:ring-blue-800 bg-blue-50/50 dark:bg-blue-900/10' : ''} ${draggedRuleId === rule.id ? 'opacity-50' : ''}`}
+                  >
+                    <CardContent className="p-6">
+                      <div className="flex items-start justify-between">
+                        <GripVertical size={18} className="mt-1 mr-3 flex-shrink-0 text-gray-400 cursor-grab" aria-label="Drag to reorder" />
+                        <div className="flex-1">
+                          <div className="flex items-center gap-2 mb-2">
+                            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                              {rule.title}
+                            </h3>
+                            {rule.pinned && (
+                              <Pin size={16} className="text-blue-600 dark:text-blue-400" />
+                            )}
+                            {rule.mandatory && (
+                              <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium bg-amber-100 dark:bg-amber-900/20 text-amber-800 dark:text-amber-300">
+                                <ShieldAlert size={12} />
+                                Mandatory
+                              </span>
+                            )}
+                          </div>
+                          {rule.description && (
+                            <p className="text-gray-600 dark:text-gray-400 mb-3">
+                              {rule.description}
+                            </p>
+                          )}
+                          <div className="flex items-center gap-4 text-sm text-gray-500 dark:text-gray-400">
+                            <span>Created: {new Date(rule.createdAt).toLocaleDateString()}</span>
+                            {rule.updatedAt !== rule.createdAt && (
+                              <span>Updated: {new Date(rule.updatedAt).toLocaleDateString()}</span>
+                            )}
+                            {rule.versions.length > 1 && (
+                              <button
+                                type="button"
+                                onClick={() => setHistoryRuleId(historyRuleId === rule.id ? null : rule.id)}
+                                className="inline-flex items-center gap-1 hover:text-blue-600 dark:hover:text-blue-400"
+                              >
+                                <History size={14} />
+                                Version {rule.versions.length} · {historyRuleId === rule.id ? 'Hide' : 'Show'} changes
+                              </button>
+                            )}
+                          </div>
+                          {historyRuleId === rule.id && (
+                            <ol className="mt-3 space-y-3 border-l-2 border-gray-200 dark:border-gray-700 pl-4">
+                              {[...rule.versions].reverse().map(version => (
+                                <li key={version.version} className="text-sm">
+                                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                                    v{version.version} · effective {format(parseISO(version.effectiveFrom), 'MMM d, yyyy')}
+                                    {' '}· saved {new Date(version.createdAt).toLocaleDateString()}
+                                  </div>
+                                  <div className="font-medium text-gray-900 dark:text-white">{version.title}</div>
+                                  {version.description && (
+                                    <div className="text-gray-600 dark:text-gray-400">{version.description}</div>
+                                  )}
+                                </li>
+                              ))}
+                            </ol>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-2 ml-4">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleMove(group.rules, index, -1)}
+                            disabled={!getNeighbour(group.rules, index, -1)}
+                            title="Move up"
+                            className="text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400"
+                          >
+                            <ArrowUp size={16} />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleMove(group.rules, index, 1)}
+                            disabled={!getNeighbour(group.rules, index, 1)}
+                            title="Move down"
+                            className="text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400"
+                          >
+                            <ArrowDown size={16} />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleTogglePin(rule.id)}
+                            className="text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400"
+                          >
+                            {rule.pinned ? <PinOff size={16} /> : <Pin size={16} />}
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => openEditDialog(rule)}
+                            className="text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400"
+                          >
+                            <Edit2 size={16} />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => openDeleteDialog(rule.id)}
+                            className="text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400"
+                          >
+                            <Trash2 size={16} />
+                          </Button>
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            </div>
           ))}
         </div>
       )}
@@ -234,6 +346,20 @@ export function Rules() {
                 rows={3}
               />
             </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Category
+              </label>
+              <select
+                value={newRule.category}
+                onChange={(e) => setNewRule({ ...newRule, category: e.target.value as RuleCategory })}
+                className={selectClassName}
+              >
+                {RULE_CATEGORIES.map(category => (
+                  <option key={category} value={category}>{RULE_CATEGORY_LABELS[category]}</option>
+                ))}
+              </select>
+            </div>
             <div className="flex items-center space-x-2">
               <input
                 type="checkbox"
@@ -246,6 +372,18 @@ export function Rules() {
                 Pin this rule (show at top)
               </label>
             </div>
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                id="mandatory-rule"
+                checked={newRule.mandatory}
+                onChange={(e) => setNewRule({ ...newRule, mandatory: e.target.checked })}
+                className="rounded border-gray-300"
+              />
+              <label htmlFor="mandatory-rule" className="text-sm text-gray-700 dark:text-gray-300">
+                Mandatory (confirm when a trade breaks it)
+              </label>
+            </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsAddDialogOpen(false)}>
@@ -289,6 +427,49 @@ export function Rules() {
                   rows={3}
                 />
               </div>
+              <div>
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Category
+                </label>
+                <select
+                  value={editingRule.category}
+                  onChange={(e) => setEditingRule({ ...editingRule, category: e.target.value as RuleCategory })}
+                  className={selectClassName}
+                >
+                  {RULE_CATEGORIES.map(category => (
+                    <option key={category} value={category}>{RULE_CATEGORY_LABELS[category]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="edit-mandatory-rule"
+                  checked={editingRule.mandatory}
+                  onChange={(e) => setEditingRule({ ...editingRule, mandatory: e.target.checked })}
+                  className="rounded border-gray-300"
+                />
+                <label htmlFor="edit-mandatory-rule" className="text-sm text-gray-700 dark:text-gray-300">
+                  Mandatory (confirm when a trade breaks it)
+                </label>
+              </div>
+              {isReworded && (
+                <div>
+                  <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                    New Wording Effective From
+                  </label>
+                  <Input
+                    type="date"
+                    value={effectiveFrom}
+                    min={currentVersion?.effectiveFrom}
+                    onChange={(e) => setEffectiveFrom(e.target.value)}
+                    className="mt-1"
+                  />
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    Saved as version {(currentVersion?.version ?? 0) + 1}. Trades before this date keep the current wording.
+                  </p>
+                </div>
+              )}
             </div>
           )}
           <DialogFooter>
@@ -308,7 +489,7 @@ export function Rules() {
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Rule</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete this rule? This action cannot be undone.
+              Move this rule to the trash? You can restore it from the Trash page.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
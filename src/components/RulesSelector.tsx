@@ -1,25 +1,26 @@
 import { useState } from 'react'
-import { useTradeStore, type TradingRule } from '@/store/tradeStore'
+import { useTradeStore, type TradeEntry, type TradingRule } from '@/store/tradeStore'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
-import { Pin, BookMarked, Check } from 'lucide-react'
+import { RULE_CATEGORY_LABELS, getTradeRuleVersion, groupRulesByCategory } from '@/lib/rules'
+import { Pin, BookMarked, Check, ShieldAlert } from 'lucide-react'
 
 interface RulesSelectorProps {
   selectedRules: string[]
   onRulesChange: (ruleIds: string[]) => void
+  brokenRules?: string[] // Mandatory rules confirmed broken when the trade was saved
+  trade?: Pick<TradeEntry, 'date' | 'ruleVersions'> // Shows each rule as worded for this trade
   className?: string
 }
 
-export function RulesSelector({ selectedRules, onRulesChange, className }: RulesSelectorProps) {
+export function RulesSelector({ selectedRules, onRulesChange, brokenRules = [], trade, className }: RulesSelectorProps) {
   const { rules } = useTradeStore()
   const [isExpanded, setIsExpanded] = useState(false)
 
-  // Sort rules: pinned first, then by creation date
-  const sortedRules = [...rules].sort((a, b) => {
-    if (a.pinned && !b.pinned) return -1
-    if (!a.pinned && b.pinned) return 1
-    return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-  })
+  // Collapsed, only the checklist shows: mandatory and pinned rules
+  const isChecklistRule = (rule: TradingRule) => rule.mandatory || rule.pinned
+  const hiddenCount = rules.filter(rule => !isChecklistRule(rule)).length
+  const ruleGroups = groupRulesByCategory(isExpanded ? rules : rules.filter(isChecklistRule))
 
   const handleRuleToggle = (ruleId: string) => {
     const newSelectedRules = selectedRules.includes(ruleId)
@@ -58,45 +59,73 @@ export function RulesSelector({ selectedRules, onRulesChange, className }: Rules
         </p>
       </CardHeader>
       <CardContent className="space-y-3">
-        {sortedRules.slice(0, isExpanded ? undefined : 3).map((rule) => {
-          const isSelected = selectedRules.includes(rule.id)
-          return (
-            <div key={rule.id} className="flex items-start gap-3 p-3 rounded-lg border border-gray-200 dark:border-gray-700">
-              <Button
-                variant={isSelected ? "default" : "outline"}
-                size="sm"
-                onClick={() => handleRuleToggle(rule.id)}
-                className="h-6 w-6 p-0 flex-shrink-0"
-              >
-                {isSelected && <Check size={12} />}
-              </Button>
-              <div className="flex-1 min-w-0">
-                <div className="flex items-center gap-2 mb-1">
-                  <span className="font-medium text-gray-900 dark:text-white text-sm">
-                    {rule.title}
-                  </span>
-                  {rule.pinned && (
-                    <Pin size={14} className="text-blue-600 dark:text-blue-400" />
-                  )}
-                </div>
-                {rule.description && (
-                  <p className="text-gray-600 dark:text-gray-400 text-xs">
-                    {rule.description}
-                  </p>
-                )}
-              </div>
+        {ruleGroups.map(group => (
+          <div key={group.category} className="space-y-2">
+            <div className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+              {RULE_CATEGORY_LABELS[group.category]}
             </div>
-          )
-        })}
+            {group.rules.map((rule) => {
+              const isSelected = selectedRules.includes(rule.id)
+              const isBroken = !isSelected && brokenRules.includes(rule.id)
+              const wording = trade ? getTradeRuleVersion(rule, trade) : undefined
+              const isOldWording = !!wording && wording.version !== rule.versions[rule.versions.length - 1]?.version
+              return (
+                <div
+                  key={rule.id}
+                  className={`flex items-start gap-3 p-3 rounded-lg border ${
+                    isBroken ? 'border-red-300 dark:border-red-800 bg-red-50/50 dark:bg-red-900/10' : 'border-gray-200 dark:border-gray-700'
+                  }`}
+                >
+                  <Button
+                    variant={isSelected ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => handleRuleToggle(rule.id)}
+                    className="h-6 w-6 p-0 flex-shrink-0"
+                  >
+                    {isSelected && <Check size={12} />}
+                  </Button>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="font-medium text-gray-900 dark:text-white text-sm">
+                        {wording?.title ?? rule.title}
+                      </span>
+                      {isOldWording && (
+                        <span className="text-xs text-gray-500 dark:text-gray-400" title={`Currently: ${rule.title}`}>
+                          v{wording.version}
+                        </span>
+                      )}
+                      {rule.pinned && (
+                        <Pin size={14} className="text-blue-600 dark:text-blue-400" />
+                      )}
+                      {rule.mandatory && (
+                        <span title="Mandatory">
+                          <ShieldAlert size={14} className="text-amber-600 dark:text-amber-400" />
+                        </span>
+                      )}
+                      {isBroken && (
+                        <span className="text-xs font-medium text-red-600 dark:text-red-400">Broken</span>
+                      )}
+                    </div>
+                    {(wording ? wording.description : rule.description) && (
+                      <p className="text-gray-600 dark:text-gray-400 text-xs">
+                        {wording ? wording.description : rule.description}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        ))}
         
-        {rules.length > 3 && (
+        {hiddenCount > 0 && (
           <Button
             variant="ghost"
             size="sm"
             onClick={() => setIsExpanded(!isExpanded)}
             className="w-full"
           >
-            {isExpanded ? 'Show Less' : `Show ${rules.length - 3} More Rules`}
+            {isExpanded ? 'Show Less' : `Show ${hiddenCount} More Rule${hiddenCount === 1 ? '' : 's'}`}
           </Button>
         )}
       </CardContent>
@@ -0,0 +1,149 @@
+import { useState } from 'react'
+import { Plus, Trash2, RotateCcw, ArrowUp, ArrowDown } from 'lucide-react'
+import { Button } from './ui/button'
+import type { JournalSection } from '../lib/dailyJournal'
+import { toSlug } from '../lib/utils'
+
+const inputClassName = 'w-full p-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 text-sm'
+
+interface SectionListEditorProps {
+  sections: JournalSection[]
+  onChange: (sections: JournalSection[]) => void
+  defaults: JournalSection[] // Built-in sections offered back once removed
+  usage: Map<string, number> // Documents with text in each section
+  usageUnit: string // Singular, e.g. 'day'
+  placeholder?: string
+}
+
+// Free-text sections of a document template: rename, reword the prompt, reorder, add and remove
+export function SectionListEditor({ sections, onChange, defaults, usage, usageUnit, placeholder }: SectionListEditorProps) {
+  const [newSection, setNewSection] = useState({ label: '', prompt: '' })
+
+  const newId = toSlug(newSection.label)
+  const isDuplicate = sections.some(s => s.id === newId || s.label.toLowerCase() === newSection.label.trim().toLowerCase())
+
+  const handleAdd = () => {
+    if (!newId || isDuplicate) return
+    onChange([...sections, { id: newId, label: newSection.label.trim(), prompt: newSection.prompt.trim() || undefined }])
+    setNewSection({ label: '', prompt: '' })
+  }
+
+  // Renames keep the id, so documents already written show the new label
+  const handleUpdate = (id: string, changes: Partial<Omit<JournalSection, 'id'>>) => {
+    onChange(sections.map(s => s.id === id ? { ...s, ...changes } : s))
+  }
+
+  const handleMove = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= sections.length) return
+    const reordered = [...sections]
+    ;[reordered[index], reordered[target]] = [reordered[target], reordered[index]]
+    onChange(reordered)
+  }
+
+  // Adds back built-in sections that were removed; custom ones and renames are kept
+  const missingDefaults = defaults.filter(d => !sections.some(s => s.id === d.id))
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-3 max-h-80 overflow-y-auto">
+        {sections.map((section, index) => (
+          <div key={section.id} className="space-y-1">
+            <div className="flex items-center gap-2 text-sm">
+              <input
+                key={section.label}
+                type="text"
+                defaultValue={section.label}
+                onBlur={(e) => {
+                  const label = e.target.value.trim()
+                  if (label && label !== section.label) handleUpdate(section.id, { label })
+                }}
+                className={`${inputClassName} flex-1 min-w-0`}
+              />
+              <span className="w-16 text-right text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                {usage.get(section.id) ?? 0} {usageUnit}{usage.get(section.id) === 1 ? '' : 's'}
+              </span>
+              <button
+                onClick={() => handleMove(index, -1)}
+                disabled={index === 0}
+                title="Move up"
+                className="p-1.5 rounded-lg text-gray-500 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30 transition-colors"
+              >
+                <ArrowUp size={14} />
+              </button>
+              <button
+                onClick={() => handleMove(index, 1)}
+                disabled={index === sections.length - 1}
+                title="Move down"
+                className="p-1.5 rounded-lg text-gray-500 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30 transition-colors"
+              >
+                <ArrowDown size={14} />
+              </button>
+              <button
+                onClick={() => onChange(sections.filter(s => s.id !== section.id))}
+                title="Remove section"
+                className="p-1.5 rounded-lg text-gray-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+            <input
+              key={section.prompt}
+              type="text"
+              defaultValue={section.prompt ?? ''}
+              onBlur={(e) => {
+                const prompt = e.target.value.trim() || undefined
+                if (prompt !== section.prompt) handleUpdate(section.id, { prompt })
+              }}
+              placeholder="Prompt shown while the section is empty"
+              className={`${inputClassName} text-xs`}
+            />
+          </div>
+        ))}
+      </div>
+
+      {/* New section */}
+      <div className="space-y-2">
+        <div className="font-medium text-gray-800 dark:text-gray-200 text-sm">Add Section</div>
+        <div className="grid grid-cols-2 gap-2">
+          <input
+            type="text"
+            value={newSection.label}
+            onChange={(e) => setNewSection(prev => ({ ...prev, label: e.target.value }))}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            placeholder={placeholder}
+            className={inputClassName}
+          />
+          <input
+            type="text"
+            value={newSection.prompt}
+            onChange={(e) => setNewSection(prev => ({ ...prev, prompt: e.target.value }))}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            placeholder="Prompt (optional)"
+            className={inputClassName}
+          />
+        </div>
+        {newId && isDuplicate && (
+          <p className="text-xs text-red-600 dark:text-red-400">This section already exists</p>
+        )}
+        <div className="flex gap-2">
+          <Button size="sm" onClick={handleAdd} disabled={!newId || isDuplicate} className="h-9 px-3">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Section
+          </Button>
+          {missingDefaults.length > 0 && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => onChange([...sections, ...missingDefaults])}
+              className="h-9 px-3"
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Restore Defaults ({missingDefaults.length})
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 import { useState } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
-import { useTradeStore } from '../store/tradeStore'
+import { useTradeStore, ALL_ACCOUNTS, migrateInlineImages, pruneUnusedImages, type TradeEntry, type Playbook } from '../store/tradeStore'
+import { SCHEMA_VERSION, migratePersistedState } from '../store/migrations'
 import { Moon, Sun, Download, Upload, Trash2, Info } from 'lucide-react'
 import { format } from 'date-fns'
 import localforage from 'localforage'
@@ -8,16 +9,15 @@ import { ThemeToggle } from './ui/ThemeToggle'
 import { Button } from './ui/button'
 import { AlertDialog, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogCancel, AlertDialogAction } from './ui/alert-dialog'
 import { toast } from './ui/use-toast'
-
-// Currency options
-const CURRENCIES = [
-  { code: 'USD', symbol: '$', name: 'US Dollar' },
-  { code: 'EUR', symbol: '€', name: 'Euro' },
-  { code: 'GBP', symbol: '£', name: 'British Pound' },
-  { code: 'JPY', symbol: '¥', name: 'Japanese Yen' },
-  { code: 'AUD', symbol: 'A$', name: 'Australian Dollar' },
-  { code: 'CAD', symbol: 'C$', name: 'Canadian Dollar' }
-]
+import { CURRENCIES } from '../lib/currencies'
+import { getImageDataUrl, type ImageFormat } from '../lib/imageStore'
+import { AccountsManager } from './AccountsManager'
+import { AliasManager } from './AliasManager'
+import { InstrumentsManager } from './InstrumentsManager'
+import { EmotionsManager } from './EmotionsManager'
+import { JournalSectionsManager } from './JournalSectionsManager'
+import { ReviewTemplateManager } from './ReviewTemplateManager'
+import { RiskLimitsManager } from './RiskLimitsManager'
 
 // Date format options
 const DATE_FORMATS = [
@@ -28,11 +28,42 @@ const DATE_FORMATS = [
   { value: 'MMM DD, YYYY', label: 'MMM DD, YYYY' }
 ]
 
+// How long trashed items are kept before being purged
+const TRASH_RETENTION_OPTIONS = [
+  { value: 7, label: '7 days' },
+  { value: 30, label: '30 days' },
+  { value: 90, label: '90 days' },
+  { value: 365, label: '1 year' },
+  { value: 0, label: 'Forever' }
+]
+
+// Upload compression: longest edge, output format and encoder quality
+const IMAGE_DIMENSION_OPTIONS = [
+  { value: 1280, label: '1280 px' },
+  { value: 1920, label: '1920 px (Full HD)' },
+  { value: 2560, label: '2560 px' },
+  { value: 3840, label: '3840 px (4K)' },
+  { value: 0, label: 'Original size' }
+]
+
+const IMAGE_FORMAT_OPTIONS: { value: ImageFormat; label: string }[] = [
+  { value: 'webp', label: 'WebP' },
+  { value: 'jpeg', label: 'JPEG' }
+]
+
+const IMAGE_QUALITY_OPTIONS = [
+  { value: 0.6, label: 'Low (60%)' },
+  { value: 0.75, label: 'Medium (75%)' },
+  { value: 0.85, label: 'High (85%)' },
+  { value: 0.95, label: 'Maximum (95%)' }
+]
+
 export function Settings() {
-  const { settings, updateSettings, clearAllData, entries } = useTradeStore()
+  const { settings, updateSettings, clearAllData, entries, capitalEvents, rules, playbooks, plans, dailyJournals, reviews, accounts, trash, revisions } = useTradeStore()
   const [isExporting, setIsExporting] = useState(false)
   const [isImporting, setIsImporting] = useState(false)
   const [showConfirmClear, setShowConfirmClear] = useState(false)
+  const [keepTrash, setKeepTrash] = useState(true)
   const [storageInfo, setStorageInfo] = useState<{ size: string; lastModified: string } | null>(null)
   const [importProgress, setImportProgress] = useState(0)
   const [exportProgress, setExportProgress] = useState(0)
@@ -100,15 +131,50 @@ export function Settings() {
         ...Array.from(uniqueSetups)
       ])]
 
+      // Backups embed images as data URLs so they restore without the image store
+      const playbookCopies = [...playbooks, ...trash.flatMap(t => t.kind === 'playbook' ? [t.item] : [])]
+      const imageIds = new Set([
+        ...[
+          ...entries,
+          ...trash.flatMap(t => t.kind === 'entry' ? [t.item] : []),
+          ...revisions.map(r => r.snapshot)
+        ].flatMap(entry => entry.images ?? []),
+        ...playbookCopies.flatMap(playbook => playbook.examples.map(example => example.imageId))
+      ])
+      const dataUrls = new Map<string, string>()
+      for (const id of imageIds) {
+        const dataUrl = await getImageDataUrl(id)
+        if (dataUrl) dataUrls.set(id, dataUrl)
+      }
+      const embedImages = (entry: TradeEntry): TradeEntry => entry.images?.length
+        ? { ...entry, images: entry.images.flatMap(id => dataUrls.has(id) ? [dataUrls.get(id)!] : []) }
+        : entry
+      const embedExamples = (playbook: Playbook): Playbook => ({
+        ...playbook,
+        examples: playbook.examples.flatMap(example => dataUrls.has(example.imageId) ? [{ ...example, imageId: dataUrls.get(example.imageId)! }] : [])
+      })
+
       const data = {
-        entries,
+        entries: entries.map(embedImages),
+        capitalEvents,
+        rules,
+        playbooks: playbooks.map(embedExamples),
+        plans,
+        dailyJournals,
+        reviews,
+        accounts,
+        trash: trash.map(t =>
+          t.kind === 'entry' ? { ...t, item: embedImages(t.item) } : t.kind === 'playbook' ? { ...t, item: embedExamples(t.item) } : t
+        ),
+        revisions: revisions.map(r => ({ ...r, snapshot: embedImages(r.snapshot) })),
         settings: {
           ...settings,
           customCoins: mergedCustomCoins,
           customSetups: mergedCustomSetups
         },
         exportDate: new Date().toISOString(),
-        version: CURRENT_VERSION
+        version: CURRENT_VERSION,
+        schemaVersion: SCHEMA_VERSION
       }
 
       // Simulate progress for large datasets
@@ -164,103 +230,41 @@ export function Settings() {
         throw new Error('Invalid data format: Missing entries')
       }
 
-      // Check version compatibility
-      if (data.version) {
-        const [major] = data.version.split('.')
-        const [currentMajor] = CURRENT_VERSION.split('.')
-        if (parseInt(major) > parseInt(currentMajor)) {
-          throw new Error(`Incompatible data version. Please update the application.`)
-        }
-      }
-
-      setImportProgress(40) // Data validated
-
-      // Handle older data format
-      const processedEntries = data.entries.map((entry: any) => {
-        // Normalize date format if needed
-        let date = entry.date
-        if (date) {
-          try {
-            // Try to parse the date to ensure it's in ISO format
-            const parsedDate = new Date(date)
-            if (!isNaN(parsedDate.getTime())) {
-              date = parsedDate.toISOString().split('T')[0] // Convert to YYYY-MM-DD format
-            }
-          } catch (e) {
-            console.warn('Invalid date format:', date)
-          }
-        }
-
-        // Normalize PnL to ensure it's a number
-        let pnl = entry.pnl
-        if (typeof pnl === 'string') {
-          pnl = parseFloat(pnl)
-        }
-        if (isNaN(pnl)) {
-          pnl = 0
-        }
-
-        // Normalize outcome
-        let outcome = entry.outcome
-        if (typeof outcome === 'string') {
-          outcome = outcome.toLowerCase()
-          if (outcome !== 'win' && outcome !== 'loss') {
-            outcome = pnl >= 0 ? 'win' : 'loss'
-          }
-        } else {
-          outcome = pnl >= 0 ? 'win' : 'loss'
-        }
-
-        // Ensure all required fields exist with defaults
-        return {
-          id: entry.id || crypto.randomUUID(),
-          date: date || new Date().toISOString().split('T')[0],
-          lessons: entry.lessons || '',
-          setup: entry.setup || '',
-          coin: entry.coin || '',
-          pnl: pnl,
-          outcome: outcome,
-          tags: Array.isArray(entry.tags) ? entry.tags : [],
-          mood: entry.mood || 'neutral',
-          notes: entry.notes || '',
-          images: Array.isArray(entry.images) ? entry.images : [],
-          lastSaved: entry.lastSaved || new Date().toISOString(),
-          positionSize: typeof entry.positionSize === 'number' ? entry.positionSize : undefined,
-          leverage: typeof entry.leverage === 'number' ? entry.leverage : undefined,
-          link: entry.link || ''
-        }
-      })
+      // Upgrade the backup through the same migrations as persisted data.
+      // Backups without a schemaVersion predate versioning and start at 0.
+      const fromVersion = typeof data.schemaVersion === 'number' ? data.schemaVersion : 0
+      const migrated = migratePersistedState(
+        {
+          entries: data.entries,
+          settings: data.settings,
+          capitalEvents: data.capitalEvents,
+          rules: data.rules,
+          playbooks: data.playbooks,
+          plans: data.plans,
+          dailyJournals: data.dailyJournals,
+          reviews: data.reviews,
+          accounts: data.accounts,
+          trash: data.trash,
+          revisions: data.revisions
+        },
+        fromVersion
+      )
+      const processedEntries = migrated.entries
 
-      setImportProgress(60) // Entries processed
+      setImportProgress(60) // Entries migrated
 
       // Extract unique coins and setups from imported entries
       const uniqueCoins = new Set<string>()
       const uniqueSetups = new Set<string>()
 
-      processedEntries.forEach((entry: any) => {
+      processedEntries.forEach(entry => {
         if (entry.coin) uniqueCoins.add(entry.coin.toUpperCase())
-        if (entry.setup) {
-          if (Array.isArray(entry.setup)) {
-            entry.setup.forEach((setup: string) => uniqueSetups.add(setup.trim()))
-          } else if (typeof entry.setup === 'string') {
-            uniqueSetups.add(entry.setup.trim())
-          }
-        }
+        entry.setup.forEach(setup => uniqueSetups.add(setup.trim()))
       })
 
       setImportProgress(80) // Data extracted
 
-      // Handle older settings format
-      const defaultSettings = {
-        currency: 'USD',
-        dateFormat: 'MM/DD/YYYY',
-        theme: 'light',
-        initialCapital: 0,
-        customCoins: [],
-        customSetups: []
-      }
-
-      const importedSettings = data.settings || defaultSettings
+      const importedSettings = migrated.settings
 
       // Merge custom coins and setups from imported data
       const mergedCustomCoins = [...new Set([
@@ -274,16 +278,40 @@ export function Settings() {
       ])]
 
       // Update store with imported data and merged custom coins/setups
+      // Backups made before capital events, rules, playbooks, plans, daily journals and reviews were exported leave those untouched
       useTradeStore.setState((state) => ({
         entries: processedEntries,
         settings: {
-          ...defaultSettings,
           ...importedSettings,
           customCoins: mergedCustomCoins,
           customSetups: mergedCustomSetups
-        }
+        },
+        capitalEvents: Array.isArray(data.capitalEvents)
+          ? migrated.capitalEvents
+          : state.capitalEvents.filter(event => migrated.accounts.some(account => account.id === event.accountId)),
+        rules: Array.isArray(data.rules) ? migrated.rules : state.rules,
+        playbooks: Array.isArray(data.playbooks) ? migrated.playbooks : state.playbooks,
+        plans: Array.isArray(data.plans)
+          ? migrated.plans
+          : state.plans.filter(plan => migrated.accounts.some(account => account.id === plan.accountId)),
+        dailyJournals: Array.isArray(data.dailyJournals) ? migrated.dailyJournals : state.dailyJournals,
+        reviews: Array.isArray(data.reviews) ? migrated.reviews : state.reviews,
+        accounts: migrated.accounts,
+        // Keep the current selection when the imported accounts still contain it
+        selectedAccountId: migrated.accounts.some(account => account.id === state.selectedAccountId)
+          ? state.selectedAccountId
+          : migrated.selectedAccountId ?? ALL_ACCOUNTS,
+        trash: Array.isArray(data.trash) ? migrated.trash : state.trash,
+        revisions: Array.isArray(data.revisions) ? migrated.revisions : [],
+        // Undo steps hold slices of the replaced data and would mix it back in
+        past: [],
+        future: []
       }))
 
+      // Move the embedded images into the image store and drop the ones the old data used
+      await migrateInlineImages()
+      await pruneUnusedImages()
+
       setImportProgress(100) // Complete
       setTimeout(() => setImportProgress(0), 1000) // Reset progress after 1 second
 
@@ -299,11 +327,14 @@ export function Settings() {
   // Clear all data with confirmation
   const handleClearData = () => {
     if (showConfirmClear) {
-      clearAllData()
+      clearAllData({ keepTrash })
+      pruneUnusedImages().catch(error => console.error('Error removing images:', error))
       setShowConfirmClear(false)
       toast({
         title: "Data Cleared",
-        description: "All trading data has been permanently deleted.",
+        description: keepTrash && trash.length > 0
+          ? "All trading data has been deleted. Items in the trash were kept."
+          : "All trading data has been permanently deleted.",
         variant: "destructive"
       })
     } else {
@@ -349,6 +380,21 @@ export function Settings() {
                     ))}
                   </select>
                 </div>
+                {/* Trash Retention Select */}
+                <div>
+                  <div className="mb-2 font-medium text-gray-800 dark:text-gray-200">Keep Deleted Items</div>
+                  <select
+                    value={settings.trashRetentionDays}
+                    onChange={(e) => updateSettings({ trashRetentionDays: Number(e.target.value) })}
+                    className="w-full p-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+                  >
+                    {TRASH_RETENTION_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
                 {/* Date Format Select */}
                 <div>
                   <div className="mb-2 font-medium text-gray-800 dark:text-gray-200">Date Format</div>
@@ -368,6 +414,86 @@ export function Settings() {
             </CardContent>
           </Card>
 
+          {/* Image Uploads */}
+          <Card className="bg-white dark:bg-gray-800 shadow-sm hover:shadow-md transition-shadow">
+            <CardHeader>
+              <CardTitle className="text-lg font-semibold text-gray-900 dark:text-white">Image Uploads</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-col gap-6">
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  Screenshots are resized and re-encoded when they are added to a trade. Location and camera metadata (EXIF) is removed.
+                </p>
+                {/* Max Dimension Select */}
+                <div>
+                  <div className="mb-2 font-medium text-gray-800 dark:text-gray-200">Maximum Size</div>
+                  <select
+                    value={settings.imageMaxDimension}
+                    onChange={(e) => updateSettings({ imageMaxDimension: Number(e.target.value) })}
+                    className="w-full p-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+                  >
+                    {IMAGE_DIMENSION_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {/* Format Select */}
+                <div>
+                  <div className="mb-2 font-medium text-gray-800 dark:text-gray-200">Format</div>
+                  <select
+                    value={settings.imageFormat}
+                    onChange={(e) => updateSettings({ imageFormat: e.target.value as ImageFormat })}
+                    className="w-full p-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+                  >
+                    {IMAGE_FORMAT_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {/* Quality Select */}
+                <div>
+                  <div className="mb-2 font-medium text-gray-800 dark:text-gray-200">Quality</div>
+                  <select
+                    value={settings.imageQuality}
+                    onChange={(e) => updateSettings({ imageQuality: Number(e.target.value) })}
+                    className="w-full p-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+                  >
+                    {IMAGE_QUALITY_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Accounts */}
+          <AccountsManager />
+
+          {/* Risk limits */}
+          <RiskLimitsManager />
+
+          {/* Aliases and rename/merge */}
+          <AliasManager />
+
+          {/* Instrument registry */}
+          <InstrumentsManager />
+
+          {/* Emotion taxonomy */}
+          <EmotionsManager />
+
+          {/* Daily journal sections */}
+          <JournalSectionsManager />
+
+          {/* Weekly and monthly review template */}
+          <ReviewTemplateManager />
+
           {/* Data Management */}
           <Card className="bg-white dark:bg-gray-800 shadow-sm hover:shadow-md transition-shadow">
             <CardHeader>
@@ -505,8 +631,20 @@ export function Settings() {
                     <li>Custom coins and setups</li>
                     <li>All settings and preferences</li>
                     <li>All images and attachments</li>
+                    {!(keepTrash && trash.length > 0) && <li>Everything in the trash</li>}
                   </ul>
                 </div>
+                {trash.length > 0 && (
+                  <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={keepTrash}
+                      onChange={(e) => setKeepTrash(e.target.checked)}
+                      className="rounded border-gray-300"
+                    />
+                    Keep the {trash.length} item{trash.length === 1 ? '' : 's'} in the trash so they can still be restored
+                  </label>
+                )}
               </div>
             </AlertDialogDescription>
           </AlertDialogHeader>
@@ -0,0 +1,37 @@
+import { useEffect, useState, type ImgHTMLAttributes } from 'react'
+import { getImageUrl, type ImageVariant } from '@/lib/imageStore'
+
+// Loads an image from the image store when the component mounts or the id changes
+export function useImageUrl(imageId: string | undefined, variant: ImageVariant = 'full') {
+  const [url, setUrl] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!imageId) {
+      setUrl(null)
+      return
+    }
+    let cancelled = false
+    setUrl(null)
+    getImageUrl(imageId, variant)
+      .then(result => { if (!cancelled) setUrl(result) })
+      .catch(error => console.error('Error loading image:', error))
+    return () => { cancelled = true }
+  }, [imageId, variant])
+
+  return url
+}
+
+interface StoredImageProps extends Omit<ImgHTMLAttributes<HTMLImageElement>, 'src'> {
+  imageId: string
+  variant?: ImageVariant
+}
+
+// <img> for an image id; shows a placeholder of the same size while the blob loads
+export function StoredImage({ imageId, variant = 'full', className = '', alt, ...props }: StoredImageProps) {
+  const url = useImageUrl(imageId, variant)
+
+  if (!url) {
+    return <div className={`bg-gray-100 dark:bg-gray-700 animate-pulse ${className}`} style={props.style} />
+  }
+  return <img src={url} alt={alt} className={className} {...props} />
+}
@@ -0,0 +1,30 @@
+import { X } from 'lucide-react'
+import { useTradeStore } from '@/store/tradeStore'
+import { TAG_COLOR_CLASSES, findTagDefinition, getTagColor } from '@/lib/tags'
+
+interface TagBadgeProps {
+  tag: string
+  onRemove?: () => void
+  className?: string
+}
+
+// A tag in its configured color, with the tag's description as tooltip
+export function TagBadge({ tag, onRemove, className = '' }: TagBadgeProps) {
+  const { settings } = useTradeStore()
+  const color = getTagColor(tag, settings.tagDefinitions)
+  const description = findTagDefinition(tag, settings.tagDefinitions)?.description
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium ${TAG_COLOR_CLASSES[color].badge} ${className}`}
+      title={description}
+    >
+      {tag}
+      {onRemove && (
+        <button type="button" onClick={onRemove} className="hover:opacity-70" aria-label={`Remove ${tag}`}>
+          <X size={12} />
+        </button>
+      )}
+    </span>
+  )
+}
@@ -0,0 +1,209 @@
+import { useMemo, useState } from 'react'
+import { useTradeStore } from '@/store/tradeStore'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog'
+import { useToast } from '@/components/ui/use-toast'
+import { undoToastAction } from '@/components/UndoRedo'
+import { TagBadge } from '@/components/TagBadge'
+import { TAG_COLORS, TAG_COLOR_CLASSES, findTagDefinition, getTagColor, getTagUsage, type TagColor } from '@/lib/tags'
+import { Tag, Trash2, GitMerge, Search } from 'lucide-react'
+
+export function Tags() {
+  const { entries, settings, updateSettings, mergeTags, deleteTag } = useTradeStore()
+  const { toast } = useToast()
+  const [searchTerm, setSearchTerm] = useState('')
+  const [selected, setSelected] = useState<string[]>([])
+  const [target, setTarget] = useState('')
+  const [tagToDelete, setTagToDelete] = useState<string | null>(null)
+
+  // Usage and performance per tag across every account
+  const rows = useMemo(() => getTagUsage(entries, settings.tagDefinitions).map(({ tag, count }) => {
+    const tagged = entries.filter(entry => entry.tags.includes(tag))
+    const wins = tagged.filter(entry => entry.outcome === 'win').length
+    return {
+      tag,
+      count,
+      winRate: count > 0 ? (wins / count) * 100 : null,
+      pnl: tagged.reduce((sum, entry) => sum + entry.pnl, 0)
+    }
+  }), [entries, settings.tagDefinitions])
+
+  const visibleRows = rows.filter(row => row.tag.toLowerCase().includes(searchTerm.trim().toLowerCase()))
+  const affectedCount = entries.filter(entry => entry.tags.some(tag => selected.includes(tag))).length
+
+  // Writes a tag's color/description, creating its definition on first edit
+  const updateDefinition = (tag: string, changes: { color?: TagColor; description?: string }) => {
+    const current = findTagDefinition(tag, settings.tagDefinitions) ?? { name: tag, color: getTagColor(tag, settings.tagDefinitions) }
+    updateSettings({
+      tagDefinitions: [...settings.tagDefinitions.filter(d => d.name !== tag), { ...current, ...changes }]
+    })
+  }
+
+  const toggleSelected = (tag: string) => {
+    setSelected(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag])
+    if (!target) setTarget(tag)
+  }
+
+  const handleMerge = () => {
+    if (!target.trim() || selected.length === 0) return
+    mergeTags(selected, target)
+    toast({
+      title: 'Success',
+      description: `${selected.length > 1 ? 'Merged' : 'Renamed'} tags on ${affectedCount} trade${affectedCount === 1 ? '' : 's'}`,
+      action: undoToastAction()
+    })
+    setSelected([])
+    setTarget('')
+  }
+
+  const handleDelete = () => {
+    if (!tagToDelete) return
+    deleteTag(tagToDelete)
+    setSelected(prev => prev.filter(t => t !== tagToDelete))
+    toast({
+      title: 'Success',
+      description: `Tag "${tagToDelete}" removed from all trades`,
+      action: undoToastAction()
+    })
+    setTagToDelete(null)
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Tags</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          Rename, merge and color the tags used on your trades
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder="Search tags..."
+            className="pl-9 pr-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        {selected.length > 0 && (
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-gray-500 dark:text-gray-400">
+              {affectedCount} trade{affectedCount === 1 ? '' : 's'} affected
+            </span>
+            <input
+              type="text"
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleMerge()}
+              placeholder="New tag name"
+              className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <Button size="sm" onClick={handleMerge} disabled={!target.trim()} className="flex items-center gap-2">
+              <GitMerge size={16} />
+              {selected.length > 1 ? `Merge ${selected.length}` : 'Rename'}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {visibleRows.length === 0 ? (
+        <Card className="text-center py-12">
+          <CardContent>
+            <Tag size={48} className="mx-auto text-gray-400 mb-4" />
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
+              {rows.length === 0 ? 'No tags yet' : 'No tags match your search'}
+            </h3>
+            <p className="text-gray-600 dark:text-gray-400">
+              Tags added to trades in the Calendar or Journal show up here
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-2">
+          {visibleRows.map(row => {
+            const definition = findTagDefinition(row.tag, settings.tagDefinitions)
+            const color = getTagColor(row.tag, settings.tagDefinitions)
+            return (
+              <Card key={row.tag}>
+                <CardContent className="p-4 flex flex-wrap items-center gap-4">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(row.tag)}
+                    onChange={() => toggleSelected(row.tag)}
+                    className="rounded border-gray-300"
+                  />
+                  <div className="w-40 min-w-0">
+                    <TagBadge tag={row.tag} />
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {TAG_COLORS.map(option => (
+                      <button
+                        key={option}
+                        type="button"
+                        onClick={() => updateDefinition(row.tag, { color: option })}
+                        className={`w-5 h-5 rounded-full ${TAG_COLOR_CLASSES[option].swatch} ${
+                          color === option ? 'ring-2 ring-offset-2 ring-gray-400 dark:ring-offset-gray-800' : ''
+                        }`}
+                        title={option}
+                        aria-label={`Color ${option}`}
+                      />
+                    ))}
+                  </div>
+                  <input
+                    key={definition?.description ?? ''}
+                    type="text"
+                    defaultValue={definition?.description ?? ''}
+                    onBlur={(e) => {
+                      if (e.target.value !== (definition?.description ?? '')) {
+                        updateDefinition(row.tag, { description: e.target.value.trim() || undefined })
+                      }
+                    }}
+                    placeholder="Description"
+                    className="flex-1 min-w-[160px] px-3 py-1.5 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <div className="text-sm text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                    {row.count} trade{row.count === 1 ? '' : 's'}
+                    {row.winRate !== null && ` · ${Math.round(row.winRate)}% win`}
+                  </div>
+                  <div className={`text-sm font-medium w-24 text-right ${row.pnl >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                    {row.pnl >= 0 ? '+' : '-'}${Math.abs(row.pnl).toFixed(2)}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setTagToDelete(row.tag)}
+                    className="text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400"
+                    title="Delete tag"
+                  >
+                    <Trash2 size={16} />
+                  </Button>
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      )}
+
+      <AlertDialog open={tagToDelete !== null} onOpenChange={(open) => !open && setTagToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Tag</AlertDialogTitle>
+            <AlertDialogDescription>
+              Remove "{tagToDelete}" from {rows.find(r => r.tag === tagToDelete)?.count ?? 0} trade(s)? The trades themselves are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,82 @@
+import type { TradeEntry } from '@/store/tradeStore'
+import { getTradeCosts } from '@/lib/pnl'
+
+export type TradeCostValues = Pick<TradeEntry, 'commission' | 'funding' | 'otherCosts'>
+
+interface TradeCostFieldsProps {
+  value: TradeCostValues & Partial<Pick<TradeEntry, 'executions'>>
+  grossPnl: number | null
+  onChange: (value: Partial<TradeCostValues>) => void
+  disabled?: boolean
+  className?: string
+}
+
+const inputClassName = 'w-full px-3 py-2 text-base border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white'
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1'
+
+function parseNumber(value: string): number | undefined {
+  if (value.trim() === '') return undefined
+  const num = parseFloat(value)
+  return isNaN(num) ? undefined : num
+}
+
+export function TradeCostFields({ value, grossPnl, onChange, disabled, className = '' }: TradeCostFieldsProps) {
+  const costs = getTradeCosts(value)
+  const executionFees = costs.commission - (value.commission ?? 0)
+  const netPnl = grossPnl !== null ? grossPnl - costs.total : null
+
+  return (
+    <div className={className}>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div>
+          <label className={labelClassName}>Commission ($)</label>
+          <input
+            type="number"
+            value={value.commission ?? ''}
+            onChange={(e) => onChange({ commission: parseNumber(e.target.value) })}
+            className={inputClassName}
+            placeholder="Trading fees"
+            step="any"
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>Funding ($)</label>
+          <input
+            type="number"
+            value={value.funding ?? ''}
+            onChange={(e) => onChange({ funding: parseNumber(e.target.value) })}
+            className={inputClassName}
+            placeholder="Negative if received"
+            step="any"
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>Other Costs ($)</label>
+          <input
+            type="number"
+            value={value.otherCosts ?? ''}
+            onChange={(e) => onChange({ otherCosts: parseNumber(e.target.value) })}
+            className={inputClassName}
+            placeholder="Slippage, borrow, ..."
+            step="any"
+            disabled={disabled}
+          />
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-x-6 gap-y-1 mt-2 text-sm text-gray-600 dark:text-gray-400">
+        {executionFees > 0 && <span>Execution fees: {executionFees.toFixed(2)}</span>}
+        <span>Total costs: {costs.total.toFixed(2)}</span>
+        {grossPnl !== null && netPnl !== null && (
+          <span>
+            Gross {grossPnl.toFixed(2)} → Net{' '}
+            <span className={`font-medium ${netPnl >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+              {netPnl >= 0 ? '+' : ''}{netPnl.toFixed(2)}
+            </span>
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,74 @@
+import { useTradeStore } from '@/store/tradeStore'
+import { DEFAULT_INTENSITY, EMOTION_PHASES, EMOTION_PHASE_LABELS, INTENSITY_LABELS, INTENSITY_LEVELS, findEmotion, getEmotionLabel, type EmotionPhase, type TradeEmotions } from '@/lib/emotions'
+
+interface TradeEmotionFieldsProps {
+  value: TradeEmotions
+  onChange: (value: TradeEmotions) => void
+  disabled?: boolean
+  className?: string
+}
+
+const inputClassName = 'w-full px-3 py-2 text-base border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white'
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1'
+
+export function TradeEmotionFields({ value, onChange, disabled, className = '' }: TradeEmotionFieldsProps) {
+  const { settings } = useTradeStore()
+
+  // Clearing the emotion clears the phase; a new emotion starts at the middle intensity
+  const setEmotion = (phase: EmotionPhase, emotion: string) => {
+    const { [phase]: current, ...rest } = value
+    onChange(emotion ? { ...rest, [phase]: { emotion, intensity: current?.intensity ?? DEFAULT_INTENSITY } } : rest)
+  }
+
+  const setIntensity = (phase: EmotionPhase, intensity: number) => {
+    const current = value[phase]
+    if (current) onChange({ ...value, [phase]: { ...current, intensity } })
+  }
+
+  return (
+    <div className={`grid grid-cols-1 sm:grid-cols-3 gap-4 ${className}`}>
+      {EMOTION_PHASES.map(phase => {
+        const state = value[phase]
+        return (
+          <div key={phase}>
+            <label className={labelClassName}>{EMOTION_PHASE_LABELS[phase]}</label>
+            <select
+              value={state?.emotion ?? ''}
+              onChange={(e) => setEmotion(phase, e.target.value)}
+              className={inputClassName}
+              disabled={disabled}
+            >
+              <option value="">Not recorded</option>
+              {settings.emotions.map(emotion => (
+                <option key={emotion.id} value={emotion.id}>{emotion.label}</option>
+              ))}
+              {/* Keep an emotion that was removed from the taxonomy selectable on trades that use it */}
+              {state && !findEmotion(state.emotion, settings.emotions) && (
+                <option value={state.emotion}>{getEmotionLabel(state.emotion, settings.emotions)}</option>
+              )}
+            </select>
+            <div className="flex items-center gap-1 mt-2" role="radiogroup" aria-label={`${EMOTION_PHASE_LABELS[phase]} intensity`}>
+              {INTENSITY_LEVELS.map(level => (
+                <button
+                  key={level}
+                  type="button"
+                  onClick={() => setIntensity(phase, level)}
+                  disabled={disabled || !state}
+                  title={INTENSITY_LABELS[level]}
+                  aria-checked={state?.intensity === level}
+                  role="radio"
+                  className={`flex-1 h-2 rounded-full transition-colors disabled:cursor-default ${
+                    state && level <= state.intensity ? 'bg-blue-500' : 'bg-gray-200 dark:bg-gray-600'
+                  }`}
+                />
+              ))}
+            </div>
+            <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              {state ? `Intensity: ${INTENSITY_LABELS[state.intensity]}` : '\u00a0'}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
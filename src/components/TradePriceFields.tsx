@@ -0,0 +1,136 @@
+import { format, parseISO } from 'date-fns'
+import type { TradeDirection, TradeEntry } from '@/store/tradeStore'
+import { calculateTradePnL, calculateReturnPercent, calculateHoldingTime, formatDuration } from '@/lib/pnl'
+
+export type TradePriceValues = Pick<TradeEntry, 'direction' | 'entryPrice' | 'exitPrice' | 'quantity' | 'entryTime' | 'exitTime'>
+
+interface TradePriceFieldsProps {
+  value: TradePriceValues & Partial<Pick<TradeEntry, 'positionSize' | 'pnl' | 'executions' | 'multiplier' | 'quoteConversion'>>
+  onChange: (value: Partial<TradePriceValues>) => void
+  disabled?: boolean
+  className?: string
+}
+
+const inputClassName = 'w-full px-3 py-2 text-base border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white'
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1'
+
+// datetime-local inputs work in local time without a zone suffix
+function toLocalInput(iso?: string): string {
+  if (!iso) return ''
+  try {
+    return format(parseISO(iso), "yyyy-MM-dd'T'HH:mm")
+  } catch {
+    return ''
+  }
+}
+
+function fromLocalInput(value: string): string | undefined {
+  if (!value) return undefined
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date.toISOString()
+}
+
+function parseNumber(value: string): number | undefined {
+  if (value.trim() === '') return undefined
+  const num = parseFloat(value)
+  return isNaN(num) ? undefined : num
+}
+
+export function TradePriceFields({ value, onChange, disabled, className = '' }: TradePriceFieldsProps) {
+  const computedPnL = calculateTradePnL(value)
+  const returnPercent = calculateReturnPercent(value)
+  const holdingTime = calculateHoldingTime(value)
+
+  return (
+    <div className={className}>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className={labelClassName}>Direction</label>
+          <select
+            value={value.direction || ''}
+            onChange={(e) => onChange({ direction: (e.target.value || undefined) as TradeDirection | undefined })}
+            className={inputClassName}
+            disabled={disabled}
+          >
+            <option value="">Not set</option>
+            <option value="long">Long</option>
+            <option value="short">Short</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClassName}>Quantity</label>
+          <input
+            type="number"
+            value={value.quantity ?? ''}
+            onChange={(e) => onChange({ quantity: parseNumber(e.target.value) })}
+            className={inputClassName}
+            placeholder="Units / contracts"
+            min="0"
+            step="any"
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>Entry Price</label>
+          <input
+            type="number"
+            value={value.entryPrice ?? ''}
+            onChange={(e) => onChange({ entryPrice: parseNumber(e.target.value) })}
+            className={inputClassName}
+            placeholder="Average entry price"
+            min="0"
+            step="any"
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>Exit Price</label>
+          <input
+            type="number"
+            value={value.exitPrice ?? ''}
+            onChange={(e) => onChange({ exitPrice: parseNumber(e.target.value) })}
+            className={inputClassName}
+            placeholder="Average exit price"
+            min="0"
+            step="any"
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>Entry Time</label>
+          <input
+            type="datetime-local"
+            value={toLocalInput(value.entryTime)}
+            onChange={(e) => onChange({ entryTime: fromLocalInput(e.target.value) })}
+            className={inputClassName}
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>Exit Time</label>
+          <input
+            type="datetime-local"
+            value={toLocalInput(value.exitTime)}
+            onChange={(e) => onChange({ exitTime: fromLocalInput(e.target.value) })}
+            className={inputClassName}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-x-6 gap-y-1 mt-2 text-sm text-gray-600 dark:text-gray-400">
+        <span>
+          Gross P&L:{' '}
+          {computedPnL !== null ? (
+            <span className={`font-medium ${computedPnL >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+              {computedPnL >= 0 ? '+' : ''}{computedPnL.toFixed(2)}
+            </span>
+          ) : (
+            <span className="text-gray-400">needs direction, prices and quantity</span>
+          )}
+        </span>
+        {returnPercent !== null && <span>Return: {returnPercent.toFixed(2)}%</span>}
+        {holdingTime !== null && <span>Held: {formatDuration(holdingTime)}</span>}
+      </div>
+    </div>
+  )
+}
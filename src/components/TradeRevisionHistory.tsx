@@ -0,0 +1,124 @@
+import { useState } from 'react'
+import { useTradeStore, type TradeEntry } from '@/store/tradeStore'
+import { diffTradeEntries } from '@/lib/revisions'
+import { Button } from '@/components/ui/button'
+import { useToast } from '@/components/ui/use-toast'
+import { undoToastAction } from '@/components/UndoRedo'
+import { ChevronDown, ChevronRight, History, RotateCcw } from 'lucide-react'
+
+interface TradeRevisionHistoryProps {
+  entry: TradeEntry
+  onRevert?: (entry: TradeEntry) => void
+}
+
+export function TradeRevisionHistory({ entry, onRevert }: TradeRevisionHistoryProps) {
+  const { revisions, revertEntry } = useTradeStore()
+  const { toast } = useToast()
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const entryRevisions = revisions.filter(r => r.entryId === entry.id)
+  if (entryRevisions.length < 2) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        No earlier versions. Changes are recorded each time this trade is saved.
+      </p>
+    )
+  }
+
+  const handleRevert = (revisionId: string) => {
+    revertEntry(entry.id, revisionId)
+    toast({
+      title: 'Success',
+      description: 'Trade reverted to the selected version',
+      action: undoToastAction()
+    })
+    const reverted = useTradeStore.getState().entries.find(e => e.id === entry.id)
+    if (reverted) onRevert?.(reverted)
+  }
+
+  // Newest first; each revision is compared with the one saved before it
+  const rows = entryRevisions
+    .map((revision, index) => ({
+      revision,
+      changes: index > 0 ? diffTradeEntries(entryRevisions[index - 1].snapshot, revision.snapshot) : [],
+      isCurrent: diffTradeEntries(revision.snapshot, entry).length === 0
+    }))
+    .reverse()
+
+  return (
+    <div className="space-y-2">
+      {rows.map(({ revision, changes, isCurrent }, index) => {
+        const isExpanded = expandedId === revision.id
+        const isOriginal = index === rows.length - 1
+        return (
+          <div key={revision.id} className="border border-gray-200 dark:border-gray-700 rounded-lg">
+            <div className="flex items-center gap-2 px-3 py-2">
+              <button
+                type="button"
+                onClick={() => setExpandedId(isExpanded ? null : revision.id)}
+                className="flex items-center gap-2 flex-1 min-w-0 text-left"
+                disabled={isOriginal}
+              >
+                {isOriginal ? (
+                  <History size={16} className="text-gray-400 shrink-0" />
+                ) : isExpanded ? (
+                  <ChevronDown size={16} className="text-gray-500 shrink-0" />
+                ) : (
+                  <ChevronRight size={16} className="text-gray-500 shrink-0" />
+                )}
+                <span className="text-sm font-medium text-gray-900 dark:text-white whitespace-nowrap">
+                  {new Date(revision.savedAt).toLocaleString()}
+                </span>
+                <span className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                  {revision.source && `${revision.source} · `}
+                  {isOriginal ? 'first recorded version' : `${changes.length} field${changes.length === 1 ? '' : 's'} changed`}
+                </span>
+                {isCurrent && (
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300">
+                    Current
+                  </span>
+                )}
+              </button>
+              {!isCurrent && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRevert(revision.id)}
+                  className="text-xs h-7 px-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20"
+                  title="Revert to this version"
+                >
+                  <RotateCcw size={14} className="mr-1" />
+                  Revert
+                </Button>
+              )}
+            </div>
+            {isExpanded && changes.length > 0 && (
+              <table className="w-full text-sm border-t border-gray-200 dark:border-gray-700">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+                    <th className="px-3 py-1 font-medium w-1/5">Field</th>
+                    <th className="px-3 py-1 font-medium w-2/5">Before</th>
+                    <th className="px-3 py-1 font-medium w-2/5">After</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {changes.map(change => (
+                    <tr key={change.field} className="align-top border-t border-gray-100 dark:border-gray-700">
+                      <td className="px-3 py-1 text-gray-700 dark:text-gray-300">{change.label}</td>
+                      <td className="px-3 py-1 text-red-700 dark:text-red-400 bg-red-50/50 dark:bg-red-900/10 whitespace-pre-wrap break-words">
+                        {change.before || <span className="text-gray-400 italic">empty</span>}
+                      </td>
+                      <td className="px-3 py-1 text-green-700 dark:text-green-400 bg-green-50/50 dark:bg-green-900/10 whitespace-pre-wrap break-words">
+                        {change.after || <span className="text-gray-400 italic">empty</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,86 @@
+import type { TradeEntry } from '@/store/tradeStore'
+import { calculatePlannedRewardRisk, getInitialRisk, formatR } from '@/lib/risk'
+
+export type TradeRiskValues = Pick<TradeEntry, 'plannedStop' | 'plannedTarget' | 'initialRisk'>
+
+interface TradeRiskFieldsProps {
+  value: TradeRiskValues & Partial<Pick<TradeEntry, 'entryPrice' | 'quantity' | 'executions' | 'direction'>>
+  netPnl: number | null
+  onChange: (value: Partial<TradeRiskValues>) => void
+  disabled?: boolean
+  className?: string
+}
+
+const inputClassName = 'w-full px-3 py-2 text-base border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white'
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1'
+
+function parseNumber(value: string): number | undefined {
+  if (value.trim() === '') return undefined
+  const num = parseFloat(value)
+  return isNaN(num) ? undefined : num
+}
+
+export function TradeRiskFields({ value, netPnl, onChange, disabled, className = '' }: TradeRiskFieldsProps) {
+  const initialRisk = getInitialRisk(value)
+  const rewardRisk = calculatePlannedRewardRisk(value)
+  const rMultiple = initialRisk !== null && netPnl !== null ? netPnl / initialRisk : null
+
+  return (
+    <div className={className}>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div>
+          <label className={labelClassName}>Planned Stop</label>
+          <input
+            type="number"
+            value={value.plannedStop ?? ''}
+            onChange={(e) => onChange({ plannedStop: parseNumber(e.target.value) })}
+            className={inputClassName}
+            placeholder="Stop-loss price"
+            min="0"
+            step="any"
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>Planned Target</label>
+          <input
+            type="number"
+            value={value.plannedTarget ?? ''}
+            onChange={(e) => onChange({ plannedTarget: parseNumber(e.target.value) })}
+            className={inputClassName}
+            placeholder="Take-profit price"
+            min="0"
+            step="any"
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>Initial Risk ($)</label>
+          <input
+            type="number"
+            value={value.initialRisk ?? ''}
+            onChange={(e) => onChange({ initialRisk: parseNumber(e.target.value) })}
+            className={inputClassName}
+            placeholder={initialRisk !== null ? `${initialRisk.toFixed(2)} from stop` : 'Amount at risk'}
+            min="0"
+            step="any"
+            disabled={disabled}
+          />
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-x-6 gap-y-1 mt-2 text-sm text-gray-600 dark:text-gray-400">
+        {rewardRisk !== null && <span>Planned R:R: {rewardRisk.toFixed(2)}</span>}
+        <span>
+          R-Multiple:{' '}
+          {rMultiple !== null ? (
+            <span className={`font-medium ${rMultiple >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+              {formatR(rMultiple)}
+            </span>
+          ) : (
+            <span className="text-gray-400">needs initial risk or a planned stop</span>
+          )}
+        </span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,271 @@
+import { useEffect, useState } from 'react'
+import { differenceInCalendarDays, addDays, parseISO } from 'date-fns'
+import { useTradeStore, type Settings, type TrashItem } from '@/store/tradeStore'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog'
+import { useToast } from '@/components/ui/use-toast'
+import { undoToastAction } from '@/components/UndoRedo'
+import { getCapitalFlow } from '@/lib/equity'
+import { Trash2, RotateCcw, BookMarked, Landmark, FileText, ClipboardList, Crosshair, NotebookPen, CalendarCheck } from 'lucide-react'
+import { getWrittenSections } from '@/lib/dailyJournal'
+import { REVIEW_PERIOD_LABELS, formatReviewPeriod } from '@/lib/reviews'
+
+type TrashFilter = 'all' | TrashItem['kind']
+
+const FILTERS: { value: TrashFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'entry', label: 'Trades' },
+  { value: 'rule', label: 'Rules' },
+  { value: 'playbook', label: 'Playbooks' },
+  { value: 'plan', label: 'Trade Plans' },
+  { value: 'dailyJournal', label: 'Daily Journals' },
+  { value: 'review', label: 'Reviews' },
+  { value: 'capitalEvent', label: 'Deposits & Withdrawals' }
+]
+
+function describeItem(trashItem: TrashItem, settings: Settings): { icon: JSX.Element; title: string; detail?: string } {
+  switch (trashItem.kind) {
+    case 'entry': {
+      const { item } = trashItem
+      return {
+        icon: <FileText size={18} className="text-blue-500" />,
+        title: `${item.coin || 'Trade'} · ${item.pnl >= 0 ? '+' : '-'}$${Math.abs(item.pnl).toFixed(2)}`,
+        detail: [item.date, item.setup.join(', ')].filter(Boolean).join(' · ')
+      }
+    }
+    case 'rule':
+      return {
+        icon: <BookMarked size={18} className="text-purple-500" />,
+        title: trashItem.item.title,
+        detail: trashItem.item.description
+      }
+    case 'playbook':
+      return {
+        icon: <ClipboardList size={18} className="text-amber-500" />,
+        title: `${trashItem.item.setup} playbook`,
+        detail: trashItem.item.description
+      }
+    case 'plan': {
+      const { item } = trashItem
+      return {
+        icon: <Crosshair size={18} className="text-teal-500" />,
+        title: `${item.coin || 'Trade'} ${item.direction} plan`,
+        detail: [item.date, item.setup.join(', '), item.thesis].filter(Boolean).join(' · ')
+      }
+    }
+    case 'dailyJournal': {
+      const { item } = trashItem
+      return {
+        icon: <NotebookPen size={18} className="text-indigo-500" />,
+        title: `Daily journal · ${item.date}`,
+        detail: [item.grade && `Grade ${item.grade}`, getWrittenSections(item, settings.journalSections)[0]?.text].filter(Boolean).join(' · ')
+      }
+    }
+    case 'review': {
+      const { item } = trashItem
+      return {
+        icon: <CalendarCheck size={18} className="text-cyan-500" />,
+        title: `${REVIEW_PERIOD_LABELS[item.period]} · ${formatReviewPeriod(item.period, item.start)}`,
+        detail: getWrittenSections(item, settings.reviewTemplate.sections)[0]?.text
+      }
+    }
+    case 'capitalEvent': {
+      const { item } = trashItem
+      const flow = getCapitalFlow(item)
+      return {
+        icon: <Landmark size={18} className="text-green-500" />,
+        title: `${item.type === 'deposit' ? 'Deposit' : 'Withdrawal'} ${flow >= 0 ? '+' : '-'}$${Math.abs(flow).toFixed(2)}`,
+        detail: [item.date, item.note].filter(Boolean).join(' · ')
+      }
+    }
+  }
+}
+
+export function Trash() {
+  const { trash, accounts, settings, restoreFromTrash, deleteFromTrash, emptyTrash, purgeExpiredTrash } = useTradeStore()
+  const { toast } = useToast()
+  const [filter, setFilter] = useState<TrashFilter>('all')
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [confirm, setConfirm] = useState<'delete' | 'empty' | null>(null)
+
+  // Retention may have lapsed while the app was open
+  useEffect(() => {
+    purgeExpiredTrash()
+  }, [purgeExpiredTrash])
+
+  const items = [...trash]
+    .filter(t => filter === 'all' || t.kind === filter)
+    .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt))
+  const selectedIds = items.map(t => t.item.id).filter(id => selected.has(id))
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  const handleRestore = (ids: string[]) => {
+    restoreFromTrash(ids)
+    setSelected(new Set())
+    toast({
+      title: 'Success',
+      description: `Restored ${ids.length} item${ids.length === 1 ? '' : 's'}`,
+      action: undoToastAction()
+    })
+  }
+
+  const handleConfirm = () => {
+    if (confirm === 'empty') {
+      emptyTrash()
+    } else {
+      deleteFromTrash(selectedIds)
+    }
+    setSelected(new Set())
+    setConfirm(null)
+    toast({
+      title: 'Success',
+      description: confirm === 'empty' ? 'Trash emptied' : 'Items deleted permanently',
+      action: undoToastAction()
+    })
+  }
+
+  const expiryLabel = (deletedAt: string) => {
+    if (!settings.trashRetentionDays) return null
+    const daysLeft = differenceInCalendarDays(addDays(parseISO(deletedAt), settings.trashRetentionDays), new Date())
+    return daysLeft <= 0 ? 'Deleted permanently today' : `Deleted permanently in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`
+  }
+
+  const accountName = (trashItem: TrashItem) => {
+    if (accounts.length <= 1 || trashItem.kind === 'rule' || trashItem.kind === 'playbook' || trashItem.kind === 'dailyJournal' || trashItem.kind === 'review') return null
+    return accounts.find(a => a.id === trashItem.item.accountId)?.name ?? 'Deleted account'
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Trash</h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-2">
+            {settings.trashRetentionDays
+              ? `Deleted items are kept for ${settings.trashRetentionDays} days before they are removed permanently`
+              : 'Deleted items are kept until you remove them permanently'}
+          </p>
+        </div>
+        {trash.length > 0 && (
+          <Button variant="outline" onClick={() => setConfirm('empty')} className="flex items-center gap-2 text-red-600 hover:text-red-700">
+            <Trash2 size={18} />
+            Empty Trash
+          </Button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="inline-flex rounded-md bg-gray-100 dark:bg-gray-700 p-0.5 text-sm">
+          {FILTERS.map(option => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setFilter(option.value)}
+              className={`px-3 py-1 rounded font-medium transition-colors ${
+                filter === option.value
+                  ? 'bg-white dark:bg-gray-900 text-gray-900 dark:text-white shadow-sm'
+                  : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {selectedIds.length > 0 && (
+          <div className="flex items-center gap-2">
+            <Button size="sm" variant="outline" onClick={() => handleRestore(selectedIds)} className="flex items-center gap-2">
+              <RotateCcw size={16} />
+              Restore {selectedIds.length}
+            </Button>
+            <Button size="sm" variant="destructive" onClick={() => setConfirm('delete')} className="flex items-center gap-2">
+              <Trash2 size={16} />
+              Delete {selectedIds.length} permanently
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {items.length === 0 ? (
+        <Card className="text-center py-12">
+          <CardContent>
+            <Trash2 size={48} className="mx-auto text-gray-400 mb-4" />
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
+              Trash is empty
+            </h3>
+            <p className="text-gray-600 dark:text-gray-400">
+              Deleted trades, rules and deposits/withdrawals show up here
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-2">
+          {items.map(trashItem => {
+            const { icon, title, detail } = describeItem(trashItem, settings)
+            const account = accountName(trashItem)
+            const expiry = expiryLabel(trashItem.deletedAt)
+            return (
+              <Card key={trashItem.item.id}>
+                <CardContent className="p-4 flex items-center gap-4">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(trashItem.item.id)}
+                    onChange={() => toggleSelected(trashItem.item.id)}
+                    className="rounded border-gray-300"
+                  />
+                  {icon}
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-gray-900 dark:text-white truncate">{title}</div>
+                    {detail && <div className="text-sm text-gray-500 dark:text-gray-400 truncate">{detail}</div>}
+                    <div className="text-xs text-gray-400 mt-1">
+                      Deleted {new Date(trashItem.deletedAt).toLocaleString()}
+                      {account && ` · ${account}`}
+                      {expiry && ` · ${expiry}`}
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRestore([trashItem.item.id])}
+                    className="text-gray-500 hover:text-blue-600 dark:text-gray-400 dark:hover:text-blue-400"
+                    title="Restore"
+                  >
+                    <RotateCcw size={16} />
+                  </Button>
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      )}
+
+      <AlertDialog open={confirm !== null} onOpenChange={(open) => !open && setConfirm(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{confirm === 'empty' ? 'Empty Trash' : 'Delete Permanently'}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirm === 'empty'
+                ? `Permanently delete all ${trash.length} item${trash.length === 1 ? '' : 's'} in the trash?`
+                : `Permanently delete ${selectedIds.length} selected item${selectedIds.length === 1 ? '' : 's'}?`}
+              {' '}They can no longer be restored from the trash.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirm} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
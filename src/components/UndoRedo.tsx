@@ -0,0 +1,74 @@
+import { useEffect } from 'react'
+import { useTradeStore, type HistoryStep } from '@/store/tradeStore'
+import { ToastAction } from '@/components/ui/toast'
+import { toast } from '@/components/ui/use-toast'
+
+type HistoryDirection = 'undo' | 'redo'
+
+function latestStep(direction: HistoryDirection): HistoryStep | undefined {
+  const { past, future } = useTradeStore.getState()
+  const steps = direction === 'undo' ? past : future
+  return steps[steps.length - 1]
+}
+
+// Undoes or redoes only the step the toast announced; disabled once newer steps are on top of it
+function HistoryStepAction({ step, direction }: { step?: HistoryStep; direction: HistoryDirection }) {
+  const isLatest = useTradeStore((state) => {
+    const steps = direction === 'undo' ? state.past : state.future
+    return !!step && steps[steps.length - 1] === step
+  })
+  const label = direction === 'undo' ? 'Undo' : 'Redo'
+  return (
+    <ToastAction
+      altText={label}
+      disabled={!isLatest}
+      onClick={() => {
+        if (latestStep(direction) !== step) return
+        const { undo, redo } = useTradeStore.getState()
+        if (direction === 'undo') undo()
+        else redo()
+      }}
+    >
+      {label}
+    </ToastAction>
+  )
+}
+
+// "Undo" button for the toast shown after a destructive action; call it right after the action
+export function undoToastAction() {
+  return <HistoryStepAction step={latestStep('undo')} direction="undo" />
+}
+
+// Text fields keep the browser's own undo
+function isEditableTarget(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+}
+
+// Global Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y) over the store history
+export function UndoRedoShortcuts() {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isEditableTarget(e.target)) return
+      const key = e.key.toLowerCase()
+      const isRedo = (key === 'z' && e.shiftKey) || key === 'y'
+      if (key !== 'z' && key !== 'y') return
+
+      e.preventDefault()
+      const { undo, redo } = useTradeStore.getState()
+      const label = isRedo ? redo() : undo()
+      if (label) {
+        toast({
+          title: isRedo ? 'Redone' : 'Undone',
+          description: label,
+          action: isRedo ? undefined : <HistoryStepAction step={latestStep('redo')} direction="redo" />
+        })
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
+  return null
+}
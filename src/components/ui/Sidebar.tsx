@@ -8,14 +8,25 @@ import {
   Menu,
   ChevronLeft,
   BookMarked,
+  Landmark,
+  Trash2,
+  Tag,
+  ClipboardList,
+  Crosshair,
 } from 'lucide-react';
+import { AccountSwitcher } from '../AccountSwitcher';
 
 const navItems = [
   { label: 'Dashboard', icon: <LayoutDashboard size={20} />, value: 'dashboard' },
   { label: 'Calendar', icon: <Calendar size={20} />, value: 'calendar' },
   { label: 'Journal', icon: <BookOpen size={20} />, value: 'journal' },
+  { label: 'Plans', icon: <Crosshair size={20} />, value: 'plans' },
   { label: 'Rules', icon: <BookMarked size={20} />, value: 'rules' },
+  { label: 'Playbooks', icon: <ClipboardList size={20} />, value: 'playbooks' },
+  { label: 'Tags', icon: <Tag size={20} />, value: 'tags' },
   { label: 'Analytics', icon: <BarChart2 size={20} />, value: 'analytics' },
+  { label: 'Capital', icon: <Landmark size={20} />, value: 'capital' },
+  { label: 'Trash', icon: <Trash2 size={20} />, value: 'trash' },
   { label: 'Settings', icon: <SettingsIcon size={20} />, value: 'settings' },
 ];
 
@@ -43,6 +54,7 @@ export function Sidebar({ active, onChange }: SidebarProps) {
           </button>
         </div>
       </div>
+      <AccountSwitcher collapsed={collapsed} />
       <nav className="flex-1 py-4">
         {navItems.map((item) => (
           <button
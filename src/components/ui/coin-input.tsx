@@ -1,6 +1,7 @@
 import { useState, useRef, useEffect } from 'react'
 import { useTradeStore } from '@/store/tradeStore'
 import { X as XIcon } from 'lucide-react'
+import { ASSET_CLASS_LABELS, getInstruments, searchInstruments } from '@/lib/instruments'
 import type { JSX } from 'react'
 
 interface CoinInputProps {
@@ -10,8 +11,6 @@ interface CoinInputProps {
   className?: string
 }
 
-const DEFAULT_COINS = ['BTC', 'ETH', 'BNB', 'SOL', 'XRP', 'ADA', 'DOGE', 'DOT', 'AVAX', 'MATIC']
-
 export function CoinInput({ value, onChange, disabled, className = '' }: CoinInputProps): JSX.Element {
   const [isOpen, setIsOpen] = useState(false)
   const [searchTerm, setSearchTerm] = useState<string>(value || '')
@@ -22,13 +21,17 @@ export function CoinInput({ value, onChange, disabled, className = '' }: CoinInp
   const { settings, addCustomCoin, removeCustomCoin } = useTradeStore()
 
   const customCoins = Array.isArray(settings.customCoins) ? settings.customCoins : [];
-  const allCoins = [...DEFAULT_COINS, ...customCoins];
+  const instruments = getInstruments(settings.instruments);
+  const instrumentsBySymbol = new Map(instruments.map(instrument => [instrument.symbol, instrument]));
+  const allCoins = [...instruments.map(instrument => instrument.symbol), ...customCoins.filter(coin => !instrumentsBySymbol.has(coin))];
   const lowerCaseSearchTerm = String(searchTerm || '').toLowerCase();
 
   const exactMatchExists = allCoins.some(coin => coin.toLowerCase() === lowerCaseSearchTerm);
 
+  // Registry instruments match on symbol or name; custom coins on symbol
+  const matchingInstruments = new Set(searchInstruments(lowerCaseSearchTerm, instruments).map(instrument => instrument.symbol));
   const filteredCoins = allCoins.filter(coin =>
-    coin.toLowerCase().includes(lowerCaseSearchTerm)
+    matchingInstruments.has(coin) || coin.toLowerCase().includes(lowerCaseSearchTerm)
   );
 
   let options: string[];
@@ -142,7 +145,7 @@ export function CoinInput({ value, onChange, disabled, className = '' }: CoinInp
         onFocus={() => setIsOpen(true)}
         disabled={disabled}
         className={`w-full px-2 xs:px-3 py-1.5 xs:py-2 text-sm xs:text-base border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white ${className}`}
-        placeholder="Enter coin"
+        placeholder="Search symbol or name"
       />
       
       {isOpen && (
@@ -165,8 +168,15 @@ export function CoinInput({ value, onChange, disabled, className = '' }: CoinInp
                     }
                   }}
                 >
-                  <span>{coin}</span>
-                  {Array.isArray(settings.customCoins) && settings.customCoins.includes(coin) && (
+                  <span className="flex items-baseline gap-2 min-w-0">
+                    <span>{coin}</span>
+                    {instrumentsBySymbol.has(coin) && (
+                      <span className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                        {[instrumentsBySymbol.get(coin)!.name, ASSET_CLASS_LABELS[instrumentsBySymbol.get(coin)!.assetClass]].filter(Boolean).join(' · ')}
+                      </span>
+                    )}
+                  </span>
+                  {Array.isArray(settings.customCoins) && settings.customCoins.includes(coin) && !instrumentsBySymbol.has(coin) && (
                     <button
                       onClick={(e) => handleRemoveCustomCoin(e, coin)}
                       className="p-1 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-full"
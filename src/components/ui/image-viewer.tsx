@@ -1,9 +1,9 @@
 import { useState, useRef, useEffect } from 'react'
+import { StoredImage } from '@/components/StoredImage'
 
 interface Image {
-  preview: string
+  id: string // Id in the image store; only the image being shown is loaded
   name: string
-  data?: string
 }
 
 interface ImageViewerProps {
@@ -173,8 +173,9 @@ export function ImageViewer({
           style={{ touchAction: 'none', maxWidth: '80vw', maxHeight: '70vh', minHeight: '200px', minWidth: '200px' }}
         >
           {currentImage && (
-            <img
-              src={currentImage.preview}
+            <StoredImage
+              key={currentImage.id}
+              imageId={currentImage.id}
               alt={currentImage.name}
               className="max-w-full max-h-[60vh] object-contain select-none rounded-lg shadow-lg bg-neutral-800"
               style={{
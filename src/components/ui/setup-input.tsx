@@ -1,5 +1,6 @@
 import { useState, useRef, useEffect } from 'react'
 import { useTradeStore } from '@/store/tradeStore'
+import { DEFAULT_SETUPS } from '@/lib/playbooks'
 import { X as XIcon } from 'lucide-react'
 import type { JSX } from 'react'
 
@@ -10,20 +11,6 @@ interface SetupInputProps {
   className?: string
 }
 
-// Default setups that are commonly used
-const DEFAULT_SETUPS = [
-  'Breakout',
-  'Breakdown',
-  'Support Bounce',
-  'Resistance Rejection',
-  'Trend Following',
-  'Counter Trend',
-  'Range Trading',
-  'Scalping',
-  'Swing Trading',
-  'Position Trading'
-]
-
 export function SetupInput({ value = [], onChange, disabled, className = '' }: SetupInputProps): JSX.Element {
   const [isOpen, setIsOpen] = useState(false)
   const [searchTerm, setSearchTerm] = useState<string>('')
@@ -0,0 +1,94 @@
+import { useMemo, useRef, useState } from 'react'
+import { useTradeStore } from '@/store/tradeStore'
+import { getTagUsage } from '@/lib/tags'
+import { TagBadge } from '@/components/TagBadge'
+
+interface TagInputProps {
+  value: string[]
+  onChange: (value: string[]) => void
+  disabled?: boolean
+  className?: string
+}
+
+// Free-form tags with suggestions from tags already in use; Enter or comma adds, Backspace removes the last
+export function TagInput({ value, onChange, disabled, className = '' }: TagInputProps) {
+  const { entries, settings } = useTradeStore()
+  const [searchTerm, setSearchTerm] = useState('')
+  const [isOpen, setIsOpen] = useState(false)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const knownTags = useMemo(() => getTagUsage(entries, settings.tagDefinitions).map(t => t.tag), [entries, settings.tagDefinitions])
+  const suggestions = knownTags
+    .filter(tag => !value.includes(tag) && tag.toLowerCase().includes(searchTerm.trim().toLowerCase()))
+    .slice(0, 8)
+
+  const addTag = (tag: string) => {
+    const trimmed = tag.trim()
+    if (!trimmed) return
+    // Reuse the existing spelling so "fomo" doesn't become a second "FOMO"
+    const existing = knownTags.find(t => t.toLowerCase() === trimmed.toLowerCase())
+    const next = existing ?? trimmed
+    if (!value.includes(next)) onChange([...value, next])
+    setSearchTerm('')
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault()
+      addTag(searchTerm)
+    } else if (e.key === 'Backspace' && !searchTerm && value.length > 0) {
+      onChange(value.slice(0, -1))
+    } else if (e.key === 'Escape') {
+      setIsOpen(false)
+    }
+  }
+
+  return (
+    <div className={`relative ${className}`}>
+      <div
+        className="flex flex-wrap items-center gap-1 w-full px-2 py-1.5 min-h-[42px] border border-gray-300 dark:border-gray-600 rounded-lg focus-within:ring-2 focus-within:ring-blue-500 dark:bg-gray-700"
+        onClick={() => inputRef.current?.focus()}
+      >
+        {value.map(tag => (
+          <TagBadge key={tag} tag={tag} onRemove={disabled ? undefined : () => onChange(value.filter(t => t !== tag))} />
+        ))}
+        {!disabled && (
+          <input
+            ref={inputRef}
+            type="text"
+            value={searchTerm}
+            onChange={(e) => {
+              setSearchTerm(e.target.value)
+              setIsOpen(true)
+            }}
+            onKeyDown={handleKeyDown}
+            onFocus={() => setIsOpen(true)}
+            onBlur={() => {
+              setIsOpen(false)
+              addTag(searchTerm)
+            }}
+            placeholder={value.length === 0 ? 'Add tags...' : ''}
+            className="flex-1 min-w-[80px] bg-transparent text-base text-gray-900 dark:text-white focus:outline-none"
+          />
+        )}
+      </div>
+      {isOpen && !disabled && suggestions.length > 0 && (
+        <div className="absolute z-50 w-full mt-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md shadow-lg max-h-60 overflow-auto py-1">
+          {suggestions.map(tag => (
+            <div
+              key={tag}
+              // Keep focus in the input so onBlur doesn't close the list first
+              onMouseDown={(e) => {
+                e.preventDefault()
+                addTag(tag)
+              }}
+              className="px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 cursor-pointer"
+            >
+              <TagBadge tag={tag} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
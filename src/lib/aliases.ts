@@ -0,0 +1,66 @@
+// Setup and coin names are grouped through a user-edited alias dictionary
+// (Settings.aliases), keyed by the lowercase spelling and mapping to the canonical name
+
+export type TradeNameKind = 'setup' | 'coin'
+
+export function aliasKey(name: string): string {
+  return name.toLowerCase().trim().replace(/\s+/g, ' ')
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// 1 for identical strings, 0 for nothing in common (edit distance relative to the longer string)
+export function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length)
+  if (longest === 0) return 1
+  return 1 - levenshtein(a, b) / longest
+}
+
+function titleCase(name: string): string {
+  return name.trim().split(/\s+/)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join(' ')
+}
+
+// Exact alias lookup first; otherwise the closest alias or canonical name at or above
+// `fuzzyThreshold` (0-1, where 1 disables fuzzy matching); otherwise the name in title case
+export function resolveTradeName(name: string, aliases: Record<string, string>, fuzzyThreshold: number): string {
+  const key = aliasKey(name)
+  if (!key) return ''
+  if (aliases[key]) return aliases[key]
+
+  if (fuzzyThreshold < 1) {
+    const candidates = new Map<string, string>()
+    Object.entries(aliases).forEach(([alias, canonical]) => {
+      candidates.set(alias, canonical)
+      candidates.set(aliasKey(canonical), canonical)
+    })
+    let best: { canonical: string; score: number } | null = null
+    for (const [candidate, canonical] of candidates) {
+      const score = similarity(key, candidate)
+      if (score >= fuzzyThreshold && (!best || score > best.score)) best = { canonical, score }
+    }
+    if (best) return best.canonical
+  }
+
+  return titleCase(name)
+}
+
+// Names used by a trade for the given kind
+export function getTradeNames(entry: { setup: string[]; coin: string }, kind: TradeNameKind): string[] {
+  return kind === 'setup' ? entry.setup : entry.coin ? [entry.coin] : []
+}
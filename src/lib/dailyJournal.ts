@@ -0,0 +1,86 @@
+import type { DailyJournal } from '@/store/tradeStore'
+
+// Sections of the daily journal (Settings.journalSections) and the day documents written with them
+
+export interface JournalSection {
+  id: string // Stable key stored on day documents; labels can be renamed freely
+  label: string
+  prompt?: string // Shown while the section is empty
+}
+
+export const DEFAULT_JOURNAL_SECTIONS: JournalSection[] = [
+  { id: 'market-context', label: 'Market Context', prompt: 'Overnight moves, key levels, news and your bias for the day' },
+  { id: 'plan', label: 'Plan', prompt: 'What you will trade, where you will act and what keeps you out' },
+  { id: 'review', label: 'Review', prompt: 'How the day went against the plan and what to change tomorrow' },
+]
+
+export type DayGrade = 'A' | 'B' | 'C' | 'D' | 'F'
+
+export const DAY_GRADES: DayGrade[] = ['A', 'B', 'C', 'D', 'F']
+
+// Badge colors per grade, from green for A to red for F
+export const DAY_GRADE_CLASSES: Record<DayGrade, string> = {
+  A: 'bg-green-100 dark:bg-green-900/20 text-green-800 dark:text-green-300',
+  B: 'bg-emerald-100 dark:bg-emerald-900/20 text-emerald-800 dark:text-emerald-300',
+  C: 'bg-yellow-100 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-300',
+  D: 'bg-orange-100 dark:bg-orange-900/20 text-orange-800 dark:text-orange-300',
+  F: 'bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300',
+}
+
+export interface WrittenSection {
+  id: string
+  label: string
+  text: string
+}
+
+// Sections with text in settings order; sections since removed from settings still show
+export function getWrittenSections(journal: Pick<DailyJournal, 'sections'>, sections: JournalSection[]): WrittenSection[] {
+  const known = sections.map(section => ({ id: section.id, label: section.label, text: journal.sections[section.id] ?? '' }))
+  const removed = Object.entries(journal.sections)
+    .filter(([id]) => !sections.some(section => section.id === id))
+    .map(([id, text]) => ({ id, label: id.charAt(0).toUpperCase() + id.slice(1).replace(/-/g, ' '), text }))
+  return [...known, ...removed].filter(section => section.text.trim())
+}
+
+export function isDailyJournalEmpty(journal: Pick<DailyJournal, 'sections' | 'grade'>): boolean {
+  return !journal.grade && Object.values(journal.sections).every(text => !text.trim())
+}
+
+// Day documents whose text, grade or date matches the query, newest first
+export function searchDailyJournals(journals: DailyJournal[], query: string): DailyJournal[] {
+  const needle = query.trim().toLowerCase()
+  return journals
+    .filter(journal => !needle
+      || journal.date.includes(needle)
+      || journal.grade?.toLowerCase() === needle
+      || Object.values(journal.sections).some(text => text.toLowerCase().includes(needle)))
+    .sort((a, b) => b.date.localeCompare(a.date))
+}
+
+// A short passage around the first match, or the start of the first written section
+export function getDailyJournalExcerpt(journal: DailyJournal, sections: JournalSection[], query: string, length = 140): string {
+  const written = getWrittenSections(journal, sections)
+  const needle = query.trim().toLowerCase()
+  const match = needle ? written.find(section => section.text.toLowerCase().includes(needle)) : undefined
+  const section = match ?? written[0]
+  if (!section) return ''
+  const text = section.text.replace(/\s+/g, ' ').trim()
+  const start = match ? Math.max(0, text.toLowerCase().indexOf(needle) - Math.floor(length / 3)) : 0
+  const excerpt = text.slice(start, start + length)
+  return `${section.label}: ${start > 0 ? '…' : ''}${excerpt}${start + length < text.length ? '…' : ''}`
+}
+
+// Section texts of two versions of a document; where both wrote a section, both texts are kept
+export function mergeSectionTexts(current: Record<string, string>, restored: Record<string, string>): Record<string, string> {
+  const ids = new Set([...Object.keys(current), ...Object.keys(restored)])
+  return Object.fromEntries([...ids].map(id => {
+    const texts = [current[id], restored[id]].filter((text): text is string => !!text?.trim())
+    return [id, [...new Set(texts)].join('\n\n')]
+  }))
+}
+
+// Restoring a day that was written again since: both texts are kept and the current grade wins
+export function mergeDailyJournals(current: DailyJournal, restored: DailyJournal): DailyJournal {
+  const sections = mergeSectionTexts(current.sections, restored.sections)
+  return { ...current, sections, grade: current.grade ?? restored.grade, updatedAt: new Date().toISOString() }
+}
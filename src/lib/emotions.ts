@@ -0,0 +1,91 @@
+// Emotion taxonomy (Settings.emotions) and the emotional states recorded on a trade (TradeEntry.emotions)
+
+export type EmotionPhase = 'pre' | 'during' | 'post'
+
+export const EMOTION_PHASES: EmotionPhase[] = ['pre', 'during', 'post']
+
+export const EMOTION_PHASE_LABELS: Record<EmotionPhase, string> = {
+  pre: 'Pre-Trade',
+  during: 'In Trade',
+  post: 'Post-Trade',
+}
+
+export type EmotionValence = 'positive' | 'neutral' | 'negative'
+
+export interface EmotionDefinition {
+  id: string // Stable key stored on trades; labels can be renamed freely
+  label: string
+  valence: EmotionValence
+}
+
+export interface EmotionState {
+  emotion: string // EmotionDefinition id
+  intensity: number // 1 (barely) to 5 (overwhelming)
+}
+
+export type TradeEmotions = Partial<Record<EmotionPhase, EmotionState>>
+
+export const INTENSITY_LEVELS = [1, 2, 3, 4, 5]
+
+export const INTENSITY_LABELS: Record<number, string> = {
+  1: 'Barely',
+  2: 'Mild',
+  3: 'Moderate',
+  4: 'Strong',
+  5: 'Overwhelming',
+}
+
+export const DEFAULT_INTENSITY = 3
+
+export const DEFAULT_EMOTIONS: EmotionDefinition[] = [
+  { id: 'calm', label: 'Calm', valence: 'positive' },
+  { id: 'confident', label: 'Confident', valence: 'positive' },
+  { id: 'focused', label: 'Focused', valence: 'positive' },
+  { id: 'patient', label: 'Patient', valence: 'positive' },
+  { id: 'satisfied', label: 'Satisfied', valence: 'positive' },
+  { id: 'neutral', label: 'Neutral', valence: 'neutral' },
+  { id: 'bored', label: 'Bored', valence: 'neutral' },
+  { id: 'excited', label: 'Excited', valence: 'neutral' },
+  { id: 'anxious', label: 'Anxious', valence: 'negative' },
+  { id: 'fearful', label: 'Fearful', valence: 'negative' },
+  { id: 'fomo', label: 'FOMO', valence: 'negative' },
+  { id: 'greedy', label: 'Greedy', valence: 'negative' },
+  { id: 'impatient', label: 'Impatient', valence: 'negative' },
+  { id: 'overconfident', label: 'Overconfident', valence: 'negative' },
+  { id: 'frustrated', label: 'Frustrated', valence: 'negative' },
+  { id: 'revenge', label: 'Revenge', valence: 'negative' },
+  { id: 'disappointed', label: 'Disappointed', valence: 'negative' },
+]
+
+// Badge colors per valence
+export const EMOTION_VALENCE_CLASSES: Record<EmotionValence, string> = {
+  positive: 'bg-green-100 dark:bg-green-900/20 text-green-800 dark:text-green-300',
+  neutral: 'bg-blue-100 dark:bg-blue-900/20 text-blue-800 dark:text-blue-300',
+  negative: 'bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300',
+}
+
+export function findEmotion(id: string, definitions: EmotionDefinition[]): EmotionDefinition | undefined {
+  return definitions.find(d => d.id === id)
+}
+
+// Emotions removed from the taxonomy still show on the trades that recorded them
+export function getEmotionLabel(id: string, definitions: EmotionDefinition[]): string {
+  return findEmotion(id, definitions)?.label ?? id.charAt(0).toUpperCase() + id.slice(1).replace(/-/g, ' ')
+}
+
+export function getEmotionValence(id: string, definitions: EmotionDefinition[]): EmotionValence {
+  return findEmotion(id, definitions)?.valence ?? 'neutral'
+}
+
+// e.g. "Anxious (4/5)"
+export function formatEmotionState(state: EmotionState, definitions: EmotionDefinition[]): string {
+  return `${getEmotionLabel(state.emotion, definitions)} (${state.intensity}/5)`
+}
+
+// The recorded phases of a trade in chronological order
+export function getRecordedEmotions(emotions: TradeEmotions | undefined): { phase: EmotionPhase; state: EmotionState }[] {
+  return EMOTION_PHASES.flatMap(phase => {
+    const state = emotions?.[phase]
+    return state ? [{ phase, state }] : []
+  })
+}
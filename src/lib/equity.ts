@@ -0,0 +1,103 @@
+import type { TradeEntry, CapitalEvent } from '@/store/tradeStore'
+
+export interface EquityPoint {
+  date: string
+  equity: number // Account value after this point
+  peak: number // High-water mark, shifted by deposits/withdrawals so they never count as drawdown
+  pnl: number // Trade P&L at this point (0 for capital events)
+  flow: number // Deposit (+) or withdrawal (-) at this point (0 for trades)
+  cumulativePnL: number
+  netDeposits: number
+}
+
+export interface TimeWeightedReturn {
+  twr: number // Chained sub-period return, in percent
+  periods: number // Sub-periods separated by deposits/withdrawals
+}
+
+// Signed amount of a capital event; tolerates events stored with an unsigned amount
+export function getCapitalFlow(event: Pick<CapitalEvent, 'amount' | 'type'>): number {
+  const amount = Math.abs(event.amount)
+  return event.type === 'withdrawal' ? -amount : amount
+}
+
+export function getNetDeposits(events: CapitalEvent[]): number {
+  return events.reduce((sum, event) => sum + getCapitalFlow(event), 0)
+}
+
+// Account value today: initial capital plus net deposits plus net trade P&L
+export function getCurrentEquity(trades: TradeEntry[], events: CapitalEvent[], initialCapital: number): number {
+  return initialCapital + getNetDeposits(events) + trades.reduce((sum, trade) => sum + trade.pnl, 0)
+}
+
+// Trades are ordered by when they closed; capital events on the same day come first
+function tradeTimestamp(entry: TradeEntry): string {
+  return entry.exitTime || entry.date
+}
+
+// Chronological equity including trades and capital events, starting from the initial capital
+export function buildEquityCurve(trades: TradeEntry[], events: CapitalEvent[], initialCapital: number): EquityPoint[] {
+  const timeline = [
+    ...events.map(event => ({ date: event.date, order: 0, pnl: 0, flow: getCapitalFlow(event) })),
+    ...trades.map(trade => ({ date: tradeTimestamp(trade), order: 1, pnl: trade.pnl, flow: 0 })),
+  ].sort((a, b) => a.date.slice(0, 10).localeCompare(b.date.slice(0, 10)) || a.order - b.order || a.date.localeCompare(b.date))
+
+  const curve: EquityPoint[] = []
+  let equity = initialCapital
+  let peak = initialCapital
+  let cumulativePnL = 0
+  let netDeposits = 0
+  for (const item of timeline) {
+    equity += item.pnl + item.flow
+    peak = Math.max(peak + item.flow, equity)
+    cumulativePnL += item.pnl
+    netDeposits += item.flow
+    curve.push({ date: item.date.slice(0, 10), equity, peak, pnl: item.pnl, flow: item.flow, cumulativePnL, netDeposits })
+  }
+  return curve
+}
+
+// Largest decline from the high-water mark, in currency and percent of that mark
+export function getMaxDrawdown(curve: EquityPoint[]): { maxDrawdown: number; maxDrawdownPercent: number } {
+  let maxDrawdown = 0
+  let maxDrawdownPercent = 0
+  for (const point of curve) {
+    const drawdown = point.equity - point.peak
+    maxDrawdown = Math.min(maxDrawdown, drawdown)
+    if (point.peak > 0) maxDrawdownPercent = Math.min(maxDrawdownPercent, (drawdown / point.peak) * 100)
+  }
+  return { maxDrawdown, maxDrawdownPercent }
+}
+
+// Time-weighted return: the growth of each stretch between capital events, chained together,
+// so deposits and withdrawals do not count as trading performance
+export function calculateTimeWeightedReturn(trades: TradeEntry[], events: CapitalEvent[], initialCapital: number): TimeWeightedReturn | null {
+  const curve = buildEquityCurve(trades, events, initialCapital)
+  let growth = 1
+  let periods = 0
+  let periodStart = initialCapital
+  let equity = initialCapital
+  let periodPnL = 0
+
+  const closePeriod = () => {
+    if (periodPnL === 0) return
+    if (periodStart <= 0) return
+    growth *= (periodStart + periodPnL) / periodStart
+    periods++
+  }
+
+  for (const point of curve) {
+    if (point.flow !== 0) {
+      closePeriod()
+      periodStart = equity + point.flow
+      periodPnL = 0
+    } else {
+      periodPnL += point.pnl
+    }
+    equity = point.equity
+  }
+  closePeriod()
+
+  if (periods === 0) return null
+  return { twr: (growth - 1) * 100, periods }
+}
@@ -0,0 +1,114 @@
+import type { TradeDirection, TradeExecution } from '@/store/tradeStore'
+
+export interface ExecutionFill extends TradeExecution {
+  opening: boolean // Adds to the position (buy on a long, sell on a short)
+  positionAfter: number // Open size after this fill
+  realizedPnL: number | null // P&L booked by a closing fill against the running average entry
+}
+
+export interface ExecutionSummary {
+  direction: TradeDirection
+  fills: ExecutionFill[]
+  avgEntryPrice: number | null
+  avgExitPrice: number | null
+  entryQuantity: number
+  exitQuantity: number
+  openQuantity: number
+  peakPositionSize: number
+  realizedPnL: number
+  totalFees: number
+  firstTime?: string
+  lastExitTime?: string
+  overClosed: boolean // Exits exceeded the open position at some point
+}
+
+function isValidFill(execution: TradeExecution): boolean {
+  return isFinite(execution.price) && execution.price > 0 && isFinite(execution.size) && execution.size > 0
+}
+
+function timeValue(time?: string): number {
+  if (!time) return Number.POSITIVE_INFINITY
+  const value = new Date(time).getTime()
+  return isNaN(value) ? Number.POSITIVE_INFINITY : value
+}
+
+// Fills ordered by time; fills without a timestamp keep their position after timed ones
+export function sortExecutions(executions: TradeExecution[]): TradeExecution[] {
+  return executions
+    .map((execution, index) => ({ execution, index }))
+    .sort((a, b) => timeValue(a.execution.time) - timeValue(b.execution.time) || a.index - b.index)
+    .map(({ execution }) => execution)
+}
+
+// Direction of the position: explicit when set, otherwise implied by the first fill
+export function inferDirection(executions: TradeExecution[], direction?: TradeDirection): TradeDirection | undefined {
+  if (direction) return direction
+  const first = sortExecutions(executions.filter(isValidFill))[0]
+  if (!first) return undefined
+  return first.side === 'buy' ? 'long' : 'short'
+}
+
+// Walk the fills in order and aggregate them into a position summary.
+// Closing fills realize P&L against the average entry price at that moment.
+export function summarizeExecutions(executions: TradeExecution[] | undefined, direction?: TradeDirection): ExecutionSummary | null {
+  if (!executions || executions.length === 0) return null
+  const resolvedDirection = inferDirection(executions, direction)
+  if (!resolvedDirection) return null
+
+  const sign = resolvedDirection === 'short' ? -1 : 1
+  const openingSide = resolvedDirection === 'long' ? 'buy' : 'sell'
+  const fills: ExecutionFill[] = []
+  let position = 0
+  let avgCost = 0
+  let entryQuantity = 0
+  let entryNotional = 0
+  let exitQuantity = 0
+  let exitNotional = 0
+  let peakPositionSize = 0
+  let realizedPnL = 0
+  let totalFees = 0
+  let overClosed = false
+  let lastExitTime: string | undefined
+
+  for (const execution of sortExecutions(executions)) {
+    totalFees += execution.fee && isFinite(execution.fee) ? execution.fee : 0
+    if (!isValidFill(execution)) continue
+
+    if (execution.side === openingSide) {
+      avgCost = (avgCost * position + execution.price * execution.size) / (position + execution.size)
+      position += execution.size
+      entryQuantity += execution.size
+      entryNotional += execution.price * execution.size
+      peakPositionSize = Math.max(peakPositionSize, position)
+      fills.push({ ...execution, opening: true, positionAfter: position, realizedPnL: null })
+      continue
+    }
+
+    // Only the part of an exit that is backed by an open position is realized
+    const closed = Math.min(execution.size, position)
+    if (closed < execution.size) overClosed = true
+    const pnl = (execution.price - avgCost) * closed * sign
+    position -= closed
+    exitQuantity += closed
+    exitNotional += execution.price * closed
+    realizedPnL += pnl
+    if (closed > 0) lastExitTime = execution.time ?? lastExitTime
+    fills.push({ ...execution, opening: false, positionAfter: position, realizedPnL: closed > 0 ? pnl : null })
+  }
+
+  return {
+    direction: resolvedDirection,
+    fills,
+    avgEntryPrice: entryQuantity > 0 ? entryNotional / entryQuantity : null,
+    avgExitPrice: exitQuantity > 0 ? exitNotional / exitQuantity : null,
+    entryQuantity,
+    exitQuantity,
+    openQuantity: position,
+    peakPositionSize,
+    realizedPnL,
+    totalFees,
+    firstTime: fills.find(f => f.time)?.time,
+    lastExitTime,
+    overClosed,
+  }
+}
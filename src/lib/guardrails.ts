@@ -0,0 +1,75 @@
+import { format, isWithinInterval, parseISO } from 'date-fns'
+import type { TradeEntry } from '@/store/tradeStore'
+import { getPeriodInterval, getPeriodStart } from '@/lib/reviews'
+
+// Risk limits from the trading plan (Settings.riskLimits) and the overrides recorded when trading past them
+
+export type RiskLimit = 'dailyLoss' | 'weeklyLoss' | 'tradesPerDay' | 'consecutiveLosses'
+
+// Unset limits are off; losses are positive amounts ($)
+export type RiskLimits = Partial<Record<RiskLimit, number>>
+
+export const RISK_LIMIT_LABELS: Record<RiskLimit, string> = {
+  dailyLoss: 'Max Daily Loss',
+  weeklyLoss: 'Max Weekly Loss',
+  tradesPerDay: 'Max Trades per Day',
+  consecutiveLosses: 'Max Consecutive Losses',
+}
+
+export const RISK_LIMITS = Object.keys(RISK_LIMIT_LABELS) as RiskLimit[]
+
+// Recorded on a trade saved after a limit was hit
+export interface RiskOverride {
+  limits: RiskLimit[]
+  reason: string
+  at: string // ISO datetime of the override
+}
+
+export interface LimitBreach {
+  limit: RiskLimit
+  threshold: number
+  value: number
+  message: string
+}
+
+function formatMoney(value: number): string {
+  return `$${Math.abs(value).toFixed(2)}`
+}
+
+// Losses in a row up to the end of the given day, across sessions, in the order the trades were closed
+function getLossStreak(entries: TradeEntry[], date: string): number {
+  const closedAt = (entry: TradeEntry) => entry.exitTime ?? entry.entryTime ?? ''
+  const ordered = entries
+    .filter(entry => entry.date <= date)
+    .sort((a, b) => a.date.localeCompare(b.date) || closedAt(a).localeCompare(closedAt(b)))
+  let streak = 0
+  for (let i = ordered.length - 1; i >= 0 && ordered[i].outcome === 'loss'; i--) streak++
+  return streak
+}
+
+// Limits already hit by the trades of the given day (and its week); a losing streak carries over from earlier days
+export function getLimitBreaches(entries: TradeEntry[], limits: RiskLimits, date: string = format(new Date(), 'yyyy-MM-dd')): LimitBreach[] {
+  const dayEntries = entries.filter(entry => entry.date === date)
+  const week = getPeriodInterval('week', getPeriodStart('week', parseISO(date)))
+  const dayPnl = dayEntries.reduce((sum, entry) => sum + entry.pnl, 0)
+  const weekPnl = entries
+    .filter(entry => isWithinInterval(parseISO(entry.date), week))
+    .reduce((sum, entry) => sum + entry.pnl, 0)
+  const lossStreak = getLossStreak(entries, date)
+
+  const breaches: LimitBreach[] = []
+  const { dailyLoss, weeklyLoss, tradesPerDay, consecutiveLosses } = limits
+  if (dailyLoss && dayPnl <= -dailyLoss) {
+    breaches.push({ limit: 'dailyLoss', threshold: dailyLoss, value: -dayPnl, message: `Down ${formatMoney(dayPnl)} on the day, past the ${formatMoney(dailyLoss)} daily loss limit` })
+  }
+  if (weeklyLoss && weekPnl <= -weeklyLoss) {
+    breaches.push({ limit: 'weeklyLoss', threshold: weeklyLoss, value: -weekPnl, message: `Down ${formatMoney(weekPnl)} on the week, past the ${formatMoney(weeklyLoss)} weekly loss limit` })
+  }
+  if (tradesPerDay && dayEntries.length >= tradesPerDay) {
+    breaches.push({ limit: 'tradesPerDay', threshold: tradesPerDay, value: dayEntries.length, message: `${dayEntries.length} trades taken, the daily maximum is ${tradesPerDay}` })
+  }
+  if (consecutiveLosses && lossStreak >= consecutiveLosses) {
+    breaches.push({ limit: 'consecutiveLosses', threshold: consecutiveLosses, value: lossStreak, message: `${lossStreak} losses in a row, the limit is ${consecutiveLosses}` })
+  }
+  return breaches
+}
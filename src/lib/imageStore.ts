@@ -0,0 +1,188 @@
+import localforage from 'localforage'
+
+// Trade screenshots live in their own IndexedDB store as Blobs; entries only keep the image ids
+const imageStore = localforage.createInstance({ name: 'trade-images', storeName: 'images' })
+
+export type ImageVariant = 'full' | 'thumbnail'
+
+export type ImageFormat = 'webp' | 'jpeg'
+
+// How uploads are re-encoded before they are stored (see Settings)
+export interface ImageCompressionOptions {
+  maxDimension: number // Longest edge in pixels; 0 keeps the original size
+  format: ImageFormat
+  quality: number // 0-1
+}
+
+export interface SavedUploads {
+  ids: string[]
+  names: string[] // File names of the stored images, in the order of ids
+  rejected: string[] // Names of files still over MAX_STORED_IMAGE_SIZE after compression
+  originalSize: number // Bytes, summed over the stored files
+  savedSize: number // Bytes actually stored
+}
+
+// Largest image kept once compressed; uploads are only rejected if they are still bigger
+export const MAX_STORED_IMAGE_SIZE = 5 * 1024 * 1024
+
+interface StoredImage {
+  id: string
+  name: string
+  blob: Blob
+  thumbnail: Blob
+  createdAt: string
+}
+
+// Longest edge of generated thumbnails, in pixels
+const THUMBNAIL_SIZE = 320
+
+// Object URLs handed out so far, keyed by `${id}:${variant}`
+const objectUrls = new Map<string, string>()
+
+// Entries saved before the image store held base64 data URLs instead of ids
+export function isInlineImage(value: string): boolean {
+  return value.startsWith('data:')
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+// Draws the image onto a canvas no larger than `maxDimension` and encodes it.
+// Only pixels are copied, so EXIF and other metadata are dropped on the way.
+async function renderImage(blob: Blob, maxDimension: number, type: string, quality: number): Promise<Blob> {
+  const bitmap = await createImageBitmap(blob)
+  const longestEdge = Math.max(bitmap.width, bitmap.height)
+  const scale = maxDimension > 0 ? Math.min(1, maxDimension / longestEdge) : 1
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale))
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale))
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('Canvas is not available')
+  if (type === 'image/jpeg') {
+    // JPEG has no alpha channel; paint transparent areas white instead of black
+    context.fillStyle = '#fff'
+    context.fillRect(0, 0, canvas.width, canvas.height)
+  }
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+  bitmap.close()
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(result => (result ? resolve(result) : reject(new Error('Image encoding failed'))), type, quality)
+  })
+}
+
+// Resizes and re-encodes an upload, keeping the original file when that is smaller or the browser can't decode it
+export async function compressImage(blob: Blob, options: ImageCompressionOptions): Promise<Blob> {
+  try {
+    let compressed = await renderImage(blob, options.maxDimension, `image/${options.format}`, options.quality)
+    // Browsers without WebP encoding silently return PNG; use JPEG then
+    if (compressed.type !== `image/${options.format}`) {
+      compressed = await renderImage(blob, options.maxDimension, 'image/jpeg', options.quality)
+    }
+    return compressed.size < blob.size ? compressed : blob
+  } catch (error) {
+    console.warn('Could not compress image:', error)
+    return blob
+  }
+}
+
+async function createThumbnail(blob: Blob): Promise<Blob> {
+  try {
+    return await renderImage(blob, THUMBNAIL_SIZE, 'image/jpeg', 0.8)
+  } catch (error) {
+    // Formats the browser can't draw (e.g. some SVGs) are shown from the original
+    console.warn('Could not create thumbnail:', error)
+    return blob
+  }
+}
+
+// Stores an uploaded image with its thumbnail and returns the id to keep on the entry
+export async function saveImage(blob: Blob, name = 'Trade Image'): Promise<string> {
+  const id = `img-${crypto.randomUUID()}`
+  const thumbnail = await createThumbnail(blob)
+  await imageStore.setItem<StoredImage>(id, { id, name, blob, thumbnail, createdAt: new Date().toISOString() })
+  return id
+}
+
+// Compresses and stores uploaded files in order, returning their ids and the size before and after
+export async function saveUploadedImages(files: File[], options: ImageCompressionOptions): Promise<SavedUploads> {
+  const result: SavedUploads = { ids: [], names: [], rejected: [], originalSize: 0, savedSize: 0 }
+  for (const file of files) {
+    const compressed = await compressImage(file, options)
+    if (compressed.size > MAX_STORED_IMAGE_SIZE) {
+      result.rejected.push(file.name)
+      continue
+    }
+    result.ids.push(await saveImage(compressed, file.name))
+    result.names.push(file.name)
+    result.originalSize += file.size
+    result.savedSize += compressed.size
+  }
+  return result
+}
+
+// Toast for a finished upload: the space saved, and any file that was too large to keep
+export function describeSavedUploads({ ids, rejected, originalSize, savedSize }: SavedUploads): { title: string; description: string; variant?: 'destructive' } {
+  const saved = `${formatBytes(originalSize)} → ${formatBytes(savedSize)}`
+  if (rejected.length === 0) return { title: `${ids.length} image${ids.length === 1 ? '' : 's'} added`, description: saved }
+  return {
+    title: `${rejected.length} image${rejected.length === 1 ? '' : 's'} skipped`,
+    description: `${rejected.join(', ')} ${rejected.length === 1 ? 'is' : 'are'} still over ${formatBytes(MAX_STORED_IMAGE_SIZE)} after compression`
+      + (ids.length > 0 ? `. ${ids.length} added (${saved})` : ''),
+    variant: 'destructive',
+  }
+}
+
+// Object URL for an image id, or the value itself for images that are still inline
+export async function getImageUrl(id: string, variant: ImageVariant = 'full'): Promise<string | null> {
+  if (isInlineImage(id)) return id
+  const key = `${id}:${variant}`
+  const cached = objectUrls.get(key)
+  if (cached) return cached
+
+  const image = await imageStore.getItem<StoredImage>(id)
+  if (!image) return null
+  const url = URL.createObjectURL(variant === 'thumbnail' ? image.thumbnail : image.blob)
+  objectUrls.set(key, url)
+  return url
+}
+
+// Base64 copy of an image, used to embed images in exported backups
+export async function getImageDataUrl(id: string): Promise<string | null> {
+  if (isInlineImage(id)) return id
+  const image = await imageStore.getItem<StoredImage>(id)
+  if (!image) return null
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onloadend = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(image.blob)
+  })
+}
+
+// Moves base64 images into the store; returns a map from each data URL to its new id
+export async function storeInlineImages(dataUrls: string[]): Promise<Map<string, string>> {
+  const ids = new Map<string, string>()
+  for (const dataUrl of new Set(dataUrls.filter(isInlineImage))) {
+    const blob = await (await fetch(dataUrl)).blob()
+    ids.set(dataUrl, await saveImage(blob))
+  }
+  return ids
+}
+
+// Deletes every stored image that is not in `referencedIds`
+export async function pruneImages(referencedIds: Set<string>): Promise<number> {
+  const keys = await imageStore.keys()
+  const unused = keys.filter(key => !referencedIds.has(key))
+  for (const key of unused) {
+    await imageStore.removeItem(key)
+    for (const variant of ['full', 'thumbnail'] as ImageVariant[]) {
+      const url = objectUrls.get(`${key}:${variant}`)
+      if (url) URL.revokeObjectURL(url)
+      objectUrls.delete(`${key}:${variant}`)
+    }
+  }
+  return unused.length
+}
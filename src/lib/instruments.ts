@@ -0,0 +1,138 @@
+// Contract specs for the symbols a trade's `coin` field can hold. Built-in instruments
+// can be overridden, and new ones added, through Settings.instruments.
+
+export type AssetClass = 'crypto' | 'forex' | 'futures' | 'equity' | 'other'
+
+export interface Instrument {
+  symbol: string // Upper case, e.g. 'BTC', 'EURUSD', 'ES'
+  name?: string
+  assetClass: AssetClass
+  exchange?: string
+  quoteCurrency: string
+  baseCurrency?: string // Forex: currency the quantity is counted in, e.g. 'USD' for USDJPY
+  tickSize: number // Smallest price increment
+  multiplier: number // Currency value of a 1.0 price move per unit of quantity (contract size, lot size)
+  pipSize?: number // Forex: price increment of one pip
+}
+
+export const ASSET_CLASS_LABELS: Record<AssetClass, string> = {
+  crypto: 'Crypto',
+  forex: 'Forex',
+  futures: 'Futures',
+  equity: 'Equities',
+  other: 'Other',
+}
+
+const crypto = (symbol: string, name: string, tickSize = 0.01): Instrument => ({
+  symbol, name, assetClass: 'crypto', exchange: 'Binance', quoteCurrency: 'USDT', tickSize, multiplier: 1,
+})
+
+// Forex quantity is in standard lots of 100,000 units of the base currency
+const forex = (symbol: string, pipSize = 0.0001): Instrument => ({
+  symbol, name: `${symbol.slice(0, 3)}/${symbol.slice(3)}`, assetClass: 'forex', baseCurrency: symbol.slice(0, 3), quoteCurrency: symbol.slice(3),
+  tickSize: pipSize / 10, multiplier: 100000, pipSize,
+})
+
+const future = (symbol: string, name: string, exchange: string, tickSize: number, multiplier: number): Instrument => ({
+  symbol, name, assetClass: 'futures', exchange, quoteCurrency: 'USD', tickSize, multiplier,
+})
+
+const equity = (symbol: string, name: string, exchange: string): Instrument => ({
+  symbol, name, assetClass: 'equity', exchange, quoteCurrency: 'USD', tickSize: 0.01, multiplier: 1,
+})
+
+export const DEFAULT_INSTRUMENTS: Instrument[] = [
+  crypto('BTC', 'Bitcoin', 0.1),
+  crypto('ETH', 'Ethereum'),
+  crypto('BNB', 'BNB'),
+  crypto('SOL', 'Solana'),
+  crypto('XRP', 'XRP', 0.0001),
+  crypto('ADA', 'Cardano', 0.0001),
+  crypto('DOGE', 'Dogecoin', 0.00001),
+  crypto('DOT', 'Polkadot', 0.001),
+  crypto('AVAX', 'Avalanche'),
+  crypto('MATIC', 'Polygon', 0.0001),
+  forex('EURUSD'),
+  forex('GBPUSD'),
+  forex('AUDUSD'),
+  forex('USDCAD'),
+  forex('USDCHF'),
+  forex('USDJPY', 0.01),
+  forex('EURJPY', 0.01),
+  forex('GBPJPY', 0.01),
+  future('ES', 'E-mini S&P 500', 'CME', 0.25, 50),
+  future('MES', 'Micro E-mini S&P 500', 'CME', 0.25, 5),
+  future('NQ', 'E-mini Nasdaq-100', 'CME', 0.25, 20),
+  future('MNQ', 'Micro E-mini Nasdaq-100', 'CME', 0.25, 2),
+  future('YM', 'E-mini Dow', 'CBOT', 1, 5),
+  future('RTY', 'E-mini Russell 2000', 'CME', 0.1, 50),
+  future('CL', 'Crude Oil', 'NYMEX', 0.01, 1000),
+  future('GC', 'Gold', 'COMEX', 0.1, 100),
+  equity('SPY', 'SPDR S&P 500 ETF', 'NYSE Arca'),
+  equity('QQQ', 'Invesco QQQ', 'NASDAQ'),
+  equity('AAPL', 'Apple', 'NASDAQ'),
+  equity('MSFT', 'Microsoft', 'NASDAQ'),
+  equity('NVDA', 'NVIDIA', 'NASDAQ'),
+  equity('TSLA', 'Tesla', 'NASDAQ'),
+  equity('AMZN', 'Amazon', 'NASDAQ'),
+]
+
+// Built-in instruments with the user's instruments layered on top (same symbol replaces the built-in)
+export function getInstruments(custom: Instrument[] = []): Instrument[] {
+  const bySymbol = new Map(DEFAULT_INSTRUMENTS.map(instrument => [instrument.symbol, instrument]))
+  custom.forEach(instrument => bySymbol.set(instrument.symbol.toUpperCase(), instrument))
+  return [...bySymbol.values()]
+}
+
+export function findInstrument(symbol: string | undefined, custom: Instrument[] = []): Instrument | undefined {
+  if (!symbol) return undefined
+  const key = symbol.trim().toUpperCase()
+  return custom.find(i => i.symbol.toUpperCase() === key) ?? DEFAULT_INSTRUMENTS.find(i => i.symbol === key)
+}
+
+// Symbols missing from the registry are treated as crypto quoted 1:1, which is how every trade
+// was valued before the registry existed
+export function getAssetClass(symbol: string | undefined, custom: Instrument[] = []): AssetClass {
+  return findInstrument(symbol, custom)?.assetClass ?? (symbol ? 'crypto' : 'other')
+}
+
+export function getContractMultiplier(symbol: string | undefined, custom: Instrument[] = []): number {
+  return findInstrument(symbol, custom)?.multiplier ?? 1
+}
+
+// Currencies P&L is booked in; stablecoins count as dollars
+export const ACCOUNT_CURRENCIES = ['USD', 'USDT', 'USDC']
+
+// How a price move, worth `multiplier` units of the quote currency, becomes account currency:
+// - 'exitPrice': the base is the account currency (USDJPY), so dividing by the pair's own price converts it
+// - 'manual': no rate is known (EURJPY), so P&L has to be entered by hand
+export type QuoteConversion = 'exitPrice' | 'manual'
+
+// Undefined when the instrument is quoted in the account currency
+export function getQuoteConversion(symbol: string | undefined, custom: Instrument[] = []): QuoteConversion | undefined {
+  const instrument = findInstrument(symbol, custom)
+  if (!instrument || ACCOUNT_CURRENCIES.includes(instrument.quoteCurrency.toUpperCase())) return undefined
+  return instrument.baseCurrency && ACCOUNT_CURRENCIES.includes(instrument.baseCurrency.toUpperCase()) ? 'exitPrice' : 'manual'
+}
+
+export interface ContractSpecs {
+  multiplier: number
+  quoteConversion?: QuoteConversion
+}
+
+// What a trade on the symbol records so its P&L can be derived from prices
+export function getContractSpecs(symbol: string | undefined, custom: Instrument[] = []): ContractSpecs {
+  return { multiplier: getContractMultiplier(symbol, custom), quoteConversion: getQuoteConversion(symbol, custom) }
+}
+
+// Value of one pip per lot for forex pairs, quoted in the pair's quote currency
+export function getPipValue(instrument: Instrument): number | null {
+  return instrument.pipSize ? instrument.pipSize * instrument.multiplier : null
+}
+
+// Case-insensitive match on symbol or name
+export function searchInstruments(query: string, instruments: Instrument[]): Instrument[] {
+  const term = query.trim().toLowerCase()
+  if (!term) return instruments
+  return instruments.filter(i => i.symbol.toLowerCase().includes(term) || i.name?.toLowerCase().includes(term))
+}
@@ -0,0 +1,95 @@
+import type { TradeEntry, TradePlan } from '@/store/tradeStore'
+import { getTradeNotional } from '@/lib/pnl'
+import { summarizeOutcomes, type RuleOutcomeStats } from '@/lib/rules'
+import { isPositiveNumber } from '@/lib/utils'
+
+export type TradePlanStatus = 'planned' | 'converted' | 'skipped'
+
+export const PLAN_STATUS_LABELS: Record<TradePlanStatus, string> = {
+  planned: 'Planned',
+  converted: 'Taken',
+  skipped: 'Skipped',
+}
+
+// Where a trade closed relative to its plan's stop and target
+export type PlanExit = 'target' | 'stop' | 'early'
+
+export const PLAN_EXIT_LABELS: Record<PlanExit, string> = {
+  target: 'Reached Target',
+  stop: 'Stopped Out',
+  early: 'Exited Early',
+}
+
+export interface PlanDeviation {
+  plan: TradePlan
+  entry: TradeEntry
+  entrySlippage: number | null // % of the planned entry; positive when filled worse than planned
+  sizeDeviation: number | null // % above (+) or below (-) the planned size
+  exit: PlanExit | null
+}
+
+export interface PlanComparison {
+  planned: number // Still waiting to be taken or skipped
+  converted: number
+  skipped: number
+  followThrough: number | null // Share (0-100) of decided plans that were taken
+  avgEntrySlippage: number | null
+  avgSizeDeviation: number | null
+  exits: Record<PlanExit, number>
+  deviations: PlanDeviation[]
+  plannedStats: RuleOutcomeStats // Trades converted from a plan
+  unplannedStats: RuleOutcomeStats // Trades logged without one
+}
+
+function average(values: (number | null)[]): number | null {
+  const known = values.filter((value): value is number => value !== null)
+  return known.length > 0 ? known.reduce((sum, value) => sum + value, 0) / known.length : null
+}
+
+// Compares a trade with the plan it was converted from, using the plan's direction
+export function getPlanDeviation(plan: TradePlan, entry: TradeEntry): PlanDeviation {
+  const sign = plan.direction === 'short' ? -1 : 1
+  const entrySlippage = isPositiveNumber(plan.entryPrice) && isPositiveNumber(entry.entryPrice)
+    ? ((entry.entryPrice - plan.entryPrice) / plan.entryPrice) * 100 * sign
+    : null
+  const notional = getTradeNotional(entry)
+  const sizeDeviation = isPositiveNumber(plan.positionSize) && notional !== null
+    ? ((notional - plan.positionSize) / plan.positionSize) * 100
+    : null
+
+  let exit: PlanExit | null = null
+  if (isPositiveNumber(entry.exitPrice)) {
+    if (isPositiveNumber(plan.plannedTarget) && (entry.exitPrice - plan.plannedTarget) * sign >= 0) exit = 'target'
+    else if (isPositiveNumber(plan.plannedStop) && (entry.exitPrice - plan.plannedStop) * sign <= 0) exit = 'stop'
+    else if (isPositiveNumber(plan.plannedTarget)) exit = 'early'
+  }
+  return { plan, entry, entrySlippage, sizeDeviation, exit }
+}
+
+// Planned versus actual over the given plans and the trades they became
+export function comparePlansWithTrades(plans: TradePlan[], entries: TradeEntry[]): PlanComparison {
+  const entriesById = new Map(entries.map(entry => [entry.id, entry]))
+  const deviations = plans.flatMap(plan => {
+    const entry = plan.status === 'converted' && plan.entryId ? entriesById.get(plan.entryId) : undefined
+    return entry ? [getPlanDeviation(plan, entry)] : []
+  })
+  const converted = plans.filter(plan => plan.status === 'converted').length
+  const skipped = plans.filter(plan => plan.status === 'skipped').length
+  const exits: Record<PlanExit, number> = { target: 0, stop: 0, early: 0 }
+  deviations.forEach(deviation => {
+    if (deviation.exit) exits[deviation.exit]++
+  })
+
+  return {
+    planned: plans.filter(plan => plan.status === 'planned').length,
+    converted,
+    skipped,
+    followThrough: converted + skipped > 0 ? (converted / (converted + skipped)) * 100 : null,
+    avgEntrySlippage: average(deviations.map(deviation => deviation.entrySlippage)),
+    avgSizeDeviation: average(deviations.map(deviation => deviation.sizeDeviation)),
+    exits,
+    deviations,
+    plannedStats: summarizeOutcomes(entries.filter(entry => entry.planId)),
+    unplannedStats: summarizeOutcomes(entries.filter(entry => !entry.planId)),
+  }
+}
@@ -0,0 +1,47 @@
+import type { Playbook, Settings, TradeEntry } from '@/store/tradeStore'
+import { aliasKey, resolveTradeName } from '@/lib/aliases'
+import { summarizeOutcomes, type RuleOutcomeStats } from '@/lib/rules'
+
+// Setups offered to every trader; their own are kept in settings.customSetups
+export const DEFAULT_SETUPS = [
+  'Breakout',
+  'Breakdown',
+  'Support Bounce',
+  'Resistance Rejection',
+  'Trend Following',
+  'Counter Trend',
+  'Range Trading',
+  'Scalping',
+  'Swing Trading',
+  'Position Trading'
+]
+
+export const TIMEFRAMES = ['1m', '5m', '15m', '30m', '1h', '4h', '1D', '1W']
+
+type SetupSettings = Pick<Settings, 'customSetups' | 'aliases' | 'aliasFuzzyThreshold'>
+
+export function getAvailableSetups(settings: Pick<Settings, 'customSetups'>): string[] {
+  return [...new Set([...DEFAULT_SETUPS, ...(settings.customSetups ?? [])])]
+}
+
+// Setup names match once aliases are resolved, ignoring case and spacing
+function setupKey(name: string, settings: SetupSettings): string {
+  return aliasKey(resolveTradeName(name, settings.aliases, settings.aliasFuzzyThreshold))
+}
+
+export function findPlaybook(setup: string, playbooks: Playbook[], settings: SetupSettings): Playbook | undefined {
+  const key = setupKey(setup, settings)
+  return playbooks.find(playbook => setupKey(playbook.setup, settings) === key)
+}
+
+// Playbooks for a trade's setups, once each and in the order the setups were chosen
+export function getTradePlaybooks(setups: string[], playbooks: Playbook[], settings: SetupSettings): Playbook[] {
+  const found = setups.flatMap(setup => findPlaybook(setup, playbooks, settings) ?? [])
+  return [...new Set(found)]
+}
+
+// Outcomes of the trades tagged with the playbook's setup
+export function getPlaybookStats(playbook: Playbook, entries: TradeEntry[], settings: SetupSettings): RuleOutcomeStats {
+  const key = setupKey(playbook.setup, settings)
+  return summarizeOutcomes(entries.filter(entry => entry.setup.some(setup => setupKey(setup, settings) === key)))
+}
@@ -0,0 +1,173 @@
+import type { TradeEntry } from '@/store/tradeStore'
+import { summarizeExecutions } from '@/lib/executions'
+import { isPositiveNumber } from '@/lib/utils'
+
+type PriceFields = Partial<Pick<TradeEntry, 'direction' | 'entryPrice' | 'exitPrice' | 'quantity' | 'multiplier' | 'quoteConversion'>>
+type TradePnLFields = PriceFields & Partial<Pick<TradeEntry, 'executions' | 'entryTime' | 'exitTime'>>
+type AggregateFields = Pick<TradeEntry, 'direction' | 'entryPrice' | 'exitPrice' | 'quantity' | 'entryTime' | 'exitTime'>
+
+// Direction multiplier: a long profits when price rises, a short when it falls
+function directionSign(direction: TradeEntry['direction']): number {
+  return direction === 'short' ? -1 : 1
+}
+
+// Currency value of a 1.0 price move per unit of quantity; 1 unless the instrument has a contract multiplier
+export function getMultiplier(entry: Partial<Pick<TradeEntry, 'multiplier'>>): number {
+  return isPositiveNumber(entry.multiplier) ? entry.multiplier : 1
+}
+
+// An amount in the instrument's quote currency in account currency, at the given price of the pair;
+// null when the trade has no known conversion rate
+export function toAccountCurrency(amount: number, price: number, entry: Partial<Pick<TradeEntry, 'quoteConversion'>>): number | null {
+  if (entry.quoteConversion === 'manual') return null
+  return entry.quoteConversion === 'exitPrice' ? amount / price : amount
+}
+
+// True when the entry carries everything needed to derive P&L from prices
+export function hasPriceData(entry: PriceFields): boolean {
+  return (
+    (entry.direction === 'long' || entry.direction === 'short') &&
+    isPositiveNumber(entry.entryPrice) &&
+    isPositiveNumber(entry.exitPrice) &&
+    isPositiveNumber(entry.quantity)
+  )
+}
+
+// P&L computed from direction, entry/exit price and quantity, or null when incomplete or not convertible
+export function calculatePricePnL(entry: PriceFields): number | null {
+  if (!hasPriceData(entry)) return null
+  const { entryPrice, exitPrice, quantity, direction } = entry as Required<Pick<TradeEntry, 'entryPrice' | 'exitPrice' | 'quantity' | 'direction'>>
+  return toAccountCurrency((exitPrice - entryPrice) * quantity * getMultiplier(entry) * directionSign(direction), exitPrice, entry)
+}
+
+// Aggregated prices, quantity and timing from the executions, or null when no position was closed
+// or its P&L cannot be converted to the account currency
+export function aggregateExecutions(entry: Partial<Pick<TradeEntry, 'direction' | 'executions' | 'entryTime' | 'exitTime' | 'multiplier' | 'quoteConversion'>>): (AggregateFields & { pnl: number }) | null {
+  const summary = summarizeExecutions(entry.executions, entry.direction)
+  if (!summary || summary.exitQuantity === 0 || summary.avgEntryPrice === null || summary.avgExitPrice === null) return null
+  const pnl = toAccountCurrency(summary.realizedPnL * getMultiplier(entry), summary.avgExitPrice, entry)
+  if (pnl === null) return null
+  return {
+    direction: summary.direction,
+    entryPrice: summary.avgEntryPrice,
+    exitPrice: summary.avgExitPrice,
+    quantity: summary.exitQuantity,
+    entryTime: summary.firstTime ?? entry.entryTime,
+    exitTime: summary.lastExitTime ?? entry.exitTime,
+    pnl,
+  }
+}
+
+// P&L derived from executions, else from direction/prices/quantity, or null when neither is complete
+export function calculateTradePnL(entry: TradePnLFields): number | null {
+  const aggregate = aggregateExecutions(entry)
+  if (aggregate) return aggregate.pnl
+  return calculatePricePnL(entry)
+}
+
+export type PnLMode = 'gross' | 'net'
+
+export interface TradeCosts {
+  commission: number // Entered commission plus fees recorded on executions
+  funding: number
+  other: number
+  total: number
+}
+
+function finiteOrZero(value: unknown): number {
+  return typeof value === 'number' && isFinite(value) ? value : 0
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+// Costs charged on a trade; funding is negative when it was received
+export function getTradeCosts(entry: Partial<Pick<TradeEntry, 'commission' | 'funding' | 'otherCosts' | 'executions'>>): TradeCosts {
+  const executionFees = (entry.executions ?? []).reduce((sum, execution) => sum + finiteOrZero(execution.fee), 0)
+  const commission = finiteOrZero(entry.commission) + executionFees
+  const funding = finiteOrZero(entry.funding)
+  const other = finiteOrZero(entry.otherCosts)
+  return { commission, funding, other, total: commission + funding + other }
+}
+
+// Resolve the P&L of a trade: executions first, then prices, otherwise the manual value.
+// Manual values are gross; entries saved before costs existed only carry pnl.
+// Derived P&L also decides the outcome (on net) so the two can never disagree.
+export function resolveTradePnL(entry: Partial<TradeEntry>): Pick<TradeEntry, 'pnl' | 'grossPnl' | 'pnlSource' | 'outcome'> & Partial<AggregateFields> {
+  const costs = getTradeCosts(entry).total
+  const aggregate = aggregateExecutions(entry)
+  if (aggregate) {
+    const { pnl: gross, ...fields } = aggregate
+    const net = gross - costs
+    return { ...fields, grossPnl: roundCents(gross), pnl: roundCents(net), pnlSource: 'executions', outcome: net >= 0 ? 'win' : 'loss' }
+  }
+  const computed = calculatePricePnL(entry)
+  if (computed !== null) {
+    const net = computed - costs
+    return { grossPnl: roundCents(computed), pnl: roundCents(net), pnlSource: 'prices', outcome: net >= 0 ? 'win' : 'loss' }
+  }
+  const gross = typeof entry.grossPnl === 'number' && isFinite(entry.grossPnl) ? entry.grossPnl : finiteOrZero(entry.pnl)
+  const net = roundCents(gross - costs)
+  return { grossPnl: gross, pnl: net, pnlSource: 'manual', outcome: entry.outcome ?? (net >= 0 ? 'win' : 'loss') }
+}
+
+// P&L of a stored trade before or after costs
+export function getTradePnL(entry: TradeEntry, mode: PnLMode): number {
+  return mode === 'gross' ? entry.grossPnl ?? entry.pnl : entry.pnl
+}
+
+// Entries with pnl/outcome swapped to the requested basis so existing metrics can be reused
+export function applyPnLMode(entries: TradeEntry[], mode: PnLMode): TradeEntry[] {
+  if (mode === 'net') return entries
+  return entries.map(entry => {
+    const pnl = getTradePnL(entry, 'gross')
+    const outcome = entry.pnlSource === 'manual' ? entry.outcome : pnl >= 0 ? 'win' : 'loss'
+    return { ...entry, pnl, outcome }
+  })
+}
+
+// Largest open position over the life of the trade, in units
+export function getPeakPositionSize(entry: Partial<TradeEntry>): number | null {
+  const summary = summarizeExecutions(entry.executions, entry.direction)
+  if (summary && summary.peakPositionSize > 0) return summary.peakPositionSize
+  return isPositiveNumber(entry.quantity) ? entry.quantity : null
+}
+
+// Notional value at entry, falling back to the recorded position size
+export function getTradeNotional(entry: Partial<TradeEntry>): number | null {
+  if (isPositiveNumber(entry.entryPrice) && isPositiveNumber(entry.quantity)) {
+    const notional = toAccountCurrency(entry.entryPrice * entry.quantity * getMultiplier(entry), entry.entryPrice, entry)
+    if (notional !== null) return notional
+  }
+  if (isPositiveNumber(entry.positionSize)) return entry.positionSize
+  return null
+}
+
+// Return on notional in percent, or null when no size information exists
+export function calculateReturnPercent(entry: Partial<TradeEntry>): number | null {
+  const notional = getTradeNotional(entry)
+  if (notional === null) return null
+  const { pnl } = resolveTradePnL(entry)
+  return (pnl / notional) * 100
+}
+
+// Holding time in milliseconds, or null when entry/exit timestamps are missing
+export function calculateHoldingTime(entry: Partial<TradeEntry>): number | null {
+  if (!entry.entryTime || !entry.exitTime) return null
+  const start = new Date(entry.entryTime).getTime()
+  const end = new Date(entry.exitTime).getTime()
+  if (isNaN(start) || isNaN(end) || end < start) return null
+  return end - start
+}
+
+// Human readable duration, e.g. "2d 4h", "3h 15m" or "45m"
+export function formatDuration(ms: number): string {
+  const totalMinutes = Math.round(ms / 60000)
+  const days = Math.floor(totalMinutes / 1440)
+  const hours = Math.floor((totalMinutes % 1440) / 60)
+  const minutes = totalMinutes % 60
+  if (days > 0) return `${days}d ${hours}h`
+  if (hours > 0) return `${hours}h ${minutes}m`
+  return `${minutes}m`
+}
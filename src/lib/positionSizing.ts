@@ -0,0 +1,69 @@
+import type { TradeDirection } from '@/store/tradeStore'
+import type { QuoteConversion } from '@/lib/instruments'
+import { toAccountCurrency } from '@/lib/pnl'
+
+// Fixed-fractional position sizing: risk a share of equity between entry and stop
+
+// Typical maintenance margin on crypto perpetuals; exchanges vary by tier
+export const DEFAULT_MAINTENANCE_MARGIN_PERCENT = 0.5
+
+export interface PositionSizeInput {
+  equity: number
+  riskPercent: number // Share of equity lost if the stop is hit, 0-100
+  entryPrice: number
+  stopPrice: number
+  leverage: number
+  multiplier?: number // Contract multiplier; 1 for spot and linear perpetuals
+  quoteConversion?: QuoteConversion
+  maintenanceMarginPercent?: number
+}
+
+export interface PositionSize {
+  direction: TradeDirection // Long when the stop is below the entry
+  riskAmount: number // $ lost at the stop
+  stopDistancePercent: number
+  quantity: number // Units or contracts
+  notional: number // $ value of the position at entry
+  margin: number // $ collateral at the given leverage
+  liquidationPrice: number | null // Approximate, isolated margin; null for longs without leverage
+  exceedsEquity: boolean // The margin is more than the account holds
+  stopBeyondLiquidation: boolean // The position would be liquidated before the stop is reached
+}
+
+// Null until every input is usable, and for instruments without a known dollar rate
+export function calculatePositionSize(input: PositionSizeInput): PositionSize | null {
+  const { equity, riskPercent, entryPrice, stopPrice, leverage, multiplier = 1 } = input
+  const maintenance = (input.maintenanceMarginPercent ?? DEFAULT_MAINTENANCE_MARGIN_PERCENT) / 100
+  if (![equity, riskPercent, entryPrice, stopPrice, leverage, multiplier].every(value => isFinite(value) && value > 0)) return null
+  if (entryPrice === stopPrice) return null
+  const riskPerUnit = toAccountCurrency(Math.abs(entryPrice - stopPrice) * multiplier, stopPrice, input)
+  const valuePerUnit = toAccountCurrency(entryPrice * multiplier, entryPrice, input)
+  if (riskPerUnit === null || valuePerUnit === null) return null
+
+  const direction: TradeDirection = stopPrice < entryPrice ? 'long' : 'short'
+  const riskAmount = equity * (riskPercent / 100)
+  const quantity = riskAmount / riskPerUnit
+  const notional = quantity * valuePerUnit
+  const margin = notional / leverage
+
+  // Isolated margin is lost once the move against the position eats the initial margin down to maintenance.
+  // An unleveraged long is fully paid for, but a short loses its margin on a rally at any leverage
+  let liquidationPrice: number | null = null
+  if (leverage > 1 || direction === 'short') {
+    const move = 1 / leverage - maintenance
+    liquidationPrice = Math.max(0, direction === 'long' ? entryPrice * (1 - move) : entryPrice * (1 + move))
+  }
+
+  return {
+    direction,
+    riskAmount,
+    stopDistancePercent: (Math.abs(entryPrice - stopPrice) / entryPrice) * 100,
+    quantity,
+    notional,
+    margin,
+    liquidationPrice,
+    exceedsEquity: margin > equity,
+    stopBeyondLiquidation: liquidationPrice !== null
+      && (direction === 'long' ? stopPrice <= liquidationPrice : stopPrice >= liquidationPrice),
+  }
+}
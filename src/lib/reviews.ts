@@ -0,0 +1,143 @@
+import { addDays, endOfMonth, endOfWeek, format, isSameMonth, isWithinInterval, parseISO, startOfMonth, startOfWeek } from 'date-fns'
+import type { DailyJournal, PeriodReview, TradeEntry, TradingRule } from '@/store/tradeStore'
+import { getBrokenRules, summarizeOutcomes, type RuleOutcomeStats } from '@/lib/rules'
+import { getWrittenSections, type JournalSection } from '@/lib/dailyJournal'
+
+// Weekly and monthly reviews (PeriodReview) and the template they are written from (Settings.reviewTemplate)
+
+export type ReviewPeriod = 'week' | 'month'
+
+export const REVIEW_PERIOD_LABELS: Record<ReviewPeriod, string> = {
+  week: 'Weekly Review',
+  month: 'Monthly Review',
+}
+
+// Blocks of the review that are filled in from the period's trades
+export type ReviewStat = 'pnl' | 'winRate' | 'bestWorst' | 'topSetups' | 'ruleBreaks' | 'lessons'
+
+export const REVIEW_STAT_LABELS: Record<ReviewStat, string> = {
+  pnl: 'P&L',
+  winRate: 'Win Rate',
+  bestWorst: 'Best & Worst Trade',
+  topSetups: 'Top Setups',
+  ruleBreaks: 'Rule Breaks',
+  lessons: 'Lessons',
+}
+
+export const REVIEW_STATS = Object.keys(REVIEW_STAT_LABELS) as ReviewStat[]
+
+export interface ReviewTemplate {
+  stats: ReviewStat[] // Auto-filled blocks shown on every review, in this order
+  sections: JournalSection[] // Free-text reflection fields
+}
+
+export const DEFAULT_REVIEW_TEMPLATE: ReviewTemplate = {
+  stats: REVIEW_STATS,
+  sections: [
+    { id: 'went-well', label: 'What Went Well', prompt: 'Trades, habits and decisions worth repeating' },
+    { id: 'to-improve', label: 'What to Improve', prompt: 'Mistakes, missed trades and patterns to break' },
+    { id: 'focus', label: 'Focus for Next Period', prompt: 'One or two concrete goals' },
+  ],
+}
+
+// Weeks start on Sunday, as in the calendar
+export function getPeriodStart(period: ReviewPeriod, date: Date): string {
+  return format(period === 'week' ? startOfWeek(date) : startOfMonth(date), 'yyyy-MM-dd')
+}
+
+export function getPeriodInterval(period: ReviewPeriod, start: string): { start: Date; end: Date } {
+  const from = parseISO(start)
+  return { start: from, end: period === 'week' ? endOfWeek(from) : endOfMonth(from) }
+}
+
+// Starts of the weeks that overlap a month
+export function getWeeksOfMonth(month: Date): string[] {
+  const weeks: string[] = []
+  for (let week = startOfWeek(startOfMonth(month)); week <= endOfMonth(month); week = addDays(week, 7)) {
+    weeks.push(format(week, 'yyyy-MM-dd'))
+  }
+  return weeks
+}
+
+// e.g. "March 2025" or "Mar 30 – Apr 5, 2025"
+export function formatReviewPeriod(period: ReviewPeriod, start: string): string {
+  const { start: from, end } = getPeriodInterval(period, start)
+  if (period === 'month') return format(from, 'MMMM yyyy')
+  return `${format(from, 'MMM d')} – ${format(end, isSameMonth(from, end) ? 'd, yyyy' : 'MMM d, yyyy')}`
+}
+
+export interface ReviewSetupStats extends RuleOutcomeStats {
+  setup: string
+}
+
+export interface ReviewRuleBreak {
+  ruleId: string
+  title: string
+  count: number
+  pnl: number // Combined P&L of the trades that broke it
+}
+
+export interface ReviewStats extends RuleOutcomeStats {
+  best: TradeEntry | null
+  worst: TradeEntry | null
+  topSetups: ReviewSetupStats[] // Best three by P&L
+  ruleBreaks: ReviewRuleBreak[] // Most broken first, judged as in rule adherence
+  lessons: { date: string; lessons: string[] }[] // Lessons written on the period's trades and daily journals, by day
+}
+
+export function getPeriodEntries(entries: TradeEntry[], period: ReviewPeriod, start: string): TradeEntry[] {
+  const interval = getPeriodInterval(period, start)
+  return entries.filter(entry => isWithinInterval(parseISO(entry.date), interval))
+}
+
+export function getReviewStats(
+  entries: TradeEntry[],
+  rules: TradingRule[],
+  journals: DailyJournal[],
+  journalSections: JournalSection[],
+  period: ReviewPeriod,
+  start: string,
+): ReviewStats {
+  const interval = getPeriodInterval(period, start)
+  const trades = getPeriodEntries(entries, period, start)
+  const sorted = [...trades].sort((a, b) => b.pnl - a.pnl)
+
+  const setups = [...new Set(trades.flatMap(entry => entry.setup))]
+  const topSetups = setups
+    .map(setup => ({ setup, ...summarizeOutcomes(trades.filter(entry => entry.setup.includes(setup))) }))
+    .sort((a, b) => b.totalPnL - a.totalPnL)
+    .slice(0, 3)
+
+  const breaks = new Map<string, ReviewRuleBreak>()
+  trades.forEach(entry => {
+    getBrokenRules(entry, rules).forEach(rule => {
+      const current = breaks.get(rule.id) ?? { ruleId: rule.id, title: rule.title, count: 0, pnl: 0 }
+      breaks.set(rule.id, { ...current, count: current.count + 1, pnl: current.pnl + entry.pnl })
+    })
+  })
+
+  const lessonsByDay = new Map<string, string[]>()
+  trades.forEach(entry => {
+    if (entry.lessons?.trim()) lessonsByDay.set(entry.date, [...(lessonsByDay.get(entry.date) ?? []), entry.lessons.trim()])
+  })
+  journals
+    .filter(journal => isWithinInterval(parseISO(journal.date), interval))
+    .forEach(journal => {
+      const written = getWrittenSections(journal, journalSections).map(section => `${section.label}: ${section.text.trim()}`)
+      if (written.length > 0) lessonsByDay.set(journal.date, [...(lessonsByDay.get(journal.date) ?? []), ...written])
+    })
+
+  return {
+    ...summarizeOutcomes(trades),
+    best: sorted[0] ?? null,
+    worst: sorted.length > 1 ? sorted[sorted.length - 1] : null,
+    topSetups,
+    ruleBreaks: [...breaks.values()].sort((a, b) => b.count - a.count),
+    lessons: [...lessonsByDay.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([date, lessons]) => ({ date, lessons })),
+  }
+}
+
+// Newest period first; a week and the month it starts in are ordered week first
+export function sortReviews(reviews: PeriodReview[]): PeriodReview[] {
+  return [...reviews].sort((a, b) => b.start.localeCompare(a.start) || (a.period === 'week' ? -1 : 1))
+}
@@ -0,0 +1,94 @@
+import type { TradeEntry } from '@/store/tradeStore'
+import { DEFAULT_EMOTIONS, EMOTION_PHASE_LABELS, formatEmotionState, getRecordedEmotions, type TradeEmotions } from '@/lib/emotions'
+import { RISK_LIMIT_LABELS, type RiskOverride } from '@/lib/guardrails'
+
+export interface FieldChange {
+  field: keyof TradeEntry
+  label: string
+  before: string
+  after: string
+}
+
+// Display order and labels for the diff; fields not listed here are shown after these with their key as label
+const FIELD_LABELS: Partial<Record<keyof TradeEntry, string>> = {
+  date: 'Date',
+  accountId: 'Account',
+  coin: 'Coin',
+  setup: 'Setup',
+  direction: 'Direction',
+  pnl: 'Net P&L',
+  grossPnl: 'Gross P&L',
+  outcome: 'Outcome',
+  pnlSource: 'P&L Source',
+  entryPrice: 'Entry Price',
+  exitPrice: 'Exit Price',
+  quantity: 'Quantity',
+  multiplier: 'Contract Multiplier',
+  quoteConversion: 'Quote Conversion',
+  entryTime: 'Entry Time',
+  exitTime: 'Exit Time',
+  executions: 'Executions',
+  positionSize: 'Position Size',
+  leverage: 'Leverage',
+  commission: 'Commission',
+  funding: 'Funding',
+  otherCosts: 'Other Costs',
+  plannedStop: 'Planned Stop',
+  plannedTarget: 'Planned Target',
+  initialRisk: 'Initial Risk',
+  emotions: 'Emotions',
+  tags: 'Tags',
+  selectedRules: 'Rules Followed',
+  brokenRules: 'Mandatory Rules Broken',
+  riskOverride: 'Risk Limit Override',
+  lessons: 'Lessons',
+  notes: 'Notes',
+  link: 'Link',
+  images: 'Images',
+}
+
+// Bookkeeping fields that change on every save, or follow from other fields
+const IGNORED_FIELDS = new Set<keyof TradeEntry>(['id', 'lastSaved', 'ruleVersions', 'planId'])
+
+export function formatRevisionValue(field: keyof TradeEntry, value: unknown): string {
+  if (value === undefined || value === null || value === '') return ''
+  if (field === 'images' && Array.isArray(value)) return value.length > 0 ? `${value.length} image${value.length === 1 ? '' : 's'}` : ''
+  if (field === 'executions' && Array.isArray(value)) {
+    return value
+      .map((fill: { side: string; size: number; price: number; fee?: number }) => `${fill.side} ${fill.size} @ ${fill.price}${fill.fee ? ` (fee ${fill.fee})` : ''}`)
+      .join('; ')
+  }
+  if (field === 'emotions' && typeof value === 'object') {
+    return getRecordedEmotions(value as TradeEmotions)
+      .map(({ phase, state }) => `${EMOTION_PHASE_LABELS[phase]}: ${formatEmotionState(state, DEFAULT_EMOTIONS)}`)
+      .join('; ')
+  }
+  if (field === 'riskOverride' && typeof value === 'object') {
+    const override = value as RiskOverride
+    return `${override.limits.map(limit => RISK_LIMIT_LABELS[limit]).join(', ')}: ${override.reason}`
+  }
+  if (Array.isArray(value)) return value.join(', ')
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+// Field-by-field changes from one version of a trade to another; empty values compare equal
+export function diffTradeEntries(before: TradeEntry, after: TradeEntry): FieldChange[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)] as (keyof TradeEntry)[])
+  const ordered = [
+    ...(Object.keys(FIELD_LABELS) as (keyof TradeEntry)[]).filter(key => keys.has(key)),
+    ...[...keys].filter(key => !(key in FIELD_LABELS)),
+  ]
+
+  return ordered
+    .filter(field => !IGNORED_FIELDS.has(field))
+    .flatMap(field => {
+      const previous = before[field]
+      const next = after[field]
+      if (JSON.stringify(previous ?? '') === JSON.stringify(next ?? '')) return []
+      const formattedBefore = formatRevisionValue(field, previous)
+      const formattedAfter = formatRevisionValue(field, next)
+      if (formattedBefore === '' && formattedAfter === '') return []
+      return [{ field, label: FIELD_LABELS[field] ?? field, before: formattedBefore, after: formattedAfter }]
+    })
+}
@@ -0,0 +1,62 @@
+import type { TradeEntry } from '@/store/tradeStore'
+import { getMultiplier, getPeakPositionSize, toAccountCurrency } from '@/lib/pnl'
+import { isPositiveNumber } from '@/lib/utils'
+
+type RiskFields = Partial<Pick<TradeEntry, 'initialRisk' | 'plannedStop' | 'plannedTarget' | 'entryPrice' | 'quantity' | 'executions' | 'direction' | 'multiplier' | 'quoteConversion'>>
+
+export interface RStats {
+  trades: number // Trades with a known initial risk
+  totalR: number
+  expectancyR: number
+  avgWinR: number
+  avgLossR: number
+  winRate: number
+}
+
+// Amount lost if the planned stop had been hit: the entered risk, else derived from the stop distance
+export function getInitialRisk(entry: RiskFields): number | null {
+  if (isPositiveNumber(entry.initialRisk)) return entry.initialRisk
+  if (!isPositiveNumber(entry.entryPrice) || !isPositiveNumber(entry.plannedStop)) return null
+  const size = getPeakPositionSize(entry)
+  if (size === null) return null
+  const risk = toAccountCurrency(Math.abs(entry.entryPrice - entry.plannedStop) * size * getMultiplier(entry), entry.plannedStop, entry)
+  return risk !== null && risk > 0 ? risk : null
+}
+
+// Realized R-multiple: net P&L divided by initial risk
+export function calculateRMultiple(entry: RiskFields & Pick<TradeEntry, 'pnl'>): number | null {
+  const risk = getInitialRisk(entry)
+  return risk === null ? null : entry.pnl / risk
+}
+
+// Planned reward-to-risk from the stop and target distances around the entry
+export function calculatePlannedRewardRisk(entry: RiskFields): number | null {
+  if (!isPositiveNumber(entry.entryPrice) || !isPositiveNumber(entry.plannedStop) || !isPositiveNumber(entry.plannedTarget)) return null
+  const risk = Math.abs(entry.entryPrice - entry.plannedStop)
+  if (risk === 0) return null
+  return Math.abs(entry.plannedTarget - entry.entryPrice) / risk
+}
+
+// R-based performance over trades that have a known initial risk, or null when none do
+export function calculateRStats(entries: TradeEntry[]): RStats | null {
+  const rMultiples = entries
+    .map(entry => calculateRMultiple(entry))
+    .filter((r): r is number => r !== null)
+  if (rMultiples.length === 0) return null
+
+  const wins = rMultiples.filter(r => r > 0)
+  const losses = rMultiples.filter(r => r <= 0)
+  const totalR = rMultiples.reduce((sum, r) => sum + r, 0)
+  return {
+    trades: rMultiples.length,
+    totalR,
+    expectancyR: totalR / rMultiples.length,
+    avgWinR: wins.length > 0 ? wins.reduce((sum, r) => sum + r, 0) / wins.length : 0,
+    avgLossR: losses.length > 0 ? losses.reduce((sum, r) => sum + r, 0) / losses.length : 0,
+    winRate: (wins.length / rMultiples.length) * 100,
+  }
+}
+
+export function formatR(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}R`
+}
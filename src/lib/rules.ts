@@ -0,0 +1,114 @@
+import type { RuleVersion, TradeEntry, TradingRule } from '@/store/tradeStore'
+
+export type RuleCategory = 'entry' | 'exit' | 'risk' | 'psychology' | 'general'
+
+// Display order of the categories; 'general' holds rules written before categories existed
+export const RULE_CATEGORY_LABELS: Record<RuleCategory, string> = {
+  entry: 'Entry',
+  exit: 'Exit',
+  risk: 'Risk',
+  psychology: 'Psychology',
+  general: 'General',
+}
+
+export const RULE_CATEGORIES = Object.keys(RULE_CATEGORY_LABELS) as RuleCategory[]
+
+// Rules grouped by category, pinned first, otherwise in the user's order (their position in the store)
+export function groupRulesByCategory(rules: TradingRule[]): { category: RuleCategory; rules: TradingRule[] }[] {
+  return RULE_CATEGORIES
+    .map(category => ({
+      category,
+      rules: rules
+        .filter(rule => rule.category === category)
+        .sort((a, b) => Number(b.pinned) - Number(a.pinned)),
+    }))
+    .filter(group => group.rules.length > 0)
+}
+
+// The wording in force on a date: the latest version effective by then, else the original
+export function getRuleVersion(rule: TradingRule, date: string): RuleVersion {
+  const inForce = rule.versions.filter(v => v.effectiveFrom <= date)
+  return inForce[inForce.length - 1] ?? rule.versions[0]
+}
+
+// The wording a trade was judged against: the version it references, else the one in force on its date
+export function getTradeRuleVersion(rule: TradingRule, entry: Pick<TradeEntry, 'date' | 'ruleVersions'>): RuleVersion {
+  const referenced = entry.ruleVersions?.[rule.id]
+  return rule.versions.find(v => v.version === referenced) ?? getRuleVersion(rule, entry.date)
+}
+
+// Mandatory rules a trade has not been marked as following
+export function getUncheckedMandatoryRules(selectedRules: string[], rules: TradingRule[]): TradingRule[] {
+  return rules.filter(rule => rule.mandatory && !selectedRules.includes(rule.id))
+}
+
+type RuleTrackedEntry = Pick<TradeEntry, 'date' | 'selectedRules' | 'brokenRules'>
+
+// Trades where no rule was ticked (or confirmed broken) were never checked against the rules
+export function hasRuleData(entry: RuleTrackedEntry): boolean {
+  return (entry.selectedRules?.length ?? 0) > 0 || (entry.brokenRules?.length ?? 0) > 0
+}
+
+// Rules a trade can be judged against: those written by the trade date, plus any it was ticked against
+export function getApplicableRules(entry: RuleTrackedEntry, rules: TradingRule[]): TradingRule[] {
+  return rules.filter(rule =>
+    rule.createdAt.slice(0, 10) <= entry.date ||
+    entry.selectedRules?.includes(rule.id) ||
+    entry.brokenRules?.includes(rule.id)
+  )
+}
+
+// Applicable rules a trade was not marked as following; none for trades without rule data
+export function getBrokenRules(entry: RuleTrackedEntry, rules: TradingRule[]): TradingRule[] {
+  if (!hasRuleData(entry)) return []
+  const followed = new Set(entry.selectedRules ?? [])
+  return getApplicableRules(entry, rules).filter(rule => !followed.has(rule.id))
+}
+
+// Share (0-1) of the applicable rules a trade was marked as following; null for trades without rule data
+export function getRuleAdherence(entry: RuleTrackedEntry, rules: TradingRule[]): number | null {
+  if (!hasRuleData(entry)) return null
+  const applicable = getApplicableRules(entry, rules)
+  if (applicable.length === 0) return null
+  const followed = new Set(entry.selectedRules ?? [])
+  return applicable.filter(rule => followed.has(rule.id)).length / applicable.length
+}
+
+export interface RuleOutcomeStats {
+  trades: number
+  winRate: number | null // 0-100
+  expectancy: number | null // Average net P&L per trade
+  totalPnL: number
+}
+
+export interface RuleImpact {
+  rule: TradingRule
+  followed: RuleOutcomeStats
+  broken: RuleOutcomeStats
+  breakCost: number // P&L given up on broken trades versus the rule's followed expectancy; negative when breaking paid off
+}
+
+// Trade count, win rate, expectancy and total of a set of trades
+export function summarizeOutcomes(entries: Pick<TradeEntry, 'pnl' | 'outcome'>[]): RuleOutcomeStats {
+  const totalPnL = entries.reduce((sum, entry) => sum + entry.pnl, 0)
+  const wins = entries.filter(entry => entry.outcome === 'win').length
+  return {
+    trades: entries.length,
+    winRate: entries.length > 0 ? (wins / entries.length) * 100 : null,
+    expectancy: entries.length > 0 ? totalPnL / entries.length : null,
+    totalPnL,
+  }
+}
+
+// Followed-versus-broken performance of each rule over the trades that carry rule data
+export function getRuleImpact(entries: TradeEntry[], rules: TradingRule[]): RuleImpact[] {
+  const tracked = entries.filter(hasRuleData)
+  return rules.map(rule => {
+    const judged = tracked.filter(entry => getApplicableRules(entry, [rule]).length > 0)
+    const followed = summarizeOutcomes(judged.filter(entry => entry.selectedRules?.includes(rule.id)))
+    const broken = summarizeOutcomes(judged.filter(entry => !entry.selectedRules?.includes(rule.id)))
+    // Without followed trades to compare against, breaking is measured against breaking even
+    const breakCost = broken.trades > 0 ? broken.trades * (followed.expectancy ?? 0) - broken.totalPnL : 0
+    return { rule, followed, broken, breakCost }
+  })
+}
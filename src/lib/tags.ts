@@ -0,0 +1,49 @@
+// Colors and descriptions for the free-form tags on trades (Settings.tagDefinitions)
+
+export type TagColor = 'gray' | 'red' | 'orange' | 'amber' | 'green' | 'teal' | 'blue' | 'indigo' | 'purple' | 'pink'
+
+export interface TagDefinition {
+  name: string // Exactly as used on trades
+  color: TagColor
+  description?: string
+}
+
+// Full class strings so Tailwind keeps them in the build
+export const TAG_COLOR_CLASSES: Record<TagColor, { badge: string; swatch: string }> = {
+  gray: { badge: 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200', swatch: 'bg-gray-400' },
+  red: { badge: 'bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300', swatch: 'bg-red-500' },
+  orange: { badge: 'bg-orange-100 dark:bg-orange-900/20 text-orange-800 dark:text-orange-300', swatch: 'bg-orange-500' },
+  amber: { badge: 'bg-amber-100 dark:bg-amber-900/20 text-amber-800 dark:text-amber-300', swatch: 'bg-amber-500' },
+  green: { badge: 'bg-green-100 dark:bg-green-900/20 text-green-800 dark:text-green-300', swatch: 'bg-green-500' },
+  teal: { badge: 'bg-teal-100 dark:bg-teal-900/20 text-teal-800 dark:text-teal-300', swatch: 'bg-teal-500' },
+  blue: { badge: 'bg-blue-100 dark:bg-blue-900/20 text-blue-800 dark:text-blue-300', swatch: 'bg-blue-500' },
+  indigo: { badge: 'bg-indigo-100 dark:bg-indigo-900/20 text-indigo-800 dark:text-indigo-300', swatch: 'bg-indigo-500' },
+  purple: { badge: 'bg-purple-100 dark:bg-purple-900/20 text-purple-800 dark:text-purple-300', swatch: 'bg-purple-500' },
+  pink: { badge: 'bg-pink-100 dark:bg-pink-900/20 text-pink-800 dark:text-pink-300', swatch: 'bg-pink-500' },
+}
+
+export const TAG_COLORS = Object.keys(TAG_COLOR_CLASSES) as TagColor[]
+
+export function findTagDefinition(tag: string, definitions: TagDefinition[]): TagDefinition | undefined {
+  return definitions.find(d => d.name === tag)
+}
+
+// Tags without a chosen color get one derived from their name, so a tag looks the same everywhere
+export function getTagColor(tag: string, definitions: TagDefinition[]): TagColor {
+  const defined = findTagDefinition(tag, definitions)
+  if (defined) return defined.color
+  let hash = 0
+  for (const char of tag) hash = (hash * 31 + char.charCodeAt(0)) | 0
+  return TAG_COLORS[Math.abs(hash) % TAG_COLORS.length]
+}
+
+// Tags in use with how many trades carry each, plus defined tags no trade uses yet
+export function getTagUsage(entries: { tags: string[] }[], definitions: TagDefinition[]): { tag: string; count: number }[] {
+  const counts = new Map<string, number>(definitions.map(d => [d.name, 0]))
+  entries.forEach(entry => {
+    new Set(entry.tags).forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1))
+  })
+  return [...counts.entries()]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+}
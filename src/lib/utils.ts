@@ -3,4 +3,13 @@ import { twMerge } from "tailwind-merge"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
-} 
\ No newline at end of file
+} 
+// Lowercase slug of a label, used as the stable id of user-defined emotions and sections
+export function toSlug(label: string): string {
+  return label.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "")
+}
+
+// Finite and above zero; optional prices and sizes that are missing, zero or NaN fail it
+export function isPositiveNumber(value: unknown): value is number {
+  return typeof value === "number" && isFinite(value) && value > 0
+}
@@ -0,0 +1,558 @@
+import type { TradeEntry, Settings, CapitalEvent, TradingRule, Playbook, TradePlan, DailyJournal, PeriodReview, Account, TrashItem, TradeRevision } from './tradeStore'
+import { resolveTradePnL } from '@/lib/pnl'
+import { aliasKey } from '@/lib/aliases'
+import { getContractMultiplier, getQuoteConversion } from '@/lib/instruments'
+import { DEFAULT_JOURNAL_SECTIONS } from '@/lib/dailyJournal'
+import { DEFAULT_REVIEW_TEMPLATE } from '@/lib/reviews'
+import { DEFAULT_EMOTIONS, DEFAULT_INTENSITY, type EmotionDefinition, type EmotionState } from '@/lib/emotions'
+import { toSlug } from '@/lib/utils'
+
+// Bump this and append a step to MIGRATIONS whenever the persisted shape changes
+export const SCHEMA_VERSION = 18
+
+// The data slice of the store that is persisted and exported
+export interface PersistedTradeState {
+  entries: TradeEntry[]
+  settings: Settings
+  capitalEvents: CapitalEvent[]
+  rules: TradingRule[]
+  playbooks: Playbook[]
+  plans: TradePlan[]
+  dailyJournals: DailyJournal[]
+  reviews: PeriodReview[]
+  accounts: Account[]
+  selectedAccountId: string
+  trash: TrashItem[]
+  revisions: TradeRevision[]
+}
+
+// Version 0: unversioned data. Fields may be missing or stored with older shapes
+// (setup as a string, pnl as a string, dates with a time component, ...)
+interface LegacyEntryV0 {
+  id?: string
+  date?: string
+  setup?: string | string[]
+  pnl?: number | string
+  outcome?: string
+  tags?: unknown
+  images?: unknown
+  selectedRules?: unknown
+  [key: string]: unknown
+}
+
+interface PersistedStateV0 {
+  entries?: LegacyEntryV0[]
+  settings?: Partial<SettingsV2>
+  capitalEvents?: CapitalEventV2[]
+  rules?: TradingRuleV10[]
+}
+
+// Before risk limits: trades were never blocked
+type SettingsV16 = Omit<Settings, 'riskLimits'>
+
+// Before periodic reviews: weekly and monthly reflections were kept outside the app
+type SettingsV15 = Omit<SettingsV16, 'reviewTemplate'>
+type TrashItemV15 = Exclude<TrashItem, { kind: 'review' }>
+
+// Before the daily journal: notes were only written on trades
+type SettingsV14 = Omit<SettingsV15, 'journalSections'>
+type TrashItemV14 = Exclude<TrashItemV15, { kind: 'dailyJournal' }>
+
+// Before trade plans: every trade was logged after the fact
+type TrashItemV13 = Exclude<TrashItemV14, { kind: 'plan' }>
+
+// Before playbooks: setups were plain names
+type TrashItemV12 = Exclude<TrashItemV13, { kind: 'playbook' }>
+
+// Before rule versions: rules were edited in place
+type TradingRuleV11 = Omit<TradingRule, 'versions'>
+type TrashItemV11 = Exclude<TrashItemV12, { kind: 'rule' }> | { kind: 'rule'; item: TradingRuleV11; deletedAt: string }
+
+// Before rule categories: rules were ordered by pin and creation date and none were mandatory
+type TradingRuleV10 = Omit<TradingRuleV11, 'category' | 'mandatory'>
+type TrashItemV10 = Exclude<TrashItemV11, { kind: 'rule' }> | { kind: 'rule'; item: TradingRuleV10; deletedAt: string }
+
+// Before structured emotions: a single free-text mood per trade and no emotion taxonomy
+type SettingsV9 = Omit<SettingsV14, 'emotions'>
+type TradeEntryV9 = Omit<TradeEntry, 'emotions'> & { mood: string }
+type TrashItemV9 = Exclude<TrashItemV10, { kind: 'entry' }> | { kind: 'entry'; item: TradeEntryV9; deletedAt: string }
+type TradeRevisionV9 = Omit<TradeRevision, 'snapshot'> & { snapshot: TradeEntryV9 }
+
+// Before the tag manager: tags had no colors or descriptions
+type SettingsV8 = Omit<SettingsV9, 'tagDefinitions'>
+
+// Before the instrument registry: no user-defined instruments
+type SettingsV7 = Omit<SettingsV8, 'instruments'>
+
+// Before aliases were user-editable: they were built into the app
+type SettingsV6 = Omit<SettingsV7, 'aliases' | 'aliasFuzzyThreshold'>
+
+// Before uploads were compressed: no image settings
+type SettingsV5 = Omit<SettingsV6, 'imageMaxDimension' | 'imageFormat' | 'imageQuality'>
+
+// Before the trash existed: no retention setting
+type SettingsV3 = Omit<SettingsV5, 'trashRetentionDays'>
+
+// Before accounts existed: a single initial capital in settings and no account ids
+type SettingsV2 = SettingsV3 & { initialCapital?: number }
+type TradeEntryV2 = Omit<TradeEntryV9, 'accountId'>
+type CapitalEventV2 = Omit<CapitalEvent, 'accountId'>
+
+// Version 1: entries carry every required field with its current type
+interface PersistedStateV1 {
+  entries: TradeEntryV2[]
+  settings: SettingsV2
+  capitalEvents: CapitalEventV2[]
+  rules: TradingRuleV10[]
+}
+
+// Version 2: pnl is net of costs and grossPnl/pnlSource record how it was produced
+type PersistedStateV2 = PersistedStateV1
+
+// Version 3: trades and capital events belong to an account
+type PersistedStateV3 = Omit<PersistedStateV4, 'settings' | 'trash'> & { settings: SettingsV3 }
+
+// Version 4: deletes go to a trash with a retention period
+type PersistedStateV4 = Omit<PersistedStateV5, 'revisions'>
+
+// Version 5: trades keep a revision log
+type PersistedStateV5 = Omit<PersistedStateV6, 'settings'> & { settings: SettingsV5 }
+
+// Version 6: uploads are resized and re-encoded with user settings
+type PersistedStateV6 = Omit<PersistedStateV7, 'settings'> & { settings: SettingsV6 }
+
+// Version 7: setup/coin aliases live in settings
+type PersistedStateV7 = Omit<PersistedStateV8, 'settings'> & { settings: SettingsV7 }
+
+// Version 8: trades on instruments with a contract multiplier are valued with it
+type PersistedStateV8 = Omit<PersistedStateV9, 'settings'> & { settings: SettingsV8 }
+
+// Version 9: tags can be given colors and descriptions
+type PersistedStateV9 = Omit<PersistedStateV10, 'settings' | 'entries' | 'trash' | 'revisions'> & {
+  settings: SettingsV9
+  entries: TradeEntryV9[]
+  trash: TrashItemV9[]
+  revisions: TradeRevisionV9[]
+}
+
+// Version 10: trades record structured emotions before, during and after the trade
+type PersistedStateV10 = Omit<PersistedStateV11, 'rules' | 'trash'> & { rules: TradingRuleV10[]; trash: TrashItemV10[] }
+
+// Version 11: rules have a category, a user-defined order and can be mandatory
+type PersistedStateV11 = Omit<PersistedStateV12, 'rules' | 'trash'> & { rules: TradingRuleV11[]; trash: TrashItemV11[] }
+
+// Version 12: rules keep every wording with the date it took effect, and trades reference the one they were judged by
+type PersistedStateV12 = Omit<PersistedStateV13, 'playbooks' | 'trash'> & { trash: TrashItemV12[] }
+
+// Version 13: setups can have a playbook
+type PersistedStateV13 = Omit<PersistedStateV14, 'plans' | 'trash'> & { trash: TrashItemV13[] }
+
+// Version 14: trades can be planned ahead and converted into journaled trades
+type PersistedStateV14 = Omit<PersistedStateV15, 'dailyJournals' | 'settings' | 'trash'> & {
+  settings: SettingsV14
+  trash: TrashItemV14[]
+}
+
+// Version 15: each day can have a pre-market plan and end-of-day review
+type PersistedStateV15 = Omit<PersistedStateV16, 'reviews' | 'settings' | 'trash'> & {
+  settings: SettingsV15
+  trash: TrashItemV15[]
+}
+
+// Version 16: weeks and months can be reviewed from a template
+type PersistedStateV16 = Omit<PersistedStateV17, 'settings'> & { settings: SettingsV16 }
+
+// Version 17: risk limits guard new trades
+type PersistedStateV17 = PersistedStateV18
+
+// Version 18: P&L of pairs quoted in another currency is converted to the account currency
+type PersistedStateV18 = PersistedTradeState
+
+interface MigrationStep<From, To> {
+  version: number // Schema version produced by this step
+  description: string
+  migrate: (state: From) => To
+}
+
+// Steps appended in order; each must accept the state the previous one produces
+interface MigrationChain<State> {
+  steps: MigrationStep<unknown, unknown>[]
+  then: <Next>(step: MigrationStep<State, Next>) => MigrationChain<Next>
+}
+
+function chainMigrations<State>(steps: MigrationStep<unknown, unknown>[] = []): MigrationChain<State> {
+  return {
+    steps,
+    // The chain has checked the input type, so the step can be stored without it
+    then: <Next>(step: MigrationStep<State, Next>) =>
+      chainMigrations<Next>([...steps, step as unknown as MigrationStep<unknown, unknown>]),
+  }
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  currency: 'USD',
+  dateFormat: 'MM/DD/YYYY',
+  theme: 'light',
+  customCoins: [],
+  customSetups: [],
+  trashRetentionDays: 30,
+  imageMaxDimension: 1920,
+  imageFormat: 'webp',
+  imageQuality: 0.85,
+  aliases: {},
+  aliasFuzzyThreshold: 0.85,
+  instruments: [],
+  tagDefinitions: [],
+  emotions: DEFAULT_EMOTIONS,
+  journalSections: DEFAULT_JOURNAL_SECTIONS,
+  reviewTemplate: DEFAULT_REVIEW_TEMPLATE,
+  riskLimits: {},
+}
+
+// The alias table that used to be built into the app; data from before version 7 keeps
+// the aliases its trades actually use
+const LEGACY_ALIASES: Record<string, string> = {
+  '1h bp': '1H BP',
+  '1h break and pullback': '1H BP',
+  '1h break & pullback': '1H BP',
+  '1h break and pull': '1H BP',
+  '1h break & pull': '1H BP',
+  '1h breakpull': '1H BP',
+  '1h breakpullback': '1H BP',
+  '1h bp setup': '1H BP',
+  '1h break and pullback setup': '1H BP',
+  '1h break & pullback setup': '1H BP',
+  '1h break and pull setup': '1H BP',
+  '1h break & pull setup': '1H BP',
+  '1h breakpull setup': '1H BP',
+  '1h breakpullback setup': '1H BP',
+  'baby - 1h bp trades': 'Baby',
+  'baby - shesh setup': 'Baby',
+  'baby setup': 'Baby',
+  'babytrades': 'Baby',
+  'baby strategy': 'Baby',
+  'baby': 'Baby',
+  'btc': 'BTC',
+  'ethereum': 'ETH',
+  'solana': 'SOL',
+  'bnb': 'BNB',
+}
+
+// Every store starts with this account; data from before accounts is moved into it
+export const DEFAULT_ACCOUNT: Account = {
+  id: 'main',
+  name: 'Main Account',
+  initialCapital: 0,
+  currency: 'USD',
+  createdAt: new Date(0).toISOString(),
+}
+
+function toDateOnly(value: unknown): string {
+  if (typeof value === 'string' && value) {
+    const parsed = new Date(value)
+    if (!isNaN(parsed.getTime())) return parsed.toISOString().split('T')[0]
+  }
+  return new Date().toISOString().split('T')[0]
+}
+
+function toNumber(value: unknown): number {
+  const num = typeof value === 'string' ? parseFloat(value) : value
+  return typeof num === 'number' && isFinite(num) ? num : 0
+}
+
+function toStringArray(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((v): v is string => typeof v === 'string')
+  if (typeof value === 'string' && value.trim()) return [value.trim()]
+  return []
+}
+
+const normalizeEntries: MigrationStep<PersistedStateV0, PersistedStateV1> = {
+  version: 1,
+  description: 'Normalize entry shapes (setup array, numeric pnl, outcome, dates)',
+  migrate: (state) => ({
+    entries: (state.entries ?? []).map((entry): TradeEntryV2 => {
+      const pnl = toNumber(entry.pnl)
+      const outcome = typeof entry.outcome === 'string' ? entry.outcome.toLowerCase() : ''
+      return {
+        ...(entry as Partial<TradeEntryV2>),
+        id: entry.id || crypto.randomUUID(),
+        date: toDateOnly(entry.date),
+        lessons: typeof entry.lessons === 'string' ? entry.lessons : '',
+        setup: toStringArray(entry.setup),
+        coin: typeof entry.coin === 'string' ? entry.coin : '',
+        pnl,
+        outcome: outcome === 'win' || outcome === 'loss' ? outcome : pnl >= 0 ? 'win' : 'loss',
+        tags: toStringArray(entry.tags),
+        mood: typeof entry.mood === 'string' && entry.mood ? entry.mood : 'neutral',
+        notes: typeof entry.notes === 'string' ? entry.notes : '',
+        images: toStringArray(entry.images),
+        selectedRules: toStringArray(entry.selectedRules),
+        lastSaved: typeof entry.lastSaved === 'string' ? entry.lastSaved : new Date().toISOString(),
+        positionSize: typeof entry.positionSize === 'number' ? entry.positionSize : undefined,
+        leverage: typeof entry.leverage === 'number' ? entry.leverage : undefined,
+        link: typeof entry.link === 'string' ? entry.link : '',
+      }
+    }),
+    settings: { ...DEFAULT_SETTINGS, ...state.settings },
+    capitalEvents: Array.isArray(state.capitalEvents) ? state.capitalEvents : [],
+    rules: Array.isArray(state.rules) ? state.rules : [],
+  }),
+}
+
+const resolvePnLProvenance: MigrationStep<PersistedStateV1, PersistedStateV2> = {
+  version: 2,
+  description: 'Derive net/gross P&L from prices, executions and costs',
+  migrate: (state) => ({
+    ...state,
+    entries: state.entries.map(entry => ({ ...entry, ...resolveTradePnL(entry) })),
+  }),
+}
+
+const introduceAccounts: MigrationStep<PersistedStateV2, PersistedStateV3> = {
+  version: 3,
+  description: 'Move initial capital into a default account and assign every trade and capital event to it',
+  migrate: ({ settings: { initialCapital, ...settings }, ...state }) => {
+    const account: Account = { ...DEFAULT_ACCOUNT, initialCapital: initialCapital ?? 0, currency: settings.currency || DEFAULT_ACCOUNT.currency }
+    return {
+      ...state,
+      settings,
+      entries: state.entries.map(entry => ({ ...entry, accountId: account.id })),
+      capitalEvents: state.capitalEvents.map(event => ({ ...event, accountId: account.id })),
+      accounts: [account],
+      selectedAccountId: account.id,
+    }
+  },
+}
+
+const introduceTrash: MigrationStep<PersistedStateV3, PersistedStateV4> = {
+  version: 4,
+  description: 'Add an empty trash and the default retention period',
+  migrate: (state) => ({
+    ...state,
+    settings: { ...state.settings, trashRetentionDays: DEFAULT_SETTINGS.trashRetentionDays },
+    trash: [],
+  }),
+}
+
+const introduceRevisions: MigrationStep<PersistedStateV4, PersistedStateV5> = {
+  version: 5,
+  description: 'Add an empty revision log; existing trades get their baseline on the next edit',
+  migrate: (state) => ({ ...state, revisions: [] }),
+}
+
+const introduceImageSettings: MigrationStep<PersistedStateV5, PersistedStateV6> = {
+  version: 6,
+  description: 'Add the default image upload compression settings',
+  migrate: (state) => ({
+    ...state,
+    settings: {
+      ...state.settings,
+      imageMaxDimension: DEFAULT_SETTINGS.imageMaxDimension,
+      imageFormat: DEFAULT_SETTINGS.imageFormat,
+      imageQuality: DEFAULT_SETTINGS.imageQuality,
+    },
+  }),
+}
+
+const introduceAliases: MigrationStep<PersistedStateV6, PersistedStateV7> = {
+  version: 7,
+  description: 'Move the built-in aliases used by existing trades into editable settings',
+  migrate: (state) => {
+    const used = new Set(state.entries.flatMap(entry => [...entry.setup, entry.coin]).map(aliasKey))
+    return {
+      ...state,
+      settings: {
+        ...state.settings,
+        aliases: Object.fromEntries(Object.entries(LEGACY_ALIASES).filter(([alias]) => used.has(alias))),
+        aliasFuzzyThreshold: DEFAULT_SETTINGS.aliasFuzzyThreshold,
+      },
+    }
+  },
+}
+
+const introduceInstruments: MigrationStep<PersistedStateV7, PersistedStateV8> = {
+  version: 8,
+  description: 'Pin existing trades on instruments with a contract multiplier to 1, keeping their P&L; the registry applies to trades saved from now on',
+  migrate: (state) => {
+    // Quantities were entered as plain units before the registry, so their saved P&L stays as it is
+    const keepUnitValue = (entry: TradeEntryV9): TradeEntryV9 =>
+      getContractMultiplier(entry.coin) === 1 ? entry : { ...entry, multiplier: 1 }
+    return {
+      ...state,
+      settings: { ...state.settings, instruments: [] },
+      entries: state.entries.map(keepUnitValue),
+      trash: state.trash.map(t => t.kind === 'entry' ? { ...t, item: keepUnitValue(t.item) } : t),
+      revisions: state.revisions.map(r => ({ ...r, snapshot: keepUnitValue(r.snapshot) })),
+    }
+  },
+}
+
+const introduceTagDefinitions: MigrationStep<PersistedStateV8, PersistedStateV9> = {
+  version: 9,
+  description: 'Add empty tag definitions; tags keep their derived colors until edited',
+  migrate: (state) => ({ ...state, settings: { ...state.settings, tagDefinitions: [] } }),
+}
+
+// The moods the entry forms used to offer, as a post-trade emotion and intensity
+const LEGACY_MOODS: Record<string, EmotionState> = {
+  great: { emotion: 'satisfied', intensity: 5 },
+  good: { emotion: 'satisfied', intensity: DEFAULT_INTENSITY },
+  happy: { emotion: 'satisfied', intensity: DEFAULT_INTENSITY },
+  neutral: { emotion: 'neutral', intensity: DEFAULT_INTENSITY },
+  bad: { emotion: 'disappointed', intensity: DEFAULT_INTENSITY },
+  sad: { emotion: 'disappointed', intensity: DEFAULT_INTENSITY },
+  terrible: { emotion: 'disappointed', intensity: 5 },
+}
+
+const introduceEmotions: MigrationStep<PersistedStateV9, PersistedStateV10> = {
+  version: 10,
+  description: 'Record each trade\'s mood as its post-trade emotion; other spellings become custom emotions',
+  migrate: ({ settings, ...state }) => {
+    const emotions: EmotionDefinition[] = [...DEFAULT_EMOTIONS]
+    const toEmotions = ({ mood, ...entry }: TradeEntryV9): TradeEntry => {
+      const key = aliasKey(mood ?? '')
+      if (!key) return entry
+      const legacy = LEGACY_MOODS[key]
+      if (legacy) return { ...entry, emotions: { post: legacy } }
+      const id = toSlug(key)
+      if (!id) return entry
+      if (!emotions.some(e => e.id === id)) emotions.push({ id, label: mood.trim(), valence: 'neutral' })
+      return { ...entry, emotions: { post: { emotion: id, intensity: DEFAULT_INTENSITY } } }
+    }
+    return {
+      ...state,
+      entries: state.entries.map(toEmotions),
+      trash: state.trash.map(t => t.kind === 'entry' ? { ...t, item: toEmotions(t.item) } : t),
+      revisions: state.revisions.map(r => ({ ...r, snapshot: toEmotions(r.snapshot) })),
+      settings: { ...settings, emotions },
+    }
+  },
+}
+
+const introduceRuleCategories: MigrationStep<PersistedStateV10, PersistedStateV11> = {
+  version: 11,
+  description: 'Put existing rules in the General category, in the order they were shown, none mandatory',
+  migrate: (state) => {
+    const categorize = (rule: TradingRuleV10): TradingRuleV11 => ({ ...rule, category: 'general', mandatory: false })
+    return {
+      ...state,
+      // Pinned rules still sort first; the rest used to be newest first
+      rules: [...state.rules].sort((a, b) => b.createdAt.localeCompare(a.createdAt)).map(categorize),
+      trash: state.trash.map(t => t.kind === 'rule' ? { ...t, item: categorize(t.item) } : t),
+    }
+  },
+}
+
+const introduceRuleVersions: MigrationStep<PersistedStateV11, PersistedStateV12> = {
+  version: 12,
+  description: 'Record each rule\'s current wording as version 1 and point trades that tick or break a rule at it',
+  migrate: (state) => {
+    const versioned = (rule: TradingRuleV11): TradingRule => ({
+      ...rule,
+      versions: [{ version: 1, title: rule.title, description: rule.description, effectiveFrom: toDateOnly(rule.createdAt), createdAt: rule.createdAt }],
+    })
+    const referenceVersions = (entry: TradeEntry): TradeEntry => {
+      const ids = [...new Set([...(entry.selectedRules ?? []), ...(entry.brokenRules ?? [])])]
+      return ids.length > 0 ? { ...entry, ruleVersions: Object.fromEntries(ids.map(id => [id, 1])) } : entry
+    }
+    return {
+      ...state,
+      rules: state.rules.map(versioned),
+      entries: state.entries.map(referenceVersions),
+      trash: state.trash.map(t =>
+        t.kind === 'rule' ? { ...t, item: versioned(t.item) } : t.kind === 'entry' ? { ...t, item: referenceVersions(t.item) } : t
+      ),
+    }
+  },
+}
+
+const introducePlaybooks: MigrationStep<PersistedStateV12, PersistedStateV13> = {
+  version: 13,
+  description: 'Start without playbooks',
+  migrate: (state) => ({ ...state, playbooks: [] }),
+}
+
+const introducePlans: MigrationStep<PersistedStateV13, PersistedStateV14> = {
+  version: 14,
+  description: 'Start without trade plans',
+  migrate: (state) => ({ ...state, plans: [] }),
+}
+
+const introduceDailyJournals: MigrationStep<PersistedStateV14, PersistedStateV15> = {
+  version: 15,
+  description: 'Start without daily journals, with the default journal sections',
+  migrate: ({ settings, ...state }) => ({
+    ...state,
+    dailyJournals: [],
+    settings: { ...settings, journalSections: DEFAULT_JOURNAL_SECTIONS },
+  }),
+}
+
+const introduceReviews: MigrationStep<PersistedStateV15, PersistedStateV16> = {
+  version: 16,
+  description: 'Start without reviews, with the default review template',
+  migrate: ({ settings, ...state }) => ({
+    ...state,
+    reviews: [],
+    settings: { ...settings, reviewTemplate: DEFAULT_REVIEW_TEMPLATE },
+  }),
+}
+
+const introduceRiskLimits: MigrationStep<PersistedStateV16, PersistedStateV17> = {
+  version: 17,
+  description: 'Start with every risk limit off',
+  migrate: (state) => ({ ...state, settings: { ...state.settings, riskLimits: {} } }),
+}
+
+const introduceQuoteConversion: MigrationStep<PersistedStateV17, PersistedStateV18> = {
+  version: 18,
+  description: 'Record how trades on pairs quoted outside the account currency convert, and recompute their price-derived P&L',
+  migrate: (state) => {
+    // Trades pinned to a multiplier of 1 by version 8 were valued in dollars and stay as they are
+    const convert = (entry: TradeEntry): TradeEntry => {
+      const quoteConversion = getQuoteConversion(entry.coin, state.settings.instruments)
+      if (!quoteConversion || entry.multiplier === 1) return entry
+      const specced = { ...entry, quoteConversion }
+      return specced.pnlSource === 'manual' ? specced : { ...specced, ...resolveTradePnL(specced) }
+    }
+    return {
+      ...state,
+      entries: state.entries.map(convert),
+      trash: state.trash.map(t => t.kind === 'entry' ? { ...t, item: convert(t.item) } : t),
+      revisions: state.revisions.map(r => ({ ...r, snapshot: convert(r.snapshot) })),
+    }
+  },
+}
+
+// Ordered by version; each step receives the output of the previous one
+const MIGRATION_CHAIN: MigrationChain<PersistedTradeState> = chainMigrations<PersistedStateV0>()
+  .then(normalizeEntries)
+  .then(resolvePnLProvenance)
+  .then(introduceAccounts)
+  .then(introduceTrash)
+  .then(introduceRevisions)
+  .then(introduceImageSettings)
+  .then(introduceAliases)
+  .then(introduceInstruments)
+  .then(introduceTagDefinitions)
+  .then(introduceEmotions)
+  .then(introduceRuleCategories)
+  .then(introduceRuleVersions)
+  .then(introducePlaybooks)
+  .then(introducePlans)
+  .then(introduceDailyJournals)
+  .then(introduceReviews)
+  .then(introduceRiskLimits)
+  .then(introduceQuoteConversion)
+
+const MIGRATIONS = MIGRATION_CHAIN.steps
+
+// Upgrade persisted or imported data from `fromVersion` to SCHEMA_VERSION
+export function migratePersistedState(state: unknown, fromVersion: number): PersistedTradeState {
+  if (fromVersion > SCHEMA_VERSION) {
+    throw new Error(`Data was saved by a newer version of the app (schema ${fromVersion}). Please update the application.`)
+  }
+  return MIGRATIONS
+    .filter(step => step.version > fromVersion)
+    .reduce<unknown>((current, step) => step.migrate(current), state ?? {}) as PersistedTradeState
+}
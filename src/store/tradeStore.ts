@@ -1,9 +1,37 @@
+import { useMemo } from 'react'
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
 import localforage from 'localforage'
+import { format } from 'date-fns'
+import { resolveTradePnL } from '@/lib/pnl'
+import { diffTradeEntries } from '@/lib/revisions'
+import { aliasKey, resolveTradeName, type TradeNameKind } from '@/lib/aliases'
+import { DEFAULT_INSTRUMENTS, getContractSpecs, type Instrument, type QuoteConversion } from '@/lib/instruments'
+import type { TagDefinition } from '@/lib/tags'
+import type { EmotionDefinition, TradeEmotions } from '@/lib/emotions'
+import { getRuleVersion, type RuleCategory } from '@/lib/rules'
+import type { TradePlanStatus } from '@/lib/plans'
+import { mergeDailyJournals, mergeSectionTexts, type DayGrade, type JournalSection } from '@/lib/dailyJournal'
+import type { ReviewPeriod, ReviewTemplate } from '@/lib/reviews'
+import type { RiskLimits, RiskOverride } from '@/lib/guardrails'
+import { isInlineImage, pruneImages, storeInlineImages, type ImageFormat } from '@/lib/imageStore'
+import { DEFAULT_ACCOUNT, DEFAULT_SETTINGS, SCHEMA_VERSION, migratePersistedState, type PersistedTradeState } from './migrations'
+
+export type TradeDirection = 'long' | 'short'
+
+// A single fill; a position is built from opening fills and closed by partial exits
+export interface TradeExecution {
+  id: string
+  side: 'buy' | 'sell'
+  price: number
+  size: number
+  time?: string // ISO datetime of the fill
+  fee?: number
+}
 
 export interface TradeEntry {
   id: string
+  accountId: string
   date: string
   lessons: string
   setup: string[]
@@ -11,250 +39,923 @@ export interface TradeEntry {
   pnl: number
   outcome: 'win' | 'loss'
   tags: string[]
-  mood: string
-  images?: string[]
+  emotions?: TradeEmotions // Emotional state before, during and after the trade
+  images?: string[] // Ids in the image store (see lib/imageStore)
   notes?: string
   lastSaved?: string
   positionSize?: number
   leverage?: number
   link?: string
   selectedRules?: string[]
+  brokenRules?: string[] // Mandatory rules the trader confirmed breaking when the trade was saved
+  ruleVersions?: Record<string, number> // Rule id -> version in force on the trade date, for ticked and broken rules
+  direction?: TradeDirection
+  entryPrice?: number
+  exitPrice?: number
+  quantity?: number
+  multiplier?: number // Contract multiplier of the instrument when the trade was saved; absent means 1
+  quoteConversion?: QuoteConversion // Set when the instrument is not quoted in the account currency
+  entryTime?: string // ISO datetime the position was opened
+  exitTime?: string // ISO datetime the position was closed
+  executions?: TradeExecution[] // Ordered fills; when present they drive prices, quantity and pnl
+  pnlSource?: 'executions' | 'prices' | 'manual' // How grossPnl was produced
+  grossPnl?: number // P&L before costs; pnl is always net of costs
+  commission?: number
+  funding?: number // Funding paid; negative when received
+  otherCosts?: number
+  plannedStop?: number
+  plannedTarget?: number
+  initialRisk?: number // Amount at risk ($) when the trade was opened; derived from the stop when empty
+  planId?: string // The trade plan this trade was converted from
+  riskOverride?: RiskOverride // Why the trade was taken after a risk limit was hit
 }
 
-interface Settings {
+export interface Settings {
   currency: string
   dateFormat: string
   theme: 'light' | 'dark'
-  initialCapital: number
   customCoins: string[] // Array of user-added coins
   customSetups: string[] // Array of user-added setups
+  trashRetentionDays: number // Trashed items older than this are purged; 0 keeps them forever
+  imageMaxDimension: number // Uploaded images are scaled down to this longest edge; 0 keeps the original size
+  imageFormat: ImageFormat // Format uploads are re-encoded to
+  imageQuality: number // Encoder quality for uploads, 0-1
+  aliases: Record<string, string> // Lowercase setup/coin spelling -> canonical name
+  aliasFuzzyThreshold: number // Minimum similarity (0-1) for a near-miss to match an alias; 1 means exact only
+  instruments: Instrument[] // User-defined instruments; a symbol here overrides the built-in spec
+  tagDefinitions: TagDefinition[] // Colors and descriptions for tags
+  emotions: EmotionDefinition[] // Emotion taxonomy offered when recording a trade
+  journalSections: JournalSection[] // Sections of the daily journal, in display order
+  reviewTemplate: ReviewTemplate // Stats and reflection fields of weekly and monthly reviews
+  riskLimits: RiskLimits // Loss and trade count limits; new trades past one need an override
 }
 
-// Default coins that cannot be deleted
-const DEFAULT_COINS = ['BTC', 'ETH', 'BNB', 'SOL', 'XRP', 'ADA', 'DOGE', 'DOT', 'AVAX', 'MATIC']
+// A trading account or portfolio; trades and capital events belong to exactly one
+export interface Account {
+  id: string;
+  name: string;
+  initialCapital: number;
+  currency: string;
+  createdAt: string;
+}
+
+// Account switcher value that aggregates every account
+export const ALL_ACCOUNTS = 'all'
 
 // Add CapitalEvent type for deposits/withdrawals
 export interface CapitalEvent {
   id: string;
+  accountId: string;
   date: string;
   amount: number; // Positive for deposit, negative for withdrawal
   type: 'deposit' | 'withdrawal';
   note?: string;
 }
 
-export interface TradingRule {
+// A trade planned before it is taken; converting it starts a trade pre-filled from the plan
+export interface TradePlan {
   id: string;
+  accountId: string;
+  date: string; // Day the trade is planned for
+  coin: string;
+  setup: string[];
+  direction: TradeDirection;
+  thesis: string;
+  entryPrice?: number;
+  plannedStop?: number;
+  plannedTarget?: number;
+  positionSize?: number; // $
+  leverage?: number;
+  selectedRules: string[]; // Rules the trade is meant to follow
+  status: TradePlanStatus;
+  entryId?: string; // The trade it was converted into
+  skipReason?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A day's pre-market plan and end-of-day review; one per date, shared by every account
+export interface DailyJournal {
+  id: string;
+  date: string; // yyyy-MM-dd
+  sections: Record<string, string>; // JournalSection id -> text
+  grade?: DayGrade;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A weekly or monthly review; its stats are computed from the period's trades, only the reflections are stored
+export interface PeriodReview {
+  id: string;
+  period: ReviewPeriod;
+  start: string; // First day of the period (yyyy-MM-dd)
+  sections: Record<string, string>; // Reflection field id -> text
+  createdAt: string;
+  updatedAt: string;
+}
+
+// One wording of a rule; trades taken on or after effectiveFrom are judged against it until the next version
+export interface RuleVersion {
+  version: number; // 1 for the original wording
   title: string;
   description?: string;
+  effectiveFrom: string; // Date (yyyy-MM-dd)
+  createdAt: string;
+}
+
+export interface TradingRule {
+  id: string;
+  title: string; // Latest wording; older ones are kept in versions
+  description?: string;
+  category: RuleCategory;
   pinned: boolean;
+  mandatory: boolean; // Saving a trade without following it asks for confirmation
+  versions: RuleVersion[]; // Oldest first, ordered by version and effective date
   createdAt: string;
   updatedAt: string;
 }
 
+// An annotated chart showing the setup
+export interface PlaybookExample {
+  imageId: string;
+  caption?: string;
+}
+
+// How a setup is traded: what must be true to enter, what voids the idea, and the rules that apply
+export interface Playbook {
+  id: string;
+  setup: string; // Setup name; trades match it through the alias dictionary
+  description?: string;
+  entryCriteria: string[];
+  invalidation: string[];
+  timeframes: string[];
+  ruleIds: string[]; // Linked TradingRules
+  examples: PlaybookExample[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A trade as it was saved; the log is append-only and each entry's first revision is its original state
+export interface TradeRevision {
+  id: string
+  entryId: string
+  savedAt: string
+  source?: string // Where the save came from, e.g. 'Calendar', 'Journal' or a revert
+  snapshot: TradeEntry
+}
+
+// Soft-deleted records, kept until restored, deleted permanently or past the retention period
+export type TrashItem =
+  | { kind: 'entry'; item: TradeEntry; deletedAt: string }
+  | { kind: 'rule'; item: TradingRule; deletedAt: string }
+  | { kind: 'capitalEvent'; item: CapitalEvent; deletedAt: string }
+  | { kind: 'playbook'; item: Playbook; deletedAt: string }
+  | { kind: 'plan'; item: TradePlan; deletedAt: string }
+  | { kind: 'dailyJournal'; item: DailyJournal; deletedAt: string }
+  | { kind: 'review'; item: PeriodReview; deletedAt: string }
+
+// New records go to the given account, else the selected one, else the first account
+type AccountAssignable<T extends { accountId: string }> = Omit<T, 'id' | 'accountId'> & { accountId?: string }
+
+// Data slices that undo/redo can restore
+type UndoableState = Pick<TradeStore, 'entries' | 'settings' | 'capitalEvents' | 'rules' | 'playbooks' | 'plans' | 'dailyJournals' | 'reviews' | 'accounts' | 'trash' | 'revisions'>
+
+// One undoable action: the values of the slices it changed, as they were before (or, on the redo stack, after)
+export interface HistoryStep {
+  label: string
+  state: Partial<UndoableState>
+}
+
+// Undo/redo keeps this many steps; history lives in memory only and is never persisted
+const HISTORY_LIMIT = 50
+
 interface TradeStore {
   entries: TradeEntry[]
   settings: Settings
   capitalEvents: CapitalEvent[]
   rules: TradingRule[]
-  addEntry: (entry: Omit<TradeEntry, 'id'>) => void
-  updateEntry: (id: string, entry: Partial<TradeEntry>) => void
+  playbooks: Playbook[]
+  plans: TradePlan[]
+  dailyJournals: DailyJournal[]
+  reviews: PeriodReview[]
+  accounts: Account[]
+  selectedAccountId: string // An account id or ALL_ACCOUNTS
+  trash: TrashItem[]
+  revisions: TradeRevision[]
+  past: HistoryStep[]
+  future: HistoryStep[]
+  addEntry: (entry: AccountAssignable<TradeEntry>, source?: string) => void
+  updateEntry: (id: string, entry: Partial<TradeEntry>, source?: string) => void
+  revertEntry: (id: string, revisionId: string) => void
   deleteEntry: (id: string) => void
+  deleteEntries: (ids: string[]) => void
   updateSettings: (settings: Partial<Settings>) => void
-  clearAllData: () => void
+  clearAllData: (options?: { keepTrash?: boolean }) => void
   addCustomCoin: (coin: string) => void
   removeCustomCoin: (coin: string) => void
   addCustomSetup: (setup: string) => void
   removeCustomSetup: (setup: string) => void
-  addCapitalEvent: (event: Omit<CapitalEvent, 'id'>) => void
+  mergeTradeNames: (kind: TradeNameKind, from: string[], to: string, options?: { addAliases?: boolean }) => void
+  mergeTags: (from: string[], to: string) => void
+  deleteTag: (tag: string) => void
+  addCapitalEvent: (event: AccountAssignable<CapitalEvent>) => void
   updateCapitalEvent: (id: string, event: Partial<CapitalEvent>) => void
   deleteCapitalEvent: (id: string) => void
-  addRule: (rule: Omit<TradingRule, 'id' | 'createdAt' | 'updatedAt'>) => void
-  updateRule: (id: string, rule: Partial<TradingRule>) => void
+  addRule: (rule: Omit<TradingRule, 'id' | 'versions' | 'createdAt' | 'updatedAt'>) => void
+  updateRule: (id: string, rule: Partial<Omit<TradingRule, 'id' | 'versions'>>, options?: { effectiveFrom?: string }) => void
   deleteRule: (id: string) => void
   toggleRulePin: (id: string) => void
+  moveRule: (id: string, targetId: string) => void
+  addPlaybook: (playbook: Omit<Playbook, 'id' | 'createdAt' | 'updatedAt'>) => void
+  updatePlaybook: (id: string, playbook: Partial<Omit<Playbook, 'id' | 'createdAt' | 'updatedAt'>>) => void
+  deletePlaybook: (id: string) => void
+  addPlan: (plan: AccountAssignable<Omit<TradePlan, 'status' | 'entryId' | 'skipReason' | 'createdAt' | 'updatedAt'>>) => void
+  updatePlan: (id: string, plan: Partial<Omit<TradePlan, 'id' | 'createdAt' | 'updatedAt'>>) => void
+  deletePlan: (id: string) => void
+  saveDailyJournal: (date: string, journal: Pick<DailyJournal, 'sections' | 'grade'>) => void
+  deleteDailyJournal: (id: string) => void
+  saveReview: (period: ReviewPeriod, start: string, sections: Record<string, string>) => void
+  deleteReview: (id: string) => void
+  addAccount: (account: Omit<Account, 'id' | 'createdAt'>) => string
+  updateAccount: (id: string, account: Partial<Omit<Account, 'id'>>) => void
+  deleteAccount: (id: string) => void
+  setSelectedAccount: (id: string) => void
+  restoreFromTrash: (ids: string[]) => void
+  deleteFromTrash: (ids: string[]) => void
+  emptyTrash: () => void
+  purgeExpiredTrash: () => void
+  undo: () => string | null // Returns the label of the undone step
+  redo: () => string | null
+}
+
+function getTargetAccountId(state: Pick<TradeStore, 'accounts' | 'selectedAccountId'>, accountId?: string): string {
+  if (accountId) return accountId
+  if (state.selectedAccountId !== ALL_ACCOUNTS) return state.selectedAccountId
+  return state.accounts[0]?.id ?? DEFAULT_ACCOUNT.id
+}
+
+// Pushes the current values of the slices an action is about to change onto the undo stack
+function withHistory(state: TradeStore, label: string, changes: Partial<UndoableState>): Partial<TradeStore> {
+  return {
+    ...changes,
+    past: [...state.past, { label, state: pickSlices(state, changes) }].slice(-HISTORY_LIMIT),
+    future: [],
+  }
+}
+
+function toTrash<T extends TrashItem>(kind: T['kind'], items: T['item'][]): TrashItem[] {
+  const deletedAt = new Date().toISOString()
+  return items.map((item) => ({ kind, item, deletedAt }) as T)
+}
+
+// Looks up the contract specs for new trades and when the symbol changes; otherwise the saved ones are kept
+function withContractSpecs<T extends Partial<TradeEntry>>(entry: T, instruments: Instrument[], previous?: TradeEntry): T {
+  if (previous && entry.coin === previous.coin) return entry
+  const { multiplier, quoteConversion } = getContractSpecs(entry.coin, instruments)
+  return { ...entry, multiplier: multiplier === 1 ? undefined : multiplier, quoteConversion }
+}
+
+// Records which wording of each ticked or broken rule was in force on the trade date; references to
+// rules that no longer exist are kept
+function withRuleVersions<T extends Partial<TradeEntry>>(entry: T, rules: TradingRule[]): T {
+  const ids = new Set([...(entry.selectedRules ?? []), ...(entry.brokenRules ?? [])])
+  const ruleVersions = {
+    ...Object.fromEntries(Object.entries(entry.ruleVersions ?? {}).filter(([id]) => ids.has(id))),
+    ...Object.fromEntries(rules.filter((r) => ids.has(r.id)).map((r) => [r.id, getRuleVersion(r, entry.date ?? '').version])),
+  }
+  return { ...entry, ruleVersions: Object.keys(ruleVersions).length > 0 ? ruleVersions : undefined }
+}
+
+function createRevision(entry: TradeEntry, source?: string, savedAt = new Date().toISOString()): TradeRevision {
+  return { id: crypto.randomUUID(), entryId: entry.id, savedAt, source, snapshot: entry }
+}
+
+// Appends the saved version of a trade; entries from before revisions existed first get their previous state as a baseline
+function appendRevision(revisions: TradeRevision[], previous: TradeEntry, saved: TradeEntry, source?: string): TradeRevision[] {
+  if (diffTradeEntries(previous, saved).length === 0) return revisions
+  const baseline = revisions.some((r) => r.entryId === previous.id)
+    ? []
+    : [createRevision(previous, 'Original', previous.lastSaved)]
+  return [...revisions, ...baseline, createRevision(saved, source)]
+}
+
+// Revisions are kept while their trade exists or is in the trash
+function pruneRevisions(revisions: TradeRevision[], entries: TradeEntry[], trash: TrashItem[]): TradeRevision[] {
+  const ids = new Set([...entries.map((e) => e.id), ...trash.flatMap((t) => (t.kind === 'entry' ? [t.item.id] : []))])
+  return revisions.filter((r) => ids.has(r.entryId))
+}
+
+function pickSlices(state: TradeStore, keys: Partial<UndoableState>): Partial<UndoableState> {
+  return Object.fromEntries(Object.keys(keys).map((key) => [key, state[key as keyof UndoableState]]))
 }
 
 export const useTradeStore = create<TradeStore>()(
   persist(
-    (set) => ({
+    (set, get) => ({
       entries: [],
-      settings: {
-        currency: 'USD',
-        dateFormat: 'MM/DD/YYYY',
-        theme: 'light',
-        initialCapital: 0,
-        customCoins: [],
-        customSetups: [],
-      },
+      settings: DEFAULT_SETTINGS,
       capitalEvents: [],
       rules: [],
-      addEntry: (entry) =>
-        set((state) => ({
-          entries: [
-            ...state.entries,
-            { ...entry, id: crypto.randomUUID() },
-          ],
-        })),
-      updateEntry: (id, entry) =>
-        set((state) => ({
-          entries: state.entries.map((e) =>
-            e.id === id ? { ...e, ...entry } : e
-          ),
-        })),
+      playbooks: [],
+      plans: [],
+      dailyJournals: [],
+      reviews: [],
+      accounts: [DEFAULT_ACCOUNT],
+      selectedAccountId: DEFAULT_ACCOUNT.id,
+      trash: [],
+      revisions: [],
+      past: [],
+      future: [],
+      // A trade converted from a plan marks the plan as converted and links back to it
+      addEntry: (entry, source) =>
+        set((state) => {
+          const specced = withRuleVersions(withContractSpecs(entry, state.settings.instruments), state.rules)
+          const created = { ...specced, ...resolveTradePnL(specced), accountId: getTargetAccountId(state, entry.accountId), id: crypto.randomUUID() }
+          const plans = created.planId
+            ? state.plans.map((p) => (p.id === created.planId ? { ...p, status: 'converted' as const, entryId: created.id, updatedAt: new Date().toISOString() } : p))
+            : undefined
+          return withHistory(state, 'Add trade', {
+            entries: [...state.entries, created],
+            ...(plans && { plans }),
+            revisions: [...state.revisions, createRevision(created, source)],
+          })
+        }),
+      updateEntry: (id, entry, source) =>
+        set((state) => {
+          const previous = state.entries.find((e) => e.id === id)
+          if (!previous) return state
+          const merged = withRuleVersions(withContractSpecs({ ...previous, ...entry }, state.settings.instruments, previous), state.rules)
+          const updated = { ...merged, ...resolveTradePnL(merged) }
+          return withHistory(state, 'Edit trade', {
+            entries: state.entries.map((e) => (e.id === id ? updated : e)),
+            revisions: appendRevision(state.revisions, previous, updated, source),
+          })
+        }),
+      // Replaces the trade with an earlier revision; the revert is itself logged as a new revision
+      revertEntry: (id, revisionId) =>
+        set((state) => {
+          const previous = state.entries.find((e) => e.id === id)
+          const revision = state.revisions.find((r) => r.id === revisionId && r.entryId === id)
+          if (!previous || !revision) return state
+          const accountExists = state.accounts.some((a) => a.id === revision.snapshot.accountId)
+          const reverted: TradeEntry = {
+            ...revision.snapshot,
+            id,
+            accountId: accountExists ? revision.snapshot.accountId : previous.accountId,
+            lastSaved: new Date().toISOString(),
+          }
+          const source = `Reverted to version from ${new Date(revision.savedAt).toLocaleString()}`
+          return withHistory(state, 'Revert trade', {
+            entries: state.entries.map((e) => (e.id === id ? reverted : e)),
+            revisions: appendRevision(state.revisions, previous, reverted, source),
+          })
+        }),
       deleteEntry: (id) =>
-        set((state) => ({
+        set((state) => withHistory(state, 'Delete trade', {
           entries: state.entries.filter((e) => e.id !== id),
+          trash: [...state.trash, ...toTrash('entry', state.entries.filter((e) => e.id === id))],
+        })),
+      deleteEntries: (ids) =>
+        set((state) => withHistory(state, `Delete ${ids.length} trade${ids.length === 1 ? '' : 's'}`, {
+          entries: state.entries.filter((e) => !ids.includes(e.id)),
+          trash: [...state.trash, ...toTrash('entry', state.entries.filter((e) => ids.includes(e.id)))],
         })),
       updateSettings: (newSettings) =>
-        set((state) => ({
+        set((state) => withHistory(state, 'Change settings', {
           settings: { ...state.settings, ...newSettings },
         })),
-      clearAllData: () =>
-        set(() => ({
+      clearAllData: (options) =>
+        set((state) => ({
           entries: [],
-          settings: {
-            currency: 'USD',
-            dateFormat: 'MM/DD/YYYY',
-            theme: 'light',
-            initialCapital: 0,
-            customCoins: [],
-            customSetups: [],
-          },
+          settings: DEFAULT_SETTINGS,
           capitalEvents: [],
           rules: [],
+          playbooks: [],
+          plans: [],
+          dailyJournals: [],
+          reviews: [],
+          accounts: [DEFAULT_ACCOUNT],
+          selectedAccountId: DEFAULT_ACCOUNT.id,
+          trash: options?.keepTrash ? state.trash : [],
+          revisions: options?.keepTrash ? pruneRevisions(state.revisions, [], state.trash) : [],
+          past: [],
+          future: [],
         })),
       addCustomCoin: (coin) =>
-        set((state) => ({
+        set((state) => withHistory(state, 'Add coin', {
           settings: {
             ...state.settings,
             customCoins: [...new Set([...(state.settings.customCoins || []), coin.toUpperCase()])],
           },
         })),
       removeCustomCoin: (coin) =>
-        set((state) => ({
+        set((state) => withHistory(state, 'Remove coin', {
           settings: {
             ...state.settings,
             customCoins: state.settings.customCoins.filter((c) => c !== coin),
           },
         })),
       addCustomSetup: (setup) =>
-        set((state) => ({
+        set((state) => withHistory(state, 'Add setup', {
           settings: {
             ...state.settings,
             customSetups: [...new Set([...(state.settings.customSetups || []), setup.trim()])],
           },
         })),
       removeCustomSetup: (setup) =>
-        set((state) => ({
+        set((state) => withHistory(state, 'Remove setup', {
           settings: {
             ...state.settings,
             customSetups: state.settings.customSetups.filter((s) => s !== setup),
           },
         })),
+      // Renames setups or coins on every trade; several names merged into one collapse to a single value
+      mergeTradeNames: (kind, from, to, options) =>
+        set((state) => {
+          const target = kind === 'coin' ? to.trim().toUpperCase() : to.trim()
+          const fromKeys = new Set(from.map(aliasKey))
+          if (!target || fromKeys.size === 0) return state
+
+          let revisions = state.revisions
+          const entries = state.entries.map((entry) => {
+            if (kind === 'coin') {
+              if (!fromKeys.has(aliasKey(entry.coin))) return entry
+              const updated = { ...entry, coin: target }
+              revisions = appendRevision(revisions, entry, updated, 'Merged coins')
+              return updated
+            }
+            if (!entry.setup.some((s) => fromKeys.has(aliasKey(s)))) return entry
+            const setup = [...new Set(entry.setup.map((s) => (fromKeys.has(aliasKey(s)) ? target : s)))]
+            const updated = { ...entry, setup }
+            revisions = appendRevision(revisions, entry, updated, 'Merged setups')
+            return updated
+          })
+
+          const customKey = kind === 'coin' ? 'customCoins' : 'customSetups'
+          const custom = state.settings[customKey].filter((name) => !fromKeys.has(aliasKey(name)))
+          const isDefault = kind === 'coin' && DEFAULT_INSTRUMENTS.some((i) => i.symbol === target)
+          // Aliases that pointed at a merged name follow it; optionally the old spellings become aliases too
+          const aliases = Object.fromEntries(
+            Object.entries(state.settings.aliases).map(([alias, canonical]) => [alias, fromKeys.has(aliasKey(canonical)) ? target : canonical])
+          )
+          if (options?.addAliases) {
+            fromKeys.forEach((key) => {
+              if (key !== aliasKey(target)) aliases[key] = target
+            })
+          }
+
+          // A merged setup's playbook follows it, unless the target already has one
+          let hasPlaybook = state.playbooks.some((p) => aliasKey(p.setup) === aliasKey(target))
+          const playbooks = kind === 'coin' ? state.playbooks : state.playbooks.map((p) => {
+            if (hasPlaybook || !fromKeys.has(aliasKey(p.setup))) return p
+            hasPlaybook = true
+            return { ...p, setup: target, updatedAt: new Date().toISOString() }
+          })
+
+          return withHistory(state, `Merge ${kind}s into ${target}`, {
+            entries,
+            playbooks,
+            settings: {
+              ...state.settings,
+              [customKey]: isDefault || custom.includes(target) ? custom : [...custom, target],
+              aliases,
+            },
+            revisions,
+          })
+        }),
+      // Renames tags on every trade; merging several keeps the first definition found for the new name
+      mergeTags: (from, to) =>
+        set((state) => {
+          const target = to.trim()
+          if (!target || from.length === 0) return state
+          let revisions = state.revisions
+          const entries = state.entries.map((entry) => {
+            if (!entry.tags.some((t) => from.includes(t))) return entry
+            const updated = { ...entry, tags: [...new Set(entry.tags.map((t) => (from.includes(t) ? target : t)))] }
+            revisions = appendRevision(revisions, entry, updated, 'Merged tags')
+            return updated
+          })
+          const definition =
+            state.settings.tagDefinitions.find((d) => d.name === target) ??
+            state.settings.tagDefinitions.find((d) => from.includes(d.name))
+          const tagDefinitions = [
+            ...state.settings.tagDefinitions.filter((d) => d.name !== target && !from.includes(d.name)),
+            ...(definition ? [{ ...definition, name: target }] : []),
+          ]
+          return withHistory(state, from.length > 1 ? `Merge tags into ${target}` : `Rename tag to ${target}`, {
+            entries,
+            settings: { ...state.settings, tagDefinitions },
+            revisions,
+          })
+        }),
+      deleteTag: (tag) =>
+        set((state) => {
+          let revisions = state.revisions
+          const entries = state.entries.map((entry) => {
+            if (!entry.tags.includes(tag)) return entry
+            const updated = { ...entry, tags: entry.tags.filter((t) => t !== tag) }
+            revisions = appendRevision(revisions, entry, updated, 'Deleted tag')
+            return updated
+          })
+          return withHistory(state, `Delete tag ${tag}`, {
+            entries,
+            settings: { ...state.settings, tagDefinitions: state.settings.tagDefinitions.filter((d) => d.name !== tag) },
+            revisions,
+          })
+        }),
       addCapitalEvent: (event) =>
-        set((state) => ({
+        set((state) => withHistory(state, event.type === 'withdrawal' ? 'Add withdrawal' : 'Add deposit', {
           capitalEvents: [
             ...state.capitalEvents,
-            { ...event, id: crypto.randomUUID() },
+            { ...event, accountId: getTargetAccountId(state, event.accountId), id: crypto.randomUUID() },
           ],
         })),
       updateCapitalEvent: (id, event) =>
-        set((state) => ({
+        set((state) => withHistory(state, 'Edit capital event', {
           capitalEvents: state.capitalEvents.map((e) =>
             e.id === id ? { ...e, ...event } : e
           ),
         })),
       deleteCapitalEvent: (id) =>
-        set((state) => ({
+        set((state) => withHistory(state, 'Delete capital event', {
           capitalEvents: state.capitalEvents.filter((e) => e.id !== id),
+          trash: [...state.trash, ...toTrash('capitalEvent', state.capitalEvents.filter((e) => e.id === id))],
         })),
       addRule: (rule) =>
-        set((state) => ({
-          rules: [
-            ...state.rules,
-            { ...rule, id: crypto.randomUUID(), createdAt: new Date().toISOString(), updatedAt: new Date().toISOString() },
-          ],
-        })),
-      updateRule: (id, rule) =>
-        set((state) => ({
-          rules: state.rules.map((r) =>
-            r.id === id ? { ...r, ...rule } : r
-          ),
-        })),
+        set((state) => {
+          const now = new Date().toISOString()
+          const version: RuleVersion = { version: 1, title: rule.title, description: rule.description, effectiveFrom: format(new Date(), 'yyyy-MM-dd'), createdAt: now }
+          return withHistory(state, 'Add rule', {
+            rules: [...state.rules, { ...rule, id: crypto.randomUUID(), versions: [version], createdAt: now, updatedAt: now }],
+          })
+        }),
+      // A new title or description is saved as a new version, effective from the given date (default today)
+      // but never before the current version; trades that reference the rule are re-pointed by date
+      updateRule: (id, rule, options) =>
+        set((state) => {
+          const previous = state.rules.find((r) => r.id === id)
+          if (!previous) return state
+          const updated = { ...previous, ...rule }
+          if (updated.title === previous.title && (updated.description ?? '') === (previous.description ?? '')) {
+            return withHistory(state, 'Edit rule', { rules: state.rules.map((r) => (r.id === id ? updated : r)) })
+          }
+          const current = previous.versions[previous.versions.length - 1]
+          const requested = options?.effectiveFrom || format(new Date(), 'yyyy-MM-dd')
+          const version: RuleVersion = {
+            version: (current?.version ?? 0) + 1,
+            title: updated.title,
+            description: updated.description,
+            effectiveFrom: current && requested < current.effectiveFrom ? current.effectiveFrom : requested,
+            createdAt: new Date().toISOString(),
+          }
+          const versioned = { ...updated, versions: [...previous.versions, version] }
+          return withHistory(state, 'Edit rule', {
+            rules: state.rules.map((r) => (r.id === id ? versioned : r)),
+            entries: state.entries.map((e) =>
+              e.ruleVersions?.[id] !== undefined
+                ? { ...e, ruleVersions: { ...e.ruleVersions, [id]: getRuleVersion(versioned, e.date).version } }
+                : e
+            ),
+          })
+        }),
       deleteRule: (id) =>
-        set((state) => ({
+        set((state) => withHistory(state, 'Delete rule', {
           rules: state.rules.filter((r) => r.id !== id),
+          trash: [...state.trash, ...toTrash('rule', state.rules.filter((r) => r.id === id))],
         })),
       toggleRulePin: (id) =>
-        set((state) => ({
+        set((state) => withHistory(state, 'Pin rule', {
           rules: state.rules.map((r) =>
             r.id === id ? { ...r, pinned: !r.pinned } : r
           ),
         })),
+      // Moves a rule to another rule's position, taking on its category
+      moveRule: (id, targetId) =>
+        set((state) => {
+          const rule = state.rules.find((r) => r.id === id)
+          const target = state.rules.find((r) => r.id === targetId)
+          if (!rule || !target || id === targetId) return state
+          const rest = state.rules.filter((r) => r.id !== id)
+          const index = rest.indexOf(target) + (state.rules.indexOf(rule) < state.rules.indexOf(target) ? 1 : 0)
+          return withHistory(state, 'Reorder rules', {
+            rules: [...rest.slice(0, index), { ...rule, category: target.category }, ...rest.slice(index)],
+          })
+        }),
+      addPlaybook: (playbook) =>
+        set((state) => {
+          const now = new Date().toISOString()
+          return withHistory(state, 'Add playbook', {
+            playbooks: [...state.playbooks, { ...playbook, id: crypto.randomUUID(), createdAt: now, updatedAt: now }],
+          })
+        }),
+      updatePlaybook: (id, playbook) =>
+        set((state) => withHistory(state, 'Edit playbook', {
+          playbooks: state.playbooks.map((p) =>
+            p.id === id ? { ...p, ...playbook, updatedAt: new Date().toISOString() } : p
+          ),
+        })),
+      deletePlaybook: (id) =>
+        set((state) => withHistory(state, 'Delete playbook', {
+          playbooks: state.playbooks.filter((p) => p.id !== id),
+          trash: [...state.trash, ...toTrash('playbook', state.playbooks.filter((p) => p.id === id))],
+        })),
+      addPlan: (plan) =>
+        set((state) => {
+          const now = new Date().toISOString()
+          return withHistory(state, 'Add trade plan', {
+            plans: [
+              ...state.plans,
+              { ...plan, accountId: getTargetAccountId(state, plan.accountId), id: crypto.randomUUID(), status: 'planned', createdAt: now, updatedAt: now },
+            ],
+          })
+        }),
+      updatePlan: (id, plan) =>
+        set((state) => withHistory(state, 'Edit trade plan', {
+          plans: state.plans.map((p) =>
+            p.id === id ? { ...p, ...plan, updatedAt: new Date().toISOString() } : p
+          ),
+        })),
+      deletePlan: (id) =>
+        set((state) => withHistory(state, 'Delete trade plan', {
+          plans: state.plans.filter((p) => p.id !== id),
+          trash: [...state.trash, ...toTrash('plan', state.plans.filter((p) => p.id === id))],
+        })),
+      // Creates the day's journal or replaces its contents
+      saveDailyJournal: (date, journal) =>
+        set((state) => {
+          const now = new Date().toISOString()
+          const existing = state.dailyJournals.find((j) => j.date === date)
+          return withHistory(state, 'Save daily journal', {
+            dailyJournals: existing
+              ? state.dailyJournals.map((j) => (j.id === existing.id ? { ...j, ...journal, updatedAt: now } : j))
+              : [...state.dailyJournals, { ...journal, id: crypto.randomUUID(), date, createdAt: now, updatedAt: now }],
+          })
+        }),
+      deleteDailyJournal: (id) =>
+        set((state) => withHistory(state, 'Delete daily journal', {
+          dailyJournals: state.dailyJournals.filter((j) => j.id !== id),
+          trash: [...state.trash, ...toTrash('dailyJournal', state.dailyJournals.filter((j) => j.id === id))],
+        })),
+      // Creates the period's review or replaces its reflections
+      saveReview: (period, start, sections) =>
+        set((state) => {
+          const now = new Date().toISOString()
+          const existing = state.reviews.find((r) => r.period === period && r.start === start)
+          return withHistory(state, `Save ${period === 'week' ? 'weekly' : 'monthly'} review`, {
+            reviews: existing
+              ? state.reviews.map((r) => (r.id === existing.id ? { ...r, sections, updatedAt: now } : r))
+              : [...state.reviews, { id: crypto.randomUUID(), period, start, sections, createdAt: now, updatedAt: now }],
+          })
+        }),
+      deleteReview: (id) =>
+        set((state) => withHistory(state, 'Delete review', {
+          reviews: state.reviews.filter((r) => r.id !== id),
+          trash: [...state.trash, ...toTrash('review', state.reviews.filter((r) => r.id === id))],
+        })),
+      addAccount: (account) => {
+        const id = crypto.randomUUID()
+        set((state) => withHistory(state, 'Add account', {
+          accounts: [...state.accounts, { ...account, id, createdAt: new Date().toISOString() }],
+        }))
+        return id
+      },
+      updateAccount: (id, account) =>
+        set((state) => withHistory(state, 'Edit account', {
+          accounts: state.accounts.map((a) =>
+            a.id === id ? { ...a, ...account } : a
+          ),
+        })),
+      // Removes the account and moves its trades, capital events and plans to the trash; the last account is kept
+      deleteAccount: (id) =>
+        set((state) => {
+          if (state.accounts.length <= 1) return state
+          return {
+            ...withHistory(state, 'Delete account', {
+              accounts: state.accounts.filter((a) => a.id !== id),
+              entries: state.entries.filter((e) => e.accountId !== id),
+              capitalEvents: state.capitalEvents.filter((e) => e.accountId !== id),
+              plans: state.plans.filter((p) => p.accountId !== id),
+              trash: [
+                ...state.trash,
+                ...toTrash('entry', state.entries.filter((e) => e.accountId === id)),
+                ...toTrash('capitalEvent', state.capitalEvents.filter((e) => e.accountId === id)),
+                ...toTrash('plan', state.plans.filter((p) => p.accountId === id)),
+              ],
+            }),
+            selectedAccountId: state.selectedAccountId === id ? ALL_ACCOUNTS : state.selectedAccountId,
+          }
+        }),
+      setSelectedAccount: (id) =>
+        set(() => ({
+          selectedAccountId: id,
+        })),
+      // Items whose account no longer exists are restored into the current account, and a daily journal
+      // or review whose day or period has been written again is merged into the new one
+      restoreFromTrash: (ids) =>
+        set((state) => {
+          const restoring = state.trash.filter((t) => ids.includes(t.item.id))
+          const dailyJournals = restoring.reduce((journals, t) => {
+            if (t.kind !== 'dailyJournal') return journals
+            const current = journals.find((j) => j.date === t.item.date)
+            return current ? journals.map((j) => (j === current ? mergeDailyJournals(current, t.item) : j)) : [...journals, t.item]
+          }, state.dailyJournals)
+          const reviews = restoring.reduce((current, t) => {
+            if (t.kind !== 'review') return current
+            const existing = current.find((r) => r.period === t.item.period && r.start === t.item.start)
+            return existing
+              ? current.map((r) => (r === existing ? { ...r, sections: mergeSectionTexts(r.sections, t.item.sections), updatedAt: new Date().toISOString() } : r))
+              : [...current, t.item]
+          }, state.reviews)
+          const accountIds = new Set(state.accounts.map((a) => a.id))
+          const toAccount = (accountId: string) => (accountIds.has(accountId) ? accountId : getTargetAccountId(state))
+          return withHistory(state, `Restore ${restoring.length} item${restoring.length === 1 ? '' : 's'}`, {
+            trash: state.trash.filter((t) => !ids.includes(t.item.id)),
+            entries: [
+              ...state.entries,
+              ...restoring.flatMap((t) => (t.kind === 'entry' ? [{ ...t.item, accountId: toAccount(t.item.accountId) }] : [])),
+            ],
+            capitalEvents: [
+              ...state.capitalEvents,
+              ...restoring.flatMap((t) => (t.kind === 'capitalEvent' ? [{ ...t.item, accountId: toAccount(t.item.accountId) }] : [])),
+            ],
+            rules: [...state.rules, ...restoring.flatMap((t) => (t.kind === 'rule' ? [t.item] : []))],
+            playbooks: [...state.playbooks, ...restoring.flatMap((t) => (t.kind === 'playbook' ? [t.item] : []))],
+            plans: [
+              ...state.plans,
+              ...restoring.flatMap((t) => (t.kind === 'plan' ? [{ ...t.item, accountId: toAccount(t.item.accountId) }] : [])),
+            ],
+            dailyJournals,
+            reviews,
+          })
+        }),
+      deleteFromTrash: (ids) =>
+        set((state) => {
+          const trash = state.trash.filter((t) => !ids.includes(t.item.id))
+          return withHistory(state, 'Delete permanently', { trash, revisions: pruneRevisions(state.revisions, state.entries, trash) })
+        }),
+      emptyTrash: () =>
+        set((state) => withHistory(state, 'Empty trash', { trash: [], revisions: pruneRevisions(state.revisions, state.entries, []) })),
+      purgeExpiredTrash: () =>
+        set((state) => {
+          const days = state.settings.trashRetentionDays
+          if (!days || days <= 0) return state
+          const cutoff = Date.now() - days * 24 * 60 * 60 * 1000
+          const trash = state.trash.filter((t) => new Date(t.deletedAt).getTime() >= cutoff)
+          if (trash.length === state.trash.length) return state
+          // Housekeeping rather than a user action: older steps would bring the purged items back, so history starts fresh
+          return { trash, revisions: pruneRevisions(state.revisions, state.entries, trash), past: [], future: [] }
+        }),
+      undo: () => {
+        const step = get().past[get().past.length - 1]
+        if (!step) return null
+        set((state) => ({
+          ...step.state,
+          past: state.past.slice(0, -1),
+          future: [...state.future, { label: step.label, state: pickSlices(state, step.state) }],
+        }))
+        return step.label
+      },
+      redo: () => {
+        const step = get().future[get().future.length - 1]
+        if (!step) return null
+        set((state) => ({
+          ...step.state,
+          future: state.future.slice(0, -1),
+          past: [...state.past, { label: step.label, state: pickSlices(state, step.state) }],
+        }))
+        return step.label
+      },
     }),
     {
       name: 'trade-store',
       storage: createJSONStorage(() => localforage),
+      version: SCHEMA_VERSION,
+      // Only the data is persisted; undo/redo history stays in memory
+      partialize: (state): PersistedTradeState => ({
+        entries: state.entries,
+        settings: state.settings,
+        capitalEvents: state.capitalEvents,
+        rules: state.rules,
+        playbooks: state.playbooks,
+        plans: state.plans,
+        dailyJournals: state.dailyJournals,
+        reviews: state.reviews,
+        accounts: state.accounts,
+        selectedAccountId: state.selectedAccountId,
+        trash: state.trash,
+        revisions: state.revisions,
+      }),
+      // Drop trashed items past the retention period on startup, then move any
+      // base64 images into the image store and delete images nothing references
+      onRehydrateStorage: () => (state, error) => {
+        if (error || !state) return
+        state.purgeExpiredTrash()
+        migrateInlineImages()
+          .then(pruneUnusedImages)
+          .catch((e) => console.error('Error migrating images:', e))
+      },
+      // Older persisted data is upgraded through the same steps as imported backups
+      migrate: (persistedState, version) =>
+        migratePersistedState(persistedState, version) as unknown as TradeStore,
     }
   )
 )
 
-// Add setup alias map for consistent normalization across the app
-const SETUP_ALIASES: Record<string, string> = {
-  // Timeframe variations for 1H BP
-  '1h bp': '1H BP',
-  '1h break and pullback': '1H BP',
-  '1h break & pullback': '1H BP',
-  '1h break and pull': '1H BP',
-  '1h break & pull': '1H BP',
-  '1h breakpull': '1H BP',
-  '1h breakpullback': '1H BP',
-  '1h bp setup': '1H BP',
-  '1h break and pullback setup': '1H BP',
-  '1h break & pullback setup': '1H BP',
-  '1h break and pull setup': '1H BP',
-  '1h break & pull setup': '1H BP',
-  '1h breakpull setup': '1H BP',
-  '1h breakpullback setup': '1H BP',
-  
-  // Add more aliases as needed, e.g., for other setups like 'Baby':
-  'baby - 1h bp trades': 'Baby',
-  'baby - shesh setup': 'Baby',
-  'baby setup': 'Baby',
-  'babytrades': 'Baby',
-  'baby strategy': 'Baby',
-  'baby': 'Baby',
-  
-  // Coin aliases
-  'btc': 'BTC',
-  'ethereum': 'ETH',
-  'solana': 'SOL',
-  'bnb': 'BNB',
-  // Add more coin aliases as needed
-};
-
-// Helper function to normalize setup or coin names
-export function normalizeTradeName(name: string): string {
-  if (!name || typeof name !== 'string') return '';
-  
-  // First normalize the input - convert to lowercase and trim
-  const normalized = name.toLowerCase().trim();
-  
-  // Check if this normalized name has an alias
-  const alias = SETUP_ALIASES[normalized];
-  if (alias) return alias;
-  
-  // If no direct alias, try to find a partial match
-  for (const [key, value] of Object.entries(SETUP_ALIASES)) {
-    if (normalized.includes(key.toLowerCase()) || key.toLowerCase().includes(normalized)) {
-      return value;
+// Trades, capital events and starting capital for the account picked in the switcher.
+// With ALL_ACCOUNTS selected every account is aggregated and initial capital is summed.
+export function useAccountScope() {
+  const { entries, capitalEvents, plans, accounts, selectedAccountId } = useTradeStore()
+  return useMemo(() => {
+    const isAllAccounts = selectedAccountId === ALL_ACCOUNTS
+    const account = isAllAccounts ? null : accounts.find((a) => a.id === selectedAccountId) ?? null
+    const scopedAccounts = account ? [account] : accounts
+    const inScope = (accountId: string) => isAllAccounts || accountId === selectedAccountId
+    return {
+      isAllAccounts,
+      account,
+      accounts: scopedAccounts,
+      entries: entries.filter((e) => inScope(e.accountId)),
+      capitalEvents: capitalEvents.filter((e) => inScope(e.accountId)),
+      plans: plans.filter((p) => inScope(p.accountId)),
+      initialCapital: scopedAccounts.reduce((sum, a) => sum + (a.initialCapital || 0), 0),
     }
-  }
-  
-  // If no match found, return the original name with proper capitalization
-  return name.split(' ')
-    .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
-    .join(' ');
+  }, [entries, capitalEvents, plans, accounts, selectedAccountId])
+}
+
+// Every trade copy the store holds: live entries, trashed entries and revision snapshots
+function allTradeCopies(state: Pick<TradeStore, 'entries' | 'trash' | 'revisions'>): TradeEntry[] {
+  return [
+    ...state.entries,
+    ...state.trash.flatMap((t) => (t.kind === 'entry' ? [t.item] : [])),
+    ...state.revisions.map((r) => r.snapshot),
+  ]
+}
+
+// Live and trashed playbooks
+function allPlaybookCopies(state: Pick<TradeStore, 'playbooks' | 'trash'>): Playbook[] {
+  return [...state.playbooks, ...state.trash.flatMap((t) => (t.kind === 'playbook' ? [t.item] : []))]
+}
+
+function replaceImages(entry: TradeEntry, ids: Map<string, string>): TradeEntry {
+  if (!entry.images?.some((img) => ids.has(img))) return entry
+  return { ...entry, images: entry.images.map((img) => ids.get(img) ?? img) }
+}
+
+function replaceExampleImages(playbook: Playbook, ids: Map<string, string>): Playbook {
+  if (!playbook.examples.some((ex) => ids.has(ex.imageId))) return playbook
+  return { ...playbook, examples: playbook.examples.map((ex) => ({ ...ex, imageId: ids.get(ex.imageId) ?? ex.imageId })) }
+}
+
+// Moves base64 images kept on entries and playbooks (data saved before the image store, or
+// imported backups) into the image store and swaps them for ids
+export async function migrateInlineImages(): Promise<number> {
+  const state = useTradeStore.getState()
+  const inline = [
+    ...allTradeCopies(state).flatMap((e) => e.images ?? []),
+    ...allPlaybookCopies(state).flatMap((p) => p.examples.map((ex) => ex.imageId)),
+  ].filter(isInlineImage)
+  if (inline.length === 0) return 0
+
+  const ids = await storeInlineImages(inline)
+  useTradeStore.setState((state) => ({
+    entries: state.entries.map((e) => replaceImages(e, ids)),
+    playbooks: state.playbooks.map((p) => replaceExampleImages(p, ids)),
+    trash: state.trash.map((t) =>
+      t.kind === 'entry' ? { ...t, item: replaceImages(t.item, ids) } : t.kind === 'playbook' ? { ...t, item: replaceExampleImages(t.item, ids) } : t
+    ),
+    revisions: state.revisions.map((r) => ({ ...r, snapshot: replaceImages(r.snapshot, ids) })),
+    // History still points at the data URLs; it is in-memory only, so start it fresh
+    past: [],
+    future: [],
+  }))
+  return ids.size
+}
+
+// Deletes stored images no longer used by any entry, playbook, trashed item, revision or undo step
+export async function pruneUnusedImages(): Promise<number> {
+  const state = useTradeStore.getState()
+  const historySteps = [...state.past, ...state.future]
+  const historyCopies = historySteps.flatMap((step) => [
+    ...(step.state.entries ?? []),
+    ...(step.state.trash ?? []).flatMap((t) => (t.kind === 'entry' ? [t.item] : [])),
+    ...(step.state.revisions ?? []).map((r) => r.snapshot),
+  ])
+  const historyPlaybooks = historySteps.flatMap((step) => [
+    ...(step.state.playbooks ?? []),
+    ...(step.state.trash ?? []).flatMap((t) => (t.kind === 'playbook' ? [t.item] : [])),
+  ])
+  const referenced = new Set([
+    ...[...allTradeCopies(state), ...historyCopies].flatMap((e) => e.images ?? []),
+    ...[...allPlaybookCopies(state), ...historyPlaybooks].flatMap((p) => p.examples.map((ex) => ex.imageId)),
+  ])
+  return pruneImages(referenced)
+}
+
+// Canonical setup or coin name, using the alias dictionary and fuzzy threshold from settings
+export function normalizeTradeName(name: string): string {
+  if (!name || typeof name !== 'string') return ''
+  const { aliases, aliasFuzzyThreshold } = useTradeStore.getState().settings
+  return resolveTradeName(name, aliases, aliasFuzzyThreshold)
 }
 
 // Helper function to create a storage object for Zustand